@@ -0,0 +1,128 @@
+/**
+ * Server-side checklist evaluation.
+ *
+ * Computes what the card shows and saves (required flags, completion, dossier
+ * state and missing documents) from the stored properties alone, so a dossier
+ * can be recomputed without opening the card.
+ */
+
+import { type EvaluationOptions, type RecordProperties } from './conditions';
+import {
+  SOUS_CATEGORIE_PROPERTY,
+  calculateDossierState,
+  calculateMissingDocuments,
+  checkCompletion,
+  createDocuments,
+  getMissingDocumentsList,
+  getTabForNatureDemande,
+  resolveDocuments,
+  toBool,
+  type DocumentConfig,
+  type TabDefinition,
+} from './documents';
+import { getDocumentStatus, type DocumentStatus } from './review';
+import { resolveDossierState } from './states';
+import { getValidityStatus, type ValidityStatus } from './validity';
+
+export const COMPLETION_PROPERTY = 'documents_completed';
+export const DOSSIER_STATE_PROPERTY = 'etat_du_dossier';
+export const MISSING_DOC_PROPERTY = 'missing_doc';
+
+export interface EvaluatedDocument {
+  id: string;
+  name: string;
+  required: boolean;
+  provided: boolean;
+  /** Validity on the evaluation date, null for documents without a validity rule. */
+  validity: ValidityStatus | null;
+  status: DocumentStatus;
+}
+
+export interface ChecklistOptions extends EvaluationOptions {
+  /** tabs.json, to find the tab of the dossier's sous_categorie. */
+  tabs?: TabDefinition[];
+}
+
+export interface ChecklistEvaluation {
+  /** Tab of the dossier's sous_categorie, null when its procedure has no tab. */
+  tabId: string | null;
+  documents: EvaluatedDocument[];
+  /** Names of required documents not validated or expired, rejected ones with their reason. */
+  missing: string[];
+  /** missing_doc rich text. */
+  missingDoc: string;
+  completed: boolean;
+  /** Stored state when set by a lawyer, otherwise automaticState (see core/states.ts). */
+  dossierState: string;
+  /** State computed from the documents alone. */
+  automaticState: string;
+  /**
+   * Values to store, as HubSpot strings: every required flag, the completion,
+   * the state and the missing list. Documents sharing a required property set
+   * it when any of them is required.
+   */
+  properties: Record<string, string>;
+}
+
+/**
+ * Evaluates the checklist of a dossier from its stored properties.
+ */
+export const evaluateChecklist = (
+  configs: DocumentConfig[],
+  properties: RecordProperties,
+  { tabs = [], ...options }: ChecklistOptions = {}
+): ChecklistEvaluation => {
+  const documents = resolveDocuments(createDocuments(configs), properties, options);
+  const completed = checkCompletion(documents, options);
+  const automaticState = calculateDossierState(documents, options);
+  const dossierState = resolveDossierState(properties[DOSSIER_STATE_PROPERTY], automaticState);
+  const missingDoc = calculateMissingDocuments(documents, properties, options);
+
+  const values: Record<string, string> = {};
+  documents.forEach(doc => {
+    if (!doc.requiredProperty) return;
+    values[doc.requiredProperty] = values[doc.requiredProperty] === 'true' || doc.required ? 'true' : 'false';
+  });
+  values[COMPLETION_PROPERTY] = completed ? 'true' : 'false';
+  values[DOSSIER_STATE_PROPERTY] = dossierState;
+  values[MISSING_DOC_PROPERTY] = missingDoc;
+
+  return {
+    tabId: getTabForNatureDemande(String(properties[SOUS_CATEGORIE_PROPERTY] ?? ''), tabs),
+    documents: documents.map(doc => ({
+      id: doc.id,
+      name: doc.name,
+      required: doc.required,
+      provided: doc.provided,
+      validity: getValidityStatus(doc, options),
+      status: getDocumentStatus(doc),
+    })),
+    missing: getMissingDocumentsList(documents, properties, options),
+    missingDoc,
+    completed,
+    dossierState,
+    automaticState,
+    properties: values,
+  };
+};
+
+/**
+ * Values of an evaluation that differ from the stored properties.
+ * Flags compare as booleans, so an unset flag equals "false".
+ */
+export const getChangedProperties = (
+  evaluation: Pick<ChecklistEvaluation, 'properties'>,
+  stored: RecordProperties
+): Record<string, string> => {
+  const changed: Record<string, string> = {};
+  Object.entries(evaluation.properties).forEach(([name, value]) => {
+    const current = stored[name];
+    const same = value === 'true' || value === 'false'
+      ? toBool(current) === (value === 'true')
+      : String(current ?? '') === value;
+    if (!same) {
+      changed[name] = value;
+    }
+  });
+  return changed;
+};
@@ -0,0 +1,527 @@
+/**
+ * Condition engine for document requirements.
+ *
+ * Framework-free so it can be shared by the CRM card and the app functions.
+ * Conditions are evaluated against HubSpot record properties and can be
+ * combined with explicit `all` / `any` / `not` groups.
+ */
+
+export const CONDITION_OPERATORS = [
+  'equals',
+  'not_equals',
+  'contains',
+  'not_contains',
+  'in',
+  'not_in',
+  'is_empty',
+  'is_not_empty',
+  'is_known',
+  'gt',
+  'gte',
+  'lt',
+  'lte',
+  'between',
+  'matches',
+] as const;
+
+export type ConditionOperator = typeof CONDITION_OPERATORS[number];
+
+export type RecordProperties = Record<string, any>;
+
+/**
+ * Value compared by a condition.
+ * - `in` / `not_in` accept a single value or a list of values.
+ * - `gt` / `gte` / `lt` / `lte` accept a number, an ISO date ("2020-01-31")
+ *   or a date relative to today ("today", "today-5y", "today+3m").
+ * - `between` takes an inclusive `[min, max]` pair of the same kinds.
+ * - `is_empty` / `is_not_empty` / `is_known` take no value.
+ */
+export type ConditionValue = string | number | Array<string | number>;
+
+/**
+ * Leaf condition comparing a single record property to a value.
+ */
+export interface PropertyCondition {
+  property: string;
+  operator: ConditionOperator;
+  value?: ConditionValue;
+}
+
+/**
+ * Options for evaluating conditions.
+ * `now` is the reference date for relative date values, mostly for tests.
+ */
+export interface EvaluationOptions {
+  now?: Date;
+}
+
+/**
+ * Problem found while validating a condition.
+ * `path` points at the offending condition, e.g. "conditions[0].any[1]".
+ */
+export interface ConditionIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown when a condition cannot be evaluated, e.g. an unknown operator.
+ * Conditions are never silently treated as matching.
+ */
+export class ConditionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConditionError';
+  }
+}
+
+/**
+ * Group matching when every child condition matches.
+ */
+export interface AllCondition {
+  all: DocumentCondition[];
+}
+
+/**
+ * Group matching when at least one child condition matches.
+ */
+export interface AnyCondition {
+  any: DocumentCondition[];
+}
+
+/**
+ * Group matching when its child condition does not match.
+ */
+export interface NotCondition {
+  not: DocumentCondition;
+}
+
+/**
+ * Condition for determining when a document should be required.
+ * Either a property comparison or a nested group of conditions.
+ */
+export type DocumentCondition = PropertyCondition | AllCondition | AnyCondition | NotCondition;
+
+export const isPropertyCondition = (condition: DocumentCondition): condition is PropertyCondition => {
+  return typeof (condition as PropertyCondition).property === 'string';
+};
+
+export const isAllCondition = (condition: DocumentCondition): condition is AllCondition => {
+  return Array.isArray((condition as AllCondition).all);
+};
+
+export const isAnyCondition = (condition: DocumentCondition): condition is AnyCondition => {
+  return Array.isArray((condition as AnyCondition).any);
+};
+
+export const isNotCondition = (condition: DocumentCondition): condition is NotCondition => {
+  return (condition as NotCondition).not !== undefined && (condition as NotCondition).not !== null;
+};
+
+/**
+ * Looks up a property value, falling back to a case-insensitive key match.
+ */
+const getPropertyValue = (properties: RecordProperties, property: string): any => {
+  const value = properties[property];
+  if (value !== undefined) {
+    return value;
+  }
+  const foundKey = Object.keys(properties).find(k => k.toLowerCase() === property.toLowerCase());
+  return foundKey ? properties[foundKey] : undefined;
+};
+
+const normalizeForComparison = (str: string): string => {
+  return str.trim().replace(/\s+/g, ' ');
+};
+
+/**
+ * Checks whether a multi-select property contains the given value.
+ * HubSpot multi-select fields can be a single string ("Value"),
+ * semicolon-separated ("Value1;Value2") or an array (["Value1", "Value2"]).
+ */
+const multiSelectIncludes = (propertyValue: any, conditionValue: string): boolean => {
+  const propValueStr = propertyValue ? String(propertyValue).trim() : '';
+  if (!propertyValue || propValueStr === '') {
+    return false;
+  }
+
+  if (Array.isArray(propertyValue)) {
+    return propertyValue.some(val => String(val).trim() === conditionValue);
+  }
+
+  const normalizedCondition = normalizeForComparison(conditionValue);
+
+  if (propValueStr.includes(';')) {
+    const values = propValueStr.split(';').map(v => normalizeForComparison(v)).filter(v => v !== '');
+    return values.some(val => val === normalizedCondition);
+  }
+
+  if (propValueStr.includes(',')) {
+    const values = propValueStr.split(',').map(v => normalizeForComparison(v)).filter(v => v !== '');
+    return values.some(val => val === normalizedCondition);
+  }
+
+  return normalizeForComparison(propValueStr) === normalizedCondition;
+};
+
+const isEmptyValue = (value: any): boolean => {
+  if (value === undefined || value === null) {
+    return true;
+  }
+  if (Array.isArray(value)) {
+    return value.length === 0;
+  }
+  return String(value).trim() === '';
+};
+
+const RELATIVE_DATE_PATTERN = /^(today|now)(?:\s*([+-])\s*(\d+)\s*([dwmy]))?$/i;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}(?:[T ][\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/;
+
+export const startOfUtcDay = (date: Date): number => {
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
+};
+
+/**
+ * Parses a condition date value: an ISO date or "today" with an optional
+ * offset in days, weeks, months or years ("today-5y").
+ * Returns a UTC timestamp, or null if the value is not a date expression.
+ */
+const parseDateExpression = (value: string, now: Date): number | null => {
+  const trimmed = value.trim();
+  const relative = trimmed.match(RELATIVE_DATE_PATTERN);
+  if (relative) {
+    const date = new Date(startOfUtcDay(now));
+    if (relative[2]) {
+      const amount = Number(relative[3]) * (relative[2] === '-' ? -1 : 1);
+      switch (relative[4].toLowerCase()) {
+        case 'd':
+          date.setUTCDate(date.getUTCDate() + amount);
+          break;
+        case 'w':
+          date.setUTCDate(date.getUTCDate() + amount * 7);
+          break;
+        case 'm':
+          date.setUTCMonth(date.getUTCMonth() + amount);
+          break;
+        case 'y':
+          date.setUTCFullYear(date.getUTCFullYear() + amount);
+          break;
+      }
+    }
+    return date.getTime();
+  }
+  if (ISO_DATE_PATTERN.test(trimmed)) {
+    const parsed = Date.parse(trimmed);
+    return Number.isNaN(parsed) ? null : startOfUtcDay(new Date(parsed));
+  }
+  return null;
+};
+
+/**
+ * Parses a HubSpot date property value.
+ * Date properties come back as ISO strings or as epoch milliseconds.
+ */
+export const parsePropertyDate = (value: any): number | null => {
+  if (isEmptyValue(value)) {
+    return null;
+  }
+  const str = String(value).trim();
+  if (/^-?\d+$/.test(str)) {
+    return startOfUtcDay(new Date(Number(str)));
+  }
+  const parsed = Date.parse(str);
+  return Number.isNaN(parsed) ? null : startOfUtcDay(new Date(parsed));
+};
+
+const parseNumber = (value: any): number | null => {
+  if (isEmptyValue(value)) {
+    return null;
+  }
+  const parsed = Number(String(value).trim().replace(',', '.'));
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+/**
+ * Converts a property value and a condition bound to comparable numbers.
+ * Bounds that look like dates compare the property as a date, anything else as a number.
+ */
+const toComparable = (propertyValue: any, bound: string | number, now: Date): [number, number] | null => {
+  if (typeof bound === 'string') {
+    const date = parseDateExpression(bound, now);
+    if (date !== null) {
+      const propertyDate = parsePropertyDate(propertyValue);
+      return propertyDate === null ? null : [propertyDate, date];
+    }
+  }
+  const boundNumber = parseNumber(bound);
+  const propertyNumber = parseNumber(propertyValue);
+  return boundNumber === null || propertyNumber === null ? null : [propertyNumber, boundNumber];
+};
+
+/**
+ * Parses a `matches` pattern. Patterns can be written as "/pattern/flags".
+ */
+const toRegExp = (pattern: string): RegExp => {
+  const literal = pattern.match(/^\/(.*)\/([a-z]*)$/s);
+  return literal ? new RegExp(literal[1], literal[2]) : new RegExp(pattern);
+};
+
+const toValueList = (value: ConditionValue | undefined): string[] => {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return (Array.isArray(value) ? value : [value]).map(v => String(v).trim());
+};
+
+const toSingleValue = (condition: PropertyCondition): string => {
+  if (Array.isArray(condition.value)) {
+    throw new ConditionError(`Operator "${condition.operator}" on "${condition.property}" expects a single value`);
+  }
+  return condition.value === undefined || condition.value === null ? '' : String(condition.value).trim();
+};
+
+/**
+ * Evaluates a single property condition against HubSpot record properties.
+ * Throws a ConditionError for operators the engine does not know.
+ */
+export const evaluateCondition = (
+  condition: PropertyCondition,
+  properties: RecordProperties,
+  options: EvaluationOptions = {}
+): boolean => {
+  const propertyValue = getPropertyValue(properties, condition.property);
+  const propValueStr = propertyValue ? String(propertyValue).trim() : '';
+  const now = options.now || new Date();
+
+  switch (condition.operator) {
+    case 'equals':
+      return propValueStr === toSingleValue(condition);
+    case 'not_equals':
+      return propValueStr !== toSingleValue(condition);
+    case 'contains':
+      return propValueStr.toLowerCase().includes(toSingleValue(condition).toLowerCase());
+    case 'not_contains':
+      return !propValueStr.toLowerCase().includes(toSingleValue(condition).toLowerCase());
+    case 'in':
+      return toValueList(condition.value).some(value => multiSelectIncludes(propertyValue, value));
+    case 'not_in':
+      return !toValueList(condition.value).some(value => multiSelectIncludes(propertyValue, value));
+    case 'is_empty':
+      return isEmptyValue(propertyValue);
+    case 'is_not_empty':
+    case 'is_known':
+      return !isEmptyValue(propertyValue);
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte': {
+      if (Array.isArray(condition.value) || condition.value === undefined) {
+        throw new ConditionError(`Operator "${condition.operator}" on "${condition.property}" expects a single value`);
+      }
+      const pair = toComparable(propertyValue, condition.value, now);
+      if (!pair) {
+        return false;
+      }
+      const [actual, expected] = pair;
+      if (condition.operator === 'gt') return actual > expected;
+      if (condition.operator === 'gte') return actual >= expected;
+      if (condition.operator === 'lt') return actual < expected;
+      return actual <= expected;
+    }
+    case 'between': {
+      if (!Array.isArray(condition.value) || condition.value.length !== 2) {
+        throw new ConditionError(`Operator "between" on "${condition.property}" expects a [min, max] pair`);
+      }
+      const lower = toComparable(propertyValue, condition.value[0], now);
+      const upper = toComparable(propertyValue, condition.value[1], now);
+      if (!lower || !upper) {
+        return false;
+      }
+      return lower[0] >= lower[1] && upper[0] <= upper[1];
+    }
+    case 'matches':
+      return toRegExp(toSingleValue(condition)).test(propValueStr);
+    default:
+      throw new ConditionError(`Unknown operator "${(condition as PropertyCondition).operator}" on "${condition.property}"`);
+  }
+};
+
+/**
+ * Evaluates a condition or a nested condition group.
+ * An empty `all` group matches, an empty `any` group does not.
+ */
+export const evaluateConditionTree = (
+  condition: DocumentCondition,
+  properties: RecordProperties,
+  options: EvaluationOptions = {}
+): boolean => {
+  if (isPropertyCondition(condition)) {
+    return evaluateCondition(condition, properties, options);
+  }
+  if (isAllCondition(condition)) {
+    return condition.all.every(child => evaluateConditionTree(child, properties, options));
+  }
+  if (isAnyCondition(condition)) {
+    return condition.any.some(child => evaluateConditionTree(child, properties, options));
+  }
+  if (isNotCondition(condition)) {
+    return !evaluateConditionTree(condition.not, properties, options);
+  }
+  throw new ConditionError(`Invalid condition: ${JSON.stringify(condition)}`);
+};
+
+/**
+ * Evaluates a document's condition list.
+ *
+ * Top-level property conditions keep the historical rule: conditions on the
+ * same property are ORed, and the per-property groups are ANDed. Explicit
+ * groups at the top level are ANDed with those property groups.
+ * An empty list always matches.
+ */
+export const evaluateConditions = (
+  conditions: DocumentCondition[],
+  properties: RecordProperties,
+  options: EvaluationOptions = {}
+): boolean => {
+  if (!conditions || conditions.length === 0) {
+    return true;
+  }
+
+  const conditionsByProperty = new Map<string, PropertyCondition[]>();
+  const groups: DocumentCondition[] = [];
+
+  conditions.forEach(condition => {
+    if (isPropertyCondition(condition)) {
+      if (!conditionsByProperty.has(condition.property)) {
+        conditionsByProperty.set(condition.property, []);
+      }
+      conditionsByProperty.get(condition.property)!.push(condition);
+    } else {
+      groups.push(condition);
+    }
+  });
+
+  const allPropertyGroupsMatch = Array.from(conditionsByProperty.values()).every(propConditions => {
+    return propConditions.some(condition => evaluateCondition(condition, properties, options));
+  });
+
+  return allPropertyGroupsMatch && groups.every(group => evaluateConditionTree(group, properties, options));
+};
+
+/**
+ * Returns the property names referenced by a condition list, including nested groups.
+ */
+export const collectConditionProperties = (conditions: DocumentCondition[]): string[] => {
+  const names = new Set<string>();
+
+  const visit = (condition: DocumentCondition) => {
+    if (isPropertyCondition(condition)) {
+      names.add(condition.property);
+    } else if (isAllCondition(condition)) {
+      condition.all.forEach(visit);
+    } else if (isAnyCondition(condition)) {
+      condition.any.forEach(visit);
+    } else if (isNotCondition(condition)) {
+      visit(condition.not);
+    }
+  };
+
+  (conditions || []).forEach(visit);
+  return Array.from(names);
+};
+
+const NO_VALUE_OPERATORS: ConditionOperator[] = ['is_empty', 'is_not_empty', 'is_known'];
+const COMPARISON_OPERATORS: ConditionOperator[] = ['gt', 'gte', 'lt', 'lte'];
+
+const isComparableBound = (value: unknown): boolean => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value);
+  }
+  if (typeof value !== 'string') {
+    return false;
+  }
+  return parseDateExpression(value, new Date()) !== null || parseNumber(value) !== null;
+};
+
+const validatePropertyCondition = (condition: PropertyCondition, path: string): ConditionIssue[] => {
+  const issues: ConditionIssue[] = [];
+  const { operator, value } = condition;
+
+  if (!condition.property || typeof condition.property !== 'string') {
+    issues.push({ path, message: 'Missing property name' });
+  }
+
+  if (!(CONDITION_OPERATORS as readonly string[]).includes(operator)) {
+    issues.push({ path, message: `Unknown operator "${operator}"` });
+    return issues;
+  }
+
+  if (NO_VALUE_OPERATORS.includes(operator)) {
+    return issues;
+  }
+
+  if (value === undefined || value === null) {
+    issues.push({ path, message: `Operator "${operator}" requires a value` });
+    return issues;
+  }
+
+  if (operator === 'in' || operator === 'not_in') {
+    if (Array.isArray(value) && value.length === 0) {
+      issues.push({ path, message: `Operator "${operator}" requires at least one value` });
+    }
+  } else if (operator === 'between') {
+    if (!Array.isArray(value) || value.length !== 2 || !value.every(isComparableBound)) {
+      issues.push({ path, message: 'Operator "between" requires a [min, max] pair of numbers or dates' });
+    }
+  } else if (Array.isArray(value)) {
+    issues.push({ path, message: `Operator "${operator}" expects a single value` });
+  } else if (COMPARISON_OPERATORS.includes(operator)) {
+    if (!isComparableBound(value)) {
+      issues.push({ path, message: `Operator "${operator}" requires a number or a date, got "${value}"` });
+    }
+  } else if (operator === 'matches') {
+    try {
+      toRegExp(String(value));
+    } catch (err) {
+      issues.push({ path, message: `Invalid regular expression "${value}"` });
+    }
+  }
+
+  return issues;
+};
+
+/**
+ * Validates a condition or condition group without evaluating it.
+ * Returns an empty list when the condition is well-formed.
+ */
+export const validateCondition = (condition: DocumentCondition, path: string = 'condition'): ConditionIssue[] => {
+  if (!condition || typeof condition !== 'object') {
+    return [{ path, message: 'Condition must be an object' }];
+  }
+  if (isPropertyCondition(condition)) {
+    return validatePropertyCondition(condition, path);
+  }
+  if (isAllCondition(condition)) {
+    return condition.all.flatMap((child, index) => validateCondition(child, `${path}.all[${index}]`));
+  }
+  if (isAnyCondition(condition)) {
+    if (condition.any.length === 0) {
+      return [{ path, message: 'An "any" group needs at least one condition' }];
+    }
+    return condition.any.flatMap((child, index) => validateCondition(child, `${path}.any[${index}]`));
+  }
+  if (isNotCondition(condition)) {
+    return validateCondition(condition.not, `${path}.not`);
+  }
+  return [{ path, message: 'Condition must have "property", "all", "any" or "not"' }];
+};
+
+/**
+ * Validates a document's condition list.
+ */
+export const validateConditions = (conditions: DocumentCondition[], path: string = 'conditions'): ConditionIssue[] => {
+  if (!Array.isArray(conditions)) {
+    return [{ path, message: 'Conditions must be an array' }];
+  }
+  return conditions.flatMap((condition, index) => validateCondition(condition, `${path}[${index}]`));
+};
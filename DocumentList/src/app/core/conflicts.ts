@@ -0,0 +1,57 @@
+/**
+ * Detection of concurrent edits of the dossier properties.
+ *
+ * The card sends the values it loaded along with the ones it saves. A property
+ * whose stored value no longer matches the loaded one was changed by someone
+ * else in the meantime, unless they made the same change.
+ */
+
+import { toBool } from './documents';
+
+export interface PropertyConflict {
+  property: string;
+  /** Value the user started from. */
+  expected: string;
+  /** Value stored in HubSpot. */
+  current: string;
+  /** Value the user tried to save. */
+  requested: string;
+}
+
+const toValue = (value: unknown): string => {
+  if (typeof value === 'boolean') {
+    return value ? 'true' : 'false';
+  }
+  return value === null || value === undefined ? '' : String(value);
+};
+
+const isFlag = (value: string): boolean => value === 'true' || value === 'false';
+
+/**
+ * Compares stored values. Flags compare as booleans, so an unset flag equals "false".
+ */
+export const sameValue = (a: unknown, b: unknown): boolean => {
+  const left = toValue(a);
+  const right = toValue(b);
+  return isFlag(left) || isFlag(right) ? toBool(left) === toBool(right) : left === right;
+};
+
+/**
+ * Requested properties changed by someone else since they were loaded.
+ * Properties without an expected value are never in conflict.
+ */
+export const getConflicts = (
+  requested: Record<string, unknown>,
+  expected: Record<string, unknown>,
+  current: Record<string, unknown>
+): PropertyConflict[] => {
+  return Object.keys(requested)
+    .filter(property => property in expected)
+    .filter(property => !sameValue(current[property], expected[property]) && !sameValue(current[property], requested[property]))
+    .map(property => ({
+      property,
+      expected: toValue(expected[property]),
+      current: toValue(current[property]),
+      requested: toValue(requested[property]),
+    }));
+};
@@ -0,0 +1,619 @@
+/**
+ * Document checklist rules.
+ *
+ * Pure functions over document configs and HubSpot record properties, shared by
+ * the CRM card and the app functions. Nothing here depends on React or HubSpot.
+ */
+
+import {
+  evaluateConditions,
+  type DocumentCondition,
+  type EvaluationOptions,
+  type RecordProperties,
+} from './conditions';
+import { NOTES_PROPERTY, parseNotes } from './notes';
+import {
+  DOCUMENT_STATUSES,
+  REVIEW_PROPERTY,
+  getDocumentStatus,
+  parseReviews,
+  type DocumentReview,
+  type DocumentStatus,
+} from './review';
+import {
+  VALIDITY_STATUSES,
+  getValidityStatus,
+  parseDocumentDate,
+  type DocumentValidity,
+} from './validity';
+
+/**
+ * Tab-specific configuration for a document.
+ * Each tab can have its own order and conditions.
+ */
+export interface TabConfig {
+  order: number;
+  conditions: DocumentCondition[];
+}
+
+/**
+ * Person a repeated document is about, e.g. "Enfant mineur n°2" (see core/repeat.ts).
+ */
+export interface DocumentGroup {
+  id: string;
+  label: string;
+}
+
+/**
+ * Document configuration loaded from documents.json, with repeated documents
+ * expanded (see core/repeat.ts).
+ * Uses tabConfig for per-tab conditions and ordering.
+ */
+export interface DocumentConfig {
+  id: string;
+  name: string;
+  requiredProperty: string;
+  providedProperty: string;
+  tabConfig: Record<string, TabConfig>;
+  /** Only accepted while recent or unexpired, see core/validity.ts. */
+  validity?: DocumentValidity;
+  /** Date property of a document with a validity rule. */
+  dateProperty?: string;
+  /** Guidance for the client, shown in the card and the missing documents email. */
+  instructions?: string;
+  /** Set on the instances of a repeated document. */
+  group?: DocumentGroup;
+}
+
+/**
+ * Tab declared in tabs.json.
+ */
+export interface TabDefinition {
+  id: string;
+  title: string;
+  description: string;
+  /** sous_categorie values of the procedure shown in this tab. */
+  sousCategories?: string[];
+}
+
+/**
+ * Document state at runtime.
+ * Includes current required/provided status and per-tab configuration.
+ */
+export interface Document {
+  id: string;
+  name: string;
+  required: boolean;
+  provided: boolean;
+  requiredProperty: string;
+  providedProperty: string;
+  tabConfig: Record<string, TabConfig>;
+  validity?: DocumentValidity;
+  dateProperty?: string;
+  instructions?: string;
+  group?: DocumentGroup;
+  /** Stored date (YYYY-MM-DD) of a document with a validity rule. */
+  date: string | null;
+  /** Stored review status, null when none was recorded (see core/review.ts). */
+  status: DocumentStatus | null;
+  /** Why the document was rejected. */
+  rejectionReason: string | null;
+  /** Note about the document on this dossier (see core/notes.ts). */
+  note: string | null;
+}
+
+/**
+ * Catch-all tab listing documents outside the active procedure.
+ */
+export const OTHER_TAB_ID = 'autre';
+
+export const SOUS_CATEGORIE_PROPERTY = 'sous_categorie';
+
+export const DOSSIER_STATES = {
+  TO_BUILD: "À construire",
+  INCOMPLETE: "En construction",
+  COMPLETE: "Complet"
+};
+
+/**
+ * Builds the runtime documents from their configuration, nothing required or provided yet.
+ */
+export const createDocuments = (configs: DocumentConfig[]): Document[] => {
+  return configs.map(config => ({
+    id: config.id,
+    name: config.name,
+    required: false,
+    provided: false,
+    requiredProperty: config.requiredProperty,
+    providedProperty: config.providedProperty,
+    tabConfig: config.tabConfig || {},
+    validity: config.validity,
+    dateProperty: config.dateProperty,
+    instructions: config.instructions,
+    group: config.group,
+    date: null,
+    status: null,
+    rejectionReason: null,
+    note: null
+  }));
+};
+
+/**
+ * Checks if a document belongs to a specific tab.
+ */
+export const documentBelongsToTab = (doc: Pick<Document, 'tabConfig'>, tabId: string): boolean => {
+  return !!doc.tabConfig && tabId in doc.tabConfig;
+};
+
+/**
+ * Gets the order for a document in a specific tab.
+ * Returns the order from tabConfig or 9999 if not found.
+ */
+export const getOrderForTab = (doc: Pick<Document, 'tabConfig'>, tabId: string): number => {
+  return doc.tabConfig?.[tabId]?.order ?? 9999;
+};
+
+/**
+ * Gets conditions for a document in a specific tab.
+ * Returns the conditions array from tabConfig or empty array if not found.
+ */
+export const getConditionsForTab = (doc: Pick<Document, 'tabConfig'>, tabId: string): DocumentCondition[] => {
+  return doc.tabConfig?.[tabId]?.conditions || [];
+};
+
+/**
+ * Gets all conditions across all tabs for a document.
+ * Used when checking if any conditions match regardless of tab.
+ */
+export const getAllConditions = (doc: Pick<Document, 'tabConfig'>): DocumentCondition[] => {
+  if (!doc.tabConfig) return [];
+  const allConditions: DocumentCondition[] = [];
+  Object.values(doc.tabConfig).forEach(config => {
+    if (config.conditions) {
+      allConditions.push(...config.conditions);
+    }
+  });
+  return allConditions;
+};
+
+/**
+ * Converts various HubSpot property value formats to boolean.
+ * Handles strings like "true", "false", "Oui", "Non", "1", "0", etc.
+ */
+export const toBool = (value: any): boolean => {
+  if (typeof value === 'boolean') {
+    return value;
+  }
+
+  if (value === null || value === undefined || value === '') {
+    return false;
+  }
+
+  if (typeof value === 'string') {
+    const lower = value.toLowerCase().trim();
+    return lower === 'true' || lower === '1' || lower === 'yes' || lower === 'oui';
+  }
+
+  if (typeof value === 'number') {
+    return value !== 0;
+  }
+
+  return Boolean(value);
+};
+
+/**
+ * Checks if all conditions for a document are met.
+ * Flat conditions on the same property use OR (any match), conditions on
+ * different properties use AND; explicit all/any/not groups are evaluated as written.
+ *
+ * Without a tab, the document matches when any tab's conditions match. Each
+ * tab's list is evaluated on its own: merging them would AND one tab's extra
+ * questions into every other tab's sous_categorie.
+ *
+ * @param tabId - Optional: specific tab to check conditions for. If not provided, checks all tabs.
+ */
+export const checkDocumentConditions = (
+  doc: Pick<Document, 'tabConfig'>,
+  properties: RecordProperties,
+  tabId?: string,
+  options: EvaluationOptions = {}
+): boolean => {
+  if (tabId) {
+    return evaluateConditions(getConditionsForTab(doc, tabId), properties, options);
+  }
+
+  const tabConditions = Object.values(doc.tabConfig || {})
+    .map(config => config.conditions || [])
+    .filter(conditions => conditions.length > 0);
+
+  if (tabConditions.length === 0) {
+    return true;
+  }
+  return tabConditions.some(conditions => evaluateConditions(conditions, properties, options));
+};
+
+/**
+ * A document is required if manually marked as required OR if it has conditions and they are met.
+ */
+export const isDocumentRequired = (doc: Document, properties: RecordProperties, options: EvaluationOptions = {}): boolean => {
+  if (doc.required) {
+    return true;
+  }
+  return getAllConditions(doc).length > 0 && checkDocumentConditions(doc, properties, undefined, options);
+};
+
+/**
+ * Applies HubSpot values to the documents.
+ *
+ * Documents whose conditions are met are required. When conditions are not met,
+ * a provided document keeps the required flag stored in HubSpot (the user manages
+ * it in the "autre" tab) and a document not provided is reset to not required.
+ * Documents without conditions keep the stored flag.
+ */
+export const resolveDocuments = (
+  documents: Document[],
+  properties: RecordProperties,
+  options: EvaluationOptions = {}
+): Document[] => {
+  const reviews = parseReviews(properties[REVIEW_PROPERTY]);
+  const notes = parseNotes(properties[NOTES_PROPERTY]);
+
+  return documents.map(doc => {
+    const requiredFromHubSpot = toBool(properties[doc.requiredProperty]);
+    const provided = toBool(properties[doc.providedProperty]);
+    const hasConditions = getAllConditions(doc).length > 0;
+
+    let required: boolean;
+    if (hasConditions) {
+      if (checkDocumentConditions(doc, properties, undefined, options)) {
+        required = true;
+      } else {
+        required = provided ? requiredFromHubSpot : false;
+      }
+    } else {
+      required = requiredFromHubSpot;
+    }
+
+    const date = doc.dateProperty ? parseDocumentDate(properties[doc.dateProperty]) : null;
+    const review = reviews[doc.id];
+
+    return {
+      ...doc,
+      required,
+      provided,
+      date,
+      status: review?.status ?? null,
+      rejectionReason: review?.reason || null,
+      note: notes[doc.id] || null,
+    };
+  });
+};
+
+/**
+ * Ids of the documents writing each required/provided property. Several
+ * documents share a property when their names truncate to the same one.
+ */
+export const groupDocumentsByProperty = (
+  configs: Array<Pick<DocumentConfig, 'id' | 'requiredProperty' | 'providedProperty'>>
+): Record<string, string[]> => {
+  const groups: Record<string, string[]> = {};
+  configs.forEach(config => {
+    [config.requiredProperty, config.providedProperty].forEach(property => {
+      if (!property) return;
+      if (!groups[property]) {
+        groups[property] = [];
+      }
+      groups[property].push(config.id);
+    });
+  });
+  return groups;
+};
+
+/**
+ * Flag properties to save: the value of each property, from the documents the
+ * user changed since `initialDocuments` (or all its documents when none
+ * changed), when it differs from the stored value. A shared property is true
+ * when any of those documents is.
+ */
+export const getDocumentPropertyChanges = (
+  documents: Document[],
+  initialDocuments: Document[],
+  stored: RecordProperties,
+  propertyDocuments: Record<string, string[]>
+): Record<string, boolean> => {
+  const current = new Map(documents.map(doc => [doc.id, doc]));
+  const initial = new Map(initialDocuments.map(doc => [doc.id, doc]));
+  const changes: Record<string, boolean> = {};
+
+  Object.entries(propertyDocuments).forEach(([property, ids]) => {
+    const values = ids.flatMap(id => {
+      const doc = current.get(id);
+      if (!doc) return [];
+      const field = doc.requiredProperty === property ? 'required' : 'provided';
+      return [{ value: doc[field], changed: doc[field] !== initial.get(id)?.[field] }];
+    });
+    if (values.length === 0) return;
+
+    const changed = values.filter(entry => entry.changed);
+    const value = (changed.length > 0 ? changed : values).some(entry => entry.value);
+    if (value !== toBool(stored[property])) {
+      changes[property] = value;
+    }
+  });
+
+  return changes;
+};
+
+/**
+ * A provided document past its validity must be provided again.
+ */
+export const isDocumentExpired = (doc: Document, options: EvaluationOptions = {}): boolean => {
+  return doc.provided && getValidityStatus(doc, options) === VALIDITY_STATUSES.EXPIRED;
+};
+
+/**
+ * Validated and still valid. Received documents wait for a lawyer's review.
+ */
+export const isDocumentFulfilled = (doc: Document, options: EvaluationOptions = {}): boolean => {
+  return getDocumentStatus(doc) === DOCUMENT_STATUSES.VALIDATED && !isDocumentExpired(doc, options);
+};
+
+/**
+ * Statuses to save: the documents whose status or rejection reason the user
+ * changed since `initialDocuments`.
+ */
+export const getDocumentReviewChanges = (
+  documents: Document[],
+  initialDocuments: Document[]
+): Record<string, DocumentReview> => {
+  const initial = new Map(initialDocuments.map(doc => [doc.id, doc]));
+  const changes: Record<string, DocumentReview> = {};
+  documents.forEach(doc => {
+    const before = initial.get(doc.id);
+    if (!doc.status || (doc.status === before?.status && doc.rejectionReason === before?.rejectionReason)) return;
+    changes[doc.id] = { status: doc.status, reason: doc.rejectionReason };
+  });
+  return changes;
+};
+
+/**
+ * Date properties to save: the dates the user changed since `initialDocuments`,
+ * empty to clear a date.
+ */
+export const getDocumentDateChanges = (documents: Document[], initialDocuments: Document[]): Record<string, string> => {
+  const initial = new Map(initialDocuments.map(doc => [doc.id, doc]));
+  const changes: Record<string, string> = {};
+  documents.forEach(doc => {
+    if (!doc.dateProperty || doc.date === (initial.get(doc.id)?.date ?? null)) return;
+    changes[doc.dateProperty] = doc.date || '';
+  });
+  return changes;
+};
+
+/**
+ * Notes to save: the documents whose note the user changed since
+ * `initialDocuments`, empty to remove a note.
+ */
+export const getDocumentNoteChanges = (documents: Document[], initialDocuments: Document[]): Record<string, string> => {
+  const initial = new Map(initialDocuments.map(doc => [doc.id, doc]));
+  const changes: Record<string, string> = {};
+  documents.forEach(doc => {
+    if ((doc.note || '') === (initial.get(doc.id)?.note || '')) return;
+    changes[doc.id] = doc.note || '';
+  });
+  return changes;
+};
+
+/**
+ * Checks if all required documents have been validated and are still valid.
+ * Returns true only if there are required documents and all are validated.
+ */
+export const checkCompletion = (docs: Document[], options: EvaluationOptions = {}): boolean => {
+  const incompleteRequired = docs.find(doc => doc.required && !isDocumentFulfilled(doc, options));
+  const hasRequiredDocs = docs.some(doc => doc.required);
+  return !incompleteRequired && hasRequiredDocs;
+};
+
+/**
+ * Calculates the dossier state based on document status.
+ * States: TO_BUILD (no required docs), INCOMPLETE (some provided), COMPLETE (all validated).
+ * Expired documents count as not validated.
+ */
+export const calculateDossierState = (docs: Document[], options: EvaluationOptions = {}): string => {
+  const hasRequiredDocs = docs.some(doc => doc.required);
+  if (!hasRequiredDocs) {
+    return DOSSIER_STATES.TO_BUILD;
+  }
+
+  const anyProvided = docs.some(doc => doc.provided);
+  if (anyProvided) {
+    const allRequiredProvided = !docs.some(doc => doc.required && !isDocumentFulfilled(doc, options));
+    return allRequiredProvided ? DOSSIER_STATES.COMPLETE : DOSSIER_STATES.INCOMPLETE;
+  }
+
+  return DOSSIER_STATES.TO_BUILD;
+};
+
+/**
+ * Name of a document outside its group heading, e.g. "Enfant mineur n°2 – Passeport".
+ */
+export const getDocumentLabel = (doc: Pick<Document, 'name' | 'group'>): string => {
+  return doc.group ? `${doc.group.label} – ${doc.name}` : doc.name;
+};
+
+/**
+ * Name of a missing document, with the reason when it was rejected.
+ */
+const missingDocumentLabel = (doc: Document): string => {
+  const label = getDocumentLabel(doc);
+  if (doc.status !== DOCUMENT_STATUSES.REJECTED) {
+    return label;
+  }
+  return doc.rejectionReason ? `${label} (refusé : ${doc.rejectionReason})` : `${label} (refusé)`;
+};
+
+export interface MissingDocument {
+  id: string;
+  /** Name, with the reason when the document was rejected. */
+  label: string;
+  instructions?: string;
+}
+
+/**
+ * Required documents that have not been validated or are expired.
+ */
+export const getMissingDocuments = (
+  docs: Document[],
+  properties: RecordProperties,
+  options: EvaluationOptions = {}
+): MissingDocument[] => {
+  return docs
+    .filter(doc => doc.name.trim() !== '')
+    .filter(doc => isDocumentRequired(doc, properties, options) && !isDocumentFulfilled(doc, options))
+    .map(doc => ({
+      id: doc.id,
+      label: missingDocumentLabel(doc),
+      ...(doc.instructions ? { instructions: doc.instructions } : {}),
+    }));
+};
+
+/**
+ * Returns the names of required documents that have not been validated or are
+ * expired. Rejected documents carry their reason.
+ */
+export const getMissingDocumentsList = (
+  docs: Document[],
+  properties: RecordProperties,
+  options: EvaluationOptions = {}
+): string[] => {
+  return getMissingDocuments(docs, properties, options).map(doc => doc.label);
+};
+
+const escapeHtml = (text: string): string => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+};
+
+/**
+ * Calculates missing documents (required but not provided) and formats them as an HTML list,
+ * with the instructions of each document.
+ * Used for the missing_doc HubSpot property which is a Rich Text field.
+ */
+export const calculateMissingDocuments = (
+  docs: Document[],
+  properties: RecordProperties,
+  options: EvaluationOptions = {}
+): string => {
+  const missingDocs = getMissingDocuments(docs, properties, options);
+  if (missingDocs.length === 0) {
+    return '';
+  }
+  // Rejection reasons are typed by users
+  const listItems = missingDocs.map(doc => {
+    const instructions = doc.instructions ? `<br><em>${escapeHtml(doc.instructions)}</em>` : '';
+    return `<li>${escapeHtml(doc.label)}${instructions}</li>`;
+  }).join('');
+  return `<ul>${listItems}</ul>`;
+};
+
+/**
+ * Tab of the procedure of a sous_categorie value, from the mapping in tabs.json.
+ * Null when the value is empty or no tab maps it (procedure not configured).
+ */
+export const getTabForNatureDemande = (natureDemandeValue: string, tabs: Array<Pick<TabDefinition, 'id' | 'sousCategories'>>): string | null => {
+  const normalize = (str: string): string => str.trim().replace(/\s+/g, ' ');
+  const normalizedValue = normalize(natureDemandeValue || '');
+  if (!normalizedValue) {
+    return null;
+  }
+
+  const tab = tabs.find(candidate => (candidate.sousCategories || []).some(value => normalize(value) === normalizedValue));
+  return tab ? tab.id : null;
+};
+
+export interface VisibilityInput {
+  documents: Document[];
+  properties: RecordProperties;
+  /** Tab the user is looking at. */
+  selectedTab: string;
+  /** Tab matching the dossier's sous_categorie, if any. */
+  activeTabId: string | null;
+  searchTerm?: string;
+  options?: EvaluationOptions;
+}
+
+/**
+ * Filters and sorts documents visible in the selected tab.
+ *
+ * The active tab shows its documents whose conditions are met, plus documents
+ * that are both required and provided. The "autre" tab shows documents from the
+ * active tab whose conditions are not met, and marked documents from any other tab.
+ */
+export const getVisibleDocuments = ({
+  documents,
+  properties,
+  selectedTab,
+  activeTabId,
+  searchTerm = '',
+  options = {},
+}: VisibilityInput): Document[] => {
+  if (!documents || documents.length === 0) {
+    return [];
+  }
+
+  const visible = documents.filter(doc => {
+    const conditionsMet = checkDocumentConditions(doc, properties, activeTabId || undefined, options);
+
+    if (selectedTab === OTHER_TAB_ID) {
+      if (doc.required || doc.provided) {
+        // Shown in the main tab instead
+        if (conditionsMet && activeTabId && documentBelongsToTab(doc, activeTabId)) {
+          return false;
+        }
+        return true;
+      }
+
+      if (!activeTabId || !documentBelongsToTab(doc, activeTabId)) {
+        return false;
+      }
+
+      return !conditionsMet;
+    }
+
+    if (!documentBelongsToTab(doc, selectedTab)) {
+      return false;
+    }
+
+    return conditionsMet || (doc.required && doc.provided);
+  });
+
+  const term = searchTerm.trim().toLowerCase();
+  const filtered = term
+    ? visible.filter(doc => getDocumentLabel(doc).toLowerCase().includes(term))
+    : visible;
+
+  return filtered.sort((a, b) => getOrderForTab(a, selectedTab) - getOrderForTab(b, selectedTab));
+};
+
+export interface Progress {
+  provided: number;
+  required: number;
+  percentage: number;
+}
+
+/**
+ * Calculates progress over the required documents.
+ * A document is required if conditions are met OR manually set to required.
+ * Expired documents are not counted as provided.
+ */
+export const calculateProgress = (docs: Document[], properties: RecordProperties, options: EvaluationOptions = {}): Progress => {
+  const requiredDocs = docs.filter(doc => isDocumentRequired(doc, properties, options));
+  const providedCount = requiredDocs.filter(doc => isDocumentFulfilled(doc, options)).length;
+  const requiredCount = requiredDocs.length;
+  const percentage = requiredCount > 0 ? Math.round((providedCount / requiredCount) * 100) : 100;
+
+  return {
+    provided: providedCount,
+    required: requiredCount,
+    percentage
+  };
+};
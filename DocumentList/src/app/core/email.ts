@@ -0,0 +1,176 @@
+/**
+ * Missing documents email sent to the client of a dossier.
+ *
+ * The message is rendered from the template of email.json with the missing
+ * documents, their instructions and the client name, then may be edited in
+ * the card before it is sent. Every send is logged on the dossier as a JSON
+ * array, like the document history.
+ */
+
+import { MAX_HISTORY_LENGTH } from './history';
+import { type MissingDocument } from './documents';
+
+/**
+ * Multi-line text property holding the JSON log of sent emails.
+ */
+export const EMAIL_LOG_PROPERTY = 'documents_emails';
+
+/**
+ * Template from email.json. `{{name}}` placeholders are replaced when rendering.
+ */
+export interface EmailTemplate {
+  subject: string;
+  body: string;
+}
+
+/**
+ * Values a template can use.
+ */
+export const TEMPLATE_PLACEHOLDERS = ['salutation', 'client_name', 'missing_documents', 'missing_count'] as const;
+
+export type TemplatePlaceholder = typeof TEMPLATE_PLACEHOLDERS[number];
+
+/**
+ * Greeting when the client name is unknown.
+ */
+export const DEFAULT_SALUTATION = 'Madame, Monsieur';
+
+export interface EmailDraft {
+  /** Recipient address, empty when the dossier has no client email. */
+  to: string;
+  subject: string;
+  body: string;
+}
+
+export const EMAIL_SOURCES = {
+  CARD: 'card',
+  REMINDER: 'reminder',
+} as const;
+
+export type EmailSource = typeof EMAIL_SOURCES[keyof typeof EMAIL_SOURCES];
+
+export interface EmailLogEntry {
+  to: string;
+  subject: string;
+  /** Ids of the documents listed as missing when the email was rendered. */
+  documents: string[];
+  /** Name of the transport that sent it, e.g. "smtp". */
+  transport: string;
+  messageId: string;
+  /** Email or id of the HubSpot user, null for automatic sends. */
+  user: string | null;
+  /** ISO 8601. */
+  timestamp: string;
+  source: EmailSource;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+/**
+ * Numbered list of the missing documents, each followed by its instructions.
+ */
+export const formatMissingDocuments = (documents: MissingDocument[]): string => {
+  return documents.map((doc, index) => {
+    const line = `${index + 1}. ${doc.label}`;
+    return doc.instructions ? `${line}\n   ${doc.instructions}` : line;
+  }).join('\n');
+};
+
+/**
+ * Replaces the `{{name}}` placeholders of a text. Unknown placeholders are kept.
+ */
+export const renderTemplate = (text: string, values: Partial<Record<TemplatePlaceholder, string>>): string => {
+  return text.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    const value = values[name as TemplatePlaceholder];
+    return value === undefined ? match : value;
+  });
+};
+
+/**
+ * Subject and body of the missing documents email of a dossier.
+ */
+export const renderMissingDocumentsEmail = (
+  template: EmailTemplate,
+  { clientName, documents }: { clientName?: string | null; documents: MissingDocument[] }
+): Pick<EmailDraft, 'subject' | 'body'> => {
+  const name = (clientName || '').trim();
+  const values: Record<TemplatePlaceholder, string> = {
+    salutation: name ? `Bonjour ${name}` : DEFAULT_SALUTATION,
+    client_name: name,
+    missing_documents: formatMissingDocuments(documents),
+    missing_count: String(documents.length),
+  };
+  return {
+    subject: renderTemplate(template.subject, values).trim(),
+    body: renderTemplate(template.body, values),
+  };
+};
+
+/**
+ * Problems in an email template, as messages.
+ */
+export const validateEmailTemplate = (template: unknown): string[] => {
+  if (typeof template !== 'object' || template === null || Array.isArray(template)) {
+    return ['the template must be an object'];
+  }
+  const issues: string[] = [];
+  (['subject', 'body'] as const).forEach(field => {
+    const text = (template as Record<string, unknown>)[field];
+    if (typeof text !== 'string' || text.trim() === '') {
+      issues.push(`"${field}" must be a non-empty string`);
+      return;
+    }
+    Array.from(text.matchAll(PLACEHOLDER_PATTERN)).forEach(([, name]) => {
+      if (!(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(name)) {
+        issues.push(`"${field}" uses unknown placeholder {{${name}}}`);
+      }
+    });
+  });
+  const body = (template as Record<string, unknown>).body;
+  if (typeof body === 'string' && !body.includes('missing_documents')) {
+    issues.push('"body" must list the documents with {{missing_documents}}');
+  }
+  return issues;
+};
+
+/**
+ * Whether a recipient looks like a single email address.
+ */
+export const isEmailAddress = (value: unknown): value is string => {
+  return typeof value === 'string' && /^[^\s@<>,;"]+@[^\s@<>,;"]+\.[^\s@<>,;"]+$/.test(value.trim());
+};
+
+/**
+ * Entries of a stored log. Unreadable values yield an empty log.
+ */
+export const parseEmailLog = (value: unknown): EmailLogEntry[] => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed)
+      ? parsed.filter(entry => entry && typeof entry.to === 'string' && typeof entry.timestamp === 'string')
+      : [];
+  } catch (err) {
+    return [];
+  }
+};
+
+/**
+ * Serialized log with the entry appended, without the oldest entries that do
+ * not fit in maxLength.
+ */
+export const appendEmailLog = (
+  value: unknown,
+  entry: EmailLogEntry,
+  maxLength: number = MAX_HISTORY_LENGTH
+): string => {
+  const log = [...parseEmailLog(value), entry];
+  let serialized = JSON.stringify(log);
+  while (serialized.length > maxLength && log.length > 1) {
+    log.shift();
+    serialized = JSON.stringify(log);
+  }
+  return serialized;
+};
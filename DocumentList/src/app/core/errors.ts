@@ -0,0 +1,125 @@
+/**
+ * Error codes returned by the app functions and how the card presents them.
+ */
+
+export const ERROR_CODES = {
+  /** No access token in the app secrets. */
+  MISSING_TOKEN: 'MISSING_TOKEN',
+  /** HubSpot rejected the token (401/403). */
+  INVALID_TOKEN: 'INVALID_TOKEN',
+  /** The card called the function without the object id or payload. */
+  MISSING_PARAMETERS: 'MISSING_PARAMETERS',
+  OBJECT_NOT_FOUND: 'OBJECT_NOT_FOUND',
+  /** A property written by the function does not exist on the object type. */
+  PROPERTY_MISSING: 'PROPERTY_MISSING',
+  RATE_LIMITED: 'RATE_LIMITED',
+  /** Any other HubSpot or network failure. */
+  UPSTREAM_ERROR: 'UPSTREAM_ERROR',
+  /** No usable mail transport in the app secrets. */
+  MAIL_NOT_CONFIGURED: 'MAIL_NOT_CONFIGURED',
+  /** The mail server refused or did not accept the message. */
+  MAIL_FAILED: 'MAIL_FAILED',
+  /** The email recipient is empty or not an address. */
+  INVALID_RECIPIENT: 'INVALID_RECIPIENT',
+  /** The state machine does not allow the requested state, or its guard fails. */
+  INVALID_TRANSITION: 'INVALID_TRANSITION',
+} as const;
+
+export type ErrorCode = typeof ERROR_CODES[keyof typeof ERROR_CODES];
+
+/**
+ * What the user can do about an error:
+ * - retry: the call may succeed if repeated, the card offers a "Réessayer" button
+ * - configure: an administrator must fix the app secrets or the HubSpot properties
+ * - none: nothing to do from the card
+ */
+export type RecoveryAction = 'retry' | 'configure' | 'none';
+
+export interface ErrorPresentation {
+  title: string;
+  message: string;
+  action: RecoveryAction;
+}
+
+export const ERROR_PRESENTATION: Record<ErrorCode, ErrorPresentation> = {
+  MISSING_TOKEN: {
+    title: 'Configuration incomplète',
+    message: "Le jeton d'accès HubSpot n'est pas configuré dans les secrets de l'application (hubspot_api_key).",
+    action: 'configure',
+  },
+  INVALID_TOKEN: {
+    title: 'Accès refusé',
+    message: "HubSpot a refusé le jeton d'accès de l'application. Vérifiez qu'il est valide et dispose des droits CRM.",
+    action: 'configure',
+  },
+  MISSING_PARAMETERS: {
+    title: 'Dossier introuvable',
+    message: "L'identifiant du dossier n'a pas pu être déterminé. Rechargez la page.",
+    action: 'retry',
+  },
+  OBJECT_NOT_FOUND: {
+    title: 'Dossier introuvable',
+    message: "Ce dossier n'existe pas ou a été supprimé dans HubSpot.",
+    action: 'none',
+  },
+  PROPERTY_MISSING: {
+    title: 'Propriétés HubSpot manquantes',
+    message: "Certaines propriétés de la checklist n'existent pas sur l'objet Dossier juridique. Les autres modifications ont été enregistrées.",
+    action: 'configure',
+  },
+  RATE_LIMITED: {
+    title: 'HubSpot est surchargé',
+    message: 'Trop de requêtes ont été envoyées à HubSpot. Patientez quelques secondes puis réessayez.',
+    action: 'retry',
+  },
+  UPSTREAM_ERROR: {
+    title: 'Erreur HubSpot',
+    message: 'HubSpot a renvoyé une erreur inattendue. Réessayez ; si le problème persiste, contactez un administrateur.',
+    action: 'retry',
+  },
+  MAIL_NOT_CONFIGURED: {
+    title: "Envoi d'email non configuré",
+    message: "Le serveur d'envoi des emails n'est pas configuré dans les secrets de l'application (smtp_host, mail_from).",
+    action: 'configure',
+  },
+  MAIL_FAILED: {
+    title: "L'email n'a pas été envoyé",
+    message: "Le serveur d'envoi a refusé l'email ou n'a pas répondu. Réessayez ; si le problème persiste, contactez un administrateur.",
+    action: 'retry',
+  },
+  INVALID_RECIPIENT: {
+    title: 'Destinataire invalide',
+    message: "Saisissez l'adresse email du client avant d'envoyer.",
+    action: 'none',
+  },
+  INVALID_TRANSITION: {
+    title: "Changement d'état impossible",
+    message: "Le dossier ne remplit pas les conditions de cet état, ou son état a été modifié entre-temps. Rechargez la page.",
+    action: 'none',
+  },
+};
+
+/**
+ * Configuration errors affect every call, so the card stops calling the
+ * functions until the user retries.
+ */
+export const isConfigurationError = (code: ErrorCode): boolean => {
+  return code === ERROR_CODES.MISSING_TOKEN || code === ERROR_CODES.INVALID_TOKEN;
+};
+
+/**
+ * Error code for an HTTP status returned by HubSpot.
+ */
+export const errorCodeForStatus = (status: number | undefined): ErrorCode => {
+  switch (status) {
+    case 401:
+    case 403:
+      return ERROR_CODES.INVALID_TOKEN;
+    case 404:
+      return ERROR_CODES.OBJECT_NOT_FOUND;
+    case 429:
+      return ERROR_CODES.RATE_LIMITED;
+    default:
+      return ERROR_CODES.UPSTREAM_ERROR;
+  }
+};
@@ -0,0 +1,228 @@
+/**
+ * Contracts of the app functions called by the CRM card.
+ *
+ * Each function in src/app/functions takes its parameters from
+ * `context.parameters` and returns one of these results; the card calls them
+ * through the same types, so a contract change fails to compile on both sides.
+ */
+
+import { type ChecklistEvaluation } from './checklist';
+import { type PropertyConflict } from './conflicts';
+import { type MissingDocument } from './documents';
+import { type EmailDraft, type EmailLogEntry } from './email';
+import { type ErrorCode } from './errors';
+import { type DocumentReview } from './review';
+
+export type FunctionStatus = 'success' | 'partial_success' | 'error';
+
+export interface FunctionSuccess<T = undefined> {
+  status: 'success';
+  message: string;
+  data?: T;
+}
+
+export interface FunctionPartialSuccess<T> {
+  status: 'partial_success';
+  message: string;
+  data: T;
+}
+
+export interface FunctionError {
+  status: 'error';
+  /** What went wrong, for the card to choose a message and recovery action. */
+  code: ErrorCode;
+  /** Technical detail, for logs. */
+  message: string;
+}
+
+export type FunctionResult<T = undefined, P = never> =
+  | FunctionSuccess<T>
+  | FunctionPartialSuccess<P>
+  | FunctionError;
+
+/**
+ * Context HubSpot passes to an app function.
+ * Card parameters are untrusted input, so every field is optional.
+ */
+export interface FunctionContext<P> {
+  parameters?: Partial<P>;
+  propertiesToSend?: Record<string, any>;
+  secrets?: Record<string, string | undefined>;
+  accessToken?: string;
+  recordId?: string | number;
+  hs_object_id?: string | number;
+}
+
+/**
+ * Dossier the function reads or writes.
+ */
+type ObjectReference = {
+  hs_object_id: string;
+};
+
+export type GetDocumentValuesParameters = ObjectReference & {
+  /** Properties to read; defaults to every document property. */
+  propertyNames?: string[];
+  /** Also reads documents_completed and etat_du_dossier. */
+  includeCompletion?: boolean;
+};
+
+export interface DocumentValues {
+  /**
+   * Requested property values as strings. Document flags default to "false",
+   * other empty values to "", and multi-select values are joined with ";".
+   */
+  properties: Record<string, string>;
+}
+
+export type GetDocumentValuesResult = FunctionResult<DocumentValues>;
+
+export type UpdateDocumentsParameters = ObjectReference & {
+  /** Property values keyed by property name; booleans are written as "true"/"false", an empty document date clears it. */
+  documents: Record<string, boolean | string>;
+  /**
+   * Values the user started from, by property. Properties someone else changed
+   * since are not written and are reported as conflicts.
+   */
+  expected?: Record<string, boolean | string>;
+  /** Email or id of the HubSpot user saving, recorded in the document history. */
+  user?: string;
+  /** Review statuses to set, by document id. Merged into the stored ones with the user and time. */
+  reviews?: Record<string, DocumentReview>;
+  /** Notes to set, by document id; an empty note removes it. Other notes are kept. */
+  notes?: Record<string, string>;
+};
+
+export interface UpdatedObject {
+  id?: string;
+  properties?: Record<string, string | null>;
+}
+
+export interface ConflictingUpdate {
+  /** Properties written. */
+  updated: Record<string, string>;
+  /** Properties left as someone else saved them. */
+  conflicts: PropertyConflict[];
+  /**
+   * Properties not written: questionnaire answers, which the checklist never
+   * writes, and properties that do not exist on the object type.
+   */
+  failed: string[];
+}
+
+/**
+ * partial_success when some properties were changed by someone else, are
+ * questionnaire answers or do not exist; PROPERTY_MISSING when none of the
+ * requested properties exists.
+ */
+export type UpdateDocumentsResult = FunctionResult<UpdatedObject, ConflictingUpdate>;
+
+export type UpdateCompletionStatusParameters = ObjectReference & {
+  completionStatus?: boolean | 'true' | 'false';
+  /**
+   * State computed from the documents. Manual states are refused with
+   * INVALID_TRANSITION, and a manual state stored on the dossier is kept.
+   */
+  dossierState?: string;
+  /** missing_doc rich text; may be sent alone to refresh the list only. */
+  missingDoc?: string;
+};
+
+export interface CompletionStatus {
+  completionStatus: string | null;
+  /** State stored on the dossier after the update. */
+  dossierState: string | null;
+  missingDoc?: string;
+}
+
+export interface PartialUpdate {
+  updated: Record<string, string>;
+  failed: string[];
+}
+
+export type UpdateCompletionStatusResult = FunctionResult<CompletionStatus, PartialUpdate>;
+
+export type EvaluateChecklistParameters = ObjectReference & {
+  /** Also stores the required flags, completion, state and missing list when they changed. */
+  write?: boolean;
+};
+
+export interface ChecklistResult {
+  evaluation: ChecklistEvaluation;
+  /** Properties written to HubSpot (empty unless `write`). */
+  written: Record<string, string>;
+  /** Properties not written because they do not exist on the object type. */
+  failed: string[];
+}
+
+/** partial_success when some properties could not be written. */
+export type EvaluateChecklistResult = FunctionResult<ChecklistResult, ChecklistResult>;
+
+export type EmailMissingDocumentsParameters = ObjectReference & {
+  /** Sends the email and logs it on the dossier; otherwise it is only rendered. */
+  send?: boolean;
+  /** Edited recipient, subject and body; each defaults to the rendered one. */
+  to?: string;
+  subject?: string;
+  body?: string;
+  /** Email or id of the HubSpot user sending, recorded in the email log. */
+  user?: string;
+};
+
+export interface MissingDocumentsEmail {
+  /** Email rendered from the template, or as sent. */
+  draft: EmailDraft;
+  /** Documents the rendered email lists. */
+  missing: MissingDocument[];
+  /** Log entry of the send, absent for a preview. */
+  sent?: EmailLogEntry;
+}
+
+/** partial_success when the email was sent but could not be logged on the dossier. */
+export type EmailMissingDocumentsResult = FunctionResult<MissingDocumentsEmail, MissingDocumentsEmail>;
+
+export type ChangeDossierStateParameters = ObjectReference & {
+  /** State to move to, through a transition of states.json. */
+  to: string;
+};
+
+export interface DossierStateChange {
+  /** State the dossier was in. */
+  from: string;
+  /** State written. */
+  dossierState: string;
+}
+
+export type ChangeDossierStateResult = FunctionResult<DossierStateChange>;
+
+/**
+ * Parameters and result of every app function, by name in serverless.json.
+ */
+export interface AppFunctions {
+  getDocumentValues: {
+    parameters: GetDocumentValuesParameters;
+    result: GetDocumentValuesResult;
+  };
+  updateDocuments: {
+    parameters: UpdateDocumentsParameters;
+    result: UpdateDocumentsResult;
+  };
+  updateCompletionStatus: {
+    parameters: UpdateCompletionStatusParameters;
+    result: UpdateCompletionStatusResult;
+  };
+  evaluateChecklist: {
+    parameters: EvaluateChecklistParameters;
+    result: EvaluateChecklistResult;
+  };
+  emailMissingDocuments: {
+    parameters: EmailMissingDocumentsParameters;
+    result: EmailMissingDocumentsResult;
+  };
+  changeDossierState: {
+    parameters: ChangeDossierStateParameters;
+    result: ChangeDossierStateResult;
+  };
+}
+
+export type AppFunctionName = keyof AppFunctions;
@@ -0,0 +1,149 @@
+/**
+ * Change log of the document flags of a dossier.
+ *
+ * Every write of `_required`/`_provided` properties appends one entry per
+ * changed document to a JSON array stored on the dossier, so the card can show
+ * who changed what and when.
+ */
+
+import { toBool, type DocumentConfig } from './documents';
+
+/**
+ * Multi-line text property holding the JSON history.
+ */
+export const HISTORY_PROPERTY = 'documents_history';
+
+/**
+ * HubSpot limit for text property values. The oldest entries are dropped to stay under it.
+ */
+export const MAX_HISTORY_LENGTH = 65536;
+
+export const HISTORY_SOURCES = {
+  CARD: 'card',
+  WEBHOOK: 'webhook',
+  BULK: 'bulk',
+} as const;
+
+export type HistorySource = typeof HISTORY_SOURCES[keyof typeof HISTORY_SOURCES];
+
+export type HistoryField = 'required' | 'provided';
+
+export interface HistoryEntry {
+  documentId: string;
+  field: HistoryField;
+  /** HubSpot property written. */
+  property: string;
+  oldValue: boolean;
+  newValue: boolean;
+  /** Email or id of the HubSpot user, null for automatic changes. */
+  user: string | null;
+  /** ISO 8601. */
+  timestamp: string;
+  source: HistorySource;
+}
+
+export interface ChangeAuthor {
+  source: HistorySource;
+  user?: string | null;
+  /** Defaults to now. */
+  timestamp?: string;
+}
+
+/**
+ * Entries for the document flags that change between the stored values and the
+ * written ones. Documents sharing a property each get an entry.
+ */
+export const getDocumentChanges = (
+  configs: DocumentConfig[],
+  stored: Record<string, unknown>,
+  written: Record<string, unknown>,
+  { source, user = null, timestamp = new Date().toISOString() }: ChangeAuthor
+): HistoryEntry[] => {
+  const entries: HistoryEntry[] = [];
+
+  configs.forEach(config => {
+    const fields: Array<[HistoryField, string]> = [
+      ['required', config.requiredProperty],
+      ['provided', config.providedProperty],
+    ];
+    fields.forEach(([field, property]) => {
+      if (!property || !(property in written)) return;
+      const oldValue = toBool(stored[property]);
+      const newValue = toBool(written[property]);
+      if (oldValue !== newValue) {
+        entries.push({ documentId: config.id, field, property, oldValue, newValue, user, timestamp, source });
+      }
+    });
+  });
+
+  return entries;
+};
+
+/**
+ * Entries of a stored history. Unreadable values yield an empty history.
+ */
+export const parseHistory = (value: unknown): HistoryEntry[] => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return [];
+  }
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed)
+      ? parsed.filter(entry => entry && typeof entry.documentId === 'string' && typeof entry.timestamp === 'string')
+      : [];
+  } catch (err) {
+    return [];
+  }
+};
+
+/**
+ * Serialized history with the new entries appended, without the oldest entries
+ * that do not fit in maxLength.
+ */
+export const appendHistory = (
+  value: unknown,
+  entries: HistoryEntry[],
+  maxLength: number = MAX_HISTORY_LENGTH
+): string => {
+  const history = [...parseHistory(value), ...entries];
+  let serialized = JSON.stringify(history);
+  while (serialized.length > maxLength && history.length > 0) {
+    history.shift();
+    serialized = JSON.stringify(history);
+  }
+  return serialized;
+};
+
+/**
+ * Properties to write with the history of the document flags they change.
+ * Call it again with the same author when properties are dropped, so the
+ * history only records what is written.
+ */
+export const withHistory = (
+  configs: DocumentConfig[],
+  properties: Record<string, string>,
+  stored: Record<string, unknown>,
+  author: ChangeAuthor
+): Record<string, string> => {
+  const entries = getDocumentChanges(configs, stored, properties, author);
+  if (entries.length === 0) {
+    return properties;
+  }
+  return { ...properties, [HISTORY_PROPERTY]: appendHistory(stored[HISTORY_PROPERTY], entries) };
+};
+
+/**
+ * Entries grouped by document id, most recent first.
+ */
+export const groupHistoryByDocument = (entries: HistoryEntry[]): Record<string, HistoryEntry[]> => {
+  const grouped: Record<string, HistoryEntry[]> = {};
+  [...entries]
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp))
+    .forEach(entry => {
+      if (!grouped[entry.documentId]) {
+        grouped[entry.documentId] = [];
+      }
+      grouped[entry.documentId].push(entry);
+    });
+  return grouped;
+};
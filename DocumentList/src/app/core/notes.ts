@@ -0,0 +1,55 @@
+/**
+ * Free-text notes about the documents of a dossier, e.g. "2 photos pour le
+ * conjoint". Stored as a JSON object keyed by document id on the dossier, next
+ * to the static instructions of documents.json.
+ */
+
+/**
+ * Multi-line text property holding the JSON notes.
+ */
+export const NOTES_PROPERTY = 'documents_notes';
+
+/**
+ * Longest note the card accepts, so the notes of a dossier fit in one property.
+ */
+export const MAX_NOTE_LENGTH = 1000;
+
+/**
+ * Notes of a stored value, by document id. Unreadable values yield no notes.
+ */
+export const parseNotes = (value: unknown): Record<string, string> => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(value);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      return {};
+    }
+    const notes: Record<string, string> = {};
+    Object.entries(parsed).forEach(([documentId, note]) => {
+      if (typeof note === 'string' && note.trim() !== '') {
+        notes[documentId] = note;
+      }
+    });
+    return notes;
+  } catch (err) {
+    return {};
+  }
+};
+
+/**
+ * Serialized notes with the given documents replaced. An empty note removes it.
+ */
+export const mergeNotes = (value: unknown, changes: Record<string, string>): string => {
+  const notes = parseNotes(value);
+  Object.entries(changes).forEach(([documentId, note]) => {
+    const text = (note || '').trim().slice(0, MAX_NOTE_LENGTH);
+    if (text) {
+      notes[documentId] = text;
+    } else {
+      delete notes[documentId];
+    }
+  });
+  return JSON.stringify(notes);
+};
@@ -0,0 +1,392 @@
+/**
+ * GENERATED FILE - do not edit.
+ * Derived from extensions/documents.json by tools/generateProperties.ts (npm run generate).
+ */
+
+/**
+ * Record properties referenced by document conditions.
+ * Every one of them must be fetched, otherwise its conditions evaluate against an empty value.
+ */
+export const CONDITIONAL_PROPERTIES: readonly string[] = [
+  "sous_categorie",
+  "avez_vous_un_statut_refugie_ou_apatride__",
+  "etes_vous_entre_en_france_il_y_a_moins_de_10_ans__",
+  "quelle_est_votre_situation_professionnel__",
+  "quelle_est_votre_situation_familliale",
+  "l_un_des_epoux__ou_les_deux__a_t_il_eu_des_unions_anterieures__",
+  "avez_vous_des_enfant_mineur__",
+  "domicile__",
+  "percevez_vous_",
+  "etes_vous_marie_depuis_moins_de_5_ans__",
+  "votre_mariage_a_t_il_ete_celebre_a_l_etranger__",
+  "avez_vous_des_enfants__mineurs_ou_majeurs___",
+  "avez_vous_des_enfants_mineurs_etrangers_residant_avec_vous__",
+  "quel_est_votre_lien_avec_le_descendant_francais__",
+  "avez_vous_fait_votre_scolarite_formation_en_france__",
+  "quelle_est_votre_situation_professionnel_aes__",
+];
+
+/**
+ * Document required/provided properties.
+ */
+export const DOCUMENT_PROPERTIES: readonly string[] = [
+  "timbre_fiscal_de_55_required",
+  "timbre_fiscal_de_55_provided",
+  "document_justifiant_de_la_date_et_du_lieu_de_naissance_de_votre_pere_et_votre_mere_et_required",
+  "document_justifiant_de_la_date_et_du_lieu_de_naissance_de_votre_pere_et_votre_mere_et_provided",
+  "copie_rectoverso_du_titre_de_sejour_en_cours_de_validite_required",
+  "copie_rectoverso_du_titre_de_sejour_en_cours_de_validite_provided",
+  "copie_integrale_de_toutes_les_pages_du_passeport_required",
+  "copie_integrale_de_toutes_les_pages_du_passeport_provided",
+  "original_et_copie_dun_diplome_brevet_ou_test_de_francais_niveau_b1tcf_ou_delf_ou_dispense__required",
+  "original_et_copie_dun_diplome_brevet_ou_test_de_francais_niveau_b1tcf_ou_delf_ou_dispense__provided",
+  "bordereau_de_situation_fiscale_modele_p237_original_et_recent_required",
+  "bordereau_de_situation_fiscale_modele_p237_original_et_recent_provided",
+  "copies_de_toutes_les_pages_des_3_derniers_avis_dimposition_ou_de_nonimposition_required",
+  "copies_de_toutes_les_pages_des_3_derniers_avis_dimposition_ou_de_nonimposition_provided",
+  "certificats_originaux_de_l_ofpra_tenant_lieu_d_etat_civil_3_mois_required",
+  "certificats_originaux_de_l_ofpra_tenant_lieu_d_etat_civil_3_mois_provided",
+  "casier_judiciaire_du_pays_dorigine_traduit_via_traducteur_assermente_required",
+  "casier_judiciaire_du_pays_dorigine_traduit_via_traducteur_assermente_provided",
+  "copie_integrale_en_original_de_votre_acte_de_naissance_required",
+  "copie_integrale_en_original_de_votre_acte_de_naissance_provided",
+  "contrat_de_travail_en_cours_mentionnant_le_montant_de_la_remuneration_la_date_de_pris_required",
+  "contrat_de_travail_en_cours_mentionnant_le_montant_de_la_remuneration_la_date_de_pris_provided",
+  "les_3_derniers_bulletins_de_salaire_required",
+  "les_3_derniers_bulletins_de_salaire_provided",
+  "les_certificats_de_travail_concernant_si_possible_les_3_dernieres_annees_ou_le_releve_required",
+  "les_certificats_de_travail_concernant_si_possible_les_3_dernieres_annees_ou_le_releve_provided",
+  "fiches_de_paie_de_novembre_decembre_des_trois_dernieres_annees_si_possible_required",
+  "fiches_de_paie_de_novembre_decembre_des_trois_dernieres_annees_si_possible_provided",
+  "attestation_de_droits_a_l_allocation_d_aide_au_retour_a_l_emploi_required",
+  "attestation_de_droits_a_l_allocation_d_aide_au_retour_a_l_emploi_provided",
+  "les_3_derniers_bordereaux_de_versement_des_indemnites_required",
+  "les_3_derniers_bordereaux_de_versement_des_indemnites_provided",
+  "releve_de_carriere_required",
+  "releve_de_carriere_provided",
+  "autres_justificatifs_de_votre_activite_professionnelle_des_3_dernieres_annees_ou_le_r_required",
+  "autres_justificatifs_de_votre_activite_professionnelle_des_3_dernieres_annees_ou_le_r_provided",
+  "le_dernier_bordereau_de_versement_retraite_required",
+  "le_dernier_bordereau_de_versement_retraite_provided",
+  "titre_de_pension_ou_autre_justificatif_de_versement_de_retraite_avec_mention_du_monta_required",
+  "titre_de_pension_ou_autre_justificatif_de_versement_de_retraite_avec_mention_du_monta_provided",
+  "bilan_financier_synthetique_des_3_derniers_exercices_ou_le_releve_de_carriere_required",
+  "bilan_financier_synthetique_des_3_derniers_exercices_ou_le_releve_de_carriere_provided",
+  "extrait_d_immatriculation_au_registre_du_commerce_ou_des_metiers_required",
+  "extrait_d_immatriculation_au_registre_du_commerce_ou_des_metiers_provided",
+  "statuts_de_la_societe_pour_les_dirigeants_ou_associes_required",
+  "statuts_de_la_societe_pour_les_dirigeants_ou_associes_provided",
+  "certificat_de_scolarite_ou_carte_dinscription_dans_letablissement_denseignement_superieur__required",
+  "certificat_de_scolarite_ou_carte_dinscription_dans_letablissement_denseignement_superieur__provided",
+  "diplome_precedents_a_prendre_si_obtenu_required",
+  "diplome_precedents_a_prendre_si_obtenu_provided",
+  "inscription_a_lordre_required",
+  "inscription_a_lordre_provided",
+  "doc_3_dernieres_declarations_dactivite_trimestrielles_required",
+  "doc_3_dernieres_declarations_dactivite_trimestrielles_provided",
+  "attestation_fiscale_des_trois_dernieres_annees_required",
+  "attestation_fiscale_des_trois_dernieres_annees_provided",
+  "contrat_alternance_ou_de_stage_3_dernieres_fiches_de_paie_required",
+  "contrat_alternance_ou_de_stage_3_dernieres_fiches_de_paie_provided",
+  "copie_integrale_de_l_acte_de_mariage_et_sa_traduction_par_traducteur_assermente_ou_le_required",
+  "copie_integrale_de_l_acte_de_mariage_et_sa_traduction_par_traducteur_assermente_ou_le_provided",
+  "document_d_identite_du_conjoint_attestant_la_ou_les_nationalite_s_d_origine_required",
+  "document_d_identite_du_conjoint_attestant_la_ou_les_nationalite_s_d_origine_provided",
+  "titre_de_sejour_du_conjoint_e_ou_concubin_e_required",
+  "titre_de_sejour_du_conjoint_e_ou_concubin_e_provided",
+  "avis_d_imposition_ou_de_non_imposition_du_conjoint_concubin_des_3_dernieres_annees_required",
+  "avis_d_imposition_ou_de_non_imposition_du_conjoint_concubin_des_3_dernieres_annees_provided",
+  "attestation_sur_lhonneur_de_vie_commune_required",
+  "attestation_sur_lhonneur_de_vie_commune_provided",
+  "preuves_de_communaute_de_vie_required",
+  "preuves_de_communaute_de_vie_provided",
+  "id_du_concubin_ou_titre_de_sejourvisa_si_etranger_required",
+  "id_du_concubin_ou_titre_de_sejourvisa_si_etranger_provided",
+  "doc_3_dernieres_fiches_de_paie_du_concucin_3_derniers_avis_dimpots_contrat_de_travail_required",
+  "doc_3_dernieres_fiches_de_paie_du_concucin_3_derniers_avis_dimpots_contrat_de_travail_provided",
+  "conventionattestation_de_pacs_required",
+  "conventionattestation_de_pacs_provided",
+  "justificatifs_de_vie_commune_required",
+  "justificatifs_de_vie_commune_provided",
+  "id_du_partenaire_required",
+  "id_du_partenaire_provided",
+  "d1_acte_attestant_l_union_acte_de_mariage_et_sa_traduction_s_il_s_agit_d_un_acte_etra_required",
+  "d1_acte_attestant_l_union_acte_de_mariage_et_sa_traduction_s_il_s_agit_d_un_acte_etra_provided",
+  "d1_decision_de_dissolution_de_l_union_acte_de_divorce_et_sa_traduction_s_il_s_agit_d_required",
+  "d1_decision_de_dissolution_de_l_union_acte_de_divorce_et_sa_traduction_s_il_s_agit_d_provided",
+  "d2_acte_attestant_l_union_acte_de_mariage_et_sa_traduction_s_il_s_agit_d_un_acte_etra_required",
+  "d2_acte_attestant_l_union_acte_de_mariage_et_sa_traduction_s_il_s_agit_d_un_acte_etra_provided",
+  "d2_decision_de_dissolution_de_l_union_acte_de_divorce_et_sa_traduction_s_il_s_agit_d_required",
+  "d2_decision_de_dissolution_de_l_union_acte_de_divorce_et_sa_traduction_s_il_s_agit_d_provided",
+  "d3_acte_attestant_l_union_acte_de_mariage_et_sa_traduction_s_il_s_agit_d_un_acte_etra_required",
+  "d3_acte_attestant_l_union_acte_de_mariage_et_sa_traduction_s_il_s_agit_d_un_acte_etra_provided",
+  "d3_decision_de_dissolution_de_l_union_acte_de_divorce_et_sa_traduction_s_il_s_agit_d_required",
+  "d3_decision_de_dissolution_de_l_union_acte_de_divorce_et_sa_traduction_s_il_s_agit_d_provided",
+  "ordonnancejuge_separation_de_corps_required",
+  "ordonnancejuge_separation_de_corps_provided",
+  "mesures_accessoires_pension_logement_required",
+  "mesures_accessoires_pension_logement_provided",
+  "acte_de_deces_du_conjoint_required",
+  "acte_de_deces_du_conjoint_provided",
+  "acte_de_mariage_required",
+  "acte_de_mariage_provided",
+  "em1_passeport_ou_piece_didentite_required",
+  "em1_passeport_ou_piece_didentite_provided",
+  "em1_copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_etr_required",
+  "em1_copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_etr_provided",
+  "em1_justificatif_de_residence_en_france_required",
+  "em1_justificatif_de_residence_en_france_provided",
+  "em2_passeport_ou_piece_didentite_required",
+  "em2_passeport_ou_piece_didentite_provided",
+  "em2_copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_etr_required",
+  "em2_copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_etr_provided",
+  "em2_justificatif_de_residence_en_france_required",
+  "em2_justificatif_de_residence_en_france_provided",
+  "em3_passeport_ou_piece_didentite_required",
+  "em3_passeport_ou_piece_didentite_provided",
+  "em3_copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_etr_required",
+  "em3_copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_etr_provided",
+  "em3_justificatif_de_residence_en_france_required",
+  "em3_justificatif_de_residence_en_france_provided",
+  "em4_passeport_ou_piece_didentite_required",
+  "em4_passeport_ou_piece_didentite_provided",
+  "em4_copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_etr_required",
+  "em4_copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_etr_provided",
+  "em4_justificatif_de_residence_en_france_required",
+  "em4_justificatif_de_residence_en_france_provided",
+  "em5_passeport_ou_piece_didentite_required",
+  "em5_passeport_ou_piece_didentite_provided",
+  "em5_copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_etr_required",
+  "em5_copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_etr_provided",
+  "em5_justificatif_de_residence_en_france_required",
+  "em5_justificatif_de_residence_en_france_provided",
+  "em6_passeport_ou_piece_didentite_required",
+  "em6_passeport_ou_piece_didentite_provided",
+  "em6_copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_etr_required",
+  "em6_copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_etr_provided",
+  "em6_justificatif_de_residence_en_france_required",
+  "em6_justificatif_de_residence_en_france_provided",
+  "em7_passeport_ou_piece_didentite_required",
+  "em7_passeport_ou_piece_didentite_provided",
+  "em7_copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_etr_required",
+  "em7_copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_etr_provided",
+  "em7_justificatif_de_residence_en_france_required",
+  "em7_justificatif_de_residence_en_france_provided",
+  "em8_passeport_ou_piece_didentite_required",
+  "em8_passeport_ou_piece_didentite_provided",
+  "em8_copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_etr_required",
+  "em8_copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_etr_provided",
+  "em8_justificatif_de_residence_en_france_required",
+  "em8_justificatif_de_residence_en_france_provided",
+  "em9_passeport_ou_piece_didentite_required",
+  "em9_passeport_ou_piece_didentite_provided",
+  "em9_copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_etr_required",
+  "em9_copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_etr_provided",
+  "em9_justificatif_de_residence_en_france_required",
+  "em9_justificatif_de_residence_en_france_provided",
+  "em10_passeport_ou_piece_didentite_required",
+  "em10_passeport_ou_piece_didentite_provided",
+  "em10_copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_et_required",
+  "em10_copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_et_provided",
+  "em10_justificatif_de_residence_en_france_required",
+  "em10_justificatif_de_residence_en_france_provided",
+  "attestation_de_propriete_acte_de_propriete_du_notaire_required",
+  "attestation_de_propriete_acte_de_propriete_du_notaire_provided",
+  "justificatif_de_domicile_datant_de_moins_de_6_mois_3_dernieres_factures_de_gaz_electr_required",
+  "justificatif_de_domicile_datant_de_moins_de_6_mois_3_dernieres_factures_de_gaz_electr_provided",
+  "justificatif_de_domicile_datant_de_moins_de_6_mois_3_dernieres_factures_de_gaz_electr_2_required",
+  "justificatif_de_domicile_datant_de_moins_de_6_mois_3_dernieres_factures_de_gaz_electr_2_provided",
+  "trois_dernieres_quittances_de_loyer_required",
+  "trois_dernieres_quittances_de_loyer_provided",
+  "contrat_de_location_required",
+  "contrat_de_location_provided",
+  "attestation_dhebergement_required",
+  "attestation_dhebergement_provided",
+  "piece_didentite_de_lhebergent_required",
+  "piece_didentite_de_lhebergent_provided",
+  "justificatif_de_domicile_datant_de_moins_de_6_mois_3_dernieres_factures_de_gaz_electr_3_required",
+  "justificatif_de_domicile_datant_de_moins_de_6_mois_3_dernieres_factures_de_gaz_electr_3_provided",
+  "attestation_caf_rsa_apl_af_etc_required",
+  "attestation_caf_rsa_apl_af_etc_provided",
+  "dernier_bordereau_de_paiement_caf_required",
+  "dernier_bordereau_de_paiement_caf_provided",
+  "attestation_de_lorganisme_msacpampole_emploiretraite_required",
+  "attestation_de_lorganisme_msacpampole_emploiretraite_provided",
+  "justificatif_du_dernier_versement_msacpampole_emploiretraite_required",
+  "justificatif_du_dernier_versement_msacpampole_emploiretraite_provided",
+  "dernier_avis_dimposition_required",
+  "dernier_avis_dimposition_provided",
+  "releves_fonciers_2044_le_cas_echeant_required",
+  "releves_fonciers_2044_le_cas_echeant_provided",
+  "bauxattestations_de_loyers_required",
+  "bauxattestations_de_loyers_provided",
+  "recus_de_loyers_releves_bancaires_dividendes_interets_required",
+  "recus_de_loyers_releves_bancaires_dividendes_interets_provided",
+  "attestations_fiscalesreleves_etrangers_required",
+  "attestations_fiscalesreleves_etrangers_provided",
+  "traduction_assermentee_attestations_fiscalesreleves_etrangers_required",
+  "traduction_assermentee_attestations_fiscalesreleves_etrangers_provided",
+  "legalisationapostille_des_attestations_fiscalesreleves_etrangers_si_requis_required",
+  "legalisationapostille_des_attestations_fiscalesreleves_etrangers_si_requis_provided",
+  "jugementaccord_fixant_la_pension_required",
+  "jugementaccord_fixant_la_pension_provided",
+  "preuves_de_versement_de_la_pension_alimentaire_releves_bancairesattestations_required",
+  "preuves_de_versement_de_la_pension_alimentaire_releves_bancairesattestations_provided",
+  "attestation_de_pension_cpamorganisme_required",
+  "attestation_de_pension_cpamorganisme_provided",
+  "dernier_bordereau_de_paiement_cpamorganisme_required",
+  "dernier_bordereau_de_paiement_cpamorganisme_provided",
+  "attestation_de_reversion_caisse_de_retraite_required",
+  "attestation_de_reversion_caisse_de_retraite_provided",
+  "justificatif_du_dernier_versement_pension_de_reversion_required",
+  "justificatif_du_dernier_versement_pension_de_reversion_provided",
+  "attestation_dautres_organisme_payeur_required",
+  "attestation_dautres_organisme_payeur_provided",
+  "justificatif_du_dernier_versement_dautre_pension_required",
+  "justificatif_du_dernier_versement_dautre_pension_provided",
+  "attestation_de_prise_en_charge_signee_required",
+  "attestation_de_prise_en_charge_signee_provided",
+  "piece_didentite_du_garant_required",
+  "piece_didentite_du_garant_provided",
+  "justificatifs_de_ressources_du_garant_contrat_3_bulletins_bilan_si_independant_avis_dimpot_required",
+  "justificatifs_de_ressources_du_garant_contrat_3_bulletins_bilan_si_independant_avis_dimpot_provided",
+  "justificatif_de_domicile_du_garant_required",
+  "justificatif_de_domicile_du_garant_provided",
+  "formulaire_de_demande_cerfa_n15277_04_2_exemplaires_signes_par_les_deux_epoux_required",
+  "formulaire_de_demande_cerfa_n15277_04_2_exemplaires_signes_par_les_deux_epoux_provided",
+  "photos_d_identite_2_pour_le_demandeur_2_pour_le_conjoint_required",
+  "photos_d_identite_2_pour_le_demandeur_2_pour_le_conjoint_provided",
+  "justificatif_d_identite_du_conjoint_attestant_la_ou_les_nationalite_s_d_origine_required",
+  "justificatif_d_identite_du_conjoint_attestant_la_ou_les_nationalite_s_d_origine_provided",
+  "copie_integrale_originale_de_l_acte_de_naissance_du_conjoint_ou_documents_etat_civil_required",
+  "copie_integrale_originale_de_l_acte_de_naissance_du_conjoint_ou_documents_etat_civil_provided",
+  "copie_de_toutes_les_pages_des_3_derniers_avis_d_imposition_ou_de_non_imposition_required",
+  "copie_de_toutes_les_pages_des_3_derniers_avis_d_imposition_ou_de_non_imposition_provided",
+  "preuves_de_vie_commune_required",
+  "preuves_de_vie_commune_provided",
+  "copie_integrale_originale_de_votre_acte_de_naissance_required",
+  "copie_integrale_originale_de_votre_acte_de_naissance_provided",
+  "justificatif_de_3_ans_de_residence_en_france_depuis_le_mariage_ou_certificat_dinscription__required",
+  "justificatif_de_3_ans_de_residence_en_france_depuis_le_mariage_ou_certificat_dinscription__provided",
+  "copie_de_la_transcription_delivree_par_les_autorites_francaises_3_mois_required",
+  "copie_de_la_transcription_delivree_par_les_autorites_francaises_3_mois_provided",
+  "copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_etrange_required",
+  "copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_etrange_provided",
+  "justificatifs_de_residence_habituelle_certificat_scolarite_creche_jugement_de_garde_e_required",
+  "justificatifs_de_residence_habituelle_certificat_scolarite_creche_jugement_de_garde_e_provided",
+  "justificatif_de_domicile_datant_de_moins_de_6_mois_required",
+  "justificatif_de_domicile_datant_de_moins_de_6_mois_provided",
+  "piece_d_identite_de_l_hebergeant_required",
+  "piece_d_identite_de_l_hebergeant_provided",
+  "formulaire_de_demande_cerfa_n15562_03_2_exemplaires_renseignes_required",
+  "formulaire_de_demande_cerfa_n15562_03_2_exemplaires_renseignes_provided",
+  "photos_d_identite_2_pour_le_demandeur_required",
+  "photos_d_identite_2_pour_le_demandeur_provided",
+  "certificats_de_scolarite_ou_radiation_couvrant_la_periode_de_6_a_16_ans_required",
+  "certificats_de_scolarite_ou_radiation_couvrant_la_periode_de_6_a_16_ans_provided",
+  "tout_document_justifiant_la_residence_continue_en_france_depuis_l_age_de_16_ans_contr_required",
+  "tout_document_justifiant_la_residence_continue_en_france_depuis_l_age_de_16_ans_contr_provided",
+  "carte_nationale_d_identite_2_photocopies_r_v_du_frere_ou_de_la_soeur_required",
+  "carte_nationale_d_identite_2_photocopies_r_v_du_frere_ou_de_la_soeur_provided",
+  "copie_integrale_originale_de_lacte_de_naissance_de_moins_de_3_mois_du_frere_ou_de_required",
+  "copie_integrale_originale_de_l_acte_de_naissance_de_moins_de_3_mois_du_frere_ou_de_la_provided",
+  "certificat_de_nationalite_francaise_du_frere_ou_de_la_soeur_original_et_copie_required",
+  "certificat_de_nationalite_francaise_du_frere_ou_de_la_soeur_original_et_copie_provided",
+  "copie_recto_verso_du_titre_de_sejour_en_cours_de_validite_du_conjoint_ou_concubin_required",
+  "copie_recto_verso_du_titre_de_sejour_en_cours_de_validite_du_conjoint_ou_concubin_provided",
+  "copie_de_tous_les_pages_des_3_derniers_avis_d_imposition_ou_de_non_imposition_required",
+  "copie_de_tous_les_pages_des_3_derniers_avis_d_imposition_ou_de_non_imposition_provided",
+  "doc_3_dernieres_fiches_de_paie_du_concubin_3_derniers_avis_dimpots_contrat_de_tra_required",
+  "3_dernieres_fiches_de_paie_du_concubin_3_derniers_avis_d_impots_contrat_de_travail_provided",
+  "3_dernieres_fiches_de_paie_du_concubin_3_derniers_avis_d_impots_contrat_de_travail_2_provided",
+  "justificatif_de_residence_en_france_certificat_de_scolarite_creche_required",
+  "justificatif_de_residence_en_france_certificat_de_scolarite_creche_provided",
+  "formulaire_de_demande_cerfa_n15561_03_2_exemplaires_renseignes_required",
+  "formulaire_de_demande_cerfa_n15561_03_2_exemplaires_renseignes_provided",
+  "certificat_de_nationalite_decret_de_naturalisation_ou_declaration_enregistree_du_desc_required",
+  "certificat_de_nationalite_decret_de_naturalisation_ou_declaration_enregistree_du_desc_provided",
+  "tout_document_justifiant_25_ans_de_residence_continue_releve_de_carriere_retraite_imp_required",
+  "tout_document_justifiant_25_ans_de_residence_continue_releve_de_carriere_retraite_imp_provided",
+  "cni_2_photocopies_rv_du_fils_ou_de_la_fille_required",
+  "cni_2_photocopies_r_v_du_fils_ou_de_la_fille_provided",
+  "copie_integrale_acte_naissance_fils_fille_required",
+  "copie_integrale_acte_naissance_fils_fille_provided",
+  "cni_2_photocopies_rv_petit_arriere_petit_enfants_required",
+  "cni_2_photocopies_rv_petit_arriere_petit_enfants_provided",
+  "actes_de_naissance_des_ascendants_intermediaires_copies_integrales_3_mois_required",
+  "actes_de_naissance_des_ascendants_intermediaires_copies_integrales_3_mois_provided",
+  "piece_d_identite_de_l_hebergeant_ou_passeport_required",
+  "piece_d_identite_de_l_hebergeant_ou_passeport_provided",
+  "justificatif_didentite_passeport_ou_consulaire_required",
+  "justificatif_didentite_passeport_ou_consulaire_provided",
+  "copie_integrale_d_acte_de_naissance_comportant_les_mentions_les_plus_recentes_traduct_required",
+  "copie_integrale_d_acte_de_naissance_comportant_les_mentions_les_plus_recentes_traduct_provided",
+  "2_preuves_de_presence_par_annee_impots_ame_decision_administrative_releves_de_comptes_required",
+  "2_preuves_de_presence_par_annee_impots_ame_decision_administrative_releves_de_comptes_provided",
+  "contrat_dengagement_a_respecter_les_principes_de_la_republique_signe_required",
+  "contrat_dengagement_a_respecter_les_principes_de_la_republique_signe_provided",
+  "piece_justificative_scolarite_diplome_formation_required",
+  "piece_justificative_scolarite_diplome_formation_provided",
+  "doc_12_fiches_de_paies_sur_les_36_derniers_mois_required",
+  "doc_12_fiches_de_paies_sur_les_36_derniers_mois_provided",
+  "cerfa_demande_d_autorisation_de_travail_k_bis_moins_de_3_mois_bordereau_de_declaratio_required",
+  "cerfa_demande_d_autorisation_de_travail_k_bis_moins_de_3_mois_bordereau_de_declaratio_provided",
+  "formulaire_de_demande_d_admission_exceptionnelle_au_sejour_aes_metiers_en_tension_required",
+  "formulaire_de_demande_d_admission_exceptionnelle_au_sejour_aes_metiers_en_tension_provided",
+  "doc_12_fiches_de_paies_metier_en_tension_required",
+  "doc_12_fiches_de_paies_metier_en_tension_provided",
+  "piece_didentite_du_conjoint_partenaire_concubin_required",
+  "piece_didentite_du_conjoint_partenaire_concubin_provided",
+  "justificatif_de_residence_commune_separe_required",
+  "justificatif_de_residence_commune_separe_provided",
+  "document_didentite_concubin_partenaire_conjoint_separe_required",
+  "document_didentite_concubin_partenaire_conjoint_separe_provided",
+  "document_d_identite_du_partenaire_concubin_conjoint_required",
+  "document_d_identite_du_partenaire_concubin_conjoint_provided",
+  "aucun_document_conjoint_requis_required",
+  "aucun_document_conjoint_requis_provided",
+  "copie_integrale_de_l_acte_de_naissance_de_l_enfant_mineur_passeport_ou_piece_d_identi_required",
+  "copie_integrale_de_l_acte_de_naissance_de_l_enfant_mineur_passeport_ou_piece_d_identi_provided",
+  "copie_integrale_de_l_acte_de_naissance_de_l_enfant_mineur_passeport_ou_piece_d_identi_2_required",
+  "copie_integrale_de_l_acte_de_naissance_de_l_enfant_mineur_passeport_ou_piece_d_identi_2_provided",
+  "copie_integrale_de_l_acte_de_naissance_de_l_enfant_mineur_passeport_ou_piece_d_identi_3_required",
+  "copie_integrale_de_l_acte_de_naissance_de_l_enfant_mineur_passeport_ou_piece_d_identi_3_provided",
+  "copie_integrale_de_l_acte_de_naissance_de_l_enfant_mineur_passeport_ou_piece_d_identi_4_required",
+  "copie_integrale_de_l_acte_de_naissance_de_l_enfant_mineur_passeport_ou_piece_d_identi_4_provided",
+  "copie_integrale_de_l_acte_de_naissance_de_l_enfant_mineur_passeport_ou_piece_d_identi_5_required",
+  "copie_integrale_de_l_acte_de_naissance_de_l_enfant_mineur_passeport_ou_piece_d_identi_5_provided",
+  "copie_integrale_de_l_acte_de_naissance_de_l_enfant_mineur_passeport_ou_piece_d_identi_6_required",
+  "copie_integrale_de_l_acte_de_naissance_de_l_enfant_mineur_passeport_ou_piece_d_identi_6_provided",
+  "copie_integrale_de_l_acte_de_naissance_de_l_enfant_mineur_passeport_ou_piece_d_identi_7_required",
+  "copie_integrale_de_l_acte_de_naissance_de_l_enfant_mineur_passeport_ou_piece_d_identi_7_provided",
+  "piece_didentite_ou_titre_de_sejour_de_lhebergeant_required",
+  "piece_didentite_ou_titre_de_sejour_de_lhebergeant_provided",
+  "attestation_de_l_hotelier_et_facture_du_dernier_mois_required",
+  "attestation_de_l_hotelier_et_facture_du_dernier_mois_provided",
+  "copie_du_visa_d_entree_en_france_required",
+  "copie_du_visa_d_entree_en_france_provided",
+  "copie_du_visa_d_entree_en_france_2_required",
+  "copie_du_visa_d_entree_en_france_2_provided",
+  "aucun_visa_a_fournir_required",
+  "aucun_visa_a_fournir_provided",
+  "titre_de_sejour_delivre_dans_un_autre_pays_de_lue_required",
+  "titre_de_sejour_delivre_dans_un_autre_pays_de_lue_provided",
+];
+
+/**
+ * Date properties of the documents with a validity rule.
+ */
+export const DATE_PROPERTIES: readonly string[] = [
+  "copie_rectoverso_du_titre_de_sejour_en_cours_de_validite_date",
+  "certificats_originaux_de_l_ofpra_tenant_lieu_d_etat_civil_3_mois_date",
+  "copie_integrale_de_l_acte_de_mariage_et_sa_traduction_par_traducteur_assermente_ou_le_date",
+  "justificatif_de_domicile_datant_de_moins_de_6_mois_3_dernieres_factures_de_gaz_electr_date",
+  "justificatif_de_domicile_datant_de_moins_de_6_mois_3_dernieres_factures_de_gaz_electr_2_date",
+  "justificatif_de_domicile_datant_de_moins_de_6_mois_3_dernieres_factures_de_gaz_electr_3_date",
+  "copie_de_la_transcription_delivree_par_les_autorites_francaises_3_mois_date",
+  "justificatif_de_domicile_datant_de_moins_de_6_mois_date",
+  "copie_integrale_originale_de_lacte_de_naissance_de_moins_de_3_mois_du_frere_ou_de_date",
+  "copie_recto_verso_du_titre_de_sejour_en_cours_de_validite_du_conjoint_ou_concubin_date",
+  "copie_integrale_acte_naissance_fils_fille_date",
+  "actes_de_naissance_des_ascendants_intermediaires_copies_integrales_3_mois_date",
+];
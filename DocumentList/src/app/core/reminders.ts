@@ -0,0 +1,149 @@
+/**
+ * Schedule of the reminder emails for dossiers missing documents.
+ *
+ * A dossier gets reminders while it is "En construction" with a non-empty
+ * missing_doc: the first one `afterDays` days after it entered that state, the
+ * next ones `intervalDays` apart, up to `maxReminders`. Reminders are counted
+ * from the email log since the dossier entered the state, so a dossier that
+ * goes back to "En construction" starts over. Complete dossiers get none.
+ */
+
+import { parsePropertyDate, startOfUtcDay, type EvaluationOptions } from './conditions';
+import { DOSSIER_STATES } from './documents';
+import { EMAIL_SOURCES, type EmailLogEntry } from './email';
+
+/**
+ * Date property holding the day of the last reminder sent.
+ */
+export const LAST_REMINDER_PROPERTY = 'documents_last_reminder';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Schedule from reminders.json.
+ */
+export interface ReminderSchedule {
+  /** Days in "En construction" before the first reminder. */
+  afterDays: number;
+  /** Days between reminders; the last interval repeats. */
+  intervalDays: number[];
+  maxReminders: number;
+  /** Added before the subject of the missing documents email. */
+  subjectPrefix?: string;
+}
+
+/**
+ * Version of a property from its HubSpot history.
+ */
+export interface PropertyVersion {
+  value: string | null;
+  timestamp: string | number | Date;
+}
+
+export interface ReminderState {
+  /** etat_du_dossier */
+  state: string | null;
+  /** missing_doc */
+  missingDoc: string | null;
+  /** When the dossier entered its current state, as a timestamp. */
+  stateSince: number | null;
+  /** Reminders sent since then, oldest first. */
+  reminders: EmailLogEntry[];
+}
+
+/**
+ * When a property last took its current value, from its history in any order.
+ * Null when the history does not show it.
+ */
+export const getValueSince = (versions: PropertyVersion[], value: string): number | null => {
+  const sorted = versions
+    .map(version => ({ value: version.value, time: new Date(version.timestamp).getTime() }))
+    .filter(version => !isNaN(version.time))
+    .sort((a, b) => b.time - a.time);
+
+  let since: number | null = null;
+  for (const version of sorted) {
+    if (version.value !== value) {
+      break;
+    }
+    since = version.time;
+  }
+  return since;
+};
+
+/**
+ * Reminders of an email log sent at or after a time, oldest first.
+ */
+export const getRemindersSince = (log: EmailLogEntry[], since: number): EmailLogEntry[] => {
+  return log
+    .filter(entry => entry.source === EMAIL_SOURCES.REMINDER && new Date(entry.timestamp).getTime() >= since)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
+/**
+ * Whether a dossier is waiting for documents and gets reminders.
+ */
+export const isAwaitingDocuments = (state: Pick<ReminderState, 'state' | 'missingDoc'>): boolean => {
+  return state.state === DOSSIER_STATES.INCOMPLETE && !!state.missingDoc && state.missingDoc.trim() !== '';
+};
+
+/**
+ * Day the next reminder is due, as a UTC timestamp, or null when the dossier
+ * gets no more reminders.
+ */
+export const getNextReminderDate = (schedule: ReminderSchedule, state: ReminderState): number | null => {
+  if (!isAwaitingDocuments(state) || state.stateSince === null || state.reminders.length >= schedule.maxReminders) {
+    return null;
+  }
+  if (state.reminders.length === 0) {
+    return startOfUtcDay(new Date(state.stateSince + schedule.afterDays * DAY_MS));
+  }
+  const last = parsePropertyDate(state.reminders[state.reminders.length - 1].timestamp) ?? state.stateSince;
+  const intervals = schedule.intervalDays;
+  const interval = intervals[Math.min(state.reminders.length - 1, intervals.length - 1)];
+  return startOfUtcDay(new Date(last + interval * DAY_MS));
+};
+
+/**
+ * Whether a reminder is due on `options.now` (defaults to today).
+ */
+export const isReminderDue = (schedule: ReminderSchedule, state: ReminderState, options: EvaluationOptions = {}): boolean => {
+  const next = getNextReminderDate(schedule, state);
+  return next !== null && startOfUtcDay(options.now || new Date()) >= next;
+};
+
+/**
+ * Latest day of the last reminder, as a UTC timestamp, for which another
+ * reminder can be due on `options.now`: none comes sooner than the shortest
+ * delay of the schedule.
+ */
+export const getLastReminderCutoff = (schedule: ReminderSchedule, options: EvaluationOptions = {}): number => {
+  const shortestDays = Math.min(schedule.afterDays, ...schedule.intervalDays);
+  return startOfUtcDay(options.now || new Date()) - shortestDays * DAY_MS;
+};
+
+/**
+ * Problems in a reminder schedule, as messages.
+ */
+export const validateReminderSchedule = (schedule: unknown): string[] => {
+  if (typeof schedule !== 'object' || schedule === null || Array.isArray(schedule)) {
+    return ['the schedule must be an object'];
+  }
+  const { afterDays, intervalDays, maxReminders, subjectPrefix } = schedule as Record<string, unknown>;
+  const isPositiveInteger = (value: unknown) => Number.isInteger(value) && (value as number) > 0;
+  const issues: string[] = [];
+
+  if (!isPositiveInteger(afterDays)) {
+    issues.push('"afterDays" must be a positive integer');
+  }
+  if (!Array.isArray(intervalDays) || intervalDays.length === 0 || !intervalDays.every(isPositiveInteger)) {
+    issues.push('"intervalDays" must be a non-empty array of positive integers');
+  }
+  if (!Number.isInteger(maxReminders) || (maxReminders as number) < 0) {
+    issues.push('"maxReminders" must be a non-negative integer');
+  }
+  if (subjectPrefix !== undefined && typeof subjectPrefix !== 'string') {
+    issues.push('"subjectPrefix" must be a string');
+  }
+  return issues;
+};
@@ -0,0 +1,311 @@
+/**
+ * Repeated documents.
+ *
+ * A document asked once per person, e.g. the passport of each minor child or
+ * the divorce decree of each prior marriage, is declared once in
+ * documents.json with a `repeat` rule instead of one copy per person. The rule
+ * multiplies the template by the options of a multi-select property or by a
+ * count. In the id, name, property stem and condition values of the template,
+ * `{{n}}` is replaced by the instance number and `{{value}}` by its option.
+ *
+ * Instances are ordinary documents with their own `_required`/`_provided`
+ * properties, plus the group of their person so the card can list them under
+ * one heading per person.
+ */
+
+import {
+  isAllCondition,
+  isAnyCondition,
+  isNotCondition,
+  isPropertyCondition,
+  type ConditionValue,
+  type DocumentCondition,
+} from './conditions';
+import { type DocumentConfig, type DocumentGroup, type TabConfig } from './documents';
+
+/**
+ * Length ids and property stems are cut to, as in the existing documents,
+ * which leaves room for the property suffixes.
+ */
+export const MAX_SLUG_LENGTH = 85;
+
+export const REPEAT_PLACEHOLDERS = ['n', 'value'] as const;
+
+export type RepeatPlaceholder = typeof REPEAT_PLACEHOLDERS[number];
+
+/**
+ * How a template is repeated. Exactly one of values and count is set.
+ */
+export interface DocumentRepeat {
+  /**
+   * Property telling which persons the dossier has. Templates repeated over
+   * the same property share their groups, one per instance number.
+   */
+  property: string;
+  /** Options of the multi-select property, one instance each, in order. */
+  values?: string[];
+  /** Number of instances, e.g. with a `gte {{n}}` condition on a number property. */
+  count?: number;
+  /** Heading of an instance, defaults to `{{value}}`. */
+  label?: string;
+  /** Instances shown in a tab when not all of them, e.g. where another document replaces the first one. */
+  tabs?: Record<string, number[]>;
+}
+
+/**
+ * Repeated document in documents.json. Its properties are named from
+ * `propertyStem` (defaults to the id): `<stem>_required`, `<stem>_provided`
+ * and, with a validity rule, `<stem>_date`.
+ */
+export interface DocumentTemplate extends Omit<DocumentConfig, 'requiredProperty' | 'providedProperty' | 'dateProperty' | 'group'> {
+  propertyStem?: string;
+  repeat: DocumentRepeat;
+}
+
+/**
+ * Entry of documents.json.
+ */
+export type DocumentEntry = DocumentConfig | DocumentTemplate;
+
+interface Instance {
+  n: number;
+  value: string;
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+export const isDocumentTemplate = (entry: unknown): entry is DocumentTemplate => {
+  return typeof entry === 'object' && entry !== null && 'repeat' in entry;
+};
+
+/**
+ * Instances of a repeat rule, numbered from 1.
+ */
+const getInstances = (repeat: DocumentRepeat): Instance[] => {
+  if (Array.isArray(repeat.values)) {
+    return repeat.values.map((value, index) => ({ n: index + 1, value }));
+  }
+  const count = Number.isInteger(repeat.count) ? repeat.count! : 0;
+  return Array.from({ length: Math.max(count, 0) }, (_, index) => ({ n: index + 1, value: String(index + 1) }));
+};
+
+const fill = (text: string, instance: Instance): string => {
+  return text.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    if (name === 'n') return String(instance.n);
+    if (name === 'value') return instance.value;
+    return match;
+  });
+};
+
+/**
+ * Id or property stem of an instance, cut without a trailing underscore.
+ */
+export const toInstanceSlug = (template: string, instance: Instance): string => {
+  return fill(template, instance).slice(0, MAX_SLUG_LENGTH).replace(/_+$/, '');
+};
+
+/**
+ * A value that is only `{{n}}` becomes the number, for comparisons.
+ */
+const fillValue = (value: ConditionValue | undefined, instance: Instance): ConditionValue | undefined => {
+  if (Array.isArray(value)) {
+    return value.map(item => fillValue(item, instance) as string | number);
+  }
+  if (typeof value !== 'string') {
+    return value;
+  }
+  return /^\{\{\s*n\s*\}\}$/.test(value) ? instance.n : fill(value, instance);
+};
+
+const fillCondition = (condition: DocumentCondition, instance: Instance): DocumentCondition => {
+  if (isPropertyCondition(condition)) {
+    const value = fillValue(condition.value, instance);
+    return value === undefined ? { ...condition } : { ...condition, value };
+  }
+  if (isAllCondition(condition)) {
+    return { all: condition.all.map(child => fillCondition(child, instance)) };
+  }
+  if (isAnyCondition(condition)) {
+    return { any: condition.any.map(child => fillCondition(child, instance)) };
+  }
+  if (isNotCondition(condition)) {
+    return { not: fillCondition(condition.not, instance) };
+  }
+  return condition;
+};
+
+const expandTemplate = (template: DocumentTemplate, instance: Instance): DocumentConfig => {
+  const { repeat, propertyStem, tabConfig, ...rest } = template;
+  const stem = toInstanceSlug(propertyStem || template.id, instance);
+
+  const tabs: Record<string, TabConfig> = {};
+  Object.entries(tabConfig || {}).forEach(([tabId, config]) => {
+    const only = repeat.tabs?.[tabId];
+    if (only && !only.includes(instance.n)) return;
+    tabs[tabId] = { ...config, conditions: (config.conditions || []).map(condition => fillCondition(condition, instance)) };
+  });
+
+  const group: DocumentGroup = {
+    id: `${repeat.property}_${instance.n}`,
+    label: fill(repeat.label || '{{value}}', instance),
+  };
+
+  return {
+    ...rest,
+    id: toInstanceSlug(template.id, instance),
+    name: fill(template.name, instance),
+    requiredProperty: `${stem}_required`,
+    providedProperty: `${stem}_provided`,
+    ...(template.validity ? { dateProperty: `${stem}_date` } : {}),
+    ...(template.instructions ? { instructions: fill(template.instructions, instance) } : {}),
+    tabConfig: tabs,
+    group,
+  };
+};
+
+/**
+ * Documents of documents.json with each template replaced by its instances.
+ * Consecutive templates repeated over the same property are listed person by
+ * person: every document of the first person, then of the second...
+ */
+export const expandDocumentConfigs = (entries: DocumentEntry[]): DocumentConfig[] => {
+  const configs: DocumentConfig[] = [];
+  let block: DocumentTemplate[] = [];
+
+  const flush = () => {
+    const instances = block.map(template => getInstances(template.repeat));
+    const length = Math.max(0, ...instances.map(list => list.length));
+    for (let index = 0; index < length; index++) {
+      block.forEach((template, position) => {
+        const instance = instances[position][index];
+        if (instance) {
+          configs.push(expandTemplate(template, instance));
+        }
+      });
+    }
+    block = [];
+  };
+
+  entries.forEach(entry => {
+    if (!isDocumentTemplate(entry)) {
+      flush();
+      configs.push(entry);
+      return;
+    }
+    if (block.length > 0 && block[0].repeat.property !== entry.repeat.property) {
+      flush();
+    }
+    block.push(entry);
+  });
+  flush();
+
+  return configs;
+};
+
+export interface DocumentSection<T> {
+  /** Null for documents that are not repeated. */
+  group: DocumentGroup | null;
+  documents: T[];
+}
+
+/**
+ * Splits a sorted list of documents into runs of ungrouped documents and one
+ * section per group, placed where the group's first document is.
+ */
+export const groupDocuments = <T extends { group?: DocumentGroup }>(documents: T[]): Array<DocumentSection<T>> => {
+  const sections: Array<DocumentSection<T>> = [];
+  const byGroup = new Map<string, DocumentSection<T>>();
+
+  documents.forEach(doc => {
+    if (!doc.group) {
+      const last = sections[sections.length - 1];
+      if (last && last.group === null) {
+        last.documents.push(doc);
+      } else {
+        sections.push({ group: null, documents: [doc] });
+      }
+      return;
+    }
+    const section = byGroup.get(doc.group.id);
+    if (section) {
+      section.documents.push(doc);
+      return;
+    }
+    const created = { group: doc.group, documents: [doc] };
+    byGroup.set(doc.group.id, created);
+    sections.push(created);
+  });
+
+  return sections;
+};
+
+const isPositiveInteger = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+/**
+ * Problems in the repeat rule of a template, as messages.
+ */
+export const validateDocumentRepeat = (template: Record<string, any>): string[] => {
+  const repeat = template.repeat;
+  if (typeof repeat !== 'object' || repeat === null || Array.isArray(repeat)) {
+    return ['"repeat" must be an object'];
+  }
+  const issues: string[] = [];
+
+  if (typeof repeat.property !== 'string' || repeat.property.trim() === '') {
+    issues.push('"repeat.property" must be a non-empty string');
+  }
+  const hasValues = repeat.values !== undefined;
+  const hasCount = repeat.count !== undefined;
+  if (hasValues === hasCount) {
+    issues.push('"repeat" must set exactly one of "values" and "count"');
+  }
+  if (hasValues && (!Array.isArray(repeat.values) || repeat.values.length === 0
+    || !repeat.values.every((value: unknown) => typeof value === 'string' && value.trim() !== ''))) {
+    issues.push('"repeat.values" must be a non-empty array of strings');
+  }
+  if (hasCount && !isPositiveInteger(repeat.count)) {
+    issues.push('"repeat.count" must be a positive integer');
+  }
+  if (repeat.label !== undefined && (typeof repeat.label !== 'string' || repeat.label.trim() === '')) {
+    issues.push('"repeat.label" must be a non-empty string');
+  }
+  if (hasCount && repeat.label === undefined) {
+    issues.push('"repeat.label" is required with "count", e.g. "Enfant n°{{n}}"');
+  }
+
+  const instances = Array.isArray(repeat.values) ? repeat.values.length : isPositiveInteger(repeat.count) ? repeat.count : 0;
+  if (repeat.tabs !== undefined) {
+    if (typeof repeat.tabs !== 'object' || repeat.tabs === null || Array.isArray(repeat.tabs)) {
+      issues.push('"repeat.tabs" must map tab ids to instance numbers');
+    } else {
+      Object.entries(repeat.tabs).forEach(([tabId, numbers]) => {
+        if (!template.tabConfig || !(tabId in template.tabConfig)) {
+          issues.push(`"repeat.tabs" lists tab "${tabId}", which is not in "tabConfig"`);
+        }
+        if (!Array.isArray(numbers) || !numbers.every(n => isPositiveInteger(n) && n <= instances)) {
+          issues.push(`"repeat.tabs.${tabId}" must list instance numbers from 1 to ${instances}`);
+        }
+      });
+    }
+  }
+
+  ['requiredProperty', 'providedProperty', 'dateProperty'].forEach(field => {
+    if (template[field] !== undefined) {
+      issues.push(`"${field}" is named from "propertyStem" for a repeated document`);
+    }
+  });
+  if (typeof template.id === 'string' && !/\{\{\s*(n|value)\s*\}\}/.test(template.id)) {
+    issues.push('"id" must contain {{n}} or {{value}} so each instance has its own id');
+  }
+  ['id', 'name', 'propertyStem', 'label'].forEach(field => {
+    const text = field === 'label' ? repeat.label : template[field];
+    if (typeof text !== 'string') return;
+    Array.from(text.matchAll(PLACEHOLDER_PATTERN)).forEach(([, name]) => {
+      if (!(REPEAT_PLACEHOLDERS as readonly string[]).includes(name)) {
+        issues.push(`"${field === 'label' ? 'repeat.label' : field}" uses unknown placeholder {{${name}}}`);
+      }
+    });
+  });
+
+  return issues;
+};
@@ -0,0 +1,115 @@
+/**
+ * Review status of the documents of a dossier.
+ *
+ * A document is requested, received from the client, then validated or
+ * rejected by a lawyer. Statuses are stored as a JSON object keyed by document
+ * id on the dossier; `_provided` stays true while a document is received or
+ * validated. Documents without a stored status are validated when provided,
+ * as they were before statuses existed.
+ */
+
+/**
+ * Multi-line text property holding the JSON statuses.
+ */
+export const REVIEW_PROPERTY = 'documents_review';
+
+export const DOCUMENT_STATUSES = {
+  REQUESTED: 'requested',
+  RECEIVED: 'received',
+  VALIDATED: 'validated',
+  REJECTED: 'rejected',
+} as const;
+
+export type DocumentStatus = typeof DOCUMENT_STATUSES[keyof typeof DOCUMENT_STATUSES];
+
+export const DOCUMENT_STATUS_LABELS: Record<DocumentStatus, string> = {
+  requested: 'Demandé',
+  received: 'Reçu',
+  validated: 'Validé',
+  rejected: 'Refusé',
+};
+
+/**
+ * A type rather than an interface, so it can be sent as a JSON function parameter.
+ */
+export type DocumentReview = {
+  status: DocumentStatus;
+  /** Why a rejected document was refused, shown to the client. */
+  reason?: string | null;
+  /** Email or id of the HubSpot user who set the status. */
+  user?: string | null;
+  /** ISO 8601. */
+  timestamp?: string;
+};
+
+export interface ReviewedDocument {
+  provided: boolean;
+  /** Stored status, null when none was recorded. */
+  status?: DocumentStatus | null;
+}
+
+const STATUS_VALUES: string[] = Object.values(DOCUMENT_STATUSES);
+
+export const isDocumentStatus = (value: unknown): value is DocumentStatus => {
+  return typeof value === 'string' && STATUS_VALUES.includes(value);
+};
+
+/**
+ * Statuses for which the document is stored as provided.
+ */
+export const isProvidedStatus = (status: DocumentStatus): boolean => {
+  return status === DOCUMENT_STATUSES.RECEIVED || status === DOCUMENT_STATUSES.VALIDATED;
+};
+
+/**
+ * Status of a document, derived from the provided flag when none is stored.
+ */
+export const getDocumentStatus = (doc: ReviewedDocument): DocumentStatus => {
+  if (doc.status) {
+    return doc.status;
+  }
+  return doc.provided ? DOCUMENT_STATUSES.VALIDATED : DOCUMENT_STATUSES.REQUESTED;
+};
+
+/**
+ * Statuses of a stored value, by document id. Unreadable values and entries
+ * with an unknown status are ignored.
+ */
+export const parseReviews = (value: unknown): Record<string, DocumentReview> => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    return {};
+  }
+  try {
+    const parsed = JSON.parse(value);
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      return {};
+    }
+    const reviews: Record<string, DocumentReview> = {};
+    Object.entries(parsed).forEach(([documentId, review]: [string, any]) => {
+      if (review && isDocumentStatus(review.status)) {
+        reviews[documentId] = review;
+      }
+    });
+    return reviews;
+  } catch (err) {
+    return {};
+  }
+};
+
+/**
+ * Serialized statuses with the given documents replaced. The reason is only
+ * kept for rejected documents.
+ */
+export const mergeReviews = (value: unknown, changes: Record<string, DocumentReview>): string => {
+  const reviews = parseReviews(value);
+  Object.entries(changes).forEach(([documentId, review]) => {
+    const reason = review.status === DOCUMENT_STATUSES.REJECTED ? (review.reason || '').trim() : '';
+    reviews[documentId] = {
+      status: review.status,
+      ...(reason ? { reason } : {}),
+      user: review.user ?? null,
+      timestamp: review.timestamp || new Date().toISOString(),
+    };
+  });
+  return JSON.stringify(reviews);
+};
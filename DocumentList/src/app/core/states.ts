@@ -0,0 +1,280 @@
+/**
+ * Dossier state machine from states.json.
+ *
+ * Automatic states are computed from the documents (see calculateDossierState)
+ * and follow them freely. Manual states, e.g. "Déposé en préfecture", are set
+ * by the lawyers through the transitions of the configuration, each with an
+ * optional guard. A dossier in a manual state keeps it when its checklist is
+ * recomputed, until a transition hands it back to the automatic states. That
+ * transition is only allowed to the state its documents compute, so the
+ * button and the stored state never disagree.
+ *
+ * State values are stored as is in etat_du_dossier. When that property is a
+ * dropdown, each value must be one of its options.
+ */
+
+import {
+  collectConditionProperties,
+  evaluateConditions,
+  validateConditions,
+  type DocumentCondition,
+  type EvaluationOptions,
+  type RecordProperties,
+} from './conditions';
+import { DOSSIER_STATES } from './documents';
+
+export const STATE_TYPES = {
+  /** Computed from the documents. */
+  AUTOMATIC: 'automatic',
+  /** Set by a lawyer through a transition. */
+  MANUAL: 'manual',
+} as const;
+
+export type StateType = typeof STATE_TYPES[keyof typeof STATE_TYPES];
+
+export interface DossierStateDefinition {
+  /** Stored in etat_du_dossier and shown as the step name. */
+  value: string;
+  type: StateType;
+}
+
+/**
+ * What a dossier must satisfy for a transition.
+ */
+export interface TransitionGuard {
+  /** Every required document is validated and still valid. */
+  completed?: boolean;
+  /** Conditions on the dossier properties, as in documents.json. */
+  conditions?: DocumentCondition[];
+  /** Shown when the conditions do not match. */
+  message?: string;
+}
+
+export interface StateTransition {
+  from: string[];
+  /** A manual state, or an automatic one to hand the dossier back to the documents. */
+  to: string;
+  /** Button label, defaults to the target state. */
+  label?: string;
+  guard?: TransitionGuard;
+}
+
+export interface DossierStateMachine {
+  /** In step order. */
+  states: DossierStateDefinition[];
+  transitions: StateTransition[];
+}
+
+/**
+ * Dossier values the guards are checked against.
+ */
+export interface TransitionContext {
+  completed: boolean;
+  properties: RecordProperties;
+  /** State computed from the documents, the only automatic state a transition may lead to. */
+  automaticState: string;
+}
+
+export interface AvailableTransition {
+  to: string;
+  label: string;
+  /** Why the guard blocks it, null when it is allowed. */
+  blockedBy: string | null;
+}
+
+export const GUARD_MESSAGES = {
+  COMPLETED: 'Tous les documents requis doivent être validés.',
+  CONDITIONS: 'Les conditions du dossier ne sont pas remplies.',
+};
+
+const AUTOMATIC_STATES: string[] = Object.values(DOSSIER_STATES);
+
+/**
+ * Whether a state is computed from the documents.
+ */
+export const isAutomaticState = (value: string): boolean => AUTOMATIC_STATES.includes(value);
+
+/**
+ * State of a dossier: its stored state when set by a lawyer, otherwise the
+ * state computed from its documents. Unknown stored values count as manual, so
+ * a state set outside the card is never overwritten.
+ */
+export const resolveDossierState = (stored: string | null | undefined, computed: string): string => {
+  return stored && !isAutomaticState(stored) ? stored : computed;
+};
+
+/**
+ * Why a guard blocks a transition, null when it does not.
+ */
+export const checkGuard = (
+  guard: TransitionGuard | undefined,
+  context: TransitionContext,
+  options: EvaluationOptions = {}
+): string | null => {
+  if (!guard) {
+    return null;
+  }
+  if (guard.completed && !context.completed) {
+    return GUARD_MESSAGES.COMPLETED;
+  }
+  if (guard.conditions && !evaluateConditions(guard.conditions, context.properties, options)) {
+    return guard.message || GUARD_MESSAGES.CONDITIONS;
+  }
+  return null;
+};
+
+/**
+ * Why a transition is blocked: a target the documents do not compute, or its guard.
+ */
+const checkTransitionTarget = (
+  transition: StateTransition,
+  context: TransitionContext,
+  options: EvaluationOptions
+): string | null => {
+  if (isAutomaticState(transition.to) && transition.to !== context.automaticState) {
+    return `D'après ses documents, le dossier est « ${context.automaticState} ».`;
+  }
+  return checkGuard(transition.guard, context, options);
+};
+
+/**
+ * Transitions out of a state, in configuration order, blocked ones included.
+ */
+export const getAvailableTransitions = (
+  machine: DossierStateMachine,
+  current: string,
+  context: TransitionContext,
+  options: EvaluationOptions = {}
+): AvailableTransition[] => {
+  return machine.transitions
+    .filter(transition => transition.from.includes(current))
+    .map(transition => ({
+      to: transition.to,
+      label: transition.label || transition.to,
+      blockedBy: checkTransitionTarget(transition, context, options),
+    }));
+};
+
+/**
+ * Why a transition requested by a lawyer is refused, null when it is allowed.
+ */
+export const checkTransition = (
+  machine: DossierStateMachine,
+  current: string,
+  to: string,
+  context: TransitionContext,
+  options: EvaluationOptions = {}
+): string | null => {
+  const transition = machine.transitions.find(candidate => candidate.from.includes(current) && candidate.to === to);
+  if (!transition) {
+    return `Le dossier ne peut pas passer de « ${current} » à « ${to} ».`;
+  }
+  return checkTransitionTarget(transition, context, options);
+};
+
+/**
+ * Step of a state for the StepIndicator. The last state shows every step as
+ * done, unknown states the first step.
+ */
+export const getStateStep = (machine: DossierStateMachine, state: string): number => {
+  const index = machine.states.findIndex(definition => definition.value === state);
+  if (index === -1) {
+    return 0;
+  }
+  return index === machine.states.length - 1 ? machine.states.length : index;
+};
+
+/**
+ * Properties the guard conditions read.
+ */
+export const collectGuardProperties = (machine: DossierStateMachine): string[] => {
+  return collectConditionProperties(machine.transitions.flatMap(transition => transition.guard?.conditions || []));
+};
+
+/**
+ * Problems in a state machine, as messages.
+ */
+export const validateStateMachine = (machine: unknown): string[] => {
+  if (typeof machine !== 'object' || machine === null || Array.isArray(machine)) {
+    return ['the state machine must be an object'];
+  }
+  const { states, transitions } = machine as Record<string, unknown>;
+  const issues: string[] = [];
+
+  if (!Array.isArray(states) || states.length === 0) {
+    return ['"states" must be a non-empty array'];
+  }
+  const types = new Map<string, unknown>();
+  states.forEach((state, index) => {
+    const { value, type } = (state || {}) as Record<string, unknown>;
+    if (typeof value !== 'string' || value.trim() === '') {
+      issues.push(`states[${index}]: "value" must be a non-empty string`);
+      return;
+    }
+    if (types.has(value)) {
+      issues.push(`states[${index}]: state "${value}" is declared twice`);
+    }
+    types.set(value, type);
+    if (type !== STATE_TYPES.AUTOMATIC && type !== STATE_TYPES.MANUAL) {
+      issues.push(`State "${value}": "type" must be "automatic" or "manual"`);
+    } else if ((type === STATE_TYPES.AUTOMATIC) !== isAutomaticState(value)) {
+      issues.push(`State "${value}": only ${AUTOMATIC_STATES.map(automatic => `"${automatic}"`).join(', ')} are computed from the documents`);
+    }
+  });
+  AUTOMATIC_STATES
+    .filter(value => !types.has(value))
+    .forEach(value => issues.push(`Automatic state "${value}" is missing`));
+
+  if (!Array.isArray(transitions)) {
+    issues.push('"transitions" must be an array');
+    return issues;
+  }
+  const targets = new Set<string>();
+  transitions.forEach((transition, index) => {
+    const { from, to, label, guard } = (transition || {}) as Record<string, any>;
+    const source = `transitions[${index}]`;
+    if (!Array.isArray(from) || from.length === 0) {
+      issues.push(`${source}: "from" must be a non-empty array of states`);
+    } else {
+      from
+        .filter(value => !types.has(value))
+        .forEach(value => issues.push(`${source}: unknown state "${value}" in "from"`));
+    }
+    if (!types.has(to)) {
+      issues.push(`${source}: unknown state "${to}" in "to"`);
+    } else {
+      targets.add(to);
+    }
+    if (label !== undefined && typeof label !== 'string') {
+      issues.push(`${source}: "label" must be a string`);
+    }
+    if (guard === undefined) {
+      return;
+    }
+    if (typeof guard !== 'object' || guard === null || Array.isArray(guard)) {
+      issues.push(`${source}: "guard" must be an object`);
+      return;
+    }
+    if (guard.completed !== undefined && typeof guard.completed !== 'boolean') {
+      issues.push(`${source}: "guard.completed" must be a boolean`);
+    }
+    if (guard.message !== undefined && typeof guard.message !== 'string') {
+      issues.push(`${source}: "guard.message" must be a string`);
+    }
+    if (guard.conditions !== undefined) {
+      if (!Array.isArray(guard.conditions)) {
+        issues.push(`${source}: "guard.conditions" must be an array`);
+      } else {
+        validateConditions(guard.conditions, `${source}.guard.conditions`)
+          .forEach(issue => issues.push(`${issue.path}: ${issue.message}`));
+      }
+    }
+  });
+
+  types.forEach((type, value) => {
+    if (type === STATE_TYPES.MANUAL && !targets.has(value)) {
+      issues.push(`Manual state "${value}" cannot be reached, no transition leads to it`);
+    }
+  });
+  return issues;
+};
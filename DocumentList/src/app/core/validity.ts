@@ -0,0 +1,127 @@
+/**
+ * Validity of dated documents.
+ *
+ * Some documents are only accepted while recent ("< 3 mois") or unexpired
+ * ("en cours de validité"). Their config carries a validity rule and the
+ * dossier stores a date per document: the date of the document for a maximum
+ * age, its expiry date otherwise. A provided document past its validity counts
+ * as missing.
+ */
+
+import { parsePropertyDate, startOfUtcDay, type EvaluationOptions } from './conditions';
+
+/**
+ * Days before the end of validity from which a document is about to expire.
+ */
+export const DEFAULT_WARNING_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Validity rule of a document in documents.json. Exactly one of maxAgeMonths
+ * and expiryDate is set.
+ */
+export interface DocumentValidity {
+  /** Valid for this many months from the date of the document. */
+  maxAgeMonths?: number;
+  /** The stored date is the expiry date of the document. */
+  expiryDate?: boolean;
+  /** Defaults to DEFAULT_WARNING_DAYS. */
+  warningDays?: number;
+}
+
+export const VALIDITY_STATUSES = {
+  VALID: 'valid',
+  EXPIRING: 'expiring',
+  EXPIRED: 'expired',
+  /** No date recorded yet. */
+  UNDATED: 'undated',
+} as const;
+
+export type ValidityStatus = typeof VALIDITY_STATUSES[keyof typeof VALIDITY_STATUSES];
+
+export interface DatedDocument {
+  validity?: DocumentValidity;
+  /** Date stored on the dossier, as returned by HubSpot. */
+  date?: string | null;
+}
+
+/**
+ * Formats a UTC timestamp as a HubSpot date value (YYYY-MM-DD).
+ */
+export const toDateValue = (timestamp: number): string => {
+  return new Date(timestamp).toISOString().slice(0, 10);
+};
+
+/**
+ * Normalizes a stored date to YYYY-MM-DD, or null when empty or unreadable.
+ */
+export const parseDocumentDate = (value: unknown): string | null => {
+  const timestamp = parsePropertyDate(value);
+  return timestamp === null ? null : toDateValue(timestamp);
+};
+
+/**
+ * Last day a document is valid, as a UTC timestamp, or null without a rule or a date.
+ */
+export const getValidityEnd = (doc: DatedDocument): number | null => {
+  const date = parsePropertyDate(doc.date);
+  if (!doc.validity || date === null) {
+    return null;
+  }
+  if (doc.validity.expiryDate) {
+    return date;
+  }
+  if (typeof doc.validity.maxAgeMonths === 'number') {
+    const end = new Date(date);
+    end.setUTCMonth(end.getUTCMonth() + doc.validity.maxAgeMonths);
+    return end.getTime();
+  }
+  return null;
+};
+
+/**
+ * Validity of a document on `options.now` (defaults to today), or null when
+ * the document has no validity rule.
+ */
+export const getValidityStatus = (doc: DatedDocument, options: EvaluationOptions = {}): ValidityStatus | null => {
+  if (!doc.validity) {
+    return null;
+  }
+  const end = getValidityEnd(doc);
+  if (end === null) {
+    return VALIDITY_STATUSES.UNDATED;
+  }
+
+  const today = startOfUtcDay(options.now || new Date());
+  if (today > end) {
+    return VALIDITY_STATUSES.EXPIRED;
+  }
+  const warningDays = doc.validity.warningDays ?? DEFAULT_WARNING_DAYS;
+  return end - today <= warningDays * DAY_MS ? VALIDITY_STATUSES.EXPIRING : VALIDITY_STATUSES.VALID;
+};
+
+/**
+ * Problems in a validity rule from documents.json, as messages.
+ */
+export const validateValidity = (validity: unknown): string[] => {
+  if (typeof validity !== 'object' || validity === null || Array.isArray(validity)) {
+    return ['"validity" must be an object'];
+  }
+  const { maxAgeMonths, expiryDate, warningDays } = validity as Record<string, unknown>;
+  const issues: string[] = [];
+
+  if (maxAgeMonths !== undefined && (!Number.isInteger(maxAgeMonths) || (maxAgeMonths as number) <= 0)) {
+    issues.push('"validity.maxAgeMonths" must be a positive integer');
+  }
+  if (expiryDate !== undefined && typeof expiryDate !== 'boolean') {
+    issues.push('"validity.expiryDate" must be a boolean');
+  }
+  if ((maxAgeMonths === undefined) === (expiryDate !== true)) {
+    issues.push('"validity" needs either "maxAgeMonths" or "expiryDate": true');
+  }
+  if (warningDays !== undefined && (!Number.isInteger(warningDays) || (warningDays as number) < 0)) {
+    issues.push('"validity.warningDays" must be a non-negative integer');
+  }
+  return issues;
+};
@@ -9,6 +9,7 @@
 import React, { useEffect, useState } from 'react';
 import {
   hubspot,
+  Accordion,
   Checkbox,
   Flex,
   Text,
@@ -24,6 +25,9 @@ import {
   EmptyState,
   StepIndicator,
   Input,
+  TextArea,
+  DateInput,
+  Select,
   Modal,
   ModalBody,
   ModalFooter,
@@ -31,8 +35,75 @@ import {
 } from '@hubspot/ui-extensions';
 
 import documentsConfig from './documents.json';
+import statesConfig from './states.json';
 import tabsConfig from './tabs.json';
-import conditionalPropertiesConfig from './conditionalProperties.json';
+import { COMPLETION_PROPERTY, DOSSIER_STATE_PROPERTY } from '../core/checklist';
+import { validateConditions } from '../core/conditions';
+import {
+  DOSSIER_STATES,
+  OTHER_TAB_ID,
+  SOUS_CATEGORIE_PROPERTY,
+  calculateDossierState,
+  calculateMissingDocuments,
+  calculateProgress,
+  checkCompletion,
+  checkDocumentConditions,
+  createDocuments,
+  documentBelongsToTab,
+  getAllConditions,
+  getDocumentDateChanges,
+  getDocumentLabel,
+  getDocumentNoteChanges,
+  getDocumentPropertyChanges,
+  getDocumentReviewChanges,
+  getOrderForTab,
+  getTabForNatureDemande as findTabForNatureDemande,
+  getVisibleDocuments as filterVisibleDocuments,
+  groupDocumentsByProperty,
+  isDocumentFulfilled,
+  resolveDocuments,
+  toBool,
+  type Document,
+  type MissingDocument,
+  type TabDefinition,
+} from '../core/documents';
+import { type PropertyConflict } from '../core/conflicts';
+import { type EmailDraft } from '../core/email';
+import { ERROR_CODES, ERROR_PRESENTATION, isConfigurationError, type ErrorCode } from '../core/errors';
+import { type AppFunctionName, type AppFunctions, type FunctionError } from '../core/functions';
+import {
+  HISTORY_PROPERTY,
+  groupHistoryByDocument,
+  parseHistory,
+  type HistoryEntry,
+  type HistoryField,
+  type HistorySource,
+} from '../core/history';
+import { MAX_NOTE_LENGTH, NOTES_PROPERTY } from '../core/notes';
+import { CONDITIONAL_PROPERTIES, DATE_PROPERTIES } from '../core/properties.generated';
+import { expandDocumentConfigs, groupDocuments, type DocumentEntry } from '../core/repeat';
+import {
+  DOCUMENT_STATUSES,
+  DOCUMENT_STATUS_LABELS,
+  REVIEW_PROPERTY,
+  getDocumentStatus,
+  isProvidedStatus,
+  type DocumentStatus,
+} from '../core/review';
+import {
+  getAvailableTransitions,
+  getStateStep,
+  isAutomaticState,
+  resolveDossierState,
+  type DossierStateMachine,
+} from '../core/states';
+import {
+  VALIDITY_STATUSES,
+  getValidityEnd,
+  getValidityStatus,
+  toDateValue,
+  type ValidityStatus,
+} from '../core/validity';
 
 hubspot.extend<'crm.record.tab'>(({ context, actions }) => <Extension context={context} actions={actions} />);
 
@@ -43,205 +114,136 @@ interface ExtensionProps {
   };
 }
 
-/**
- * Condition for determining when a document should be required.
- * Conditions are evaluated against HubSpot record properties.
- */
-interface DocumentCondition {
-  property: string;
-  operator: 'equals' | 'not_equals' | 'contains' | 'not_contains' | 'in';
-  value: string;
-}
+const DOCUMENTS_CONFIG = expandDocumentConfigs(documentsConfig as DocumentEntry[]);
+const TABS_CONFIG = tabsConfig as TabDefinition[];
+const STATE_MACHINE = statesConfig as DossierStateMachine;
 
 /**
- * Tab-specific configuration for a document.
- * Each tab can have its own order and conditions.
+ * Invalid conditions in documents.json (unknown operators, malformed groups...).
+ * The checklist is not evaluated while any are present, so a broken condition
+ * can never silently make a document required.
  */
-interface TabConfig {
-  order: number;
-  conditions: DocumentCondition[];
-}
+const CONDITION_ISSUES = DOCUMENTS_CONFIG.flatMap(config =>
+  Object.entries(config.tabConfig || {}).flatMap(([tabId, tabConfig]) =>
+    validateConditions(tabConfig.conditions || [], `${config.id}.${tabId}.conditions`)
+  )
+);
 
-/**
- * Document configuration loaded from JSON.
- * Uses tabConfig for per-tab conditions and ordering.
- */
-interface DocumentConfig {
-  id: string;
-  name: string;
-  requiredProperty: string;
-  providedProperty: string;
-  tabConfig: Record<string, TabConfig>;
-}
+const INITIAL_DOCUMENTS: Document[] = createDocuments(DOCUMENTS_CONFIG);
 
 /**
- * Document state at runtime.
- * Includes current required/provided status and per-tab configuration.
+ * Documents sharing each required/provided property, resolved once from the config.
  */
-interface Document {
-  id: string;
-  name: string;
-  required: boolean;
-  provided: boolean;
-  requiredProperty: string;
-  providedProperty: string;
-  tabConfig: Record<string, TabConfig>;
-}
+const PROPERTY_DOCUMENTS = groupDocumentsByProperty(DOCUMENTS_CONFIG);
 
-const DOCUMENTS_CONFIG: DocumentConfig[] = documentsConfig as DocumentConfig[];
-const TABS_CONFIG = tabsConfig as Array<{ id: string; title: string; description: string }>;
-
-const INITIAL_DOCUMENTS: Document[] = DOCUMENTS_CONFIG.map(config => ({
-  id: config.id,
-  name: config.name,
-  required: false,
-  provided: false,
-  requiredProperty: config.requiredProperty,
-  providedProperty: config.providedProperty,
-  tabConfig: config.tabConfig || {}
-}));
+const HISTORY_FIELD_LABELS: Record<HistoryField, string> = {
+  required: 'Requis',
+  provided: 'Fournis',
+};
 
-const COMPLETION_PROPERTY = 'documents_completed';
-const DOSSIER_STATE_PROPERTY = 'etat_du_dossier';
-const MISSING_DOC_PROPERTY = 'missing_doc';
+const HISTORY_SOURCE_LABELS: Record<HistorySource, string> = {
+  card: 'Carte',
+  webhook: 'Mise à jour automatique',
+  bulk: 'Recalcul en masse',
+};
 
-const DOSSIER_STATES = {
-  TO_BUILD: "À construire",
-  INCOMPLETE: "En construction",
-  COMPLETE: "Complet"
+const formatHistoryDate = (timestamp: string): string => {
+  const date = new Date(timestamp);
+  return isNaN(date.getTime()) ? timestamp : date.toLocaleString('fr-FR');
 };
 
 /**
- * Helper function to check if a document belongs to a specific tab.
- * Uses the new tabConfig structure where each document has per-tab configuration.
+ * Tag shown next to a dated document, by validity status.
  */
-const documentBelongsToTab = (doc: Document, tabId: string): boolean => {
-  return doc.tabConfig && tabId in doc.tabConfig;
+const VALIDITY_TAGS: Record<ValidityStatus, { label: string; variant: 'success' | 'warning' | 'error' | 'default' }> = {
+  valid: { label: 'Valide', variant: 'success' },
+  expiring: { label: 'Expire bientôt', variant: 'warning' },
+  expired: { label: 'Expiré', variant: 'error' },
+  undated: { label: 'Date à renseigner', variant: 'default' },
 };
 
 /**
- * Helper function to get the order for a document in a specific tab.
- * Returns the order from tabConfig or 9999 if not found.
+ * DateInput value of a stored YYYY-MM-DD date (months start at 0).
  */
-const getOrderForTab = (doc: Document, tabId: string): number => {
-  return doc.tabConfig?.[tabId]?.order ?? 9999;
+const toDateInputValue = (date: string | null) => {
+  if (!date) return null;
+  const [year, month, day] = date.split('-').map(Number);
+  return { year, month: month - 1, date: day };
 };
 
-/**
- * Helper function to get conditions for a document in a specific tab.
- * Returns the conditions array from tabConfig or empty array if not found.
- */
-const getConditionsForTab = (doc: Document, tabId: string): DocumentCondition[] => {
-  return doc.tabConfig?.[tabId]?.conditions || [];
+const STATUS_OPTIONS = Object.values(DOCUMENT_STATUSES).map(status => ({
+  label: DOCUMENT_STATUS_LABELS[status],
+  value: status,
+}));
+
+const formatDocumentDate = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleDateString('fr-FR', { timeZone: 'UTC' });
 };
 
 /**
- * Helper function to get all conditions across all tabs for a document.
- * Used when checking if any conditions match regardless of tab.
+ * Calls an app function with the parameter and result types of its contract
+ * (see core/functions.ts).
  */
-const getAllConditions = (doc: Document): DocumentCondition[] => {
-  if (!doc.tabConfig) return [];
-  const allConditions: DocumentCondition[] = [];
-  Object.values(doc.tabConfig).forEach(config => {
-    if (config.conditions) {
-      allConditions.push(...config.conditions);
-    }
-  });
-  return allConditions;
+const runFunction = <N extends AppFunctionName>(
+  name: N,
+  parameters: AppFunctions[N]['parameters'],
+  propertiesToSend?: string[]
+): Promise<AppFunctions[N]['result']> => {
+  return hubspot.serverless<AppFunctions[N]['result']>(name, { parameters, propertiesToSend });
 };
 
+const failure = (code: ErrorCode, message: string): FunctionError => ({ status: 'error', code, message });
+
 /**
- * Helper function to get the first tab a document belongs to.
- * Returns null if document has no tab configuration.
+ * Thrown errors (network, serverless runtime) carry no code.
  */
-const getFirstTab = (doc: Document): string | null => {
-  if (!doc.tabConfig) return null;
-  const tabs = Object.keys(doc.tabConfig);
-  return tabs.length > 0 ? tabs[0] : null;
-};
+const toFailure = (err: any): FunctionError => failure(ERROR_CODES.UPSTREAM_ERROR, err?.message || String(err));
 
 /**
- * Converts various HubSpot property value formats to boolean.
- * Handles strings like "true", "false", "Oui", "Non", "1", "0", etc.
+ * Error shown by the card.
  */
-const toBool = (value: any): boolean => {
-  if (typeof value === 'boolean') {
-    return value;
-  }
-  
-  if (value === null || value === undefined || value === '') {
-    return false;
-  }
-  
-  if (typeof value === 'string') {
-    const lower = value.toLowerCase().trim();
-    if (lower === 'true' || lower === '1' || lower === 'yes' || lower === 'oui') {
-      return true;
-    }
-    if (lower === 'false' || lower === '0' || lower === 'no' || lower === 'non' || lower === '--') {
-      return false;
-    }
-    return false;
-  }
-  
-  if (typeof value === 'number') {
-    return value !== 0;
-  }
-  
-  return Boolean(value);
-};
+interface CardError {
+  failure: FunctionError;
+  /** Repeats the failed call, offered when the recovery action is "retry". */
+  retry?: () => void;
+}
 
 const Extension = ({ context, actions }: ExtensionProps) => {
   const [documents, setDocuments] = useState<Document[]>(INITIAL_DOCUMENTS);
   const [recordProperties, setRecordProperties] = useState<Record<string, any>>({});
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
-  const [error, setError] = useState('');
+  const [error, setError] = useState<CardError | null>(null);
   const [isChanged, setIsChanged] = useState(false);
   const [isCompleted, setIsCompleted] = useState(false);
   const [existingProperties, setExistingProperties] = useState<Set<string>>(new Set());
   const [dossierState, setDossierState] = useState(DOSSIER_STATES.TO_BUILD);
   const [initialCompletionStatus, setInitialCompletionStatus] = useState(false);
   const [initialDossierState, setInitialDossierState] = useState(DOSSIER_STATES.TO_BUILD);
+  // Manual state change sent to HubSpot
+  const [stateChanging, setStateChanging] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
   const [showEmailSuccess, setShowEmailSuccess] = useState(false);
+  // Missing documents email previewed in the send modal, edited by the user
+  const [emailDraft, setEmailDraft] = useState<EmailDraft | null>(null);
+  const [emailMissing, setEmailMissing] = useState<MissingDocument[]>([]);
+  const [emailLoading, setEmailLoading] = useState(false);
+  const [emailSending, setEmailSending] = useState(false);
+  const [emailError, setEmailError] = useState<CardError | null>(null);
   // Initialize selected tab - will be updated when sous_categorie is loaded
-  const [selectedTab, setSelectedTab] = useState<string>(TABS_CONFIG[0]?.id || 'autre');
+  const [selectedTab, setSelectedTab] = useState<string>(TABS_CONFIG[0]?.id || OTHER_TAB_ID);
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [natureDemande, setNatureDemande] = useState<string>('');
   const [isRefugieApatride, setIsRefugieApatride] = useState<boolean>(false);
   const [refugieRaw, setRefugieRaw] = useState<string>('');
-  const [hasConfigError, setHasConfigError] = useState<boolean>(false);
   const [isAutoSaving, setIsAutoSaving] = useState<boolean>(false);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [conflicts, setConflicts] = useState<PropertyConflict[]>([]);
+  // Documents whose note editor is open
+  const [openNotes, setOpenNotes] = useState<string[]>([]);
 
-  /**
-   * Checks if all required documents have been provided.
-   * Returns true only if there are required documents and all are provided.
-   */
-  const checkCompletion = (docs: Document[]): boolean => {
-    const incompleteRequired = docs.find(doc => doc.required && !doc.provided);
-    const hasRequiredDocs = docs.some(doc => doc.required);
-    return !incompleteRequired && hasRequiredDocs;
-  };
-
-  /**
-   * Calculates the dossier state based on document status.
-   * States: TO_BUILD (no required docs), INCOMPLETE (some provided), COMPLETE (all provided).
-   */
-  const calculateDossierState = (docs: Document[]): string => {
-    const hasRequiredDocs = docs.some(doc => doc.required);
-    if (!hasRequiredDocs) {
-      return DOSSIER_STATES.TO_BUILD;
-    }
-    
-    const anyProvided = docs.some(doc => doc.provided);
-    if (anyProvided) {
-      const allRequiredProvided = !docs.some(doc => doc.required && !doc.provided);
-      return allRequiredProvided ? DOSSIER_STATES.COMPLETE : DOSSIER_STATES.INCOMPLETE;
-    }
-    
-    return DOSSIER_STATES.TO_BUILD;
-  };
+  // Calls are skipped while a configuration error is shown, until the user retries
+  const hasConfigError = !!error && isConfigurationError(error.failure.code);
 
   // Fetch initial data and refetch when window regains focus (detects external changes)
   useEffect(() => {
@@ -258,78 +260,128 @@ const Extension = ({ context, actions }: ExtensionProps) => {
   }, []);
 
   /**
-   * Calculates missing documents (required but not provided) and formats as HTML list.
-   * Used for the missing_doc HubSpot property which is a Rich Text field.
+   * Central handling of app function failures: logs them and shows the message
+   * and recovery action for their code (see core/errors.ts).
+   * Background calls only surface configuration errors, which block every call.
    */
-  const calculateMissingDocuments = (docs: Document[], properties?: Record<string, any>): string => {
-    const propsToUse = properties || recordProperties;
-    
-    const missingDocs = docs
-      .filter(doc => {
-        const conditionsMet = checkDocumentConditions(doc, propsToUse);
-        const hasConditions = getAllConditions(doc).length > 0;
-
-        // A document is required if manually marked as required OR if conditions are met
-        const isRequired = doc.required || (hasConditions ? conditionsMet : false);
-
-        return isRequired && !doc.provided;
-      })
-      .map(doc => doc.name)
-      .filter(name => name.trim() !== '');
+  const handleFunctionError = (
+    source: string,
+    failure: FunctionError,
+    { background = false, retry }: { background?: boolean; retry?: () => void } = {}
+  ) => {
+    if (isConfigurationError(failure.code)) {
+      console.warn(`[DocumentList] ${source}: Configuration issue ${failure.code} -`, failure.message);
+    } else {
+      console.error(`[DocumentList] ${source}: ${failure.code} -`, failure.message);
+    }
 
-    if (missingDocs.length === 0) {
-      return '';
+    if (!background || isConfigurationError(failure.code)) {
+      setError({ failure, retry });
     }
-    const listItems = missingDocs.map(docName => `<li>${docName}</li>`).join('');
-    return `<ul>${listItems}</ul>`;
   };
 
   /**
-   * Returns array of missing document names for display in UI (e.g., modal).
+   * Renders the missing documents email of the saved dossier for the send modal.
    */
-  const getMissingDocumentsList = (docs: Document[], properties?: Record<string, any>): string[] => {
-    const propsToUse = properties || recordProperties;
-
-    const missingDocs = docs
-      .filter(doc => {
-        const conditionsMet = checkDocumentConditions(doc, propsToUse);
-        const hasConditions = getAllConditions(doc).length > 0;
-
-        // A document is required if manually marked as required OR if conditions are met
-        const isRequired = doc.required || (hasConditions ? conditionsMet : false);
-
-        return isRequired && !doc.provided;
-      })
-      .map(doc => doc.name)
-      .filter(name => name.trim() !== '');
+  const loadEmailDraft = async () => {
+    const objectId = context.crm?.objectId;
+    if (!objectId || hasConfigError) {
+      return;
+    }
 
-    return missingDocs;
+    setEmailLoading(true);
+    setEmailError(null);
+    setEmailDraft(null);
+    try {
+      const response = await runFunction('emailMissingDocuments', { hs_object_id: objectId.toString() });
+      if (response.status === 'error') {
+        handleFunctionError('loadEmailDraft', response, { background: true });
+        setEmailError({ failure: response, retry: loadEmailDraft });
+        return;
+      }
+      if (response.data) {
+        setEmailDraft(response.data.draft);
+        setEmailMissing(response.data.missing);
+      }
+    } catch (err) {
+      handleFunctionError('loadEmailDraft', toFailure(err), { background: true });
+      setEmailError({ failure: toFailure(err), retry: loadEmailDraft });
+    } finally {
+      setEmailLoading(false);
+    }
   };
 
   /**
-   * Updates the send_mail property to true when user sends email notification.
+   * Sends the previewed email with the user's edits. It is logged on the dossier.
    */
-  const updateSendMailProperty = async (): Promise<boolean> => {
+  const sendEmail = async (): Promise<boolean> => {
     const objectId = context.crm?.objectId;
-    
-    if (!objectId) {
+    if (!objectId || !emailDraft) {
       return false;
     }
-    
+
+    setEmailSending(true);
+    setEmailError(null);
     try {
-      await hubspot.serverless('updateDocuments', {
-        parameters: {
-          hs_object_id: objectId.toString(),
-          documents: {
-            send_mail: true
-          }
-        }
+      const response = await runFunction('emailMissingDocuments', {
+        hs_object_id: objectId.toString(),
+        send: true,
+        to: emailDraft.to,
+        subject: emailDraft.subject,
+        body: emailDraft.body,
+        user: context.user?.email,
       });
-      
+      if (response.status === 'error') {
+        handleFunctionError('sendEmail', response, { background: true });
+        setEmailError({ failure: response });
+        return false;
+      }
+      if (response.status === 'partial_success') {
+        console.warn('[DocumentList] sendEmail:', response.message);
+      }
       return true;
     } catch (err) {
-      setError(err?.message || 'Erreur lors de l\'envoi de l\'email');
+      handleFunctionError('sendEmail', toFailure(err), { background: true });
+      setEmailError({ failure: toFailure(err) });
       return false;
+    } finally {
+      setEmailSending(false);
+    }
+  };
+
+  const updateEmailDraft = (field: keyof EmailDraft) => {
+    return (value: string) => {
+      setEmailDraft(prev => (prev ? { ...prev, [field]: value } : prev));
+    };
+  };
+
+  /**
+   * Moves the dossier to a state through a transition of states.json. The
+   * function checks the transition again against the stored values.
+   */
+  const changeDossierState = async (to: string) => {
+    const objectId = context.crm?.objectId;
+    if (!objectId) {
+      handleFunctionError('changeDossierState', failure(ERROR_CODES.MISSING_PARAMETERS, 'Object ID not found in context'));
+      return;
+    }
+
+    setStateChanging(true);
+    setError(null);
+    try {
+      const response = await runFunction('changeDossierState', { hs_object_id: objectId.toString(), to });
+      if (response.status !== 'success') {
+        handleFunctionError('changeDossierState', response.status === 'error' ? response : failure(ERROR_CODES.UPSTREAM_ERROR, response.message));
+        return;
+      }
+      const { dossierState: state } = response.data!;
+      setDossierState(state);
+      setInitialDossierState(state);
+      setRecordProperties(prev => ({ ...prev, [DOSSIER_STATE_PROPERTY]: state }));
+    } catch (err) {
+      handleFunctionError('changeDossierState', toFailure(err), { retry: () => changeDossierState(to) });
+    } finally {
+      setStateChanging(false);
     }
   };
 
@@ -340,61 +392,23 @@ const Extension = ({ context, actions }: ExtensionProps) => {
   const updateMissingDocProperty = async (missingDocs: string) => {
     const objectId = context.crm?.objectId;
     
-    if (!objectId) {
-      return false;
-    }
-    
-    // Skip if we know there's a configuration issue
-    if (hasConfigError) {
+    if (!objectId || hasConfigError) {
       return false;
     }
     
     try {
-      const response = await hubspot.serverless('updateCompletionStatus', {
-        parameters: {
-          missingDoc: missingDocs,
-          hs_object_id: objectId.toString()
-        } as any
+      const response = await runFunction('updateCompletionStatus', {
+        missingDoc: missingDocs,
+        hs_object_id: objectId.toString()
       });
       
-      if (response?.status === 'error') {
-        const errorMsg = response.message || '';
-        
-        // Check if it's a configuration error (API key, secrets, etc.)
-        if (errorMsg.includes('API key') || errorMsg.includes('secret') || errorMsg.includes('token')) {
-          if (!hasConfigError) {
-            console.warn('[DocumentList] updateMissingDocProperty: Configuration issue detected -', errorMsg);
-            console.warn('[DocumentList] updateMissingDocProperty: Please check HubSpot app secrets configuration. Updates will be skipped.');
-            setHasConfigError(true);
-          }
-          return false;
-        }
-        
-        // Log other errors
-        console.error('[DocumentList] updateMissingDocProperty: ERROR -', errorMsg);
+      if (response.status === 'error') {
+        handleFunctionError('updateMissingDocProperty', response, { background: true });
         return false;
       }
-      
-      // Success - clear config error flag if it was set
-      if (hasConfigError) {
-        setHasConfigError(false);
-      }
-      
       return true;
     } catch (err) {
-      const errorMsg = err?.message || String(err);
-      
-      // Check if it's a configuration error
-      if (errorMsg.includes('API key') || errorMsg.includes('secret') || errorMsg.includes('token')) {
-        if (!hasConfigError) {
-          console.warn('[DocumentList] updateMissingDocProperty: Configuration issue detected -', errorMsg);
-          console.warn('[DocumentList] updateMissingDocProperty: Please check HubSpot app secrets configuration. Updates will be skipped.');
-          setHasConfigError(true);
-        }
-        return false;
-      }
-      
-      console.error('[DocumentList] updateMissingDocProperty: EXCEPTION -', errorMsg);
+      handleFunctionError('updateMissingDocProperty', toFailure(err), { background: true });
       return false;
     }
   };
@@ -402,79 +416,46 @@ const Extension = ({ context, actions }: ExtensionProps) => {
   /**
    * Updates completion status, dossier state, and missing documents in HubSpot.
    * Called automatically when document states change.
+   * Returns the dossier state stored in HubSpot, which stays a manual state a
+   * lawyer set even after the card loaded, or null when the update failed.
    */
-  const updateStatusProperties = async (completionStatus: boolean, dossierState: string, missingDocs: string) => {
+  const updateStatusProperties = async (completionStatus: boolean, dossierState: string, missingDocs: string): Promise<string | null> => {
     const objectId = context.crm?.objectId;
     
     if (!objectId) {
       console.error('[DocumentList] updateStatusProperties: No object ID');
-      return false;
+      return null;
     }
     
+    const retry = () => { updateStatusProperties(completionStatus, dossierState, missingDocs); };
+    
     try {
-      const response = await hubspot.serverless('updateCompletionStatus', {
-        parameters: {
-          completionStatus: completionStatus,
-          dossierState: dossierState,
-          missingDoc: missingDocs,
-          hs_object_id: objectId.toString()
-        }
+      const response = await runFunction('updateCompletionStatus', {
+        completionStatus: completionStatus,
+        dossierState: dossierState,
+        missingDoc: missingDocs,
+        hs_object_id: objectId.toString()
       });
       
-      if (response?.status === 'error') {
-        const errorMsg = response.message || '';
-        
-        // Check if it's a configuration error
-        if (errorMsg.includes('API key') || errorMsg.includes('secret') || errorMsg.includes('token')) {
-          if (!hasConfigError) {
-            console.warn('[DocumentList] updateStatusProperties: Configuration issue detected -', errorMsg);
-            console.warn('[DocumentList] updateStatusProperties: Please check HubSpot app secrets configuration.');
-            setHasConfigError(true);
-          }
-          setError('Configuration error: Please check HubSpot app secrets');
-          return false;
-        }
-        
-        console.error('[DocumentList] updateStatusProperties: ERROR -', errorMsg);
-        setError(errorMsg || 'Error updating status properties');
-        return false;
+      if (response.status === 'error') {
+        handleFunctionError('updateStatusProperties', response, { retry });
+        return null;
       }
       
-      if (response?.status === 'success' || response?.status === 'partial_success') {
-        console.log('[DocumentList] updateStatusProperties: SUCCESS -', {
-          completionStatus,
-          dossierState,
-          missingDocsCount: missingDocs ? (missingDocs.match(/<li>/g) || []).length : 0
-        });
-        
-        // Clear config error flag on success
-        if (hasConfigError) {
-          setHasConfigError(false);
-        }
-        
-        return true;
+      if (response.status === 'partial_success') {
+        handleFunctionError('updateStatusProperties', failure(ERROR_CODES.PROPERTY_MISSING, response.message));
+        return response.data.updated[DOSSIER_STATE_PROPERTY] ?? initialDossierState;
       }
       
-      // If no status field, assume success (backward compatibility)
-      console.log('[DocumentList] updateStatusProperties: SUCCESS (backward compatibility)');
-      return true;
+      console.log('[DocumentList] updateStatusProperties: SUCCESS -', {
+        completionStatus,
+        dossierState: response.data.dossierState,
+        missingDocsCount: missingDocs ? (missingDocs.match(/<li>/g) || []).length : 0
+      });
+      return response.data.dossierState ?? dossierState;
     } catch (err) {
-      const errorMsg = err?.message || String(err);
-      
-      // Check if it's a configuration error
-      if (errorMsg.includes('API key') || errorMsg.includes('secret') || errorMsg.includes('token')) {
-        if (!hasConfigError) {
-          console.warn('[DocumentList] updateStatusProperties: Configuration issue detected -', errorMsg);
-          console.warn('[DocumentList] updateStatusProperties: Please check HubSpot app secrets configuration.');
-          setHasConfigError(true);
-        }
-        setError('Configuration error: Please check HubSpot app secrets');
-        return false;
-      }
-      
-      console.error('[DocumentList] updateStatusProperties: EXCEPTION -', errorMsg);
-      setError(errorMsg || 'Error updating status properties');
-      return false;
+      handleFunctionError('updateStatusProperties', toFailure(err), { retry });
+      return null;
     }
   };
 
@@ -483,20 +464,21 @@ const [initialDocuments, setInitialDocuments] = useState<Document[]>([]);
   /**
    * Fetches document status from HubSpot and initializes component state.
    * Also handles auto-updating required status for documents with conditions.
+   * @param force - Fetch even while a configuration error is shown (user retry)
    */
-const fetchDocumentValues = async () => {
-  setLoading(true);
-  setError('');
-  const objectId = context.crm?.objectId;
-  
-  if (!objectId) {
-    setError('Object ID not found in context');
+const fetchDocumentValues = async (force: boolean = false) => {
+  // Skip if we know there's a configuration issue
+  if ((hasConfigError && !force) || CONDITION_ISSUES.length > 0) {
     setLoading(false);
     return;
   }
   
-  // Skip if we know there's a configuration issue
-  if (hasConfigError) {
+  setLoading(true);
+  setError(null);
+  const objectId = context.crm?.objectId;
+  
+  if (!objectId) {
+    handleFunctionError('fetchDocumentValues', failure(ERROR_CODES.MISSING_PARAMETERS, 'Object ID not found in context'));
     setLoading(false);
     return;
   }
@@ -506,13 +488,11 @@ const fetchDocumentValues = async () => {
     propertyNames.push('sous_categorie');
     
     // Add all conditional properties needed for condition evaluation
-    if (Array.isArray(conditionalPropertiesConfig)) {
-      conditionalPropertiesConfig.forEach(prop => {
-        if (!propertyNames.includes(prop)) {
-          propertyNames.push(prop);
-        }
-      });
-    }
+    CONDITIONAL_PROPERTIES.forEach(prop => {
+      if (!propertyNames.includes(prop)) {
+        propertyNames.push(prop);
+      }
+    });
     
     // Add all document required/provided properties
     INITIAL_DOCUMENTS.forEach(doc => {
@@ -522,61 +502,26 @@ const fetchDocumentValues = async () => {
       if (doc.providedProperty) {
         propertyNames.push(doc.providedProperty);
       }
+      if (doc.dateProperty && !propertyNames.includes(doc.dateProperty)) {
+        propertyNames.push(doc.dateProperty);
+      }
     });
+    
+    propertyNames.push(HISTORY_PROPERTY, REVIEW_PROPERTY, NOTES_PROPERTY);
   
   try {
-    const response = await hubspot.serverless('getDocumentValues', {
-      propertiesToSend: ['hs_object_id'],
-      parameters: {
-        propertyNames: propertyNames,
-        includeCompletion: true,
-        hs_object_id: objectId.toString()
-      }
-    });
+    const response = await runFunction('getDocumentValues', {
+      propertyNames: propertyNames,
+      includeCompletion: true,
+      hs_object_id: objectId.toString()
+    }, ['hs_object_id']);
     
-    // Check if response contains an error (e.g., missing token)
-    if (response?.error) {
-      const errorMsg = response.error || '';
-      
-      // Check if it's a token/secret error
-      if (errorMsg.includes('token') || errorMsg.includes('API key') || errorMsg.includes('secret') || errorMsg.includes('access token')) {
-        // Only show warning once, and only if we haven't already logged it
-        if (!hasConfigError) {
-          // Check if we're in a development context (no object ID in context)
-          const isDevContext = !context.crm?.objectId;
-          
-          if (isDevContext) {
-            // During development/compilation, this is expected
-            console.warn('[DocumentList] fetchDocumentValues: Secrets not available during development.');
-            console.warn('[DocumentList] fetchDocumentValues: This is expected. The app will work when deployed with secrets configured.');
-          } else {
-            // In production, this is a real configuration issue
-            console.error('[DocumentList] fetchDocumentValues: Configuration issue detected -', errorMsg);
-            console.error('[DocumentList] fetchDocumentValues: Please configure HubSpot app secrets (hubspot_api_key or sandbox_hubspot_api_key)');
-            setError('Configuration error: Please check HubSpot app secrets');
-          }
-          setHasConfigError(true);
-        }
-        setLoading(false);
-        return;
-      }
-      
-      // Other errors - clear config error flag if it's not a config issue
-      if (hasConfigError) {
-        setHasConfigError(false);
-      }
-      setError(errorMsg || 'Error fetching document values');
-      setLoading(false);
+    if (response.status === 'error') {
+      handleFunctionError('fetchDocumentValues', response, { retry: () => fetchDocumentValues(true) });
       return;
     }
     
-    // Success - clear config error flag
-    if (hasConfigError) {
-      setHasConfigError(false);
-      setError('');
-    }
-    
-    const properties = response || {};
+    const properties: Record<string, any> = response.data?.properties || {};
     
     const getPropValue = (obj: any, needle: string) => {
       if (!obj) return undefined;
@@ -618,12 +563,9 @@ const fetchDocumentValues = async () => {
       properties['sous_categorie'] = nd;
     }
     
-    // Auto-select the tab based on sous_categorie
+    // Auto-select the tab based on sous_categorie, "autre" when its procedure has no tab
     if (nd) {
-      const tabId = getTabForNatureDemande(nd);
-      if (tabId) {
-        setSelectedTab(tabId);
-      }
+      setSelectedTab(getTabForNatureDemande(nd) || OTHER_TAB_ID);
     }
     const refugieVal = getPropValue(properties, 'avez_vous_un_statut_refugie_ou_apatride');
     const refugieStr = refugieVal === undefined || refugieVal === null ? '' : String(refugieVal);
@@ -631,6 +573,7 @@ const fetchDocumentValues = async () => {
     setIsRefugieApatride(toBool(refugieStr));
     
     setRecordProperties(properties);
+    setHistory(parseHistory(properties[HISTORY_PROPERTY]));
     
     const propertiesSet = new Set<string>();
     Object.keys(properties).forEach(key => {
@@ -640,71 +583,13 @@ const fetchDocumentValues = async () => {
     });
     setExistingProperties(propertiesSet);
     
-      let updatedDocuments = INITIAL_DOCUMENTS.map(doc => {
-      const requiredProp = doc.requiredProperty;
-      const providedProp = doc.providedProperty;
-      const requiredRaw = properties[requiredProp];
-      const providedRaw = properties[providedProp];
-        // toBool converts undefined/null/'' to false, 'true'/'false' strings to boolean
-        const requiredFromHubSpot = toBool(requiredRaw);
-      const provided = toBool(providedRaw);
-      
-      // Debug logging for documents that should be required
-      if (doc.id === 'timbre_fiscal_de_55') {
-        console.log(`[fetchDocumentValues] Document "${doc.name}":`);
-        console.log(`[fetchDocumentValues]   requiredRaw from HubSpot: "${requiredRaw}" (type: ${typeof requiredRaw})`);
-        console.log(`[fetchDocumentValues]   requiredFromHubSpot: ${requiredFromHubSpot}`);
-        console.log(`[fetchDocumentValues]   providedRaw from HubSpot: "${providedRaw}" (type: ${typeof providedRaw})`);
-        console.log(`[fetchDocumentValues]   provided: ${provided}`);
-        console.log(`[fetchDocumentValues]   Property exists in properties: ${requiredProp in properties}`);
-      }
-      
-      // Log specific document for debugging
-      if (doc.id.includes('document_justifiant_de_la_date_et_du_lieu_de_naissance')) {
-        console.log(`[DocumentList] fetchDocumentValues: Document "${doc.name}"`);
-        console.log(`[DocumentList] fetchDocumentValues: requiredRaw="${requiredRaw}" (type: ${typeof requiredRaw}) -> requiredFromHubSpot=${requiredFromHubSpot}`);
-        console.log(`[DocumentList] fetchDocumentValues: providedRaw="${providedRaw}" (type: ${typeof providedRaw}) -> provided=${provided}`);
-        console.log(`[DocumentList] fetchDocumentValues: Property names - required: "${requiredProp}", provided: "${providedProp}"`);
-        console.log(`[DocumentList] fetchDocumentValues: Properties exist? required: ${requiredProp in properties}, provided: ${providedProp in properties}`);
-      }
-      
-      const conditionsMet = checkDocumentConditions(doc, properties);
-      const hasConditions = getAllConditions(doc).length > 0;
-
-      let required: boolean;
-      if (hasConditions) {
-        if (conditionsMet) {
-          required = true;
-        } else {
-          // If conditions are not met:
-          // - If document is provided, keep the required status (user can manage in "autre" tab)
-          // - If document is NOT provided, reset required to false
-          if (provided) {
-            required = requiredFromHubSpot; // Keep user's choice if provided
-          } else {
-            required = false; // Reset to false if not provided
-          }
-        }
-      } else {
-        required = requiredFromHubSpot;
-      }
-
-      return {
-        ...doc,
-        required,
-        provided,
-        _requiredFromHubSpot: requiredFromHubSpot,
-        _shouldBeRequired: hasConditions
-          ? (conditionsMet ? true : requiredFromHubSpot)
-          : requiredFromHubSpot
-      };
-    });
+    const updatedDocuments = resolveDocuments(INITIAL_DOCUMENTS, properties);
     
     setDocuments(updatedDocuments);
     setInitialDocuments([...updatedDocuments]);
     
     const calculatedCompletion = checkCompletion(updatedDocuments);
-    const calculatedDossierState = calculateDossierState(updatedDocuments);
+    const calculatedDossierState = resolveDossierState(currentDossierState, calculateDossierState(updatedDocuments));
     
     if (calculatedCompletion !== completionStatus || 
         calculatedDossierState !== currentDossierState) {
@@ -722,7 +607,7 @@ const fetchDocumentValues = async () => {
     
     setIsChanged(false);
   } catch (err) {
-    setError(err?.message || 'Unknown error fetching document values');
+    handleFunctionError('fetchDocumentValues', toFailure(err), { retry: () => fetchDocumentValues(true) });
   } finally {
     setLoading(false);
   }
@@ -741,7 +626,7 @@ const handleCheckboxToggle = (documentId: string, field: 'required' | 'provided'
           if (field === 'required') {
             const conditionsMet = checkDocumentConditions(doc, recordProperties);
             const hasConditions = getAllConditions(doc).length > 0;
-            const isAutreTab = selectedTab === 'autre';
+            const isAutreTab = selectedTab === OTHER_TAB_ID;
 
             if (hasConditions && !isAutreTab) {
               if (conditionsMet && !checked) {
@@ -760,11 +645,11 @@ const handleCheckboxToggle = (documentId: string, field: 'required' | 'provided'
       });
     
     const newCompletionStatus = checkCompletion(newDocs);
-    const newDossierState = calculateDossierState(newDocs);
+    const newDossierState = resolveDossierState(initialDossierState, calculateDossierState(newDocs));
       setIsCompleted(newCompletionStatus);
       setDossierState(newDossierState);
       
-      const missingDocs = calculateMissingDocuments(newDocs);
+      const missingDocs = calculateMissingDocuments(newDocs, recordProperties);
       
       // Only auto-update missing_doc property (calculated field)
       // Do NOT auto-update documents_completed or etat_du_dossier until user saves
@@ -776,7 +661,11 @@ const handleCheckboxToggle = (documentId: string, field: 'required' | 'provided'
         const initialDoc = initialDocuments[index];
         if (!initialDoc) return true;
         return currentDoc.required !== initialDoc.required || 
-               currentDoc.provided !== initialDoc.provided;
+               currentDoc.provided !== initialDoc.provided ||
+               currentDoc.date !== initialDoc.date ||
+               currentDoc.status !== initialDoc.status ||
+               currentDoc.rejectionReason !== initialDoc.rejectionReason ||
+               currentDoc.note !== initialDoc.note;
       });
       setIsChanged(completionChanged || dossierStateChanged || documentsChanged);
       
@@ -785,6 +674,60 @@ const handleCheckboxToggle = (documentId: string, field: 'required' | 'provided'
   };
 };
 
+  /**
+   * Handles date changes of documents with a validity rule. Documents sharing
+   * the date property get the same date.
+   */
+const handleDateChange = (documentId: string) => {
+  return (value: { year: number; month: number; date: number } | null) => {
+    const date = value ? toDateValue(Date.UTC(value.year, value.month, value.date)) : null;
+    setDocuments(prevDocs => {
+      const dateProperty = prevDocs.find(doc => doc.id === documentId)?.dateProperty;
+      const newDocs = prevDocs.map(doc => (dateProperty && doc.dateProperty === dateProperty ? { ...doc, date } : doc));
+
+      setIsCompleted(checkCompletion(newDocs));
+      setDossierState(resolveDossierState(initialDossierState, calculateDossierState(newDocs)));
+      return newDocs;
+    });
+  };
+};
+
+  /**
+   * Handles review status changes. The provided flag follows the status, and
+   * the rejection reason is only kept while the document is rejected.
+   */
+const handleStatusChange = (documentId: string) => {
+  return (value: string | number) => {
+    const status = value as DocumentStatus;
+    setDocuments(prevDocs => {
+      const newDocs = prevDocs.map(doc => (doc.id === documentId
+        ? {
+          ...doc,
+          status,
+          provided: isProvidedStatus(status),
+          rejectionReason: status === DOCUMENT_STATUSES.REJECTED ? doc.rejectionReason : null,
+        }
+        : doc));
+
+      setIsCompleted(checkCompletion(newDocs));
+      setDossierState(resolveDossierState(initialDossierState, calculateDossierState(newDocs)));
+      return newDocs;
+    });
+  };
+};
+
+const handleReasonChange = (documentId: string) => {
+  return (value: string) => {
+    setDocuments(prevDocs => prevDocs.map(doc => (doc.id === documentId ? { ...doc, rejectionReason: value || null } : doc)));
+  };
+};
+
+const handleNoteChange = (documentId: string) => {
+  return (value: string) => {
+    setDocuments(prevDocs => prevDocs.map(doc => (doc.id === documentId ? { ...doc, note: value || null } : doc)));
+  };
+};
+
   /**
    * Checks if any changes have been made compared to initial state.
    * Used to show/hide save/cancel buttons.
@@ -796,7 +739,11 @@ const checkForChanges = () => {
     const initialDoc = initialDocuments[index];
       if (!initialDoc) return true;
     return currentDoc.required !== initialDoc.required || 
-           currentDoc.provided !== initialDoc.provided;
+           currentDoc.provided !== initialDoc.provided ||
+           currentDoc.date !== initialDoc.date ||
+           currentDoc.status !== initialDoc.status ||
+           currentDoc.rejectionReason !== initialDoc.rejectionReason ||
+           currentDoc.note !== initialDoc.note;
   });
   setIsChanged(completionChanged || dossierStateChanged || documentsChanged);
 };
@@ -805,169 +752,84 @@ const checkForChanges = () => {
    * Saves document changes to HubSpot.
    * @param docsToSave - Optional documents to save, defaults to current state
    * @param skipRefetch - If true, skips refetch after save (used for auto-saves)
+   * @param overwrite - Conflicts the user chose to overwrite with their values
    */
-  const saveDocumentChanges = async (docsToSave?: Document[], skipRefetch: boolean = false) => {
+  const saveDocumentChanges = async (docsToSave?: Document[], skipRefetch: boolean = false, overwrite: PropertyConflict[] = []) => {
   setSaving(true);
-  setError('');
+  setError(null);
+  setConflicts([]);
+  const retry = () => { saveDocumentChanges(docsToSave, skipRefetch, overwrite); };
   
   try {
       const docs = docsToSave || documents;
-    const documentProperties = {};
-    
-    // Get currently visible documents to prioritize their values when there are duplicates
-    // Only if we have the necessary state (recordProperties, selectedTab, etc.)
-    let visibleDocIds = new Set<string>();
-    try {
-      const visibleDocs = getVisibleDocuments();
-      visibleDocIds = new Set(visibleDocs.map(d => d.id));
-    } catch (err) {
-      // If getVisibleDocuments fails (e.g., during initial load), just use all docs
-      console.warn('[saveDocumentChanges] Could not get visible documents, using all documents:', err);
-      visibleDocIds = new Set(docs.map(d => d.id));
-    }
-    
-    // Track which properties we've seen to detect duplicates
-    // When duplicates exist, prefer the value from a visible document
-    const seenProperties = new Map<string, { docId: string; docName: string; value: any; isVisible: boolean }>();
-    
-      docs.forEach((doc) => {
-      const requiredProp = doc.requiredProperty;
-      const providedProp = doc.providedProperty;
-        const isRequired = doc.required;
-      const isVisible = visibleDocIds.has(doc.id);
-      
-      // Handle duplicate properties - prefer visible documents
-      if (seenProperties.has(requiredProp)) {
-        const previous = seenProperties.get(requiredProp)!;
-        // If current doc is visible and previous wasn't, use current
-        // If both are visible or both aren't, use the last one
-        if (isVisible && !previous.isVisible) {
-          console.warn(`[DocumentList] saveDocumentChanges: Duplicate required property "${requiredProp}" - using VISIBLE document`);
-          console.warn(`[DocumentList] saveDocumentChanges: Previous (not visible): doc="${previous.docName}" (${previous.docId}) = ${previous.value}`);
-          console.warn(`[DocumentList] saveDocumentChanges: New (visible): doc="${doc.name}" (${doc.id}) = ${isRequired}`);
-          seenProperties.set(requiredProp, { docId: doc.id, docName: doc.name, value: isRequired, isVisible });
-          documentProperties[requiredProp] = isRequired;
-        } else if (!isVisible && previous.isVisible) {
-          console.warn(`[DocumentList] saveDocumentChanges: Duplicate required property "${requiredProp}" - keeping VISIBLE document value`);
-          // Keep previous value, don't update
-        } else {
-          // Both same visibility, use last one
-          console.warn(`[DocumentList] saveDocumentChanges: Duplicate required property "${requiredProp}" - using last value`);
-          seenProperties.set(requiredProp, { docId: doc.id, docName: doc.name, value: isRequired, isVisible });
-          documentProperties[requiredProp] = isRequired;
-        }
-      } else {
-        seenProperties.set(requiredProp, { docId: doc.id, docName: doc.name, value: isRequired, isVisible });
-        documentProperties[requiredProp] = isRequired;
-      }
-      
-      if (seenProperties.has(providedProp)) {
-        const previous = seenProperties.get(providedProp)!;
-        // If current doc is visible and previous wasn't, use current
-        // If both are visible or both aren't, use the last one
-        if (isVisible && !previous.isVisible) {
-          console.warn(`[DocumentList] saveDocumentChanges: Duplicate provided property "${providedProp}" - using VISIBLE document`);
-          console.warn(`[DocumentList] saveDocumentChanges: Previous (not visible): doc="${previous.docName}" (${previous.docId}) = ${previous.value}`);
-          console.warn(`[DocumentList] saveDocumentChanges: New (visible): doc="${doc.name}" (${doc.id}) = ${doc.provided}`);
-          seenProperties.set(providedProp, { docId: doc.id, docName: doc.name, value: doc.provided, isVisible });
-          documentProperties[providedProp] = doc.provided;
-        } else if (!isVisible && previous.isVisible) {
-          console.warn(`[DocumentList] saveDocumentChanges: Duplicate provided property "${providedProp}" - keeping VISIBLE document value`);
-          // Keep previous value, don't update
-        } else {
-          // Both same visibility, use last one
-          console.warn(`[DocumentList] saveDocumentChanges: Duplicate provided property "${providedProp}" - using last value`);
-          seenProperties.set(providedProp, { docId: doc.id, docName: doc.name, value: doc.provided, isVisible });
-          documentProperties[providedProp] = doc.provided;
-        }
-      } else {
-        seenProperties.set(providedProp, { docId: doc.id, docName: doc.name, value: doc.provided, isVisible });
-        documentProperties[providedProp] = doc.provided;
-      }
-        
-        // Log specific document for debugging
-        if (doc.id.includes('document_justifiant_de_la_date_et_du_lieu_de_naissance')) {
-          console.log(`[DocumentList] saveDocumentChanges: Document "${doc.name}" (id: ${doc.id})`);
-          console.log(`[DocumentList] saveDocumentChanges: required=${isRequired} (property: ${requiredProp}), visible=${isVisible}`);
-          console.log(`[DocumentList] saveDocumentChanges: provided=${doc.provided} (property: ${providedProp}), visible=${isVisible}`);
-        }
-      });
-      
-      // Log final values for the specific property
-      const targetProp = 'document_justifiant_de_la_date_et_du_lieu_de_naissance_de_votre_pere_et_votre_mere_et_de_l_provided';
-      if (targetProp in documentProperties) {
-        const finalInfo = seenProperties.get(targetProp);
-        console.log(`[DocumentList] saveDocumentChanges: FINAL value for ${targetProp} = ${documentProperties[targetProp]} (type: ${typeof documentProperties[targetProp]})`);
-        if (finalInfo) {
-          console.log(`[DocumentList] saveDocumentChanges: Final value comes from doc "${finalInfo.docName}" (${finalInfo.docId}), visible=${finalInfo.isVisible}`);
-        }
-      }
+    // Only the flags that differ from HubSpot, shared properties resolved from the config
+    const documentProperties: Record<string, boolean | string> = {
+      ...getDocumentPropertyChanges(docs, initialDocuments, recordProperties, PROPERTY_DOCUMENTS),
+      ...getDocumentDateChanges(docs, initialDocuments),
+    };
+    overwrite.forEach(conflict => {
+      documentProperties[conflict.property] = DATE_PROPERTIES.includes(conflict.property) ? conflict.requested : toBool(conflict.requested);
+    });
   
     const objectId = context.crm?.objectId;
     
     if (!objectId) {
-      setError('Object ID not found in context');
+      handleFunctionError('saveDocumentChanges', failure(ERROR_CODES.MISSING_PARAMETERS, 'Object ID not found in context'));
       setSaving(false);
       return;
     }
     
-    console.log('[DocumentList] saveDocumentChanges: Sending update for', Object.keys(documentProperties).length, 'properties');
-    console.log('[DocumentList] saveDocumentChanges: Sample properties:', Object.entries(documentProperties).slice(0, 5).map(([k, v]) => `${k}=${v}`).join(', '));
+    console.log('[DocumentList] saveDocumentChanges: Sending update for', Object.keys(documentProperties).length, 'properties:', Object.entries(documentProperties).map(([k, v]) => `${k}=${v}`).join(', '));
     
-    const docResponse = await hubspot.serverless('updateDocuments', {
-      parameters: {
-        documents: documentProperties,
-          hs_object_id: objectId.toString()
-        }
-      });
+    // Values loaded from HubSpot, so the function can detect changes made by someone else since
+    const expected: Record<string, boolean | string> = {};
+    Object.keys(documentProperties).forEach(prop => {
+      expected[prop] = DATE_PROPERTIES.includes(prop) ? recordProperties[prop] || '' : toBool(recordProperties[prop]);
+    });
+    overwrite.forEach(conflict => {
+      expected[conflict.property] = conflict.current;
+    });
     
-    console.log('[DocumentList] saveDocumentChanges: Response status:', docResponse?.status);
-    console.log('[DocumentList] saveDocumentChanges: Response data:', docResponse?.data ? 'Received' : 'No data');
+    const docResponse = await runFunction('updateDocuments', {
+      documents: documentProperties,
+      expected,
+      reviews: getDocumentReviewChanges(docs, initialDocuments),
+      notes: getDocumentNoteChanges(docs, initialDocuments),
+      user: context.user?.email,
+      hs_object_id: objectId.toString()
+    });
     
-      if (docResponse?.status === 'error') {
-        const errorMsg = docResponse.message || '';
-        console.error('[DocumentList] saveDocumentChanges: ERROR response -', errorMsg);
-        console.error('[DocumentList] saveDocumentChanges: Full response:', JSON.stringify(docResponse, null, 2));
-        
-        if (errorMsg.includes('does not exist') || errorMsg.includes('PROPERTY_DOESNT_EXIST')) {
-          console.warn('[DocumentList] saveDocumentChanges: Some properties do not exist, continuing...');
-        } else if (errorMsg.includes('API key') || errorMsg.includes('secret') || errorMsg.includes('token')) {
-          if (!hasConfigError) {
-            console.warn('[DocumentList] saveDocumentChanges: Configuration issue detected -', errorMsg);
-            console.warn('[DocumentList] saveDocumentChanges: Please check HubSpot app secrets configuration.');
-            setHasConfigError(true);
-          }
-          throw new Error('Configuration error: Please check HubSpot app secrets');
-        } else {
-          console.error('[DocumentList] saveDocumentChanges: Update failed -', errorMsg);
-          throw new Error(docResponse.message || 'Failed to update documents');
-        }
+    console.log('[DocumentList] saveDocumentChanges: Response status:', docResponse.status);
+    
+      if (docResponse.status === 'error') {
+        handleFunctionError('saveDocumentChanges', docResponse, { retry });
+        return;
       }
       
-      if (docResponse?.status === 'success') {
-        console.log('[DocumentList] saveDocumentChanges: SUCCESS - Updated', Object.keys(documentProperties).length, 'document properties');
-        
-        // Clear config error flag on success
-        if (hasConfigError) {
-          setHasConfigError(false);
+      // The other changes were saved; the user decides to reload or overwrite the conflicting ones
+      if (docResponse.status === 'partial_success') {
+        const { conflicts: conflicting, failed } = docResponse.data;
+        if (failed.length > 0) {
+          handleFunctionError('saveDocumentChanges', failure(ERROR_CODES.PROPERTY_MISSING, docResponse.message));
+        }
+        if (conflicting.length > 0) {
+          console.warn('[DocumentList] saveDocumentChanges: Conflicts on', conflicting.map(conflict => conflict.property).join(', '));
+          setConflicts(conflicting);
+          return;
         }
-      } else if (docResponse?.status !== 'error') {
-        console.warn('[DocumentList] saveDocumentChanges: Unexpected response status:', docResponse?.status);
-        console.warn('[DocumentList] saveDocumentChanges: Full response:', JSON.stringify(docResponse, null, 2));
-        throw new Error(`Unexpected response status: ${docResponse?.status}`);
-      }
-    
-      // Only continue if update was successful
-      if (docResponse?.status !== 'success') {
-        throw new Error('Document update failed');
       }
+      
+      console.log('[DocumentList] saveDocumentChanges: SUCCESS - Updated', Object.keys(documentProperties).length, 'document properties');
     
       const missingDocs = calculateMissingDocuments(docs, recordProperties);
-      const statusUpdated = await updateStatusProperties(isCompleted, dossierState, missingDocs);
+      // Only the computed state is sent, manual states are changed with changeDossierState
+      const storedState = await updateStatusProperties(isCompleted, calculateDossierState(docs), missingDocs);
     
-    if (statusUpdated) {
+    if (storedState !== null) {
       setInitialCompletionStatus(isCompleted);
-      setInitialDossierState(dossierState);
+      setInitialDossierState(storedState);
+      setDossierState(storedState);
+      setRecordProperties(prev => ({ ...prev, [DOSSIER_STATE_PROPERTY]: storedState }));
         setInitialDocuments([...docs]);
       setIsChanged(false);
       
@@ -979,7 +841,7 @@ const checkForChanges = () => {
       console.log('[DocumentList] saveDocumentChanges: Refetching document values to verify updates...');
       
       // Remember if we were in "autre" tab before refetch
-      const wasInAutreTab = selectedTab === 'autre';
+      const wasInAutreTab = selectedTab === OTHER_TAB_ID;
       const activeTabIdBeforeRefetch = getActiveTabId();
       
       await fetchDocumentValues();
@@ -1016,11 +878,9 @@ const checkForChanges = () => {
         }
     } else {
       console.error('[DocumentList] saveDocumentChanges: Failed to update status properties');
-      setError('Error updating status properties');
     }
   } catch (err) {
-    console.error('[DocumentList] saveDocumentChanges: EXCEPTION -', err?.message || err);
-    setError(err?.message || 'Error updating documents');
+    handleFunctionError('saveDocumentChanges', toFailure(err), { retry });
   } finally {
     setSaving(false);
   }
@@ -1031,6 +891,7 @@ const checkForChanges = () => {
    */
 const resetChanges = () => {
     setDocuments([...initialDocuments]);
+  setOpenNotes([]);
   setIsCompleted(initialCompletionStatus);
   setDossierState(initialDossierState);
   setIsChanged(false);
@@ -1043,7 +904,7 @@ useEffect(() => {
     
       const timeoutId = setTimeout(() => {
         if (documents.length > 0 && documents.some(doc => doc.name)) {
-          const missingDocs = calculateMissingDocuments(documents);
+          const missingDocs = calculateMissingDocuments(documents, recordProperties);
           // Only auto-update missing_doc property (calculated field)
           // Do NOT auto-update documents_completed or etat_du_dossier until user saves
           updateMissingDocProperty(missingDocs).catch(() => {});
@@ -1057,8 +918,8 @@ useEffect(() => {
   // Update selected tab when natureDemande changes
   useEffect(() => {
     if (natureDemande) {
-      const tabId = getTabForNatureDemande(natureDemande);
-      if (tabId && tabId !== selectedTab) {
+      const tabId = getTabForNatureDemande(natureDemande) || OTHER_TAB_ID;
+      if (tabId !== selectedTab) {
         setSelectedTab(tabId);
       }
     }
@@ -1072,6 +933,9 @@ useEffect(() => {
 
 
   const getDossierStateStyle = (state) => {
+    if (!isAutomaticState(state)) {
+      return "info";
+    }
     switch(state) {
       case DOSSIER_STATES.COMPLETE:
         return "success";
@@ -1083,174 +947,58 @@ useEffect(() => {
     }
   };
 
-  const stepNames = [
-    DOSSIER_STATES.TO_BUILD,
-    DOSSIER_STATES.INCOMPLETE,
-    DOSSIER_STATES.COMPLETE
-  ];
-
-  const getCurrentStepIndex = (): number => {
-    switch (dossierState) {
-      case DOSSIER_STATES.TO_BUILD:
-        return 0;
-      case DOSSIER_STATES.INCOMPLETE:
-        return 1;
-      case DOSSIER_STATES.COMPLETE:
-        return isCompleted ? stepNames.length : 2;
-      default:
-        return 0;
-    }
-  };
-
-  /**
-   * Evaluates a single condition against HubSpot record properties.
-   * Supports multiple operators including 'in' for multi-select fields.
-   */
-  const evaluateCondition = (condition: DocumentCondition, properties: Record<string, any>): boolean => {
-    let propertyValue = properties[condition.property];
-    if (propertyValue === undefined) {
-      const foundKey = Object.keys(properties).find(k => 
-        k.toLowerCase() === condition.property.toLowerCase()
-      );
-      if (foundKey) {
-        propertyValue = properties[foundKey];
-      }
-    }
-    
-    const propValueStr = propertyValue ? String(propertyValue).trim() : '';
-    const conditionValue = condition.value.trim();
-
-    switch (condition.operator) {
-      case 'equals':
-        return propValueStr === conditionValue;
-      case 'not_equals':
-        return propValueStr !== conditionValue;
-      case 'contains':
-        return propValueStr.toLowerCase().includes(conditionValue.toLowerCase());
-      case 'not_contains':
-        return !propValueStr.toLowerCase().includes(conditionValue.toLowerCase());
-      case 'in':
-        // Handles HubSpot multi-select fields which can be:
-        // - Single string: "Value"
-        // - Semicolon-separated: "Value1;Value2"
-        // - Array: ["Value1", "Value2"]
-        if (!propertyValue || propValueStr === '') {
-          return false;
-        }
-        
-        const normalizedConditionValue = conditionValue.trim();
-        const normalizedPropertyValue = propValueStr.trim();
-        
-        if (Array.isArray(propertyValue)) {
-          return propertyValue.some(val => {
-            const normalizedVal = String(val).trim();
-            return normalizedVal === normalizedConditionValue;
-          });
-        }
-        
-        const normalizeForComparison = (str: string): string => {
-          return str.trim().replace(/\s+/g, ' ');
-        };
-        
-        const normalizedCondition = normalizeForComparison(normalizedConditionValue);
-        
-        if (normalizedPropertyValue.includes(';')) {
-          const values = normalizedPropertyValue.split(';').map(v => normalizeForComparison(v)).filter(v => v !== '');
-          return values.some(val => val === normalizedCondition);
-        }
-        
-        if (normalizedPropertyValue.includes(',')) {
-          const values = normalizedPropertyValue.split(',').map(v => normalizeForComparison(v)).filter(v => v !== '');
-          return values.some(val => val === normalizedCondition);
-        }
-        
-        const normalizedProperty = normalizeForComparison(normalizedPropertyValue);
-        return normalizedProperty === normalizedCondition;
-      default:
-        return true;
-    }
-  };
+  // Steps of states.json, in order
+  const stepNames = STATE_MACHINE.states.map(state => state.value);
 
   /**
-   * Checks if all conditions for a document are met.
-   * Logic: Conditions on the same property use OR (any match),
-   * conditions on different properties use AND (all groups must match).
-   *
-   * @param doc - The document to check
-   * @param properties - The HubSpot record properties
-   * @param tabId - Optional: specific tab to check conditions for. If not provided, checks all tabs.
+   * Buttons for the transitions out of the current state. Blocked ones are
+   * disabled with the reason; unsaved changes must be saved first, as the
+   * guards are checked against the stored dossier.
    */
-  const checkDocumentConditions = (doc: Document, properties: Record<string, any>, tabId?: string): boolean => {
-    // Get conditions based on whether a specific tab is requested
-    let conditions: DocumentCondition[];
-
-    if (tabId) {
-      // Check conditions for specific tab
-      conditions = getConditionsForTab(doc, tabId);
-    } else {
-      // Check conditions across all tabs (any tab's conditions matching is enough)
-      conditions = getAllConditions(doc);
-    }
-
-    if (!conditions || conditions.length === 0) {
-      return true;
-    }
-
-    const conditionsByProperty = new Map<string, DocumentCondition[]>();
-
-    conditions.forEach(condition => {
-      if (!conditionsByProperty.has(condition.property)) {
-        conditionsByProperty.set(condition.property, []);
-      }
-      conditionsByProperty.get(condition.property)!.push(condition);
-    });
-
-    const allPropertyGroupsMatch = Array.from(conditionsByProperty.entries()).every(([property, propConditions]) => {
-      return propConditions.some(condition => {
-        return evaluateCondition(condition, properties);
-      });
+  const renderStateTransitions = () => {
+    const transitions = getAvailableTransitions(STATE_MACHINE, dossierState, {
+      completed: isCompleted,
+      properties: recordProperties,
+      automaticState: calculateDossierState(documents),
     });
+    if (transitions.length === 0) {
+      return null;
+    }
 
-    return allPropertyGroupsMatch;
+    const blocked = transitions.filter(transition => transition.blockedBy);
+    return (
+      <Flex direction="column" gap="xs">
+        <Flex direction="row" gap="sm" align="center" wrap="wrap">
+          {transitions.map(transition => (
+            <Button
+              key={transition.to}
+              variant="secondary"
+              size="xs"
+              disabled={!!transition.blockedBy || isChanged || saving || stateChanging}
+              onClick={() => changeDossierState(transition.to)}
+            >
+              {transition.label}
+            </Button>
+          ))}
+          {stateChanging && <LoadingSpinner size="xs" label="Changement d'état..." />}
+        </Flex>
+        {isChanged && (
+          <Text variant="microcopy">Enregistrez les modifications avant de changer l'état du dossier.</Text>
+        )}
+        {blocked.map(transition => (
+          <Text key={transition.to} variant="microcopy">
+            {transition.label} : {transition.blockedBy}
+          </Text>
+        ))}
+      </Flex>
+    );
   };
 
   /**
-   * Determines which tab should be shown based on sous_categorie value.
-   * Uses the new tabConfig structure to find matching tabs.
+   * Determines which tab should be shown based on sous_categorie value, from tabs.json.
    */
   const getTabForNatureDemande = (natureDemandeValue: string): string | null => {
-    if (!natureDemandeValue) {
-      return null;
-    }
-
-    // Normalize the value for comparison (trim, normalize whitespace)
-    const normalize = (str: string): string => {
-      return str.trim().replace(/\s+/g, ' ');
-    };
-    const normalizedValue = normalize(natureDemandeValue);
-
-    // Search through all documents and their tabConfigs to find matching sous_categorie
-    for (const doc of DOCUMENTS_CONFIG) {
-      if (!doc.tabConfig) continue;
-
-      // Check each tab's conditions
-      for (const [tabId, tabConfig] of Object.entries(doc.tabConfig)) {
-        if (!tabConfig.conditions) continue;
-
-        // Look for a sous_categorie condition that matches
-        const hasMatch = tabConfig.conditions.some(condition => {
-          return condition.property === 'sous_categorie' &&
-            condition.operator === 'equals' &&
-            normalize(condition.value) === normalizedValue;
-        });
-
-        if (hasMatch) {
-          return tabId;
-        }
-      }
-    }
-
-    return null;
+    return findTabForNatureDemande(natureDemandeValue, TABS_CONFIG);
   };
 
   /**
@@ -1266,125 +1014,46 @@ useEffect(() => {
     return tabId;
   };
 
+  /**
+   * The dossier has a sous_categorie that no tab of tabs.json maps.
+   */
+  const isProcedureUnconfigured = (): boolean => {
+    return !!natureDemande && !getActiveTabId();
+  };
+
   /**
    * Filters and sorts documents visible in the current tab.
-   * First tab is determined by sous_categorie (finds documents matching that value and uses their tab property).
-   * "Autre" tab shows documents from the first tab that don't match conditions.
+   * First tab is determined by sous_categorie, "Autre" tab shows the remaining marked or unmatched documents.
    */
   const getVisibleDocuments = (): Document[] => {
-    // Safety check: ensure we have the necessary state
-    if (!documents || documents.length === 0) {
-      return [];
-    }
-    
-    const activeTabId = getActiveTabId();
-    
     // Ensure sous_categorie is in recordProperties for condition checking
     const propsForConditions = recordProperties ? { ...recordProperties } : {};
-    if (natureDemande && !propsForConditions['sous_categorie']) {
-      propsForConditions['sous_categorie'] = natureDemande;
+    if (natureDemande && !propsForConditions[SOUS_CATEGORIE_PROPERTY]) {
+      propsForConditions[SOUS_CATEGORIE_PROPERTY] = natureDemande;
     }
-    
-    const visible = documents.filter(doc => {
-      const conditionsMet = checkDocumentConditions(doc, propsForConditions, activeTabId || undefined);
-      
-      // Debug logging for specific document
-      if (doc.id.includes('document_justifiant_de_la_date_et_du_lieu_de_naissance') && 
-          !doc.id.includes('fraterie')) {
-        console.log(`[getVisibleDocuments] Document: "${doc.name}"`);
-        console.log(`[getVisibleDocuments] Tab: ${selectedTab}, ActiveTabId: ${activeTabId}`);
-        console.log(`[getVisibleDocuments] Belongs to active tab: ${activeTabId ? documentBelongsToTab(doc, activeTabId) : 'N/A'}`);
-        console.log(`[getVisibleDocuments] Conditions met: ${conditionsMet}`);
-        console.log(`[getVisibleDocuments] Required: ${doc.required}, Provided: ${doc.provided}`);
-        console.log(`[getVisibleDocuments] sous_categorie: ${propsForConditions['sous_categorie'] || natureDemande || 'NOT SET'}`);
-      }
-      
-      if (selectedTab === 'autre') {
-        // "Autre" tab shows:
-        // 1. Documents from active tab that don't match conditions
-        // 2. Documents from ANY tab that are required OR provided (may be from different sous_categorie)
-
-        // Case 1: Document is required or provided (from any tab)
-        if (doc.required || doc.provided) {
-          // Don't show if conditions are met AND document belongs to active tab
-          // (it will show in the main tab instead)
-          if (conditionsMet && activeTabId && documentBelongsToTab(doc, activeTabId)) {
-            return false;
-          }
-          // Show in Autre if it's marked but doesn't belong to current tab or conditions not met
-          return true;
-        }
-
-        // Case 2: Document belongs to active tab but conditions not met
-        if (!activeTabId) {
-          return false;
-        }
-
-        if (!documentBelongsToTab(doc, activeTabId)) {
-          return false;
-        }
-
-        return !conditionsMet;
-      }
-
-      // For the active tab: show documents that match their conditions
-      // OR documents that are required AND provided (completed documents)
-      const tabToCheck = (activeTabId && selectedTab === activeTabId) ? activeTabId : selectedTab;
 
-      if (!documentBelongsToTab(doc, tabToCheck)) {
-        return false;
-      }
-
-      // Show if conditions are met OR if document is required AND provided
-      return conditionsMet || (doc.required && doc.provided);
-    });
-    
-    const filtered = searchTerm.trim() 
-      ? visible.filter(doc => 
-          doc.name.toLowerCase().includes(searchTerm.toLowerCase())
-        )
-      : visible;
-    
-    return filtered.sort((a, b) => {
-      const orderA = getOrderForTab(a, selectedTab);
-      const orderB = getOrderForTab(b, selectedTab);
-      return orderA - orderB;
-    });
-  };
-
-  /**
-   * Calculates progress based on all required documents across all tabs.
-   * A document is required if conditions are met OR manually set to required.
-   */
-  const calculateProgress = (docs: Document[]): { provided: number; required: number; percentage: number } => {
-    const requiredDocs = docs.filter(doc => {
-      if (doc.required) {
-        return true;
-      }
-      const hasConditions = getAllConditions(doc).length > 0;
-      if (hasConditions) {
-        const conditionsMet = checkDocumentConditions(doc, recordProperties);
-        return conditionsMet;
-      }
-      return false;
+    return filterVisibleDocuments({
+      documents,
+      properties: propsForConditions,
+      selectedTab,
+      activeTabId: getActiveTabId(),
+      searchTerm,
     });
-    
-    const providedDocs = requiredDocs.filter(doc => doc.provided);
-    const requiredCount = requiredDocs.length;
-    const providedCount = providedDocs.length;
-    const percentage = requiredCount > 0 ? Math.round((providedCount / requiredCount) * 100) : 100;
-    
-    return {
-      provided: providedCount,
-      required: requiredCount,
-      percentage
-    };
   };
 
   const renderDocumentsTable = () => {
     const visible = getVisibleDocuments() || [];
-    const progress = calculateProgress(visible);
+    const progress = calculateProgress(visible, recordProperties);
     
+    // Procedure tab of tabs.json that no document of documents.json references yet
+    if (selectedTab !== OTHER_TAB_ID && !searchTerm.trim() && !INITIAL_DOCUMENTS.some(doc => documentBelongsToTab(doc, selectedTab))) {
+      return (
+        <EmptyState title="Aucun document configuré pour cette procédure" layout="vertical">
+          <Text>La liste des documents de cette procédure n'a pas encore été définie dans documents.json.</Text>
+        </EmptyState>
+      );
+    }
+
     if (visible.length === 0) {
       return (
         <EmptyState 
@@ -1422,80 +1091,56 @@ useEffect(() => {
               </Button>
             )}
           </Flex>
-          <Button
-            overlay={
-              <Modal id="send-email-modal" title="Envoyer un email" width="md">
-                <ModalBody>
-                  <Flex direction="column" gap="md">
-                    <Text format={{ fontWeight: 'bold' }}>
-                      Documents manquants à envoyer :
-                    </Text>
-                    {(() => {
-                      const missingDocs = getMissingDocumentsList(documents, recordProperties);
-                      if (missingDocs.length === 0) {
-                        return (
-                          <Alert title="Aucun document manquant" variant="success">
-                            Tous les documents requis ont été fournis.
-                          </Alert>
-                        );
-                      }
-                      return (
-                        <Box>
-                          <Flex direction="column" gap="xs">
-                            {missingDocs.map((docName, index) => (
-                              <React.Fragment key={index}>
-                                <Flex direction="row" gap="sm" align="start">
-                                  <Text format={{ fontWeight: 'bold' }}>
-                                    {index + 1}.
-                                  </Text>
-                                  <Text>{docName}</Text>
-                                </Flex>
-                                {index < missingDocs.length - 1 && (
-                                  <Divider distance="xs" />
-                                )}
-                              </React.Fragment>
-                            ))}
-                          </Flex>
-                          <Flex direction="column" gap="sm">
-                            <Divider />
-                            <Text format={{ fontWeight: 'bold' }}>
-                              Total : {missingDocs.length} document{missingDocs.length > 1 ? 's' : ''} manquant{missingDocs.length > 1 ? 's' : ''}
-                            </Text>
-                          </Flex>
-                        </Box>
-                      );
-                    })()}
-                  </Flex>
-                </ModalBody>
-                <ModalFooter>
-                  <Flex justify="end" gap="sm">
-                    <Button
-                      variant="secondary"
-                      onClick={() => actions.closeOverlay('send-email-modal')}
-                    >
-                      Annuler
-                    </Button>
-                    <Button
-                      variant="primary"
-                      onClick={async () => {
-                        const success = await updateSendMailProperty();
-                        if (success) {
-                          actions.closeOverlay('send-email-modal');
-                          setShowEmailSuccess(true);
-                          setTimeout(() => setShowEmailSuccess(false), 3000);
-                        }
-                      }}
-                    >
-                      Envoyer
-                    </Button>
-                  </Flex>
-                </ModalFooter>
-              </Modal>
-            }
-            variant="secondary"
-          >
-            Envoyer un email
-          </Button>
+          <Flex direction="row" gap="sm">
+            <Button
+              overlay={
+                <Modal id="send-email-modal" title="Envoyer un email" width="lg" onOpen={loadEmailDraft}>
+                  <ModalBody>
+                    {renderEmailPreview()}
+                  </ModalBody>
+                  <ModalFooter>
+                    <Flex justify="end" gap="sm">
+                      <Button
+                        variant="secondary"
+                        onClick={() => actions.closeOverlay('send-email-modal')}
+                      >
+                        Annuler
+                      </Button>
+                      <Button
+                        variant="primary"
+                        disabled={!emailDraft || emailMissing.length === 0 || emailSending || !emailDraft.to.trim() || !emailDraft.subject.trim() || !emailDraft.body.trim()}
+                        onClick={async () => {
+                          const success = await sendEmail();
+                          if (success) {
+                            actions.closeOverlay('send-email-modal');
+                            setShowEmailSuccess(true);
+                            setTimeout(() => setShowEmailSuccess(false), 3000);
+                          }
+                        }}
+                      >
+                        {emailSending ? 'Envoi...' : 'Envoyer'}
+                      </Button>
+                    </Flex>
+                  </ModalFooter>
+                </Modal>
+              }
+              variant="secondary"
+            >
+              Envoyer un email
+            </Button>
+            <Button
+              overlay={
+                <Modal id="history-modal" title="Historique des documents" width="md">
+                  <ModalBody>
+                    {renderHistory()}
+                  </ModalBody>
+                </Modal>
+              }
+              variant="secondary"
+            >
+              Historique
+            </Button>
+          </Flex>
         </Flex>
         
         {progress.required > 0 && (
@@ -1504,11 +1149,32 @@ useEffect(() => {
             value={progress.provided}
             maxValue={progress.required}
             showPercentage={true}
-            valueDescription={`${progress.provided} sur ${progress.required} documents fournis`}
+            valueDescription={`${progress.provided} sur ${progress.required} documents validés`}
             variant={progress.percentage === 100 ? 'success' : progress.percentage >= 50 ? 'warning' : 'danger'}
           />
         )}
         
+        {(() => {
+          const flagged = visible.filter(doc => doc.provided && doc.required && doc.validity);
+          const expired = flagged.filter(doc => getValidityStatus(doc) === VALIDITY_STATUSES.EXPIRED);
+          const expiring = flagged.filter(doc => getValidityStatus(doc) === VALIDITY_STATUSES.EXPIRING);
+          if (expired.length === 0 && expiring.length === 0) {
+            return null;
+          }
+          return (
+            <Alert title="Validité des documents" variant={expired.length > 0 ? 'error' : 'warning'}>
+              <Flex direction="column" gap="xs">
+                {expired.length > 0 && (
+                  <Text>Expirés, à fournir à nouveau : {expired.map(getDocumentLabel).join(', ')}</Text>
+                )}
+                {expiring.length > 0 && (
+                  <Text>Expirent bientôt : {expiring.map(getDocumentLabel).join(', ')}</Text>
+                )}
+              </Flex>
+            </Alert>
+          );
+        })()}
+        
         {isChanged && (
           <Flex justify="center" gap="sm" align="center">
             <Button onClick={resetChanges} variant="destructive">
@@ -1528,12 +1194,12 @@ useEffect(() => {
             <Text format={{ fontWeight: 'bold' }}>Requis</Text>
           </Flex>
           <Flex justify="center">
-            <Text format={{ fontWeight: 'bold' }}>Fournis</Text>
+            <Text format={{ fontWeight: 'bold' }}>Statut</Text>
           </Flex>
         </Flex>
         <Divider />
     
-        {(visible || [])
+        {groupDocuments((visible || [])
           .sort((a, b) => {
             if (!a || !b) return 0;
             if (a.required && !b.required) return -1;
@@ -1547,69 +1213,345 @@ useEffect(() => {
             
             return a.name.localeCompare(b.name);
           })
-          .filter((doc) => doc != null && doc.id) // Filter out any null/undefined docs
-          .map((doc) => {
-          if (!doc || !doc.id) return null; // Safety check
-          
-          try {
-            const conditionsMet = checkDocumentConditions(doc, recordProperties);
-            const hasConditions = getAllConditions(doc).length > 0;
+          // Filter out any null/undefined docs
+          .filter((doc) => doc != null && doc.id))
+          .map((section, index) => {
+            if (!section.group) {
+              return <React.Fragment key={`documents-${index}`}>{section.documents.map(renderDocumentRow)}</React.Fragment>;
+            }
+            const validated = section.documents.filter(doc => isDocumentFulfilled(doc)).length;
+            return (
+              <Accordion
+                key={section.group.id}
+                title={`${section.group.label} (${validated}/${section.documents.length} validés)`}
+                size="sm"
+                defaultOpen={true}
+              >
+                <Flex direction="column" gap="md">
+                  {section.documents.map(renderDocumentRow)}
+                </Flex>
+              </Accordion>
+            );
+          })}
+      </Flex>
+    );
+  };
 
-            let requiredValue;
-            let isRequiredByCondition = false;
+  /**
+   * Row of a document: name, instructions, validity, note, required flag and status.
+   */
+  const renderDocumentRow = (doc: Document) => {
+    if (!doc || !doc.id) return null; // Safety check
+    
+    try {
+      const conditionsMet = checkDocumentConditions(doc, recordProperties);
+      const hasConditions = getAllConditions(doc).length > 0;
 
-            if (hasConditions) {
-              if (conditionsMet) {
-                requiredValue = true;
-                isRequiredByCondition = true;
-              } else {
-                requiredValue = doc.required;
-                isRequiredByCondition = false;
-              }
-            } else {
-              requiredValue = doc.required;
-              isRequiredByCondition = false;
-            }
-            
+      let requiredValue;
+      let isRequiredByCondition = false;
+
+      if (hasConditions) {
+        if (conditionsMet) {
+          requiredValue = true;
+          isRequiredByCondition = true;
+        } else {
+          requiredValue = doc.required;
+          isRequiredByCondition = false;
+        }
+      } else {
+        requiredValue = doc.required;
+        isRequiredByCondition = false;
+      }
+      
+      return (
+      <React.Fragment key={doc.id}>
+      <Flex
+        direction="row"
+        align="center"
+          gap="lg"
+      >
+        <Flex direction="column" gap="xs">
+          <Text>{doc.name || 'Unnamed Document'}</Text>
+          {doc.instructions && (
+            <Text variant="microcopy">{doc.instructions}</Text>
+          )}
+          {doc.validity && renderValidity(doc)}
+          {doc.status === DOCUMENT_STATUSES.REJECTED && (
+            <Input
+              name={`reason-${doc.id}`}
+              label="Motif du refus"
+              placeholder="Ex. : document illisible"
+              value={doc.rejectionReason || ''}
+              onChange={handleReasonChange(doc.id)}
+            />
+          )}
+          {renderNote(doc)}
+        </Flex>
+        <Flex justify="center">
+          <Checkbox
+            key={`req-${doc.id}-${requiredValue}`}
+            checked={requiredValue === true}
+            readOnly={isRequiredByCondition}
+            onChange={isRequiredByCondition ? () => {} : handleCheckboxToggle(doc.id, 'required')}
+          />
+        </Flex>
+        <Flex justify="center">
+          <Select
+            name={`status-${doc.id}`}
+            label=""
+            options={STATUS_OPTIONS}
+            value={getDocumentStatus(doc)}
+            onChange={handleStatusChange(doc.id)}
+          />
+        </Flex>
+      </Flex>
+        <Divider />
+      </React.Fragment>
+    );
+    } catch (err) {
+      console.error(`[renderDocumentsTable] Error rendering document ${doc?.id}:`, err);
+      return null;
+    }
+  };
+
+  /**
+   * Date input and validity tag of a document with a validity rule. The tag is
+   * only shown once the document is provided.
+   */
+  const renderValidity = (doc: Document) => {
+    const status = getValidityStatus(doc);
+    const end = getValidityEnd(doc);
+    const tag = status ? VALIDITY_TAGS[status] : null;
+
+    return (
+      <Flex direction="row" gap="sm" align="end">
+        <DateInput
+          name={`date-${doc.id}`}
+          label={doc.validity?.expiryDate ? "Date d'expiration" : 'Date du document'}
+          format="L"
+          value={toDateInputValue(doc.date)}
+          onChange={handleDateChange(doc.id)}
+          clearButtonLabel="Effacer"
+          todayButtonLabel="Aujourd'hui"
+        />
+        {doc.provided && tag && (
+          <Tag variant={tag.variant}>{tag.label}</Tag>
+        )}
+        {end !== null && status !== VALIDITY_STATUSES.EXPIRED && (
+          <Text variant="microcopy">Valide jusqu'au {formatDocumentDate(end)}</Text>
+        )}
+      </Flex>
+    );
+  };
+
+  /**
+   * Note about the document on this dossier: an editor once opened or when a
+   * note exists, otherwise a button to add one.
+   */
+  const renderNote = (doc: Document) => {
+    if (!doc.note && !openNotes.includes(doc.id)) {
+      return (
+        <Button size="xs" variant="transparent" onClick={() => setOpenNotes(prev => [...prev, doc.id])}>
+          Ajouter une note
+        </Button>
+      );
+    }
+    return (
+      <TextArea
+        name={`note-${doc.id}`}
+        label="Note"
+        value={doc.note || ''}
+        rows={2}
+        maxLength={MAX_NOTE_LENGTH}
+        onChange={handleNoteChange(doc.id)}
+      />
+    );
+  };
+
+  /**
+   * Lists the documents someone else changed since the dossier was loaded, with
+   * the choice to load their values or overwrite them.
+   */
+  const renderConflicts = () => {
+    const fieldLabel = (property: string) => {
+      if (DATE_PROPERTIES.includes(property)) return 'Date';
+      return property.endsWith('_required') ? HISTORY_FIELD_LABELS.required : HISTORY_FIELD_LABELS.provided;
+    };
+    const displayValue = (property: string, value: string) => {
+      if (DATE_PROPERTIES.includes(property)) return value || 'aucune';
+      return toBool(value) ? 'oui' : 'non';
+    };
+
+    return (
+      <Alert title="Modifications concurrentes" variant="warning">
+        <Flex direction="column" gap="xs">
+          <Text>
+            Ces documents ont été modifiés par quelqu'un d'autre depuis l'ouverture du dossier. Vos autres modifications ont été enregistrées.
+          </Text>
+          {conflicts.map(conflict => {
+            const names = INITIAL_DOCUMENTS
+              .filter(doc => [doc.requiredProperty, doc.providedProperty, doc.dateProperty].includes(conflict.property))
+              .map(getDocumentLabel);
             return (
-            <React.Fragment key={doc.id}>
-            <Flex
-              direction="row"
-              align="center"
-                gap="lg"
+              <Text key={conflict.property} variant="microcopy">
+                {names.length > 0 ? names.join(', ') : conflict.property} — {fieldLabel(conflict.property)} : leur valeur {displayValue(conflict.property, conflict.current)}, la vôtre {displayValue(conflict.property, conflict.requested)}
+              </Text>
+            );
+          })}
+          <Flex direction="row" gap="sm">
+            <Button
+              size="xs"
+              variant="secondary"
+              onClick={() => {
+                setConflicts([]);
+                fetchDocumentValues(true);
+              }}
             >
-              <Flex>
-                <Text>{doc.name || 'Unnamed Document'}</Text>
-              </Flex>
-              <Flex justify="center">
-                <Checkbox
-                  key={`req-${doc.id}-${requiredValue}`}
-                  checked={requiredValue === true}
-                  readOnly={isRequiredByCondition}
-                  onChange={isRequiredByCondition ? () => {} : handleCheckboxToggle(doc.id, 'required')}
-                />
-              </Flex>
-              <Flex justify="center">
-                <Checkbox
-                  key={`prov-${doc.id}-${doc.provided}`}
-                  checked={doc.provided === true}
-                  onChange={handleCheckboxToggle(doc.id, 'provided')}
-                />
-              </Flex>
+              Recharger le dossier
+            </Button>
+            <Button
+              size="xs"
+              variant="destructive"
+              disabled={saving}
+              onClick={() => saveDocumentChanges(undefined, false, conflicts)}
+            >
+              Écraser avec mes valeurs
+            </Button>
+          </Flex>
+        </Flex>
+      </Alert>
+    );
+  };
+
+  /**
+   * Lists the recorded changes of the document flags, grouped by document.
+   */
+  const renderHistory = () => {
+    const byDocument = groupHistoryByDocument(history);
+    const documentIds = Object.keys(byDocument);
+
+    if (documentIds.length === 0) {
+      return (
+        <EmptyState title="Aucune modification enregistrée" layout="vertical">
+          <Text>Les modifications des documents apparaîtront ici après leur enregistrement.</Text>
+        </EmptyState>
+      );
+    }
+
+    return (
+      <Flex direction="column" gap="md">
+        {documentIds.map(documentId => {
+          const doc = INITIAL_DOCUMENTS.find(candidate => candidate.id === documentId);
+          const name = doc ? getDocumentLabel(doc) : documentId;
+          return (
+            <Flex key={documentId} direction="column" gap="xs">
+              <Text format={{ fontWeight: 'bold' }}>{name}</Text>
+              {byDocument[documentId].map((entry, index) => (
+                <Text key={index} variant="microcopy">
+                  {formatHistoryDate(entry.timestamp)} — {HISTORY_FIELD_LABELS[entry.field] || entry.field} : {entry.oldValue ? 'oui' : 'non'} → {entry.newValue ? 'oui' : 'non'} — {entry.user || 'Système'} ({HISTORY_SOURCE_LABELS[entry.source] || entry.source})
+                </Text>
+              ))}
+              <Divider distance="xs" />
             </Flex>
-              <Divider />
-            </React.Fragment>
           );
-          } catch (err) {
-            console.error(`[renderDocumentsTable] Error rendering document ${doc?.id}:`, err);
-            return null;
-          }
-        })
-        .filter((item) => item != null)} {/* Filter out any null returns */}
+        })}
+      </Flex>
+    );
+  };
+
+  /**
+   * Shows an error with the French message and recovery action of its code.
+   */
+  /**
+   * Editable preview of the missing documents email, rendered from the saved
+   * dossier by the emailMissingDocuments function.
+   */
+  const renderEmailPreview = () => {
+    if (emailLoading) {
+      return <LoadingSpinner label="Préparation de l'email..." />;
+    }
+    if (!emailDraft) {
+      return emailError ? renderError(emailError) : null;
+    }
+    if (emailMissing.length === 0) {
+      return (
+        <Alert title="Aucun document manquant" variant="success">
+          Tous les documents requis ont été fournis.
+        </Alert>
+      );
+    }
+    return (
+      <Flex direction="column" gap="sm">
+        {emailError && renderError(emailError)}
+        {isChanged && (
+          <Alert title="Modifications non enregistrées" variant="warning">
+            L'email est généré à partir du dossier enregistré. Enregistrez vos modifications puis rouvrez cette fenêtre pour les inclure.
+          </Alert>
+        )}
+        <Input
+          name="email-to"
+          label="Destinataire"
+          value={emailDraft.to}
+          required={true}
+          description={emailDraft.to ? undefined : "Aucun contact associé au dossier n'a d'adresse email."}
+          onChange={updateEmailDraft('to')}
+        />
+        <Input
+          name="email-subject"
+          label="Objet"
+          value={emailDraft.subject}
+          required={true}
+          onChange={updateEmailDraft('subject')}
+        />
+        <TextArea
+          name="email-body"
+          label="Message"
+          value={emailDraft.body}
+          rows={16}
+          required={true}
+          onChange={updateEmailDraft('body')}
+        />
+        <Text variant="microcopy">
+          {emailMissing.length} document{emailMissing.length > 1 ? 's' : ''} manquant{emailMissing.length > 1 ? 's' : ''}. L'envoi est enregistré sur le dossier.
+        </Text>
       </Flex>
     );
   };
 
+  const renderError = ({ failure, retry }: CardError) => {
+    const presentation = ERROR_PRESENTATION[failure.code] || ERROR_PRESENTATION[ERROR_CODES.UPSTREAM_ERROR];
+    return (
+      <Alert
+        title={presentation.title}
+        variant={presentation.action === 'configure' ? 'warning' : 'error'}
+      >
+        <Flex direction="column" gap="xs">
+          <Text>{presentation.message}</Text>
+          {presentation.action === 'configure' && (
+            <Text variant="microcopy">Contactez l'administrateur de l'application HubSpot.</Text>
+          )}
+          {presentation.action === 'retry' && retry && (
+            <Button size="xs" variant="secondary" onClick={retry}>
+              Réessayer
+            </Button>
+          )}
+        </Flex>
+      </Alert>
+    );
+  };
+
+  if (CONDITION_ISSUES.length > 0) {
+    return (
+      <Alert title="Configuration des documents invalide" variant="error">
+        <Flex direction="column" gap="xs">
+          {CONDITION_ISSUES.map((issue, index) => (
+            <Text key={index}>{issue.path} : {issue.message}</Text>
+          ))}
+        </Flex>
+      </Alert>
+    );
+  }
+
   if (loading) {
     return (
       <Flex justify="center">
@@ -1627,14 +1569,9 @@ useEffect(() => {
              <Tag variant="success">✓ Completed</Tag> : <Tag variant="error">× Incomplete</Tag>}
         </Flex>
     
-        {error && (
-          <Alert
-            title="Error"
-            variant="error"
-          >
-            {error}
-          </Alert>
-        )}
+        {error && renderError(error)}
+    
+        {conflicts.length > 0 && renderConflicts()}
     
         {showSuccess && (
          <Alert
@@ -1655,13 +1592,21 @@ useEffect(() => {
         )}
         
         <StepIndicator
-          currentStep={getCurrentStepIndex()}
+          currentStep={getStateStep(STATE_MACHINE, dossierState)}
           stepNames={stepNames}
           direction="horizontal"
           circleSize="md"
         />
+
+        {renderStateTransitions()}
         
         <Divider />
+
+        {isProcedureUnconfigured() && (
+          <Alert title="Procédure non configurée" variant="warning">
+            Aucun onglet ne correspond à la sous-catégorie « {natureDemande} ». Ajoutez-la à tabs.json pour afficher la liste de documents de cette procédure ; en attendant, seul l'onglet Autre est proposé.
+          </Alert>
+        )}
         
         <Box>
         <Tabs
@@ -1691,10 +1636,13 @@ useEffect(() => {
             let tabsToShow;
             if (finalActiveTabId) {
               tabsToShow = TABS_CONFIG.filter(tab => 
-                tab.id === 'autre' || tab.id === finalActiveTabId
+                tab.id === OTHER_TAB_ID || tab.id === finalActiveTabId
               );
+            } else if (isProcedureUnconfigured()) {
+              // No procedure tab, only the documents marked on the dossier
+              tabsToShow = TABS_CONFIG.filter(tab => tab.id === OTHER_TAB_ID);
             } else {
-              // Fallback: show all tabs if we can't determine the active tab
+              // Fallback: show all tabs while the sous_categorie is not set
               tabsToShow = TABS_CONFIG;
             }
             
@@ -0,0 +1,186 @@
+/**
+ * Recomputes the checklist of every dossier, e.g. after documents.json changed.
+ *
+ * Dossiers are paged by id, read and written in batches. Without `apply` the
+ * run is a dry run that only counts what would change. Progress is reported
+ * after each page with the cursor to resume from.
+ */
+
+import { type Client } from '@hubspot/api-client';
+
+import { DOSSIER_STATE_PROPERTY, evaluateChecklist, getChangedProperties } from '../core/checklist';
+import { SOUS_CATEGORIE_PROPERTY } from '../core/documents';
+import { ERROR_CODES, type ErrorCode } from '../core/errors';
+import { HISTORY_PROPERTY, HISTORY_SOURCES, withHistory } from '../core/history';
+import {
+  BATCH_SIZE,
+  errorMessageOf,
+  listDossiers,
+  readDossiers,
+  toFunctionError,
+  writeDossiers,
+  type DossierUpdate,
+} from './hubspot';
+import { CHECKLIST_PROPERTIES, DOCUMENTS_CONFIG } from './recompute';
+
+/**
+ * Dossiers without a sous_categorie are counted under this label.
+ */
+export const NO_SOUS_CATEGORIE = '(sans sous-catégorie)';
+
+export interface CategorySummary {
+  /** Dossiers scanned. */
+  dossiers: number;
+  /** Dossiers with at least one value to change. */
+  changed: number;
+  /** Required flags turned on or off. */
+  requiredChanges: number;
+  /** Dossiers whose etat_du_dossier changes. */
+  stateChanges: number;
+}
+
+export interface BulkSummary {
+  scanned: number;
+  changed: number;
+  /** Dossiers written (always 0 in a dry run). */
+  written: number;
+  /** Properties not written because they do not exist on the object type. */
+  failedProperties: string[];
+  /** Dossiers that could not be read or written. */
+  failed: Array<{ objectId: string; message: string }>;
+  bySousCategorie: Record<string, CategorySummary>;
+}
+
+export interface BulkProgress {
+  apply: boolean;
+  /** Cursor of the next page; undefined before the first page and once done. */
+  after?: string;
+  done: boolean;
+  summary: BulkSummary;
+}
+
+export interface BulkOptions {
+  /** Write the changes; otherwise only count them. */
+  apply?: boolean;
+  /** Dossiers per page, read and written in one batch each. */
+  pageSize?: number;
+  /** Progress of an interrupted run to resume from. */
+  resume?: BulkProgress;
+  /** Stops after this many pages, leaving the run resumable. */
+  maxPages?: number;
+  /** Called after each page, e.g. to save the progress. */
+  onPage?: (progress: BulkProgress) => void | Promise<void>;
+}
+
+export const emptySummary = (): BulkSummary => ({
+  scanned: 0,
+  changed: 0,
+  written: 0,
+  failedProperties: [],
+  failed: [],
+  bySousCategorie: {},
+});
+
+const categoryOf = (summary: BulkSummary, sousCategorie: unknown): CategorySummary => {
+  const label = String(sousCategorie ?? '').trim() || NO_SOUS_CATEGORIE;
+  if (!summary.bySousCategorie[label]) {
+    summary.bySousCategorie[label] = { dossiers: 0, changed: 0, requiredChanges: 0, stateChanges: 0 };
+  }
+  return summary.bySousCategorie[label];
+};
+
+/**
+ * Recomputes one page of dossiers and adds it to the summary.
+ */
+const recomputePage = async (
+  hubspotClient: Client,
+  objectIds: string[],
+  apply: boolean,
+  summary: BulkSummary
+): Promise<void> => {
+  const { objects, missing } = await readDossiers(hubspotClient, objectIds, [...CHECKLIST_PROPERTIES, HISTORY_PROPERTY]);
+  missing.forEach(objectId => summary.failed.push({ objectId, message: 'Object not found' }));
+
+  const updates: DossierUpdate[] = [];
+  Object.entries(objects).forEach(([objectId, stored]) => {
+    const evaluation = evaluateChecklist(DOCUMENTS_CONFIG, stored);
+    const changed = getChangedProperties(evaluation, stored);
+    const category = categoryOf(summary, stored[SOUS_CATEGORIE_PROPERTY]);
+
+    summary.scanned++;
+    category.dossiers++;
+    if (Object.keys(changed).length === 0) {
+      return;
+    }
+    summary.changed++;
+    category.changed++;
+    category.requiredChanges += Object.keys(changed).filter(name => name.endsWith('_required')).length;
+    if (DOSSIER_STATE_PROPERTY in changed) {
+      category.stateChanges++;
+    }
+    updates.push({ id: objectId, properties: changed });
+  });
+
+  if (!apply || updates.length === 0) {
+    return;
+  }
+
+  const author = { source: HISTORY_SOURCES.BULK, user: null, timestamp: new Date().toISOString() };
+  const { written, failed, missing: notWritten } = await writeDossiers(
+    hubspotClient,
+    updates,
+    update => withHistory(DOCUMENTS_CONFIG, update.properties, objects[update.id], author)
+  );
+  summary.written += Object.keys(written).length;
+  failed.forEach(prop => {
+    if (!summary.failedProperties.includes(prop)) summary.failedProperties.push(prop);
+  });
+  notWritten.forEach(objectId => summary.failed.push({ objectId, message: 'Object not found' }));
+};
+
+/**
+ * Errors that stop the run instead of skipping the page.
+ */
+const STOPPING_ERRORS: ErrorCode[] = [ERROR_CODES.INVALID_TOKEN, ERROR_CODES.RATE_LIMITED, ERROR_CODES.UPSTREAM_ERROR];
+
+/**
+ * Recomputes every dossier, page by page. A page that fails on a bad request
+ * is recorded and skipped. A rejected token, rate limiting or HubSpot errors
+ * that outlast the retries stop the run, which can be resumed from its last
+ * progress.
+ */
+export const recomputeAllDossiers = async (
+  hubspotClient: Client,
+  { apply = false, pageSize = BATCH_SIZE, resume, maxPages = Infinity, onPage }: BulkOptions = {}
+): Promise<BulkProgress> => {
+  if (resume && resume.apply !== apply) {
+    throw new Error(`Cannot resume: the progress is from ${resume.apply ? 'an applied run' : 'a dry run'}`);
+  }
+  const progress: BulkProgress = resume && !resume.done
+    ? { ...resume, summary: { ...emptySummary(), ...resume.summary } }
+    : { apply, done: false, summary: emptySummary() };
+
+  for (let pages = 0; pages < maxPages && !progress.done; pages++) {
+    const page = await listDossiers(hubspotClient, { after: progress.after, limit: pageSize });
+    const objectIds = page.objects.map(object => object.id);
+
+    try {
+      await recomputePage(hubspotClient, objectIds, apply, progress.summary);
+    } catch (err) {
+      // Transient failures stop the run before the cursor moves, so resuming retries the page
+      if (STOPPING_ERRORS.includes(toFunctionError(err).code)) {
+        throw err;
+      }
+      console.error(`[bulkRecompute] Page of ${objectIds.length} dossiers failed: ${errorMessageOf(err)}`);
+      objectIds.forEach(objectId => progress.summary.failed.push({ objectId, message: errorMessageOf(err) }));
+    }
+
+    progress.after = page.after;
+    progress.done = !page.after;
+    if (onPage) {
+      await onPage(progress);
+    }
+  }
+
+  return progress;
+};
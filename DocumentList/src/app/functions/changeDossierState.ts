@@ -0,0 +1,52 @@
+import { ERROR_CODES } from '../core/errors';
+import {
+  type ChangeDossierStateParameters,
+  type ChangeDossierStateResult,
+  type FunctionContext,
+} from '../core/functions';
+import { changeDossierState } from './dossierState';
+import {
+  createClient,
+  functionError,
+  resolveObjectId,
+  resolveToken,
+  statusCodeOf,
+  toFunctionError,
+} from './hubspot';
+
+/**
+ * Moves a dossier to the state a lawyer chose in the card, when states.json
+ * allows it from the stored state and its guard holds.
+ */
+export const main = async (context: FunctionContext<ChangeDossierStateParameters> = {}): Promise<ChangeDossierStateResult> => {
+  try {
+    const objectId = resolveObjectId(context);
+    const token = resolveToken(context);
+    const to = context.parameters?.to;
+
+    if (!token) {
+      return functionError(ERROR_CODES.MISSING_TOKEN, 'API key not found');
+    }
+    if (!objectId || typeof to !== 'string' || to === '') {
+      return functionError(ERROR_CODES.MISSING_PARAMETERS, 'Missing object ID or state');
+    }
+
+    const { refused, failed, ...change } = await changeDossierState(createClient(token), objectId, to);
+
+    if (refused) {
+      return functionError(ERROR_CODES.INVALID_TRANSITION, refused);
+    }
+    if (failed) {
+      return functionError(ERROR_CODES.PROPERTY_MISSING, 'Properties do not exist: etat_du_dossier');
+    }
+
+    console.log(`[changeDossierState] Dossier ${objectId}: ${change.from} -> ${change.dossierState}`);
+    return { status: 'success', message: 'Dossier state changed', data: change };
+
+  } catch (error) {
+    if (statusCodeOf(error) === 404) {
+      return functionError(ERROR_CODES.OBJECT_NOT_FOUND, 'Object not found');
+    }
+    return toFunctionError(error);
+  }
+};
@@ -0,0 +1,58 @@
+/**
+ * Manual changes of the dossier state, checked against states.json.
+ */
+
+import { type Client } from '@hubspot/api-client';
+
+import statesConfig from '../extensions/states.json';
+import { DOSSIER_STATE_PROPERTY, evaluateChecklist } from '../core/checklist';
+import { type EvaluationOptions } from '../core/conditions';
+import { type DossierStateChange } from '../core/functions';
+import {
+  checkTransition,
+  collectGuardProperties,
+  type DossierStateMachine,
+} from '../core/states';
+import { readDossierProperties, writeDossierProperties } from './hubspot';
+import { CHECKLIST_PROPERTIES, DOCUMENTS_CONFIG } from './recompute';
+
+export const STATE_MACHINE = statesConfig as DossierStateMachine;
+
+export interface StateChangeResult extends DossierStateChange {
+  /** Why the transition was refused, null when the state was written. */
+  refused: string | null;
+  /** etat_du_dossier does not exist on the object type. */
+  failed: boolean;
+}
+
+/**
+ * Moves a dossier to another state when the state machine allows it from its
+ * current state and the guard holds on its stored values. A transition to an
+ * automatic state is refused unless the documents compute that state.
+ * HubSpot errors are thrown.
+ */
+export const changeDossierState = async (
+  hubspotClient: Client,
+  objectId: string,
+  to: string,
+  options: EvaluationOptions = {}
+): Promise<StateChangeResult> => {
+  const stored = await readDossierProperties(hubspotClient, objectId, [
+    ...CHECKLIST_PROPERTIES,
+    ...collectGuardProperties(STATE_MACHINE),
+  ]);
+  const evaluation = evaluateChecklist(DOCUMENTS_CONFIG, stored, options);
+  const from = evaluation.dossierState;
+
+  const refused = checkTransition(STATE_MACHINE, from, to, {
+    completed: evaluation.completed,
+    properties: stored,
+    automaticState: evaluation.automaticState,
+  }, options);
+  if (refused) {
+    return { from, dossierState: from, refused, failed: false };
+  }
+
+  const { failed } = await writeDossierProperties(hubspotClient, objectId, { [DOSSIER_STATE_PROPERTY]: to });
+  return { from, dossierState: to, refused: null, failed: failed.length > 0 };
+};
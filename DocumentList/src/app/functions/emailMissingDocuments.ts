@@ -0,0 +1,70 @@
+import { EMAIL_LOG_PROPERTY } from '../core/email';
+import { ERROR_CODES } from '../core/errors';
+import {
+  type EmailMissingDocumentsParameters,
+  type EmailMissingDocumentsResult,
+  type FunctionContext,
+} from '../core/functions';
+import {
+  createClient,
+  functionError,
+  resolveObjectId,
+  resolveToken,
+  statusCodeOf,
+  toFunctionError,
+} from './hubspot';
+import { MailError, resolveMailSettings } from './mail';
+import { draftMissingDocumentsEmail, sendMissingDocumentsEmail } from './missingDocumentsEmail';
+
+/**
+ * Renders the missing documents email of a dossier for the card's preview,
+ * and with `send` sends it, with the user's edits, and logs it on the dossier.
+ */
+export const main = async (context: FunctionContext<EmailMissingDocumentsParameters> = {}): Promise<EmailMissingDocumentsResult> => {
+  try {
+    const objectId = resolveObjectId(context);
+    const token = resolveToken(context);
+    const { send, to, subject, body, user } = context.parameters || {};
+
+    if (!token) {
+      return functionError(ERROR_CODES.MISSING_TOKEN, 'API key not found');
+    }
+    if (!objectId) {
+      return functionError(ERROR_CODES.MISSING_PARAMETERS, 'Missing object ID');
+    }
+
+    const hubspotClient = createClient(token);
+    if (send !== true) {
+      const { draft, missing } = await draftMissingDocumentsEmail(hubspotClient, objectId);
+      return { status: 'success', message: 'Email rendered', data: { draft, missing } };
+    }
+
+    const result = await sendMissingDocumentsEmail(hubspotClient, objectId, {
+      edits: {
+        ...(typeof to === 'string' ? { to } : {}),
+        ...(typeof subject === 'string' ? { subject } : {}),
+        ...(typeof body === 'string' ? { body } : {}),
+      },
+      mail: resolveMailSettings(),
+      user: user || null,
+    });
+    const { logged, ...data } = result;
+
+    console.log(`[emailMissingDocuments] Dossier ${objectId}: sent to ${data.draft.to} with ${data.sent?.transport}, ${data.missing.length} missing`);
+
+    if (!logged) {
+      console.warn(`[emailMissingDocuments] Property "${EMAIL_LOG_PROPERTY}" does not exist, the email is not logged`);
+      return { status: 'partial_success', message: 'Email sent but not logged on the dossier', data };
+    }
+    return { status: 'success', message: 'Email sent', data };
+
+  } catch (error) {
+    if (error instanceof MailError) {
+      return functionError(error.errorCode, error.message);
+    }
+    if (statusCodeOf(error) === 404) {
+      return functionError(ERROR_CODES.OBJECT_NOT_FOUND, 'Object not found');
+    }
+    return toFunctionError(error);
+  }
+};
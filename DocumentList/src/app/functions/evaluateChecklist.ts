@@ -0,0 +1,59 @@
+import { ERROR_CODES } from '../core/errors';
+import {
+  type EvaluateChecklistParameters,
+  type EvaluateChecklistResult,
+  type FunctionContext,
+} from '../core/functions';
+import {
+  createClient,
+  functionError,
+  resolveObjectId,
+  resolveToken,
+  statusCodeOf,
+  toFunctionError,
+} from './hubspot';
+import { recomputeDossier } from './recompute';
+
+/**
+ * Computes a dossier's checklist from its stored properties with the same rules
+ * as the card, and with `write` stores the required flags, completion, state
+ * and missing list.
+ */
+export const main = async (context: FunctionContext<EvaluateChecklistParameters> = {}): Promise<EvaluateChecklistResult> => {
+  try {
+    const objectId = resolveObjectId(context);
+    const token = resolveToken(context);
+
+    if (!token) {
+      return functionError(ERROR_CODES.MISSING_TOKEN, 'API key not found');
+    }
+    if (!objectId) {
+      return functionError(ERROR_CODES.MISSING_PARAMETERS, 'Missing object ID');
+    }
+
+    const write = context.parameters?.write === true;
+    const result = await recomputeDossier(createClient(token), objectId, { write });
+
+    console.log(`[evaluateChecklist] Dossier ${objectId}: ${result.evaluation.dossierState}, ${result.evaluation.missing.length} missing, ${Object.keys(result.written).length} written`);
+
+    if (result.failed.length > 0) {
+      return {
+        status: 'partial_success',
+        message: `Checklist evaluated. Not written: ${result.failed.join(', ')}`,
+        data: result
+      };
+    }
+
+    return {
+      status: 'success',
+      message: write ? 'Checklist evaluated and stored' : 'Checklist evaluated',
+      data: result
+    };
+
+  } catch (error) {
+    if (statusCodeOf(error) === 404) {
+      return functionError(ERROR_CODES.OBJECT_NOT_FOUND, 'Object not found');
+    }
+    return toFunctionError(error);
+  }
+};
@@ -0,0 +1,83 @@
+import { ERROR_CODES } from '../core/errors';
+import {
+  type DocumentValues,
+  type FunctionContext,
+  type GetDocumentValuesParameters,
+  type GetDocumentValuesResult,
+} from '../core/functions';
+import { CONDITIONAL_PROPERTIES, DATE_PROPERTIES, DOCUMENT_PROPERTIES } from '../core/properties.generated';
+import {
+  createClient,
+  functionError,
+  readDossierProperties,
+  resolveObjectId,
+  resolveToken,
+  statusCodeOf,
+  toFunctionError,
+} from './hubspot';
+
+/**
+ * Converts a HubSpot value to the string the card expects.
+ * Document flags default to "false"; multi-select values are joined with ";".
+ */
+const formatValue = (prop: string, raw: any): string => {
+  if (prop.includes('_required') || prop.includes('_provided')) {
+    return (raw === null || raw === undefined || raw === '') ? 'false' : String(raw);
+  }
+  if (raw === null || raw === undefined || raw === '') {
+    return '';
+  }
+  if (Array.isArray(raw)) {
+    return raw.join(';');
+  }
+  if (typeof raw === 'object' && raw.value !== undefined) {
+    return Array.isArray(raw.value) ? raw.value.join(';') : String(raw.value);
+  }
+  return String(raw);
+};
+
+export const main = async (context: FunctionContext<GetDocumentValuesParameters> = {}): Promise<GetDocumentValuesResult> => {
+  try {
+    const objectId = resolveObjectId(context);
+    const token = resolveToken(context);
+
+    if (!token) {
+      return functionError(ERROR_CODES.MISSING_TOKEN, 'Missing access token');
+    }
+    if (!objectId) {
+      return functionError(ERROR_CODES.MISSING_PARAMETERS, 'Missing object ID');
+    }
+
+    const propertyNames = context.parameters?.propertyNames || [];
+    const includeCompletion = context.parameters?.includeCompletion || false;
+
+    const properties = propertyNames.length
+      ? [...propertyNames]
+      : [...DOCUMENT_PROPERTIES, ...DATE_PROPERTIES];
+
+    if (includeCompletion) {
+      properties.push('documents_completed', 'etat_du_dossier');
+    }
+
+    CONDITIONAL_PROPERTIES.forEach(prop => {
+      if (!properties.includes(prop)) properties.push(prop);
+    });
+
+    const allProperties = await readDossierProperties(createClient(token), objectId, properties);
+
+    const result: DocumentValues = { properties: {} };
+    properties.forEach(prop => {
+      result.properties[prop] = formatValue(prop, allProperties[prop]);
+    });
+
+    console.log(`Documents initialized with ${Object.keys(result.properties).length} properties`);
+
+    return { status: 'success', message: 'Document values loaded', data: result };
+
+  } catch (error) {
+    if (statusCodeOf(error) === 404) {
+      return functionError(ERROR_CODES.OBJECT_NOT_FOUND, 'Object not found');
+    }
+    return toFunctionError(error);
+  }
+};
@@ -0,0 +1,602 @@
+/**
+ * Context and HubSpot client helpers shared by the app functions.
+ *
+ * Dossiers are read and written through the batch endpoints. Rate-limited and
+ * failed (5xx) requests are retried with backoff, and what could not be read or
+ * written is returned or thrown, never silently dropped.
+ */
+
+import { Client } from '@hubspot/api-client';
+
+import { ERROR_CODES, errorCodeForStatus, type ErrorCode } from '../core/errors';
+import { type FunctionContext, type FunctionError } from '../core/functions';
+
+// Override with HUBSPOT_API_BASE_PATH to target another region or the local CRM stand-in
+const DEFAULT_BASE_PATH = 'https://api-eu1.hubapi.com';
+
+export const DOSSIER_TYPE_ID_DEFAULT = '2-141688426';
+export const DOSSIER_TYPE_NAME_DEFAULT = 'p_dossier_juridique';
+
+/**
+ * Access token from the context or the app secrets (exposed as environment variables).
+ */
+export const resolveToken = (context: FunctionContext<unknown>): string | undefined => {
+  return context.accessToken
+    || context.secrets?.PRIVATE_APP_ACCESS_TOKEN
+    || context.secrets?.ACCESS_TOKEN
+    || process.env['PRIVATE_APP_ACCESS_TOKEN']
+    || process.env['hubspot_api_key']
+    || process.env['sandbox_hubspot_api_key'];
+};
+
+/**
+ * Record id from the context. Accepts "<portal>-<type>-<id>" references and keeps the id.
+ */
+export const resolveObjectId = (context: FunctionContext<{ hs_object_id: string }>): string => {
+  const raw = context.parameters?.hs_object_id
+    || context.propertiesToSend?.hs_object_id
+    || context.recordId
+    || context.hs_object_id;
+
+  if (raw === undefined || raw === null || raw === '') {
+    return '';
+  }
+  const objectId = String(raw);
+  return objectId.includes('-') ? objectId.split('-').pop() || '' : objectId;
+};
+
+export const dossierTypeId = (): string => {
+  return process.env['dossier_j_ID'] || process.env['sandbox_dossier_j_ID'] || DOSSIER_TYPE_ID_DEFAULT;
+};
+
+export const dossierTypeName = (): string => {
+  return process.env['dossier_j_NAME'] || process.env['sandbox_dossier_j_NAME'] || DOSSIER_TYPE_NAME_DEFAULT;
+};
+
+export const createClient = (accessToken: string): Client => {
+  return new Client({
+    accessToken,
+    basePath: process.env['HUBSPOT_API_BASE_PATH'] || DEFAULT_BASE_PATH
+  });
+};
+
+/**
+ * HTTP status of a HubSpot client error.
+ * @hubspot/api-client 7.x reports it as `code`, older versions as `statusCode`.
+ */
+export const statusCodeOf = (err: any): number | undefined => err?.statusCode ?? err?.code;
+
+/**
+ * Message of a HubSpot client error, preferring the API's own message.
+ */
+export const errorMessageOf = (err: any): string => {
+  return err?.body?.message || err?.message || 'Unknown error';
+};
+
+export const functionError = (code: ErrorCode, message: string): FunctionError => ({
+  status: 'error',
+  code,
+  message,
+});
+
+/**
+ * Converts a thrown HubSpot client error to a function error.
+ * 400s naming properties that do not exist are reported as PROPERTY_MISSING.
+ */
+export const toFunctionError = (err: any, message: string = errorMessageOf(err)): FunctionError => {
+  const status = statusCodeOf(err);
+  if (status === 400 && /does not exist|PROPERTY_DOESNT_EXIST/.test(JSON.stringify(err?.body ?? ''))) {
+    return functionError(ERROR_CODES.PROPERTY_MISSING, message);
+  }
+  return functionError(errorCodeForStatus(status), message);
+};
+
+/**
+ * Error raised by the client layer itself, shaped like the api-client errors
+ * (HTTP status in `code`), so statusCodeOf and toFunctionError handle both.
+ */
+export class HubSpotError extends Error {
+  constructor(readonly code: number, message: string, readonly body?: unknown) {
+    super(message);
+    this.name = 'HubSpotError';
+  }
+}
+
+/**
+ * Maximum number of objects per batch request.
+ */
+export const BATCH_SIZE = 100;
+
+export interface RetryOptions {
+  /** Retries after the first attempt. */
+  retries: number;
+  /** Delay before the first retry, doubled on each retry. */
+  baseDelayMs: number;
+  /** Cap on any delay, Retry-After included, to stay within the function timeout. */
+  maxDelayMs: number;
+}
+
+const numberFromEnv = (name: string, fallback: number): number => {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && process.env[name] !== '' && !isNaN(value) ? value : fallback;
+};
+
+/**
+ * Retry settings, overridable with HUBSPOT_MAX_RETRIES, HUBSPOT_RETRY_BASE_MS
+ * and HUBSPOT_RETRY_MAX_MS.
+ */
+export const retryOptions = (): RetryOptions => ({
+  retries: numberFromEnv('HUBSPOT_MAX_RETRIES', 3),
+  baseDelayMs: numberFromEnv('HUBSPOT_RETRY_BASE_MS', 500),
+  maxDelayMs: numberFromEnv('HUBSPOT_RETRY_MAX_MS', 5000),
+});
+
+/**
+ * Rate limiting and server errors are transient; other errors are not retried.
+ */
+export const isRetryableStatus = (status: number | undefined): boolean => {
+  return status === 429 || (status !== undefined && status >= 500 && status < 600);
+};
+
+/**
+ * Delay requested by the Retry-After header of an error (seconds or HTTP date), in ms.
+ */
+export const retryAfterMs = (err: any): number | undefined => {
+  const headers = err?.headers || {};
+  const value = headers['retry-after'] ?? headers['Retry-After'];
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(value));
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs a HubSpot request, retrying 429 and 5xx responses with exponential
+ * backoff, or after the delay of their Retry-After header.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, options: RetryOptions = retryOptions()): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (err) {
+      const status = statusCodeOf(err);
+      if (!isRetryableStatus(status) || attempt >= options.retries) {
+        throw err;
+      }
+      const delay = Math.min(options.maxDelayMs, retryAfterMs(err) ?? options.baseDelayMs * 2 ** attempt);
+      console.warn(`[hubspot] Status ${status}, retry ${attempt + 1}/${options.retries} in ${delay} ms`);
+      await sleep(delay);
+    }
+  }
+};
+
+/**
+ * Runs a request on the dossier object type by name, then by type id when
+ * HubSpot cannot resolve the name.
+ */
+const withDossierType = async <T>(operation: (objectType: string) => Promise<T>): Promise<T> => {
+  try {
+    return await operation(dossierTypeName());
+  } catch (err) {
+    if (statusCodeOf(err) === 400 && /infer object type/i.test(errorMessageOf(err))) {
+      return operation(dossierTypeId());
+    }
+    throw err;
+  }
+};
+
+const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+export interface PropertyHistory {
+  [propertyName: string]: Array<{ value: string; timestamp: Date }>;
+}
+
+export interface BatchReadResult {
+  /** Properties of each object read, by id. */
+  objects: Record<string, Record<string, any>>;
+  /** Versions of the properties read with their history, newest first, by id. */
+  histories: Record<string, PropertyHistory>;
+  /** Requested ids HubSpot did not return. */
+  missing: string[];
+}
+
+/**
+ * Reads properties of dossiers with the batch read endpoint, 100 per request.
+ * Properties that do not exist are not returned.
+ */
+export const readDossiers = async (
+  hubspotClient: Client,
+  objectIds: string[],
+  propertyNames: string[],
+  propertiesWithHistory: string[] = []
+): Promise<BatchReadResult> => {
+  const result: BatchReadResult = { objects: {}, histories: {}, missing: [] };
+
+  for (const ids of chunk(Array.from(new Set(objectIds)), BATCH_SIZE)) {
+    const response = await withDossierType(objectType => withRetry(() =>
+      hubspotClient.crm.objects.batchApi.read(objectType, {
+        inputs: ids.map(id => ({ id })),
+        properties: propertyNames,
+        propertiesWithHistory,
+      })
+    ));
+    (response.results || []).forEach(object => {
+      result.objects[String(object.id)] = object.properties || {};
+      result.histories[String(object.id)] = object.propertiesWithHistory || {};
+    });
+    result.missing.push(...ids.filter(id => !(id in result.objects)));
+  }
+
+  return result;
+};
+
+export interface DossierPage {
+  /** Objects of the page with the requested properties. */
+  objects: Array<{ id: string; properties: Record<string, any> }>;
+  /** Cursor of the next page, undefined on the last one. */
+  after?: string;
+}
+
+/**
+ * Lists one page of dossiers. Request few properties: they are sent in the URL.
+ */
+export const listDossiers = async (
+  hubspotClient: Client,
+  { after, limit = BATCH_SIZE, properties = [] }: { after?: string; limit?: number; properties?: string[] } = {}
+): Promise<DossierPage> => {
+  const response = await withDossierType(objectType => withRetry(() =>
+    hubspotClient.crm.objects.basicApi.getPage(objectType, limit, after, properties)
+  ));
+  return {
+    objects: (response.results || []).map(object => ({ id: String(object.id), properties: object.properties || {} })),
+    after: response.paging?.next?.after,
+  };
+};
+
+/**
+ * Filter of the CRM search API. Date values are UTC timestamps in milliseconds.
+ */
+export interface SearchFilter {
+  propertyName: string;
+  operator: 'EQ' | 'NEQ' | 'LT' | 'LTE' | 'GT' | 'GTE' | 'HAS_PROPERTY' | 'NOT_HAS_PROPERTY';
+  value?: string;
+}
+
+/**
+ * Searches one page of dossiers matching any of the filter groups, the filters
+ * of a group being ANDed, in id order. `after` is the last id of the previous
+ * page: unlike the search offset, it does not skip dossiers that stop matching
+ * while paging, e.g. once updated. The search index lags writes by a few seconds.
+ */
+export const searchDossiers = async (
+  hubspotClient: Client,
+  { filterGroups, after, limit = BATCH_SIZE, properties = [] }: { filterGroups: SearchFilter[][]; after?: string; limit?: number; properties?: string[] }
+): Promise<DossierPage> => {
+  const afterFilter: SearchFilter[] = after ? [{ propertyName: 'hs_object_id', operator: 'GT', value: after }] : [];
+  const response = await withDossierType(objectType => withRetry(() =>
+    hubspotClient.crm.objects.searchApi.doSearch(objectType, {
+      filterGroups: filterGroups.map(filters => ({ filters: [...filters, ...afterFilter] })),
+      // Typed as strings by the client, the API takes sort objects
+      sorts: [{ propertyName: 'hs_object_id', direction: 'ASCENDING' }] as unknown as string[],
+      properties,
+      limit,
+      after: 0,
+    })
+  ));
+  const objects = (response.results || []).map(object => ({ id: String(object.id), properties: object.properties || {} }));
+  return {
+    objects,
+    after: response.paging?.next && objects.length > 0 ? objects[objects.length - 1].id : undefined,
+  };
+};
+
+/**
+ * Reads properties of a dossier. Throws a 404 HubSpotError when it does not exist.
+ */
+export const readDossierProperties = async (
+  hubspotClient: Client,
+  objectId: string,
+  propertyNames: string[]
+): Promise<Record<string, any>> => {
+  const { objects } = await readDossiers(hubspotClient, [objectId], propertyNames);
+  if (!objects[objectId]) {
+    throw new HubSpotError(404, `Object ${objectId} not found`, { category: 'OBJECT_NOT_FOUND' });
+  }
+  return objects[objectId];
+};
+
+/**
+ * Names of the properties HubSpot rejected as not existing, from a 400 error body.
+ */
+export function extractFailedProperties(error: any): Set<string> {
+  const failed = new Set<string>();
+  const body = error.body;
+
+  if (!body) return failed;
+
+  const patterns = [/"([^"]+)" does not exist/g, /property "([^"]+)" does not exist/gi];
+
+  if (typeof body === 'string') {
+    patterns.forEach(pattern => {
+      let match;
+      while ((match = pattern.exec(body)) !== null) {
+        if (match[1]) failed.add(match[1]);
+      }
+    });
+  } else if (body.errors && Array.isArray(body.errors)) {
+    body.errors.forEach((err: any) => {
+      if (err.context?.propertyName) {
+        const names: string[] = Array.isArray(err.context.propertyName) ? err.context.propertyName : [err.context.propertyName];
+        names.forEach(n => failed.add(n));
+      }
+      if (err.message) {
+        patterns.forEach(pattern => {
+          let match;
+          while ((match = pattern.exec(err.message)) !== null) {
+            if (match[1]) failed.add(match[1]);
+          }
+        });
+      }
+    });
+  }
+
+  return failed;
+}
+
+export interface DossierUpdate {
+  id: string;
+  properties: Record<string, string>;
+}
+
+export interface BatchWriteResult {
+  /** Properties written, by object id. */
+  written: Record<string, Record<string, string>>;
+  /** Properties dropped because they do not exist on the object type. */
+  failed: string[];
+  /** Ids HubSpot did not update. */
+  missing: string[];
+}
+
+/**
+ * Writes properties of dossiers with the batch update endpoint, 100 per
+ * request. Properties HubSpot reports as not existing are dropped and the
+ * request is retried once without them; other errors are thrown.
+ * `complete` adds values derived from the properties written (the history),
+ * and is called again after properties are dropped.
+ */
+export const writeDossiers = async (
+  hubspotClient: Client,
+  updates: DossierUpdate[],
+  complete: (update: DossierUpdate) => Record<string, string> = update => update.properties
+): Promise<BatchWriteResult> => {
+  const result: BatchWriteResult = { written: {}, failed: [], missing: [] };
+
+  for (const batch of chunk(updates, BATCH_SIZE)) {
+    const remaining = batch.map(update => ({ id: update.id, properties: { ...update.properties } }));
+
+    for (let attempt = 0; attempt < 2; attempt++) {
+      const inputs = remaining
+        .filter(update => Object.keys(update.properties).length > 0)
+        .map(update => {
+          const properties = { ...complete(update) };
+          result.failed.forEach(prop => delete properties[prop]);
+          return { id: update.id, properties };
+        });
+      if (inputs.length === 0) {
+        break;
+      }
+
+      try {
+        const response = await withDossierType(objectType => withRetry(() =>
+          hubspotClient.crm.objects.batchApi.update(objectType, { inputs })
+        ));
+        const updated = new Set((response.results || []).map(object => String(object.id)));
+        inputs.forEach(input => {
+          if (updated.has(input.id)) {
+            result.written[input.id] = input.properties;
+          } else {
+            result.missing.push(input.id);
+          }
+        });
+        break;
+      } catch (err) {
+        const missing = statusCodeOf(err) === 400 ? extractFailedProperties(err) : new Set<string>();
+        if (missing.size === 0 || attempt > 0) {
+          throw err;
+        }
+        missing.forEach(prop => {
+          if (!result.failed.includes(prop) && inputs.some(input => prop in input.properties)) {
+            result.failed.push(prop);
+          }
+          remaining.forEach(update => delete update.properties[prop]);
+        });
+      }
+    }
+  }
+
+  return result;
+};
+
+export interface WriteResult {
+  written: Record<string, string>;
+  /** Properties dropped because they do not exist on the object type. */
+  failed: string[];
+}
+
+/**
+ * Writes properties of a dossier (see writeDossiers).
+ * Throws a 404 HubSpotError when it does not exist.
+ */
+export const writeDossierProperties = async (
+  hubspotClient: Client,
+  objectId: string,
+  properties: Record<string, string>,
+  complete: (properties: Record<string, string>) => Record<string, string> = values => values
+): Promise<WriteResult> => {
+  const { written, failed, missing } = await writeDossiers(
+    hubspotClient,
+    [{ id: objectId, properties }],
+    update => complete(update.properties)
+  );
+  if (missing.includes(objectId)) {
+    throw new HubSpotError(404, `Object ${objectId} not found`, { category: 'OBJECT_NOT_FOUND' });
+  }
+  return { written: written[objectId] || {}, failed };
+};
+
+export interface PropertyOption {
+  label: string;
+  value: string;
+  displayOrder?: number;
+  hidden: boolean;
+}
+
+/**
+ * Property definition, as returned by the properties API. Booleans are read
+ * back with type `bool`.
+ */
+export interface PropertyDefinition {
+  name: string;
+  label: string;
+  type: string;
+  fieldType: string;
+  groupName: string;
+  /** Options of enumeration properties, empty for the others. */
+  options: PropertyOption[];
+}
+
+/**
+ * Property to create. Booleans are created as `enumeration` with fieldType
+ * `booleancheckbox` and true/false options.
+ */
+export type PropertyInput = Parameters<Client['crm']['properties']['batchApi']['create']>[1]['inputs'][number];
+
+export interface PropertyGroupDefinition {
+  name: string;
+  label: string;
+  displayOrder?: number;
+}
+
+/**
+ * Property definitions of the dossier object type, archived ones excluded.
+ */
+export const readPropertyDefinitions = async (hubspotClient: Client): Promise<PropertyDefinition[]> => {
+  const response = await withDossierType(objectType => withRetry(() =>
+    hubspotClient.crm.properties.coreApi.getAll(objectType, false)
+  ));
+  return (response.results || []).map(property => ({
+    name: property.name,
+    label: property.label,
+    type: property.type,
+    fieldType: property.fieldType,
+    groupName: property.groupName,
+    options: (property.options || []).map(({ label, value, displayOrder, hidden }) => ({ label, value, displayOrder, hidden })),
+  }));
+};
+
+/**
+ * Names of the property groups of the dossier object type.
+ */
+export const readPropertyGroups = async (hubspotClient: Client): Promise<string[]> => {
+  const response = await withDossierType(objectType => withRetry(() =>
+    hubspotClient.crm.properties.groupsApi.getAll(objectType)
+  ));
+  return (response.results || []).map(group => group.name);
+};
+
+export const createPropertyGroup = async (hubspotClient: Client, group: PropertyGroupDefinition): Promise<void> => {
+  await withDossierType(objectType => withRetry(() =>
+    hubspotClient.crm.properties.groupsApi.create(objectType, group)
+  ));
+};
+
+export interface PropertyCreateResult {
+  created: string[];
+  /** Properties HubSpot did not create, with its message. */
+  failed: Array<{ names: string[]; message: string }>;
+}
+
+/**
+ * Creates properties on the dossier object type with the batch endpoint,
+ * 100 per request. Properties rejected in a multi-status response are
+ * returned; other errors are thrown.
+ */
+export const createProperties = async (hubspotClient: Client, properties: PropertyInput[]): Promise<PropertyCreateResult> => {
+  const result: PropertyCreateResult = { created: [], failed: [] };
+
+  for (const inputs of chunk(properties, BATCH_SIZE)) {
+    const response = await withDossierType(objectType => withRetry(() =>
+      hubspotClient.crm.properties.batchApi.create(objectType, { inputs })
+    ));
+    const created = new Set((response.results || []).map(property => property.name));
+    result.created.push(...inputs.map(input => input.name).filter(name => created.has(name)));
+    (response.errors || []).forEach(error => {
+      const names = ([] as string[]).concat(...Object.values(error.context || {}));
+      result.failed.push({ names: names.filter(name => inputs.some(input => input.name === name)), message: error.message });
+    });
+  }
+
+  return result;
+};
+
+/**
+ * Replaces the options of an enumeration property of the dossier object type.
+ * Options left out are deleted, so pass the existing ones too.
+ */
+export const updatePropertyOptions = async (hubspotClient: Client, propertyName: string, options: PropertyOption[]): Promise<void> => {
+  await withDossierType(objectType => withRetry(() =>
+    hubspotClient.crm.properties.coreApi.update(objectType, propertyName, { options })
+  ));
+};
+
+export interface Contact {
+  id: string;
+  firstname: string;
+  lastname: string;
+  email: string;
+}
+
+/**
+ * Contacts associated with a dossier, in association order.
+ * Throws a 404 error when the dossier does not exist.
+ */
+export const readDossierContacts = async (hubspotClient: Client, objectId: string): Promise<Contact[]> => {
+  const dossier = await withDossierType(objectType => withRetry(() =>
+    hubspotClient.crm.objects.basicApi.getById(objectType, objectId, [], undefined, ['contacts'])
+  ));
+  const ids = Array.from(new Set((dossier.associations?.contacts?.results || []).map(association => String(association.id))));
+  if (ids.length === 0) {
+    return [];
+  }
+
+  const response = await withRetry(() =>
+    hubspotClient.crm.contacts.batchApi.read({
+      inputs: ids.map(id => ({ id })),
+      properties: ['firstname', 'lastname', 'email'],
+      propertiesWithHistory: [],
+    })
+  );
+  const contacts = new Map((response.results || []).map(contact => [String(contact.id), contact.properties || {}]));
+  return ids.filter(id => contacts.has(id)).map(id => {
+    const properties = contacts.get(id)!;
+    return {
+      id,
+      firstname: properties.firstname || '',
+      lastname: properties.lastname || '',
+      email: properties.email || '',
+    };
+  });
+};
@@ -0,0 +1,199 @@
+/**
+ * Mail transports used to send emails from the app functions.
+ *
+ * The transport is chosen with the `mail_transport` secret:
+ * - smtp (default): sends with nodemailer through the server of `smtp_host`,
+ *   `smtp_port`, `smtp_secure`, `smtp_user` and `smtp_password`
+ * - file: writes each message as an .eml file in `mail_dir`, for local testing
+ * - console: prints each message, for local testing
+ * Messages are sent from `mail_from`.
+ */
+
+import { randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import nodemailer, { type SendMailOptions } from 'nodemailer';
+import * as os from 'os';
+import * as path from 'path';
+
+import { ERROR_CODES, type ErrorCode } from '../core/errors';
+
+export interface MailMessage {
+  from: string;
+  to: string;
+  subject: string;
+  /** Plain text. */
+  text: string;
+}
+
+export interface SentMail {
+  messageId: string;
+}
+
+export interface MailTransport {
+  /** Recorded in the email log. */
+  name: string;
+  send(message: MailMessage): Promise<SentMail>;
+}
+
+/**
+ * Mail failure, with the error code the functions return for it.
+ */
+export class MailError extends Error {
+  constructor(readonly errorCode: ErrorCode, message: string) {
+    super(message);
+    this.name = 'MailError';
+  }
+}
+
+/**
+ * Address of a mailbox, e.g. "contact@cabinet.fr" for "Cabinet <contact@cabinet.fr>".
+ */
+export const addressOf = (mailbox: string): string => {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+};
+
+const createMessageId = (from: string): string => {
+  const domain = addressOf(from).split('@')[1] || 'localhost';
+  return `<${randomUUID()}@${domain}>`;
+};
+
+const toMailOptions = (message: MailMessage, messageId: string): SendMailOptions => ({
+  from: message.from,
+  to: message.to,
+  subject: message.subject,
+  text: message.text,
+  messageId,
+});
+
+// Renders messages as RFC 5322 text instead of sending them
+const mimeRenderer = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: 'windows' });
+
+/**
+ * RFC 5322 message, as the file transport writes it.
+ */
+export const formatMessage = async (message: MailMessage, messageId: string): Promise<Buffer> => {
+  const { message: rendered } = await mimeRenderer.sendMail(toMailOptions(message, messageId));
+  return rendered as Buffer;
+};
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  /**
+   * TLS from the start (port 465). Otherwise STARTTLS is used when the server
+   * offers it, and required before authenticating.
+   */
+  secure: boolean;
+  user?: string;
+  password?: string;
+  /** Name sent with EHLO. Defaults to the host name of this machine. */
+  clientName?: string;
+  timeoutMs?: number;
+  /** Defaults to true; only disable against a local test server. */
+  rejectUnauthorized?: boolean;
+}
+
+/**
+ * Sends messages through an SMTP server, one connection per message.
+ * Credentials are never sent over a connection that is not encrypted.
+ */
+export const createSmtpTransport = (options: SmtpOptions): MailTransport => {
+  const timeoutMs = options.timeoutMs ?? 30000;
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    requireTLS: !options.secure && Boolean(options.user),
+    auth: options.user ? { user: options.user, pass: options.password || '' } : undefined,
+    name: options.clientName,
+    connectionTimeout: timeoutMs,
+    greetingTimeout: timeoutMs,
+    socketTimeout: timeoutMs,
+    tls: { rejectUnauthorized: options.rejectUnauthorized !== false },
+  });
+
+  return {
+    name: 'smtp',
+    send: async message => {
+      const messageId = createMessageId(message.from);
+      try {
+        await transporter.sendMail(toMailOptions(message, messageId));
+      } catch (err) {
+        // Nodemailer messages carry the server reply, never the credentials
+        throw new MailError(ERROR_CODES.MAIL_FAILED, `SMTP server ${options.host}:${options.port}: ${(err as Error).message}`);
+      }
+      return { messageId };
+    },
+  };
+};
+
+/**
+ * Writes each message as an .eml file in a directory, created when missing.
+ */
+export const createFileTransport = (directory: string): MailTransport => ({
+  name: 'file',
+  send: async message => {
+    const messageId = createMessageId(message.from);
+    await fs.mkdir(directory, { recursive: true });
+    const file = path.join(directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${randomUUID().slice(0, 8)}.eml`);
+    await fs.writeFile(file, await formatMessage(message, messageId));
+    console.log(`[mail] Message to ${message.to} written to ${file}`);
+    return { messageId };
+  },
+});
+
+/**
+ * Prints each message instead of sending it.
+ */
+export const createConsoleTransport = (): MailTransport => ({
+  name: 'console',
+  send: async message => {
+    const messageId = createMessageId(message.from);
+    console.log(`[mail] From: ${message.from}\nTo: ${message.to}\nSubject: ${message.subject}\n\n${message.text}`);
+    return { messageId };
+  },
+});
+
+export interface MailSettings {
+  transport: MailTransport;
+  from: string;
+}
+
+/**
+ * Transport and sender from the app secrets (exposed as environment variables).
+ * Throws a MAIL_NOT_CONFIGURED MailError when they are incomplete.
+ */
+export const resolveMailSettings = (env: Record<string, string | undefined> = process.env): MailSettings => {
+  const from = env['mail_from'] || '';
+  if (!from) {
+    throw new MailError(ERROR_CODES.MAIL_NOT_CONFIGURED, 'mail_from is not set');
+  }
+
+  const kind = env['mail_transport'] || 'smtp';
+  switch (kind) {
+    case 'file':
+      return { from, transport: createFileTransport(env['mail_dir'] || path.join(os.tmpdir(), 'document-list-mail')) };
+    case 'console':
+      return { from, transport: createConsoleTransport() };
+    case 'smtp': {
+      const host = env['smtp_host'];
+      if (!host) {
+        throw new MailError(ERROR_CODES.MAIL_NOT_CONFIGURED, 'smtp_host is not set');
+      }
+      const secure = env['smtp_secure'] === 'true';
+      return {
+        from,
+        transport: createSmtpTransport({
+          host,
+          port: Number(env['smtp_port']) || (secure ? 465 : 587),
+          secure,
+          user: env['smtp_user'] || undefined,
+          password: env['smtp_password'] || undefined,
+        }),
+      };
+    }
+    default:
+      throw new MailError(ERROR_CODES.MAIL_NOT_CONFIGURED, `Unknown mail_transport "${kind}"`);
+  }
+};
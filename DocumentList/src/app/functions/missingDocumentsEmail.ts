@@ -0,0 +1,111 @@
+/**
+ * Renders and sends the missing documents email of a dossier, and logs each
+ * send on the dossier. Shared by the functions that email clients.
+ */
+
+import { type Client } from '@hubspot/api-client';
+
+import emailTemplate from '../extensions/email.json';
+import { type EvaluationOptions } from '../core/conditions';
+import { createDocuments, getMissingDocuments, resolveDocuments } from '../core/documents';
+import {
+  EMAIL_LOG_PROPERTY,
+  EMAIL_SOURCES,
+  appendEmailLog,
+  isEmailAddress,
+  renderMissingDocumentsEmail,
+  type EmailDraft,
+  type EmailSource,
+  type EmailTemplate,
+} from '../core/email';
+import { ERROR_CODES } from '../core/errors';
+import { type MissingDocumentsEmail } from '../core/functions';
+import { readDossierContacts, readDossierProperties, writeDossierProperties } from './hubspot';
+import { MailError, type MailSettings } from './mail';
+import { CHECKLIST_PROPERTIES, DOCUMENTS_CONFIG } from './recompute';
+
+export const EMAIL_TEMPLATE = emailTemplate as EmailTemplate;
+
+export interface PreparedEmail extends MissingDocumentsEmail {
+  /** Properties of the dossier the email was rendered from. */
+  stored: Record<string, any>;
+}
+
+/**
+ * Renders the email of a dossier for its first contact with an email address.
+ * Throws a 404 error when the dossier does not exist.
+ */
+export const draftMissingDocumentsEmail = async (
+  hubspotClient: Client,
+  objectId: string,
+  options: EvaluationOptions = {}
+): Promise<PreparedEmail> => {
+  const stored = await readDossierProperties(hubspotClient, objectId, [...CHECKLIST_PROPERTIES, EMAIL_LOG_PROPERTY]);
+  const contacts = await readDossierContacts(hubspotClient, objectId);
+  const client = contacts.find(contact => isEmailAddress(contact.email));
+
+  const documents = resolveDocuments(createDocuments(DOCUMENTS_CONFIG), stored, options);
+  const missing = getMissingDocuments(documents, stored, options);
+  const clientName = client ? `${client.firstname} ${client.lastname}`.trim() : null;
+  const draft: EmailDraft = {
+    to: client ? client.email.trim() : '',
+    ...renderMissingDocumentsEmail(EMAIL_TEMPLATE, { clientName, documents: missing }),
+  };
+  return { draft, missing, stored };
+};
+
+export interface SendOptions extends EvaluationOptions {
+  /** Edited parts of the email; the rendered ones are used for the others. */
+  edits?: Partial<EmailDraft>;
+  mail: MailSettings;
+  source?: EmailSource;
+  user?: string | null;
+  /** Email already rendered for the dossier, instead of rendering it again. */
+  prepared?: PreparedEmail;
+  /** Other properties written with the log, e.g. the reminder date. */
+  properties?: Record<string, string>;
+}
+
+export interface SentEmail extends MissingDocumentsEmail {
+  /** False when the log property does not exist on the dossier. */
+  logged: boolean;
+}
+
+/**
+ * Sends the email of a dossier and appends it to the dossier's email log.
+ * Throws a MailError when the recipient is invalid or the transport fails,
+ * and HubSpot errors other than a missing log property.
+ */
+export const sendMissingDocumentsEmail = async (
+  hubspotClient: Client,
+  objectId: string,
+  { edits = {}, mail, source = EMAIL_SOURCES.CARD, user = null, prepared, properties = {}, ...options }: SendOptions
+): Promise<SentEmail> => {
+  const { draft: rendered, missing, stored } = prepared || await draftMissingDocumentsEmail(hubspotClient, objectId, options);
+  const draft: EmailDraft = {
+    to: (edits.to ?? rendered.to).trim(),
+    subject: (edits.subject || rendered.subject).trim(),
+    body: edits.body || rendered.body,
+  };
+  if (!isEmailAddress(draft.to)) {
+    throw new MailError(ERROR_CODES.INVALID_RECIPIENT, `Invalid recipient "${draft.to}"`);
+  }
+
+  const { messageId } = await mail.transport.send({ from: mail.from, to: draft.to, subject: draft.subject, text: draft.body });
+  const sent = {
+    to: draft.to,
+    subject: draft.subject,
+    documents: missing.map(doc => doc.id),
+    transport: mail.transport.name,
+    messageId,
+    user,
+    timestamp: (options.now || new Date()).toISOString(),
+    source,
+  };
+
+  const { failed } = await writeDossierProperties(hubspotClient, objectId, {
+    ...properties,
+    [EMAIL_LOG_PROPERTY]: appendEmailLog(stored[EMAIL_LOG_PROPERTY], sent),
+  });
+  return { draft, missing, sent, logged: !failed.includes(EMAIL_LOG_PROPERTY) };
+};
@@ -0,0 +1,252 @@
+/**
+ * Creates the dossier properties the checklist writes, e.g. after documents
+ * were added to documents.json.
+ *
+ * The properties expected from documents.json (repeated documents expanded)
+ * and the app's own properties are compared with the property definitions of
+ * the dossier object type. Missing ones are created in the checklist property
+ * group, and the states of states.json missing from the options of
+ * etat_du_dossier are added to it. Properties of the group, or named like
+ * document flags, that nothing uses anymore are reported as orphaned, never
+ * deleted. Without `apply` the run is a dry run.
+ */
+
+import { type Client } from '@hubspot/api-client';
+
+import { DOSSIER_STATE_PROPERTY } from '../core/checklist';
+import { getDocumentLabel, SOUS_CATEGORIE_PROPERTY, type DocumentConfig } from '../core/documents';
+import { EMAIL_LOG_PROPERTY } from '../core/email';
+import { HISTORY_PROPERTY } from '../core/history';
+import { NOTES_PROPERTY } from '../core/notes';
+import { LAST_REMINDER_PROPERTY } from '../core/reminders';
+import { REVIEW_PROPERTY } from '../core/review';
+import { type DossierStateMachine } from '../core/states';
+import { STATE_MACHINE } from './dossierState';
+import {
+  createProperties,
+  createPropertyGroup,
+  errorMessageOf,
+  readPropertyDefinitions,
+  readPropertyGroups,
+  updatePropertyOptions,
+  type PropertyCreateResult,
+  type PropertyDefinition,
+  type PropertyInput,
+  type PropertyOption,
+} from './hubspot';
+import { DOCUMENTS_CONFIG } from './recompute';
+
+export const PROPERTY_GROUP = {
+  name: 'documents_checklist',
+  label: 'Checklist documents',
+};
+
+const BOOLEAN_PROPERTY = {
+  type: 'enumeration',
+  fieldType: 'booleancheckbox',
+  options: [
+    { label: 'Oui', value: 'true', displayOrder: 0, hidden: false },
+    { label: 'Non', value: 'false', displayOrder: 1, hidden: false },
+  ],
+} as const;
+
+const DATE_PROPERTY = { type: 'date', fieldType: 'date' } as const;
+
+const MULTI_LINE_TEXT_PROPERTY = { type: 'string', fieldType: 'textarea' } as const;
+
+const SELECT_PROPERTY = { type: 'enumeration', fieldType: 'select' } as const;
+
+/**
+ * Enumeration properties whose options the configuration refers to: the
+ * states of states.json, and the sous_categorie values of tabs.json, owned by
+ * the questionnaire and never changed here.
+ */
+export const OPTION_PROPERTIES = [DOSSIER_STATE_PROPERTY, SOUS_CATEGORIE_PROPERTY];
+
+const toOptions = (values: string[]): PropertyOption[] => {
+  return values.map((value, displayOrder) => ({ label: value, value, displayOrder, hidden: false }));
+};
+
+/**
+ * Properties the app writes besides the document properties.
+ */
+const APP_PROPERTIES: PropertyInput[] = [
+  { name: HISTORY_PROPERTY, label: 'Historique des documents', groupName: PROPERTY_GROUP.name, ...MULTI_LINE_TEXT_PROPERTY },
+  { name: REVIEW_PROPERTY, label: 'Revue des documents', groupName: PROPERTY_GROUP.name, ...MULTI_LINE_TEXT_PROPERTY },
+  { name: NOTES_PROPERTY, label: 'Notes sur les documents', groupName: PROPERTY_GROUP.name, ...MULTI_LINE_TEXT_PROPERTY },
+  { name: EMAIL_LOG_PROPERTY, label: 'Emails de documents manquants', groupName: PROPERTY_GROUP.name, ...MULTI_LINE_TEXT_PROPERTY },
+  { name: LAST_REMINDER_PROPERTY, label: 'Dernière relance documents', groupName: PROPERTY_GROUP.name, ...DATE_PROPERTY },
+];
+
+/**
+ * Names of document flags, reported as orphaned even outside the group.
+ */
+const DOCUMENT_FLAG_PATTERN = /_(required|provided)$/;
+
+/**
+ * Properties the checklist needs: the flags and dates of every document, in
+ * documents.json order, then the app's own properties and the dossier state
+ * with an option per state. A property shared by several documents is
+ * labelled after the first one.
+ */
+export const getExpectedProperties = (configs: DocumentConfig[], machine: DossierStateMachine = STATE_MACHINE): PropertyInput[] => {
+  const expected = new Map<string, PropertyInput>();
+  const add = (property: PropertyInput) => {
+    if (!expected.has(property.name)) {
+      expected.set(property.name, property);
+    }
+  };
+
+  configs.forEach(config => {
+    const label = getDocumentLabel(config);
+    add({ name: config.requiredProperty, label: `${label} - Requis`, groupName: PROPERTY_GROUP.name, ...BOOLEAN_PROPERTY, options: [...BOOLEAN_PROPERTY.options] });
+    add({ name: config.providedProperty, label: `${label} - Fournis`, groupName: PROPERTY_GROUP.name, ...BOOLEAN_PROPERTY, options: [...BOOLEAN_PROPERTY.options] });
+    if (config.dateProperty) {
+      add({ name: config.dateProperty, label: `${label} - Date`, groupName: PROPERTY_GROUP.name, ...DATE_PROPERTY });
+    }
+  });
+  APP_PROPERTIES.forEach(add);
+  add({
+    name: DOSSIER_STATE_PROPERTY,
+    label: 'État du dossier',
+    groupName: PROPERTY_GROUP.name,
+    ...SELECT_PROPERTY,
+    options: toOptions(machine.states.map(state => state.value)),
+  });
+
+  return Array.from(expected.values());
+};
+
+export interface ProvisioningPlan {
+  /** The checklist property group must be created first. */
+  createGroup: boolean;
+  /** Properties to create. */
+  create: PropertyInput[];
+  /** Expected properties that already exist. */
+  existing: number;
+  /** Existing properties whose field type differs from the expected one. */
+  mismatched: Array<{ name: string; expected: string; actual: string }>;
+  /** Existing select properties missing expected options, with all their options once added. */
+  addOptions: Array<{ name: string; missing: string[]; options: PropertyOption[] }>;
+  /** Properties of the group or named like document flags that nothing uses. */
+  orphaned: PropertyDefinition[];
+}
+
+/**
+ * Compares the expected properties with the existing definitions.
+ */
+export const planProvisioning = (
+  expected: PropertyInput[],
+  definitions: PropertyDefinition[],
+  groups: string[]
+): ProvisioningPlan => {
+  const existing = new Map(definitions.map(definition => [definition.name, definition]));
+  const expectedNames = new Set(expected.map(property => property.name));
+  const plan: ProvisioningPlan = { createGroup: false, create: [], existing: 0, mismatched: [], addOptions: [], orphaned: [] };
+
+  expected.forEach(property => {
+    const definition = existing.get(property.name);
+    if (!definition) {
+      plan.create.push(property);
+      return;
+    }
+    plan.existing++;
+    if (definition.fieldType !== property.fieldType) {
+      plan.mismatched.push({ name: property.name, expected: property.fieldType, actual: definition.fieldType });
+    } else if (property.fieldType === SELECT_PROPERTY.fieldType) {
+      const values = new Set(definition.options.map(option => option.value));
+      const missing = (property.options || []).map(option => option.value).filter(value => !values.has(value));
+      if (missing.length > 0) {
+        const options = [...definition.options, ...missing.map((value, index) => ({
+          label: value,
+          value,
+          displayOrder: definition.options.length + index,
+          hidden: false,
+        }))];
+        plan.addOptions.push({ name: property.name, missing, options });
+      }
+    }
+  });
+  plan.createGroup = plan.create.length > 0 && !groups.includes(PROPERTY_GROUP.name);
+  plan.orphaned = definitions.filter(definition => !expectedNames.has(definition.name)
+    && (definition.groupName === PROPERTY_GROUP.name || DOCUMENT_FLAG_PATTERN.test(definition.name)));
+
+  return plan;
+};
+
+export interface ProvisioningOptions {
+  /** Create the missing properties and options. */
+  apply?: boolean;
+  /** Defaults to documents.json. */
+  configs?: DocumentConfig[];
+  /** Defaults to states.json. */
+  machine?: DossierStateMachine;
+}
+
+export interface ProvisioningSummary extends ProvisioningPlan, PropertyCreateResult {
+  /** Properties whose missing options were added. */
+  updated: string[];
+  /**
+   * Option values of OPTION_PROPERTIES after the run, by property.
+   * Properties that do not exist are left out.
+   */
+  optionValues: Record<string, string[]>;
+}
+
+/**
+ * Option values of OPTION_PROPERTIES, once the planned options are added.
+ */
+const collectOptionValues = (
+  properties: Array<{ name: string; options?: PropertyOption[] }>,
+  added: ProvisioningPlan['addOptions']
+): Record<string, string[]> => {
+  const optionValues: Record<string, string[]> = {};
+  OPTION_PROPERTIES.forEach(name => {
+    const property = properties.find(candidate => candidate.name === name);
+    if (property) {
+      const options = added.find(update => update.name === name)?.options || property.options || [];
+      optionValues[name] = options.map(option => option.value);
+    }
+  });
+  return optionValues;
+};
+
+/**
+ * Plans the properties and options to create and, with `apply`, creates them.
+ */
+export const provisionProperties = async (
+  hubspotClient: Client,
+  { apply = false, configs = DOCUMENTS_CONFIG, machine = STATE_MACHINE }: ProvisioningOptions = {}
+): Promise<ProvisioningSummary> => {
+  const [definitions, groups] = await Promise.all([
+    readPropertyDefinitions(hubspotClient),
+    readPropertyGroups(hubspotClient),
+  ]);
+  const plan = planProvisioning(getExpectedProperties(configs, machine), definitions, groups);
+
+  if (!apply) {
+    return { ...plan, created: [], failed: [], updated: [], optionValues: collectOptionValues(definitions, []) };
+  }
+
+  const result: PropertyCreateResult = { created: [], failed: [] };
+  if (plan.create.length > 0) {
+    if (plan.createGroup) {
+      await createPropertyGroup(hubspotClient, { name: PROPERTY_GROUP.name, label: PROPERTY_GROUP.label });
+    }
+    Object.assign(result, await createProperties(hubspotClient, plan.create));
+  }
+
+  const updated: string[] = [];
+  for (const { name, options } of plan.addOptions) {
+    try {
+      await updatePropertyOptions(hubspotClient, name, options);
+      updated.push(name);
+    } catch (err) {
+      result.failed.push({ names: [name], message: errorMessageOf(err) });
+    }
+  }
+
+  const created = plan.create.filter(property => result.created.includes(property.name));
+  const optionValues = collectOptionValues([...definitions, ...created], plan.addOptions.filter(update => updated.includes(update.name)));
+  return { ...plan, ...result, updated, optionValues };
+};
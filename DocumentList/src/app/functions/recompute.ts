@@ -0,0 +1,80 @@
+/**
+ * Loads a dossier, evaluates its checklist and optionally stores the result.
+ * Shared by the functions that recompute a dossier without the card.
+ */
+
+import { type Client } from '@hubspot/api-client';
+
+import documentsConfig from '../extensions/documents.json';
+import tabsConfig from '../extensions/tabs.json';
+import {
+  COMPLETION_PROPERTY,
+  DOSSIER_STATE_PROPERTY,
+  MISSING_DOC_PROPERTY,
+  evaluateChecklist,
+  getChangedProperties,
+} from '../core/checklist';
+import { type EvaluationOptions } from '../core/conditions';
+import { type TabDefinition } from '../core/documents';
+import { type ChecklistResult } from '../core/functions';
+import { HISTORY_PROPERTY, HISTORY_SOURCES, withHistory, type HistorySource } from '../core/history';
+import { CONDITIONAL_PROPERTIES, DATE_PROPERTIES, DOCUMENT_PROPERTIES } from '../core/properties.generated';
+import { expandDocumentConfigs, type DocumentEntry } from '../core/repeat';
+import { REVIEW_PROPERTY } from '../core/review';
+import { readDossierProperties, writeDossierProperties } from './hubspot';
+
+export const DOCUMENTS_CONFIG = expandDocumentConfigs(documentsConfig as DocumentEntry[]);
+export const TABS_CONFIG = tabsConfig as TabDefinition[];
+
+/**
+ * Every property the evaluation reads.
+ */
+export const CHECKLIST_PROPERTIES: string[] = Array.from(new Set([
+  ...CONDITIONAL_PROPERTIES,
+  ...DOCUMENT_PROPERTIES,
+  ...DATE_PROPERTIES,
+  REVIEW_PROPERTY,
+  COMPLETION_PROPERTY,
+  DOSSIER_STATE_PROPERTY,
+  MISSING_DOC_PROPERTY,
+]));
+
+export interface RecomputeOptions extends EvaluationOptions {
+  /** Store the values that changed. */
+  write?: boolean;
+  /** Recorded in the document history with the changed flags. Defaults to "card". */
+  source?: HistorySource;
+  user?: string | null;
+}
+
+/**
+ * Recomputes a dossier. Only values that differ from the stored ones are written,
+ * with the history of the required flags they change.
+ * HubSpot errors other than missing properties are thrown.
+ */
+export const recomputeDossier = async (
+  hubspotClient: Client,
+  objectId: string,
+  { write = false, source = HISTORY_SOURCES.CARD, user = null, ...options }: RecomputeOptions = {}
+): Promise<ChecklistResult> => {
+  const stored = await readDossierProperties(hubspotClient, objectId, [...CHECKLIST_PROPERTIES, HISTORY_PROPERTY]);
+  const evaluation = evaluateChecklist(DOCUMENTS_CONFIG, stored, { ...options, tabs: TABS_CONFIG });
+
+  if (!write) {
+    return { evaluation, written: {}, failed: [] };
+  }
+
+  const changed = getChangedProperties(evaluation, stored);
+  if (Object.keys(changed).length === 0) {
+    return { evaluation, written: {}, failed: [] };
+  }
+
+  const author = { source, user, timestamp: new Date().toISOString() };
+  const { written, failed } = await writeDossierProperties(
+    hubspotClient,
+    objectId,
+    changed,
+    remaining => withHistory(DOCUMENTS_CONFIG, remaining, stored, author)
+  );
+  return { evaluation, written, failed };
+};
@@ -0,0 +1,190 @@
+/**
+ * Webhook endpoint recomputing dossiers whose questionnaire answers changed.
+ *
+ * webhooks.json subscribes to propertyChange events on every conditional
+ * property and targets this function's endpoint (serverless.json). Each changed
+ * dossier is recomputed once per delivery and its required flags, completion,
+ * state and missing list are written. Those are not conditional properties, so
+ * the writes do not trigger new deliveries.
+ *
+ * The endpoint is public, so each request must carry HubSpot's
+ * X-HubSpot-Signature-v3, keyed with the app's client secret (the
+ * `hubspot_client_secret` app secret); other requests get a 401. The signed
+ * URI is the `WEBHOOK_TARGET_URL` app secret, the URL webhooks.json is
+ * generated with.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+
+import { ERROR_CODES, type ErrorCode } from '../core/errors';
+import { type FunctionContext } from '../core/functions';
+import { HISTORY_SOURCES } from '../core/history';
+import { CONDITIONAL_PROPERTIES } from '../core/properties.generated';
+import { createClient, resolveToken, toFunctionError } from './hubspot';
+import { recomputeDossier } from './recompute';
+
+/**
+ * Event delivered by HubSpot for an object.propertyChange subscription.
+ */
+export interface PropertyChangeEvent {
+  subscriptionType: string;
+  objectId: number | string;
+  propertyName?: string;
+  propertyValue?: string;
+  occurredAt?: number;
+}
+
+export interface WebhookContext extends FunctionContext<unknown> {
+  /** Request body, parsed or raw: HubSpot sends batches of up to 100 events. */
+  body?: PropertyChangeEvent[] | PropertyChangeEvent | string;
+  /** Request headers, lower-cased. */
+  headers?: Record<string, string | undefined>;
+}
+
+export interface WebhookSummary {
+  recomputed: Array<{ objectId: string; dossierState: string; written: string[] }>;
+  failed: Array<{ objectId: string; code: ErrorCode; message: string }>;
+  /** Events not about a conditional property. */
+  ignored: number;
+}
+
+export interface WebhookResponse {
+  statusCode: number;
+  body: WebhookSummary | { code: ErrorCode; message: string };
+}
+
+/**
+ * HubSpot's limit: older signatures are refused, so a captured request cannot be replayed.
+ */
+export const MAX_SIGNATURE_AGE_MS = 5 * 60 * 1000;
+
+/**
+ * Request as HubSpot signed it. The URI is the target URL of the subscriptions.
+ */
+export interface SignedRequest {
+  method: string;
+  uri: string;
+  body: string;
+  headers?: Record<string, string | undefined>;
+}
+
+/**
+ * Whether a request carries a valid X-HubSpot-Signature-v3: the base64
+ * HMAC-SHA256 of the method, URI, body and X-HubSpot-Request-Timestamp,
+ * signed less than MAX_SIGNATURE_AGE_MS ago.
+ */
+export const verifySignature = (request: SignedRequest, clientSecret: string, now: number = Date.now()): boolean => {
+  const signature = request.headers?.['x-hubspot-signature-v3'];
+  const timestamp = request.headers?.['x-hubspot-request-timestamp'];
+  if (!signature || !timestamp || !(Math.abs(now - Number(timestamp)) <= MAX_SIGNATURE_AGE_MS)) {
+    return false;
+  }
+  const expected = createHmac('sha256', clientSecret)
+    .update(`${request.method}${request.uri}${request.body}${timestamp}`)
+    .digest();
+  const given = Buffer.from(signature, 'base64');
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+const parseEvents = (body: WebhookContext['body']): PropertyChangeEvent[] => {
+  let parsed: unknown = body;
+  if (typeof body === 'string') {
+    try {
+      parsed = JSON.parse(body);
+    } catch (err) {
+      return [];
+    }
+  }
+  if (Array.isArray(parsed)) {
+    return parsed;
+  }
+  return parsed ? [parsed as PropertyChangeEvent] : [];
+};
+
+/**
+ * Failures HubSpot should redeliver: a 5xx response makes it retry the batch later.
+ */
+const isRetryable = (code: ErrorCode): boolean => {
+  return code === ERROR_CODES.RATE_LIMITED || code === ERROR_CODES.UPSTREAM_ERROR;
+};
+
+/**
+ * Ids of the dossiers whose conditional properties changed, in delivery order.
+ */
+export const getChangedDossierIds = (events: PropertyChangeEvent[]): { objectIds: string[]; ignored: number } => {
+  const objectIds = new Set<string>();
+  let ignored = 0;
+
+  events.forEach(event => {
+    const relevant = event?.subscriptionType === 'object.propertyChange'
+      && !!event.propertyName
+      && CONDITIONAL_PROPERTIES.includes(event.propertyName)
+      && event.objectId !== undefined && event.objectId !== null;
+
+    if (relevant) {
+      objectIds.add(String(event.objectId));
+    } else {
+      ignored++;
+    }
+  });
+
+  return { objectIds: Array.from(objectIds), ignored };
+};
+
+export const main = async (context: WebhookContext = {}): Promise<WebhookResponse> => {
+  const clientSecret = process.env['hubspot_client_secret'];
+  const targetUrl = process.env['WEBHOOK_TARGET_URL'];
+  if (!clientSecret || !targetUrl) {
+    const message = `${clientSecret ? 'WEBHOOK_TARGET_URL' : 'hubspot_client_secret'} is not set`;
+    console.error(`[recomputeOnWebhook] ${message}`);
+    return { statusCode: 500, body: { code: ERROR_CODES.MISSING_TOKEN, message } };
+  }
+  const signed: SignedRequest = {
+    method: 'POST',
+    uri: targetUrl,
+    body: typeof context.body === 'string' ? context.body : context.body === undefined ? '' : JSON.stringify(context.body),
+    headers: context.headers,
+  };
+  if (!verifySignature(signed, clientSecret)) {
+    console.warn('[recomputeOnWebhook] Request refused, invalid signature');
+    return { statusCode: 401, body: { code: ERROR_CODES.INVALID_TOKEN, message: 'Invalid X-HubSpot-Signature-v3 header' } };
+  }
+
+  const { objectIds, ignored } = getChangedDossierIds(parseEvents(context.body));
+  const summary: WebhookSummary = { recomputed: [], failed: [], ignored };
+  const response: WebhookResponse = { statusCode: 200, body: summary };
+
+  const token = resolveToken(context);
+  if (!token) {
+    console.error('[recomputeOnWebhook] API key not found');
+    objectIds.forEach(objectId => {
+      summary.failed.push({ objectId, code: ERROR_CODES.MISSING_TOKEN, message: 'API key not found' });
+    });
+    return response;
+  }
+
+  const hubspotClient = createClient(token);
+
+  for (const objectId of objectIds) {
+    try {
+      const { evaluation, written, failed } = await recomputeDossier(hubspotClient, objectId, {
+        write: true,
+        source: HISTORY_SOURCES.WEBHOOK,
+      });
+      summary.recomputed.push({ objectId, dossierState: evaluation.dossierState, written: Object.keys(written) });
+      if (failed.length > 0) {
+        console.warn(`[recomputeOnWebhook] Dossier ${objectId}: properties do not exist: ${failed.join(', ')}`);
+      }
+    } catch (err) {
+      const failure = toFunctionError(err);
+      console.error(`[recomputeOnWebhook] Dossier ${objectId}: ${failure.code} - ${failure.message}`);
+      summary.failed.push({ objectId, code: failure.code, message: failure.message });
+      if (isRetryable(failure.code)) {
+        response.statusCode = 500;
+      }
+    }
+  }
+
+  console.log(`[recomputeOnWebhook] ${summary.recomputed.length} recomputed, ${summary.failed.length} failed, ${ignored} ignored`);
+  return response;
+};
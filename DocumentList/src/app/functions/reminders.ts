@@ -0,0 +1,210 @@
+/**
+ * Sends the reminders due for dossiers missing documents (see core/reminders.ts).
+ *
+ * The CRM search returns the dossiers "En construction" with missing documents
+ * that were never reminded or not since the shortest delay of the schedule.
+ * They are read with the history of their state and their email log to decide
+ * whether a reminder is due. Without `apply` the run only lists the
+ * reminders due. Sent reminders are logged, so running again the same day
+ * sends nothing new.
+ */
+
+import { type Client } from '@hubspot/api-client';
+
+import reminderSchedule from '../extensions/reminders.json';
+import { DOSSIER_STATE_PROPERTY, MISSING_DOC_PROPERTY } from '../core/checklist';
+import { startOfUtcDay, type EvaluationOptions } from '../core/conditions';
+import { DOSSIER_STATES } from '../core/documents';
+import { EMAIL_LOG_PROPERTY, EMAIL_SOURCES, parseEmailLog } from '../core/email';
+import { ERROR_CODES, type ErrorCode } from '../core/errors';
+import {
+  LAST_REMINDER_PROPERTY,
+  getLastReminderCutoff,
+  getRemindersSince,
+  getValueSince,
+  isAwaitingDocuments,
+  isReminderDue,
+  type ReminderSchedule,
+  type ReminderState,
+} from '../core/reminders';
+import { toDateValue } from '../core/validity';
+import { BATCH_SIZE, readDossiers, searchDossiers, toFunctionError, type SearchFilter } from './hubspot';
+import { MailError, type MailSettings } from './mail';
+import { draftMissingDocumentsEmail, sendMissingDocumentsEmail } from './missingDocumentsEmail';
+
+export const REMINDER_SCHEDULE = reminderSchedule as ReminderSchedule;
+
+export interface DueReminder {
+  objectId: string;
+  to: string;
+  /** 1 for the first reminder since the dossier entered "En construction". */
+  reminder: number;
+  /** Documents the email lists. */
+  missing: number;
+}
+
+export interface ReminderSummary {
+  /** Dossiers the search returned. */
+  scanned: number;
+  /** Dossiers "En construction" with missing documents. */
+  awaiting: number;
+  /** Reminders due, in dossier order. */
+  due: DueReminder[];
+  /** Reminders sent (always 0 in a dry run). */
+  sent: number;
+  /** Dossiers due a reminder that cannot get one, e.g. without a contact email. */
+  skipped: Array<{ objectId: string; reason: string }>;
+  failed: Array<{ objectId: string; code: ErrorCode; message: string }>;
+}
+
+export interface ReminderOptions extends EvaluationOptions {
+  /** Send the reminders; otherwise only list them. */
+  apply?: boolean;
+  /** Required to apply. */
+  mail?: MailSettings;
+  schedule?: ReminderSchedule;
+  /** Dossiers per page. */
+  pageSize?: number;
+  /** Stops after this many due reminders; the others are due on the next run. */
+  maxReminders?: number;
+}
+
+/**
+ * Errors that stop the run instead of failing one dossier.
+ */
+const STOPPING_ERRORS: ErrorCode[] = [ERROR_CODES.INVALID_TOKEN, ERROR_CODES.RATE_LIMITED];
+
+export const emptyReminderSummary = (): ReminderSummary => ({
+  scanned: 0,
+  awaiting: 0,
+  due: [],
+  sent: 0,
+  skipped: [],
+  failed: [],
+});
+
+/**
+ * Search filters of the dossiers that may be due a reminder on `options.now`.
+ */
+export const reminderSearchFilters = (schedule: ReminderSchedule, options: EvaluationOptions = {}): SearchFilter[][] => {
+  const awaiting: SearchFilter[] = [
+    { propertyName: DOSSIER_STATE_PROPERTY, operator: 'EQ', value: DOSSIER_STATES.INCOMPLETE },
+    { propertyName: MISSING_DOC_PROPERTY, operator: 'HAS_PROPERTY' },
+  ];
+  return [
+    [...awaiting, { propertyName: LAST_REMINDER_PROPERTY, operator: 'NOT_HAS_PROPERTY' }],
+    [...awaiting, { propertyName: LAST_REMINDER_PROPERTY, operator: 'LTE', value: String(getLastReminderCutoff(schedule, options)) }],
+  ];
+};
+
+/**
+ * Sends the reminder of one dossier when it is due.
+ */
+const remindDossier = async (
+  hubspotClient: Client,
+  objectId: string,
+  state: ReminderState,
+  summary: ReminderSummary,
+  { apply = false, mail, schedule = REMINDER_SCHEDULE, ...options }: ReminderOptions
+): Promise<void> => {
+  const prepared = await draftMissingDocumentsEmail(hubspotClient, objectId, options);
+  // missing_doc may be older than the documents
+  if (prepared.missing.length === 0) {
+    summary.skipped.push({ objectId, reason: 'No missing document' });
+    return;
+  }
+  if (!prepared.draft.to) {
+    summary.skipped.push({ objectId, reason: 'No contact with an email address' });
+    return;
+  }
+
+  summary.due.push({ objectId, to: prepared.draft.to, reminder: state.reminders.length + 1, missing: prepared.missing.length });
+  if (!apply || !mail) {
+    return;
+  }
+
+  const now = options.now || new Date();
+  await sendMissingDocumentsEmail(hubspotClient, objectId, {
+    ...options,
+    mail,
+    prepared,
+    source: EMAIL_SOURCES.REMINDER,
+    edits: { subject: `${schedule.subjectPrefix || ''}${prepared.draft.subject}` },
+    properties: { [LAST_REMINDER_PROPERTY]: toDateValue(startOfUtcDay(now)) },
+  });
+  summary.sent++;
+};
+
+/**
+ * Finds the dossiers due a reminder and, with `apply`, emails them.
+ * A rejected token or rate limiting that outlasts the retries stops the run;
+ * other failures are recorded per dossier.
+ */
+export const sendDueReminders = async (
+  hubspotClient: Client,
+  { pageSize = BATCH_SIZE, maxReminders = Infinity, ...options }: ReminderOptions = {}
+): Promise<ReminderSummary> => {
+  if (options.apply && !options.mail) {
+    throw new MailError(ERROR_CODES.MAIL_NOT_CONFIGURED, 'Mail settings are required to send reminders');
+  }
+  const schedule = options.schedule || REMINDER_SCHEDULE;
+  const summary = emptyReminderSummary();
+  const filterGroups = reminderSearchFilters(schedule, options);
+  let after: string | undefined;
+
+  do {
+    const page = await searchDossiers(hubspotClient, { filterGroups, after, limit: pageSize, properties: [DOSSIER_STATE_PROPERTY, MISSING_DOC_PROPERTY] });
+    const awaiting = page.objects
+      .filter(object => isAwaitingDocuments({ state: object.properties[DOSSIER_STATE_PROPERTY], missingDoc: object.properties[MISSING_DOC_PROPERTY] }))
+      .map(object => object.id);
+    summary.scanned += page.objects.length;
+    summary.awaiting += awaiting.length;
+
+    if (awaiting.length > 0) {
+      const { objects, histories } = await readDossiers(
+        hubspotClient,
+        awaiting,
+        [DOSSIER_STATE_PROPERTY, MISSING_DOC_PROPERTY, EMAIL_LOG_PROPERTY],
+        [DOSSIER_STATE_PROPERTY]
+      );
+
+      for (const objectId of awaiting.filter(id => objects[id])) {
+        if (summary.due.length >= maxReminders) {
+          return summary;
+        }
+        const stored = objects[objectId];
+        if (!(EMAIL_LOG_PROPERTY in stored)) {
+          // Without the log, sent reminders could not be counted and would repeat every day
+          summary.failed.push({ objectId, code: ERROR_CODES.PROPERTY_MISSING, message: `Property "${EMAIL_LOG_PROPERTY}" does not exist` });
+          continue;
+        }
+
+        const stateSince = getValueSince(histories[objectId]?.[DOSSIER_STATE_PROPERTY] || [], stored[DOSSIER_STATE_PROPERTY]);
+        const state: ReminderState = {
+          state: stored[DOSSIER_STATE_PROPERTY],
+          missingDoc: stored[MISSING_DOC_PROPERTY],
+          stateSince,
+          reminders: stateSince === null ? [] : getRemindersSince(parseEmailLog(stored[EMAIL_LOG_PROPERTY]), stateSince),
+        };
+        if (!isReminderDue(schedule, state, options)) {
+          continue;
+        }
+
+        try {
+          await remindDossier(hubspotClient, objectId, state, summary, options);
+        } catch (err) {
+          const failure = err instanceof MailError ? { code: err.errorCode, message: err.message } : toFunctionError(err);
+          if (STOPPING_ERRORS.includes(failure.code)) {
+            throw err;
+          }
+          console.error(`[reminders] Dossier ${objectId}: ${failure.code} - ${failure.message}`);
+          summary.failed.push({ objectId, code: failure.code, message: failure.message });
+        }
+      }
+    }
+
+    after = page.after;
+  } while (after);
+
+  return summary;
+};
@@ -0,0 +1,69 @@
+/**
+ * Endpoint sending the reminders due for dossiers missing documents.
+ *
+ * Meant to be called once a day by a scheduler (cron, HubSpot workflow
+ * webhook) with the `reminders_secret` app secret in the X-Reminders-Secret
+ * header. A body of `{ "dryRun": true }` only lists the reminders due. Each
+ * call sends at most MAX_REMINDERS_PER_CALL reminders to stay within the
+ * function timeout; the others are sent by the next call.
+ */
+
+import { timingSafeEqual } from 'crypto';
+
+import { ERROR_CODES } from '../core/errors';
+import { type FunctionContext } from '../core/functions';
+import { createClient, resolveToken, toFunctionError } from './hubspot';
+import { MailError, resolveMailSettings } from './mail';
+import { sendDueReminders, type ReminderSummary } from './reminders';
+
+export const MAX_REMINDERS_PER_CALL = 20;
+
+export interface ReminderContext extends FunctionContext<unknown> {
+  /** Request headers, lower-cased. */
+  headers?: Record<string, string | undefined>;
+  body?: { dryRun?: boolean };
+}
+
+export interface ReminderResponse {
+  statusCode: number;
+  body: ReminderSummary | { code: string; message: string };
+}
+
+const isAuthorized = (context: ReminderContext, secret: string): boolean => {
+  const given = Buffer.from(context.headers?.['x-reminders-secret'] || '');
+  const expected = Buffer.from(secret);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+};
+
+export const main = async (context: ReminderContext = {}): Promise<ReminderResponse> => {
+  const secret = process.env['reminders_secret'];
+  if (!secret) {
+    console.error('[sendReminders] reminders_secret is not set');
+    return { statusCode: 500, body: { code: ERROR_CODES.MISSING_TOKEN, message: 'reminders_secret is not set' } };
+  }
+  if (!isAuthorized(context, secret)) {
+    return { statusCode: 401, body: { code: ERROR_CODES.INVALID_TOKEN, message: 'Invalid X-Reminders-Secret header' } };
+  }
+
+  const token = resolveToken(context);
+  if (!token) {
+    console.error('[sendReminders] API key not found');
+    return { statusCode: 500, body: { code: ERROR_CODES.MISSING_TOKEN, message: 'API key not found' } };
+  }
+
+  try {
+    const apply = context.body?.dryRun !== true;
+    const summary = await sendDueReminders(createClient(token), {
+      apply,
+      mail: apply ? resolveMailSettings() : undefined,
+      maxReminders: MAX_REMINDERS_PER_CALL,
+    });
+    console.log(`[sendReminders] ${summary.scanned} scanned, ${summary.due.length} due, ${summary.sent} sent, ${summary.skipped.length} skipped, ${summary.failed.length} failed`);
+    return { statusCode: 200, body: summary };
+
+  } catch (err) {
+    const failure = err instanceof MailError ? { code: err.errorCode, message: err.message } : toFunctionError(err);
+    console.error(`[sendReminders] ${failure.code} - ${failure.message}`);
+    return { statusCode: 500, body: failure };
+  }
+};
@@ -0,0 +1,104 @@
+import { ERROR_CODES } from '../core/errors';
+import { isAutomaticState, resolveDossierState } from '../core/states';
+import {
+  type FunctionContext,
+  type UpdateCompletionStatusParameters,
+  type UpdateCompletionStatusResult,
+} from '../core/functions';
+import {
+  createClient,
+  functionError,
+  readDossierProperties,
+  resolveObjectId,
+  resolveToken,
+  statusCodeOf,
+  toFunctionError,
+  writeDossierProperties,
+} from './hubspot';
+
+const PROPS = {
+  COMPLETION: 'documents_completed',
+  STATE: 'etat_du_dossier',
+  MISSING: 'missing_doc'
+};
+
+export const main = async (context: FunctionContext<UpdateCompletionStatusParameters> = {}): Promise<UpdateCompletionStatusResult> => {
+  try {
+    const objectId = resolveObjectId(context);
+    const { completionStatus, dossierState, missingDoc } = context.parameters || {};
+    const token = resolveToken(context);
+
+    if (!token) {
+      return functionError(ERROR_CODES.MISSING_TOKEN, 'API key not found');
+    }
+
+    if (!objectId) {
+      return functionError(ERROR_CODES.MISSING_PARAMETERS, 'Missing object ID');
+    }
+
+    const isMissingDocOnly = completionStatus === undefined && dossierState === undefined;
+    if (!isMissingDocOnly && (completionStatus === undefined || dossierState === undefined)) {
+      return functionError(ERROR_CODES.MISSING_PARAMETERS, 'Missing required parameters');
+    }
+
+    // Manual states go through changeDossierState and its guards
+    if (dossierState !== undefined && dossierState !== null && !isAutomaticState(dossierState)) {
+      return functionError(ERROR_CODES.INVALID_TRANSITION, `« ${dossierState} » ne peut être choisi que par un changement d'état.`);
+    }
+
+    const properties: Record<string, string> = {};
+    const completionValue = (completionStatus === true || completionStatus === 'true') ? 'true' : 'false';
+
+    if (completionStatus !== undefined) {
+      properties[PROPS.COMPLETION] = completionValue;
+    }
+    if (dossierState !== undefined && dossierState !== null) {
+      properties[PROPS.STATE] = dossierState;
+    }
+    if (missingDoc !== undefined && missingDoc !== null) {
+      properties[PROPS.MISSING] = String(missingDoc);
+    }
+
+    try {
+      const client = createClient(token);
+      let storedState = dossierState ?? null;
+
+      // A state a lawyer set, possibly after the card loaded, is kept
+      if (properties[PROPS.STATE] !== undefined) {
+        const stored = await readDossierProperties(client, objectId, [PROPS.STATE]);
+        storedState = resolveDossierState(stored[PROPS.STATE], properties[PROPS.STATE]);
+        if (storedState !== properties[PROPS.STATE]) {
+          delete properties[PROPS.STATE];
+        }
+      }
+
+      const { written, failed } = await writeDossierProperties(client, objectId, properties);
+
+      if (failed.length > 0) {
+        if (Object.keys(written).length === 0) {
+          return functionError(ERROR_CODES.PROPERTY_MISSING, `Properties do not exist: ${failed.join(', ')}`);
+        }
+        return {
+          status: 'partial_success',
+          message: `Partial update. Failed: ${failed.join(', ')}`,
+          data: { updated: written, failed }
+        };
+      }
+
+      return {
+        status: 'success',
+        message: 'Properties updated successfully',
+        data: { completionStatus: completionValue, dossierState: storedState, missingDoc: missingDoc || '' }
+      };
+
+    } catch (err) {
+      if (statusCodeOf(err) === 404) {
+        return functionError(ERROR_CODES.OBJECT_NOT_FOUND, 'Object not found');
+      }
+      throw err;
+    }
+
+  } catch (error) {
+    return toFunctionError(error);
+  }
+};
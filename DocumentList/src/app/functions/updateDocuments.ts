@@ -0,0 +1,201 @@
+import { type Client } from '@hubspot/api-client';
+
+import { getConflicts, type PropertyConflict } from '../core/conflicts';
+import { ERROR_CODES } from '../core/errors';
+import {
+  type FunctionContext,
+  type UpdateDocumentsParameters,
+  type UpdateDocumentsResult,
+} from '../core/functions';
+import { HISTORY_PROPERTY, HISTORY_SOURCES, withHistory, type ChangeAuthor } from '../core/history';
+import { CONDITIONAL_PROPERTIES, DATE_PROPERTIES, DOCUMENT_PROPERTIES } from '../core/properties.generated';
+import { NOTES_PROPERTY, mergeNotes } from '../core/notes';
+import { REVIEW_PROPERTY, isDocumentStatus, mergeReviews, type DocumentReview } from '../core/review';
+import {
+  createClient,
+  errorMessageOf,
+  functionError,
+  readDossierProperties,
+  resolveObjectId,
+  resolveToken,
+  statusCodeOf,
+  toFunctionError,
+  writeDossierProperties,
+} from './hubspot';
+import { DOCUMENTS_CONFIG } from './recompute';
+
+const KNOWN_DOCUMENTS = new Set(DOCUMENTS_CONFIG.map(config => config.id));
+
+/**
+ * Current values of the document flags, dates and expected properties about to
+ * be written, with the stored history and the JSON properties to merge into,
+ * or null when the object does not exist.
+ */
+const readPreviousValues = async (
+  hubspotClient: Client,
+  objectId: string,
+  properties: Record<string, string>,
+  expected: Record<string, unknown>,
+  mergedProperties: string[]
+): Promise<Record<string, any> | null> => {
+  const names = Object.keys(properties).filter(name => DOCUMENT_PROPERTIES.includes(name) || DATE_PROPERTIES.includes(name) || name in expected);
+  names.push(...mergedProperties);
+  if (names.length === 0) {
+    return {};
+  }
+  try {
+    return await readDossierProperties(hubspotClient, objectId, [...names, HISTORY_PROPERTY]);
+  } catch (err) {
+    if (statusCodeOf(err) === 404) {
+      return null;
+    }
+    throw err;
+  }
+};
+
+export const main = async (context: FunctionContext<UpdateDocumentsParameters> = {}): Promise<UpdateDocumentsResult> => {
+  let result: UpdateDocumentsResult = functionError(ERROR_CODES.UPSTREAM_ERROR, 'Unknown error');
+
+  try {
+    const objectId = resolveObjectId(context);
+    const { documents, expected = {}, user, reviews = {}, notes = {} } = context.parameters || {};
+    const token = resolveToken(context);
+
+    if (!token) {
+      result = functionError(ERROR_CODES.MISSING_TOKEN, 'API key not found');
+    } else if (!objectId || !documents) {
+      result = functionError(ERROR_CODES.MISSING_PARAMETERS, 'Missing required parameters');
+    } else {
+      const properties: Record<string, string> = {};
+      // Questionnaire answers drive the conditions and are never written from the checklist
+      const ignored: string[] = [];
+
+      Object.entries(documents).forEach(([key, value]) => {
+        if (CONDITIONAL_PROPERTIES.includes(key)) {
+          ignored.push(key);
+          return;
+        }
+        if (typeof value === 'boolean') {
+          properties[key] = value ? 'true' : 'false';
+        } else if (DATE_PROPERTIES.includes(key)) {
+          // An empty date clears it
+          properties[key] = value || '';
+        } else if (value !== null && value !== undefined && value !== '') {
+          properties[key] = value;
+        }
+      });
+
+      const reviewChanges: Record<string, DocumentReview> = {};
+      Object.entries(reviews).forEach(([documentId, review]) => {
+        if (!KNOWN_DOCUMENTS.has(documentId) || !isDocumentStatus(review?.status)) {
+          console.warn(`[updateDocuments] Ignoring status of "${documentId}"`);
+          return;
+        }
+        reviewChanges[documentId] = { status: review.status, reason: review.reason || null };
+      });
+      const noteChanges: Record<string, string> = {};
+      Object.entries(notes).forEach(([documentId, note]) => {
+        if (KNOWN_DOCUMENTS.has(documentId) && typeof note === 'string') {
+          noteChanges[documentId] = note;
+        }
+      });
+
+      const mergedProperties = [
+        ...(Object.keys(reviewChanges).length > 0 ? [REVIEW_PROPERTY] : []),
+        ...(Object.keys(noteChanges).length > 0 ? [NOTES_PROPERTY] : []),
+      ];
+
+      let written: Record<string, string> = {};
+      let conflicts: PropertyConflict[] = [];
+      let dropped: string[] = [];
+
+      if (Object.keys(properties).length === 0 && mergedProperties.length === 0) {
+        result = { status: 'success', message: 'No properties to update', data: {} };
+      } else {
+        const hubspotClient = createClient(token);
+        const previous = await readPreviousValues(hubspotClient, objectId, properties, expected, mergedProperties);
+        const author: ChangeAuthor = { source: HISTORY_SOURCES.CARD, user: user || null, timestamp: new Date().toISOString() };
+
+        // Someone else's changes since the user loaded the dossier are kept
+        conflicts = previous ? getConflicts(properties, expected, previous) : [];
+        conflicts.forEach(conflict => {
+          console.warn(`[updateDocuments] Conflict on "${conflict.property}": expected ${conflict.expected}, found ${conflict.current}`);
+          delete properties[conflict.property];
+        });
+
+        // Statuses and notes of other documents are kept, only the changed ones are replaced
+        if (previous && mergedProperties.includes(REVIEW_PROPERTY)) {
+          Object.values(reviewChanges).forEach(review => {
+            review.user = author.user;
+            review.timestamp = author.timestamp;
+          });
+          properties[REVIEW_PROPERTY] = mergeReviews(previous[REVIEW_PROPERTY], reviewChanges);
+        }
+        if (previous && mergedProperties.includes(NOTES_PROPERTY)) {
+          properties[NOTES_PROPERTY] = mergeNotes(previous[NOTES_PROPERTY], noteChanges);
+        }
+
+        if (previous === null) {
+          result = functionError(ERROR_CODES.OBJECT_NOT_FOUND, 'Object not found');
+        } else if (Object.keys(properties).length === 0) {
+          result = { status: 'success', message: 'No properties to update', data: {} };
+        } else {
+          try {
+            // Rebuilt after properties are dropped, so the history only records what is written
+            const write = await writeDossierProperties(
+              hubspotClient,
+              objectId,
+              properties,
+              remaining => withHistory(DOCUMENTS_CONFIG, remaining, previous, author)
+            );
+            written = write.written;
+            delete written[HISTORY_PROPERTY];
+
+            if (write.failed.includes(HISTORY_PROPERTY)) {
+              console.warn(`[updateDocuments] Property "${HISTORY_PROPERTY}" does not exist, changes are not recorded`);
+            }
+            dropped = write.failed.filter(prop => prop !== HISTORY_PROPERTY);
+
+            if (dropped.length > 0 && Object.keys(written).length === 0 && conflicts.length === 0) {
+              result = functionError(ERROR_CODES.PROPERTY_MISSING, `Properties do not exist: ${dropped.join(', ')}`);
+            } else {
+              result = { status: 'success', message: 'Documents updated successfully', data: { id: objectId, properties: written } };
+            }
+          } catch (err) {
+            if (statusCodeOf(err) !== 404) {
+              throw err;
+            }
+            result = functionError(ERROR_CODES.OBJECT_NOT_FOUND, 'Object not found');
+          }
+        }
+      }
+
+      const failed = [...ignored, ...dropped];
+      if ((conflicts.length > 0 || failed.length > 0) && result.status === 'success') {
+        const notSaved = [
+          ...(conflicts.length > 0 ? [`Changed by someone else, not saved: ${conflicts.map(conflict => conflict.property).join(', ')}`] : []),
+          ...(ignored.length > 0 ? [`Questionnaire answers, not saved: ${ignored.join(', ')}`] : []),
+          ...(dropped.length > 0 ? [`Properties do not exist, not saved: ${dropped.join(', ')}`] : []),
+        ];
+        result = {
+          status: 'partial_success',
+          message: notSaved.join('. '),
+          data: { updated: written, conflicts, failed }
+        };
+      }
+    }
+  } catch (error: any) {
+    const statusCode = statusCodeOf(error) || error.status || 'unknown';
+    result = toFunctionError(error, `${errorMessageOf(error)} (status: ${statusCode})`);
+    console.error(`[updateDocuments] Error caught:`, error);
+    if (error.body) {
+      console.error(`[updateDocuments] Error body:`, JSON.stringify(error.body, null, 2));
+    }
+  }
+
+  console.log(`Documents updated with status: ${result.status}`);
+  if (result.status === 'error') {
+    console.error(`[updateDocuments] Error ${result.code}: ${result.message}`);
+  }
+  return result;
+};
@@ -0,0 +1,703 @@
+/**
+ * Runs the app functions against the local CRM stand-in.
+ * Requires the compiled core (`npm run build`, run by `pretest`).
+ */
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { existsSync, mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+import { EMAIL_LOG_PROPERTY, parseEmailLog } from '../src/app/core/email';
+import { type AppFunctionName, type AppFunctions } from '../src/app/core/functions';
+import { HISTORY_PROPERTY, parseHistory } from '../src/app/core/history';
+import { NOTES_PROPERTY, parseNotes } from '../src/app/core/notes';
+import { REVIEW_PROPERTY, parseReviews } from '../src/app/core/review';
+import { CHECKLIST_PROPERTIES } from '../src/app/functions/recompute';
+import { MAX_SIGNATURE_AGE_MS, verifySignature } from '../src/app/functions/recomputeOnWebhook';
+import { CrmStandIn } from '../tools/crmStandIn';
+import { runAppFunction } from '../tools/functionHarness';
+
+const OBJECT_TYPE = 'p_dossier_juridique';
+const DOSSIER_ID = '101';
+
+const PROPERTIES = [
+  'sous_categorie',
+  'domicile__',
+  'passeport_required',
+  'passeport_provided',
+  'bail_required',
+  'bail_provided',
+  'documents_completed',
+  'etat_du_dossier',
+  'missing_doc',
+];
+
+/** Properties of a dossier recomputed by the functions. */
+const DOSSIER_PROPERTIES = [...CHECKLIST_PROPERTIES, HISTORY_PROPERTY];
+
+const standIn = new CrmStandIn();
+
+/** Redefines the dossier object type, optionally without some properties. */
+const defineDossier = (missing: string[] = [], properties: string[] = PROPERTIES) => {
+  standIn.defineObjectType({
+    name: OBJECT_TYPE,
+    typeId: '2-141688426',
+    properties: properties.filter(name => !missing.includes(name)),
+  });
+};
+
+const env = () => ({
+  hubspot_api_key: 'test-token',
+  HUBSPOT_API_BASE_PATH: standIn.url,
+  dossier_j_NAME: OBJECT_TYPE,
+  dossier_j_ID: '2-141688426',
+  // Retries are kept, without their production delays
+  HUBSPOT_RETRY_BASE_MS: '1',
+  HUBSPOT_RETRY_MAX_MS: '5',
+});
+
+/** Attempts of a request with the default retries. */
+const ATTEMPTS = 4;
+
+const run = <N extends AppFunctionName>(name: N, parameters: AppFunctions[N]['parameters']) => {
+  return runAppFunction(name, { parameters, env: env() });
+};
+
+/** Objects sent to the batch update endpoint, in order. */
+const writes = (): Array<{ id: string; properties: Record<string, string> }> => standIn.requests
+  .filter(request => request.path.endsWith('/batch/update'))
+  .flatMap(request => request.body.inputs);
+
+describe('app functions', () => {
+  before(async () => {
+    await standIn.start();
+  });
+
+  after(async () => {
+    await standIn.stop();
+  });
+
+  beforeEach(() => {
+    standIn.requests.length = 0;
+    defineDossier();
+    standIn.createObject(OBJECT_TYPE, {
+      sous_categorie: 'Naturalisation par mariage',
+      passeport_provided: 'true',
+      documents_completed: null,
+    }, DOSSIER_ID);
+  });
+
+  describe('getDocumentValues', () => {
+    it('reads the requested properties and defaults document flags to "false"', async () => {
+      const result = await run('getDocumentValues', {
+        hs_object_id: DOSSIER_ID,
+        propertyNames: ['passeport_required', 'passeport_provided', 'domicile__'],
+      });
+
+      assert.equal(result.status, 'success');
+      const properties = result.status === 'success' ? result.data?.properties || {} : {};
+      assert.equal(properties.sous_categorie, 'Naturalisation par mariage');
+      assert.equal(properties.passeport_provided, 'true');
+      assert.equal(properties.passeport_required, 'false');
+      assert.equal(properties.domicile__, '');
+      assert.equal(standIn.requests.length, 1);
+      assert.equal(standIn.requests[0].path, `/crm/v3/objects/${OBJECT_TYPE}/batch/read`);
+    });
+
+    it('reports a missing object', async () => {
+      const result = await run('getDocumentValues', { hs_object_id: '999', propertyNames: ['passeport_provided'] });
+      assert.deepEqual(result, { status: 'error', code: 'OBJECT_NOT_FOUND', message: 'Object not found' });
+    });
+
+    it('retries rate-limited and failed requests', async () => {
+      standIn.failNext({ status: 429, headers: { 'Retry-After': '1' } }).failNext({ status: 502 });
+      const result = await run('getDocumentValues', { hs_object_id: DOSSIER_ID, propertyNames: ['passeport_provided'] });
+
+      assert.equal(result.status, 'success');
+      assert.equal(standIn.requests.length, 3);
+    });
+
+    it('reports rate limiting once the retries are exhausted', async () => {
+      standIn.failNext({ status: 429, headers: { 'Retry-After': '1' } }, ATTEMPTS);
+      const result = await run('getDocumentValues', { hs_object_id: DOSSIER_ID, propertyNames: ['passeport_provided'] });
+      assert.equal(result.status === 'error' && result.code, 'RATE_LIMITED');
+    });
+
+    it('reports other failures instead of returning empty values', async () => {
+      standIn.failNext({ status: 500 }, ATTEMPTS);
+      const result = await run('getDocumentValues', { hs_object_id: DOSSIER_ID, propertyNames: ['passeport_provided'] });
+      assert.equal(result.status === 'error' && result.code, 'UPSTREAM_ERROR');
+    });
+
+    it('requires a token', async () => {
+      const result = await runAppFunction('getDocumentValues', {
+        parameters: { hs_object_id: DOSSIER_ID },
+        env: { ...env(), hubspot_api_key: undefined, sandbox_hubspot_api_key: undefined, PRIVATE_APP_ACCESS_TOKEN: undefined },
+      });
+      assert.deepEqual(result, { status: 'error', code: 'MISSING_TOKEN', message: 'Missing access token' });
+    });
+  });
+
+  describe('updateDocuments', () => {
+    it('writes the document flags', async () => {
+      const result = await run('updateDocuments', {
+        hs_object_id: DOSSIER_ID,
+        documents: { passeport_required: true, bail_required: false },
+      });
+
+      assert.equal(result.status, 'success');
+      assert.equal(standIn.getObject(OBJECT_TYPE, DOSSIER_ID)?.properties.passeport_required, 'true');
+      assert.equal(standIn.getObject(OBJECT_TYPE, DOSSIER_ID)?.properties.bail_required, 'false');
+    });
+
+    it('never writes conditional properties and reports them', async () => {
+      const result = await run('updateDocuments', {
+        hs_object_id: DOSSIER_ID,
+        documents: { passeport_required: true, domicile__: 'Locataire' },
+      });
+
+      assert.deepEqual(writes()[0], { id: DOSSIER_ID, properties: { passeport_required: 'true' } });
+      assert.equal(result.status, 'partial_success');
+      assert.deepEqual(result.status === 'partial_success' && result.data.failed, ['domicile__']);
+    });
+
+    it('retries without the properties that do not exist', async () => {
+      const result = await run('updateDocuments', {
+        hs_object_id: DOSSIER_ID,
+        documents: { passeport_required: true, inconnu_required: true },
+      });
+
+      assert.equal(result.status, 'partial_success');
+      assert.deepEqual(result.status === 'partial_success' && result.data, {
+        updated: { passeport_required: 'true' },
+        conflicts: [],
+        failed: ['inconnu_required'],
+      });
+      assert.deepEqual(writes().map(input => Object.keys(input.properties)), [
+        ['passeport_required', 'inconnu_required'],
+        ['passeport_required'],
+      ]);
+      assert.equal(standIn.getObject(OBJECT_TYPE, DOSSIER_ID)?.properties.passeport_required, 'true');
+    });
+
+    it('writes and clears document dates', async () => {
+      const DATE = 'justificatif_de_domicile_datant_de_moins_de_6_mois_date';
+      defineDossier([], DOSSIER_PROPERTIES);
+
+      await run('updateDocuments', { hs_object_id: DOSSIER_ID, documents: { [DATE]: '2025-01-02' } });
+      assert.equal(standIn.getObject(OBJECT_TYPE, DOSSIER_ID)?.properties[DATE], '2025-01-02');
+
+      await run('updateDocuments', { hs_object_id: DOSSIER_ID, documents: { [DATE]: '' } });
+      assert.deepEqual(writes()[1], { id: DOSSIER_ID, properties: { [DATE]: '' } });
+    });
+
+    it('merges review statuses with the stored ones', async () => {
+      const PASSPORT = 'copie_integrale_de_toutes_les_pages_du_passeport';
+      defineDossier([], DOSSIER_PROPERTIES);
+      standIn.createObject(OBJECT_TYPE, {
+        sous_categorie: 'Naturalisation par mariage',
+        documents_review: JSON.stringify({ timbre_fiscal_de_55_euro: { status: 'validated' } }),
+      }, DOSSIER_ID);
+
+      const result = await run('updateDocuments', {
+        hs_object_id: DOSSIER_ID,
+        documents: {},
+        reviews: { [PASSPORT]: { status: 'rejected', reason: 'Illisible' }, inconnu: { status: 'validated' } },
+        user: 'avocat@example.com',
+      });
+
+      assert.equal(result.status, 'success');
+      const reviews = parseReviews(standIn.getObject(OBJECT_TYPE, DOSSIER_ID)?.properties[REVIEW_PROPERTY]);
+      assert.deepEqual(Object.keys(reviews).sort(), [PASSPORT, 'timbre_fiscal_de_55_euro']);
+      assert.equal(reviews[PASSPORT].reason, 'Illisible');
+      assert.equal(reviews[PASSPORT].user, 'avocat@example.com');
+    });
+
+    it('merges notes with the stored ones', async () => {
+      const PASSPORT = 'copie_integrale_de_toutes_les_pages_du_passeport';
+      defineDossier([], [...DOSSIER_PROPERTIES, NOTES_PROPERTY]);
+      standIn.createObject(OBJECT_TYPE, {
+        sous_categorie: 'Naturalisation par mariage',
+        documents_notes: JSON.stringify({ timbre_fiscal_de_55_euro: 'Timbre acheté en ligne' }),
+      }, DOSSIER_ID);
+
+      const result = await run('updateDocuments', {
+        hs_object_id: DOSSIER_ID,
+        documents: {},
+        notes: { [PASSPORT]: 'Ancien passeport joint', timbre_fiscal_de_55_euro: '', inconnu: 'note' },
+      });
+
+      assert.equal(result.status, 'success');
+      assert.deepEqual(parseNotes(standIn.getObject(OBJECT_TYPE, DOSSIER_ID)?.properties[NOTES_PROPERTY]), {
+        [PASSPORT]: 'Ancien passeport joint',
+      });
+    });
+
+    describe('history', () => {
+      const PROVIDED = 'copie_integrale_de_toutes_les_pages_du_passeport_provided';
+      const history = () => parseHistory(standIn.getObject(OBJECT_TYPE, DOSSIER_ID)?.properties[HISTORY_PROPERTY]);
+
+      it('records the changed documents with the user', async () => {
+        defineDossier([], [...PROPERTIES, PROVIDED, HISTORY_PROPERTY]);
+        const result = await run('updateDocuments', {
+          hs_object_id: DOSSIER_ID,
+          documents: { [PROVIDED]: true },
+          user: 'juriste@example.com',
+        });
+
+        assert.equal(result.status, 'success');
+        assert.equal(writes().length, 1);
+        assert.deepEqual(history().map(({ documentId, field, oldValue, newValue, user, source }) => ({ documentId, field, oldValue, newValue, user, source })), [{
+          documentId: 'copie_integrale_de_toutes_les_pages_du_passeport',
+          field: 'provided',
+          oldValue: false,
+          newValue: true,
+          user: 'juriste@example.com',
+          source: 'card',
+        }]);
+
+        await run('updateDocuments', { hs_object_id: DOSSIER_ID, documents: { [PROVIDED]: true } });
+        assert.equal(history().length, 1);
+      });
+
+      it('still saves when the history property does not exist', async () => {
+        defineDossier([], [...PROPERTIES, PROVIDED]);
+        const result = await run('updateDocuments', { hs_object_id: DOSSIER_ID, documents: { [PROVIDED]: true } });
+
+        assert.equal(result.status, 'success');
+        assert.equal(standIn.getObject(OBJECT_TYPE, DOSSIER_ID)?.properties[PROVIDED], 'true');
+      });
+    });
+
+    describe('conflicts', () => {
+      it('writes the properties nobody else changed', async () => {
+        const result = await run('updateDocuments', {
+          hs_object_id: DOSSIER_ID,
+          documents: { passeport_provided: true, bail_provided: true },
+          expected: { passeport_provided: true, bail_provided: false },
+        });
+
+        assert.equal(result.status, 'success');
+        assert.equal(standIn.getObject(OBJECT_TYPE, DOSSIER_ID)?.properties.bail_provided, 'true');
+      });
+
+      it('keeps the values someone else saved since the user loaded them', async () => {
+        const result = await run('updateDocuments', {
+          hs_object_id: DOSSIER_ID,
+          documents: { passeport_provided: false, bail_provided: true },
+          expected: { passeport_provided: false, bail_provided: false },
+        });
+
+        assert.equal(result.status, 'partial_success');
+        assert.deepEqual(result.status === 'partial_success' && result.data, {
+          updated: { bail_provided: 'true' },
+          conflicts: [{ property: 'passeport_provided', expected: 'false', current: 'true', requested: 'false' }],
+          failed: [],
+        });
+        assert.equal(standIn.getObject(OBJECT_TYPE, DOSSIER_ID)?.properties.passeport_provided, 'true');
+        assert.equal(standIn.getObject(OBJECT_TYPE, DOSSIER_ID)?.properties.bail_provided, 'true');
+      });
+
+      it('writes nothing when every property is in conflict', async () => {
+        const result = await run('updateDocuments', {
+          hs_object_id: DOSSIER_ID,
+          documents: { passeport_provided: false },
+          expected: { passeport_provided: false },
+        });
+
+        assert.equal(result.status, 'partial_success');
+        assert.equal(writes().length, 0);
+      });
+    });
+
+    it('reports an error when no property exists', async () => {
+      const result = await run('updateDocuments', {
+        hs_object_id: DOSSIER_ID,
+        documents: { inconnu_required: true },
+      });
+
+      assert.deepEqual(result, { status: 'error', code: 'PROPERTY_MISSING', message: 'Properties do not exist: inconnu_required' });
+    });
+
+    it('reports a missing object', async () => {
+      const result = await run('updateDocuments', { hs_object_id: '999', documents: { passeport_required: true } });
+      assert.deepEqual(result, { status: 'error', code: 'OBJECT_NOT_FOUND', message: 'Object not found' });
+    });
+
+    it('reports upstream errors with their status', async () => {
+      standIn.failNext({ status: 500 }, ATTEMPTS);
+      const result = await run('updateDocuments', { hs_object_id: DOSSIER_ID, documents: { passeport_required: true } });
+
+      assert.equal(result.status, 'error');
+      assert.equal(result.status === 'error' && result.code, 'UPSTREAM_ERROR');
+      assert.match(result.message, /status: 500/);
+    });
+  });
+
+  describe('updateCompletionStatus', () => {
+    it('writes completion, state and missing documents', async () => {
+      const result = await run('updateCompletionStatus', {
+        hs_object_id: DOSSIER_ID,
+        completionStatus: false,
+        dossierState: 'En construction',
+        missingDoc: '<ul><li>Passeport</li></ul>',
+      });
+
+      assert.equal(result.status, 'success');
+      assert.deepEqual(standIn.getObject(OBJECT_TYPE, DOSSIER_ID)?.properties, {
+        sous_categorie: 'Naturalisation par mariage',
+        passeport_provided: 'true',
+        documents_completed: 'false',
+        etat_du_dossier: 'En construction',
+        missing_doc: '<ul><li>Passeport</li></ul>',
+      });
+    });
+
+    it('retries without the properties that do not exist and reports them', async () => {
+      defineDossier(['etat_du_dossier', 'missing_doc']);
+
+      const result = await run('updateCompletionStatus', {
+        hs_object_id: DOSSIER_ID,
+        completionStatus: false,
+        dossierState: 'En construction',
+        missingDoc: '<ul><li>Passeport</li></ul>',
+      });
+
+      assert.equal(result.status, 'partial_success');
+      assert.deepEqual(result.data, { updated: { documents_completed: 'false' }, failed: ['etat_du_dossier', 'missing_doc'] });
+      assert.equal(writes().length, 2);
+      assert.equal(standIn.getObject(OBJECT_TYPE, DOSSIER_ID)?.properties.documents_completed, 'false');
+    });
+
+    it('reports an error when no property exists', async () => {
+      defineDossier(['documents_completed', 'etat_du_dossier', 'missing_doc']);
+      const result = await run('updateCompletionStatus', { hs_object_id: DOSSIER_ID, completionStatus: true, dossierState: 'Complet' });
+
+      assert.equal(result.status === 'error' && result.code, 'PROPERTY_MISSING');
+    });
+
+    it('reports a rejected token', async () => {
+      standIn.failNext({ status: 401, body: { status: 'error', message: 'Authentication credentials not found.', category: 'INVALID_AUTHENTICATION' } });
+      const result = await run('updateCompletionStatus', { hs_object_id: DOSSIER_ID, completionStatus: true, dossierState: 'Complet' });
+
+      assert.deepEqual(result, { status: 'error', code: 'INVALID_TOKEN', message: 'Authentication credentials not found.' });
+    });
+
+    it('keeps a manual state set after the card loaded', async () => {
+      standIn.createObject(OBJECT_TYPE, { sous_categorie: 'Naturalisation par mariage', etat_du_dossier: 'Déposé en préfecture' }, DOSSIER_ID);
+      const result = await run('updateCompletionStatus', { hs_object_id: DOSSIER_ID, completionStatus: true, dossierState: 'Complet' });
+
+      assert.deepEqual(result.status === 'success' && result.data, { completionStatus: 'true', dossierState: 'Déposé en préfecture', missingDoc: '' });
+      assert.deepEqual(writes(), [{ id: DOSSIER_ID, properties: { documents_completed: 'true' } }]);
+      assert.equal(standIn.getObject(OBJECT_TYPE, DOSSIER_ID)?.properties.etat_du_dossier, 'Déposé en préfecture');
+    });
+
+    it('refuses to set a manual state', async () => {
+      const result = await run('updateCompletionStatus', { hs_object_id: DOSSIER_ID, completionStatus: true, dossierState: 'Décision' });
+
+      assert.equal(result.status === 'error' && result.code, 'INVALID_TRANSITION');
+      assert.equal(writes().length, 0);
+    });
+
+    it('reports a dossier that does not exist', async () => {
+      const result = await run('updateCompletionStatus', { hs_object_id: '999', completionStatus: true, dossierState: 'Complet' });
+      assert.deepEqual(result, { status: 'error', code: 'OBJECT_NOT_FOUND', message: 'Object not found' });
+    });
+  });
+
+  describe('evaluateChecklist', () => {
+    const stored = () => standIn.getObject(OBJECT_TYPE, DOSSIER_ID)!.properties;
+
+    beforeEach(() => {
+      defineDossier([], DOSSIER_PROPERTIES);
+    });
+
+    it('evaluates the checklist without writing', async () => {
+      const result = await run('evaluateChecklist', { hs_object_id: DOSSIER_ID });
+
+      assert.equal(result.status, 'success');
+      const evaluation = result.status === 'success' ? result.data!.evaluation : null;
+      assert.equal(evaluation?.tabId, 'naturalisation_mariage');
+      assert.equal(evaluation?.missing.length, 9);
+      assert.equal(evaluation?.dossierState, 'À construire');
+      assert.equal(writes().length, 0);
+    });
+
+    it('writes the changed values once', async () => {
+      const result = await run('evaluateChecklist', { hs_object_id: DOSSIER_ID, write: true });
+
+      assert.equal(result.status, 'success');
+      const written = result.status === 'success' ? result.data!.written : {};
+      assert.equal(Object.keys(written).filter(name => name.endsWith('_required')).length, 9);
+      assert.equal(stored().etat_du_dossier, 'À construire');
+      assert.equal(stored().missing_doc?.match(/<li>/g)?.length, 9);
+
+      const again = await run('evaluateChecklist', { hs_object_id: DOSSIER_ID, write: true });
+      assert.deepEqual(again.status === 'success' && again.data!.written, {});
+      assert.equal(writes().length, 1);
+    });
+
+    it('reports properties that could not be written', async () => {
+      defineDossier(['missing_doc'], DOSSIER_PROPERTIES);
+      const result = await run('evaluateChecklist', { hs_object_id: DOSSIER_ID, write: true });
+
+      assert.equal(result.status, 'partial_success');
+      assert.deepEqual(result.status === 'partial_success' && result.data.failed, ['missing_doc']);
+      assert.equal(stored().etat_du_dossier, 'À construire');
+    });
+
+    it('reports a missing object', async () => {
+      const result = await run('evaluateChecklist', { hs_object_id: '999' });
+      assert.deepEqual(result, { status: 'error', code: 'OBJECT_NOT_FOUND', message: 'Object not found' });
+    });
+  });
+
+  describe('changeDossierState', () => {
+    const stored = () => standIn.getObject(OBJECT_TYPE, DOSSIER_ID)!.properties;
+    const createDossier = (state: string, properties: Record<string, string> = {}) => standIn.createObject(OBJECT_TYPE, {
+      sous_categorie: 'Naturalisation par mariage',
+      etat_du_dossier: state,
+      ...properties,
+    }, DOSSIER_ID);
+
+    beforeEach(() => {
+      defineDossier([], DOSSIER_PROPERTIES);
+    });
+
+    it('refuses a transition from the state computed from the documents', async () => {
+      // Stored as "En construction", but nothing is provided
+      createDossier('En construction');
+      const result = await run('changeDossierState', { hs_object_id: DOSSIER_ID, to: 'Déposé en préfecture' });
+
+      assert.deepEqual(result, {
+        status: 'error',
+        code: 'INVALID_TRANSITION',
+        message: 'Le dossier ne peut pas passer de « À construire » à « Déposé en préfecture ».',
+      });
+      assert.equal(writes().length, 0);
+    });
+
+    it('moves a dossier between manual states', async () => {
+      createDossier('Déposé en préfecture');
+      const result = await run('changeDossierState', { hs_object_id: DOSSIER_ID, to: 'Récépissé reçu' });
+
+      assert.deepEqual(result.status === 'success' && result.data, { from: 'Déposé en préfecture', dossierState: 'Récépissé reçu' });
+      assert.equal(stored().etat_du_dossier, 'Récépissé reçu');
+    });
+
+    it('hands the dossier back to the state computed from its documents', async () => {
+      createDossier('Récépissé reçu', {
+        sous_categorie: 'Naturalisation par décret',
+        copie_integrale_de_toutes_les_pages_du_passeport_provided: 'true',
+      });
+      const result = await run('changeDossierState', { hs_object_id: DOSSIER_ID, to: 'En construction' });
+
+      assert.deepEqual(result.status === 'success' && result.data, { from: 'Récépissé reçu', dossierState: 'En construction' });
+      assert.equal(stored().etat_du_dossier, 'En construction');
+    });
+
+    it('refuses an automatic state the documents do not compute', async () => {
+      // Nothing is provided, so the documents compute "À construire"
+      createDossier('Récépissé reçu');
+      const result = await run('changeDossierState', { hs_object_id: DOSSIER_ID, to: 'En construction' });
+
+      assert.deepEqual(result, {
+        status: 'error',
+        code: 'INVALID_TRANSITION',
+        message: "D'après ses documents, le dossier est « À construire ».",
+      });
+      assert.equal(stored().etat_du_dossier, 'Récépissé reçu');
+    });
+
+    it('requires the target state', async () => {
+      const result = await run('changeDossierState', { hs_object_id: DOSSIER_ID, to: '' });
+      assert.equal(result.status === 'error' && result.code, 'MISSING_PARAMETERS');
+    });
+  });
+
+  describe('emailMissingDocuments', () => {
+    const CONTACT_ID = '501';
+    const mailDir = join(mkdtempSync(join(tmpdir(), 'document-list-')), 'mail');
+
+    const send = (parameters: AppFunctions['emailMissingDocuments']['parameters'], mailEnv: Record<string, string | undefined> = {}) => {
+      return runAppFunction('emailMissingDocuments', {
+        parameters,
+        env: { ...env(), mail_transport: 'file', mail_dir: mailDir, mail_from: 'Cabinet <contact@cabinet.example>', ...mailEnv },
+      });
+    };
+    const sentFiles = () => (existsSync(mailDir) ? readdirSync(mailDir) : []);
+
+    before(() => {
+      standIn.defineObjectType({ name: 'contacts', typeId: '0-1', properties: ['firstname', 'lastname', 'email'] });
+      standIn.createObject('contacts', { firstname: 'Marie', lastname: 'Dupont', email: 'marie.dupont@example.com' }, CONTACT_ID);
+      standIn.associate(OBJECT_TYPE, DOSSIER_ID, 'contacts', CONTACT_ID);
+    });
+
+    beforeEach(() => {
+      defineDossier([], [...DOSSIER_PROPERTIES, EMAIL_LOG_PROPERTY]);
+      rmSync(mailDir, { recursive: true, force: true });
+    });
+
+    after(() => {
+      rmSync(join(mailDir, '..'), { recursive: true, force: true });
+    });
+
+    it('renders the email for the dossier contact without sending it', async () => {
+      const result = await send({ hs_object_id: DOSSIER_ID });
+
+      assert.equal(result.status, 'success');
+      const data = result.status === 'success' ? result.data! : null;
+      assert.equal(data?.draft.to, 'marie.dupont@example.com');
+      assert.match(data?.draft.body || '', /^Bonjour Marie Dupont,/);
+      assert.equal(data?.missing.length, 9);
+      assert.ok(data?.draft.body.includes(`9. ${data?.missing[8].label}`));
+      assert.equal(data?.sent, undefined);
+      assert.deepEqual(sentFiles(), []);
+      assert.equal(writes().length, 0);
+    });
+
+    it('sends the edited email and logs it on the dossier', async () => {
+      const result = await send({
+        hs_object_id: DOSSIER_ID,
+        send: true,
+        subject: 'Documents à envoyer',
+        body: 'Message modifié',
+        user: 'avocat@example.com',
+      });
+
+      assert.equal(result.status, 'success');
+      const [file] = sentFiles();
+      const message = readFileSync(join(mailDir, file), 'utf8');
+      assert.match(message, /^To: marie\.dupont@example\.com$/m);
+      assert.match(message, /^Subject: =\?UTF-8\?[BQ]\?/m);
+      assert.match(message, /^Message modifi=C3=A9/m);
+
+      const log = parseEmailLog(standIn.getObject(OBJECT_TYPE, DOSSIER_ID)?.properties[EMAIL_LOG_PROPERTY]);
+      assert.equal(log.length, 1);
+      assert.equal(log[0].subject, 'Documents à envoyer');
+      assert.equal(log[0].transport, 'file');
+      assert.equal(log[0].user, 'avocat@example.com');
+      assert.equal(log[0].documents.length, 9);
+    });
+
+    it('reports an email that could not be logged', async () => {
+      defineDossier([], DOSSIER_PROPERTIES);
+      const result = await send({ hs_object_id: DOSSIER_ID, send: true });
+
+      assert.equal(result.status, 'partial_success');
+      assert.equal(sentFiles().length, 1);
+    });
+
+    it('does not send without a valid recipient or mail settings', async () => {
+      const invalid = await send({ hs_object_id: DOSSIER_ID, send: true, to: 'marie.dupont' });
+      assert.equal(invalid.status === 'error' && invalid.code, 'INVALID_RECIPIENT');
+
+      const unconfigured = await send({ hs_object_id: DOSSIER_ID, send: true }, { mail_transport: undefined, smtp_host: undefined });
+      assert.equal(unconfigured.status === 'error' && unconfigured.code, 'MAIL_NOT_CONFIGURED');
+      assert.deepEqual(sentFiles(), []);
+      assert.equal(writes().length, 0);
+    });
+  });
+
+  describe('recomputeOnWebhook', () => {
+    const CLIENT_SECRET = 'client-secret';
+    const TARGET_URL = 'https://cabinet.example.com/hs/serverless/dossier-recompute';
+
+    /** Headers HubSpot sends with a delivery, signed with the client secret. */
+    const sign = (body: unknown, timestamp = Date.now(), secret = CLIENT_SECRET) => ({
+      'x-hubspot-request-timestamp': String(timestamp),
+      'x-hubspot-signature-v3': createHmac('sha256', secret)
+        .update(`POST${TARGET_URL}${JSON.stringify(body)}${timestamp}`)
+        .digest('base64'),
+    });
+
+    const deliver = (body: unknown, headers: Record<string, string> = sign(body)) => runAppFunction('recomputeOnWebhook', {
+      body,
+      headers,
+      env: { ...env(), hubspot_client_secret: CLIENT_SECRET, WEBHOOK_TARGET_URL: TARGET_URL },
+    });
+
+    const propertyChange = (objectId: string, propertyName: string, propertyValue: string) => ({
+      subscriptionType: 'object.propertyChange',
+      objectId: Number(objectId),
+      propertyName,
+      propertyValue,
+    });
+
+    beforeEach(() => {
+      defineDossier([], DOSSIER_PROPERTIES);
+    });
+
+    it('recomputes each changed dossier once', async () => {
+      const response = await deliver([
+        propertyChange(DOSSIER_ID, 'sous_categorie', 'Naturalisation par mariage'),
+        propertyChange(DOSSIER_ID, 'domicile__', 'Locataire'),
+        propertyChange(DOSSIER_ID, 'passeport_provided', 'true'),
+      ]);
+
+      assert.equal(response.statusCode, 200);
+      assert.equal(response.body.ignored, 1);
+      assert.deepEqual(response.body.recomputed.map((entry: any) => entry.objectId), [DOSSIER_ID]);
+      assert.equal(writes().length, 1);
+      assert.equal(standIn.getObject(OBJECT_TYPE, DOSSIER_ID)?.properties.etat_du_dossier, 'À construire');
+      const history = parseHistory(standIn.getObject(OBJECT_TYPE, DOSSIER_ID)?.properties[HISTORY_PROPERTY]);
+      assert.ok(history.length > 0);
+      assert.ok(history.every(entry => entry.source === 'webhook' && entry.field === 'required' && entry.user === null));
+    });
+
+    it('does not retry a dossier that does not exist', async () => {
+      const response = await deliver([propertyChange('999', 'sous_categorie', 'AES')]);
+
+      assert.equal(response.statusCode, 200);
+      assert.deepEqual(response.body.failed.map((entry: any) => entry.code), ['OBJECT_NOT_FOUND']);
+    });
+
+    it('refuses deliveries without a valid signature', async () => {
+      const body = [propertyChange(DOSSIER_ID, 'sous_categorie', 'AES')];
+
+      for (const headers of [{}, sign(body, Date.now(), 'other-secret'), sign([]), sign(body, Date.now() - MAX_SIGNATURE_AGE_MS - 1000)]) {
+        const response = await deliver(body, headers);
+        assert.equal(response.statusCode, 401);
+        assert.equal(response.body.code, 'INVALID_TOKEN');
+      }
+      assert.equal(standIn.requests.length, 0);
+    });
+
+    it('refuses deliveries when the client secret or the target URL is not set', async () => {
+      const body = [propertyChange(DOSSIER_ID, 'sous_categorie', 'AES')];
+      const withoutSecret = await runAppFunction('recomputeOnWebhook', { body, headers: sign(body), env: { ...env(), WEBHOOK_TARGET_URL: TARGET_URL } });
+      const withoutUrl = await runAppFunction('recomputeOnWebhook', { body, headers: sign(body), env: { ...env(), hubspot_client_secret: CLIENT_SECRET } });
+
+      assert.deepEqual([withoutSecret.statusCode, withoutSecret.body.message], [500, 'hubspot_client_secret is not set']);
+      assert.deepEqual([withoutUrl.statusCode, withoutUrl.body.message], [500, 'WEBHOOK_TARGET_URL is not set']);
+      assert.equal(standIn.requests.length, 0);
+    });
+
+    it('checks the signature over the method, target URL, raw body and timestamp', () => {
+      const body = '[{"objectId":101}]';
+      const request = { method: 'POST', uri: 'https://cabinet.example.com/hs/serverless/dossier-recompute', body };
+      const headers = (timestamp: number) => ({
+        'x-hubspot-request-timestamp': String(timestamp),
+        'x-hubspot-signature-v3': createHmac('sha256', CLIENT_SECRET).update(`POST${request.uri}${body}${timestamp}`).digest('base64'),
+      });
+      const now = 1_750_000_000_000;
+
+      assert.equal(verifySignature({ ...request, headers: headers(now - 1000) }, CLIENT_SECRET, now), true);
+      assert.equal(verifySignature({ ...request, headers: headers(now - MAX_SIGNATURE_AGE_MS - 1) }, CLIENT_SECRET, now), false);
+      assert.equal(verifySignature({ ...request, uri: 'https://other.example.com/dossier-recompute', headers: headers(now) }, CLIENT_SECRET, now), false);
+      assert.equal(verifySignature({ ...request, headers: { ...headers(now), 'x-hubspot-signature-v3': 'invalide' } }, CLIENT_SECRET, now), false);
+    });
+
+    it('asks HubSpot to redeliver when rate limited', async () => {
+      standIn.failNext({ status: 429, headers: { 'Retry-After': '1' } }, ATTEMPTS);
+      const response = await deliver([propertyChange(DOSSIER_ID, 'sous_categorie', 'AES')]);
+
+      assert.equal(response.statusCode, 500);
+      assert.deepEqual(response.body.failed.map((entry: any) => entry.code), ['RATE_LIMITED']);
+      assert.equal(writes().length, 0);
+    });
+  });
+});
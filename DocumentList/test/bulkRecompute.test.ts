@@ -0,0 +1,123 @@
+/**
+ * Bulk recompute against the CRM stand-in.
+ */
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { HISTORY_PROPERTY, parseHistory } from '../src/app/core/history';
+import { recomputeAllDossiers, type BulkProgress } from '../src/app/functions/bulkRecompute';
+import { createClient } from '../src/app/functions/hubspot';
+import { CHECKLIST_PROPERTIES } from '../src/app/functions/recompute';
+import { CrmStandIn } from '../tools/crmStandIn';
+
+const OBJECT_TYPE = 'p_dossier_juridique';
+
+const ENV: Record<string, string> = {
+  dossier_j_NAME: OBJECT_TYPE,
+  dossier_j_ID: '2-141688426',
+  HUBSPOT_RETRY_BASE_MS: '1',
+  HUBSPOT_RETRY_MAX_MS: '5',
+};
+
+const DOSSIERS: Record<string, string> = {
+  '1': 'Naturalisation par mariage',
+  '2': 'Naturalisation par mariage',
+  '3': 'AES et renouvellement AES',
+  '4': '',
+  '5': 'Naturalisation par décret',
+};
+
+const standIn = new CrmStandIn();
+const previousEnv: Record<string, string | undefined> = {};
+
+const client = () => createClient('test-token');
+
+const writes = () => standIn.requests
+  .filter(request => request.path.endsWith('/batch/update'))
+  .flatMap(request => request.body.inputs);
+
+describe('recomputeAllDossiers', () => {
+  before(async () => {
+    await standIn.start();
+    Object.entries({ ...ENV, HUBSPOT_API_BASE_PATH: standIn.url }).forEach(([name, value]) => {
+      previousEnv[name] = process.env[name];
+      process.env[name] = value;
+    });
+  });
+
+  after(async () => {
+    await standIn.stop();
+    Object.entries(previousEnv).forEach(([name, value]) => {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    });
+  });
+
+  beforeEach(() => {
+    standIn.requests.length = 0;
+    standIn.defineObjectType({ name: OBJECT_TYPE, typeId: '2-141688426', properties: [...CHECKLIST_PROPERTIES, HISTORY_PROPERTY] });
+    Object.entries(DOSSIERS).forEach(([id, sousCategorie]) => {
+      standIn.createObject(OBJECT_TYPE, { sous_categorie: sousCategorie }, id);
+    });
+  });
+
+  it('counts the changes per sous_categorie without writing', async () => {
+    const progress = await recomputeAllDossiers(client(), { pageSize: 2 });
+
+    assert.equal(progress.done, true);
+    assert.equal(progress.summary.scanned, 5);
+    assert.equal(progress.summary.written, 0);
+    assert.equal(progress.summary.bySousCategorie['Naturalisation par mariage'].dossiers, 2);
+    assert.equal(progress.summary.bySousCategorie['Naturalisation par mariage'].changed, 2);
+    assert.equal(progress.summary.bySousCategorie['Naturalisation par mariage'].requiredChanges, 18);
+    assert.equal(progress.summary.bySousCategorie['(sans sous-catégorie)'].dossiers, 1);
+    assert.equal(writes().length, 0);
+  });
+
+  it('resumes an interrupted run and writes each dossier once', async () => {
+    const saved: BulkProgress[] = [];
+    const first = await recomputeAllDossiers(client(), {
+      apply: true,
+      pageSize: 2,
+      maxPages: 1,
+      onPage: progress => { saved.push(JSON.parse(JSON.stringify(progress))); },
+    });
+    assert.equal(first.done, false);
+    assert.equal(saved.length, 1);
+
+    const resumed = await recomputeAllDossiers(client(), { apply: true, pageSize: 2, resume: saved[0] });
+
+    assert.equal(resumed.done, true);
+    assert.equal(resumed.summary.scanned, 5);
+    assert.equal(resumed.summary.written, resumed.summary.changed);
+    assert.equal(new Set(writes().map(input => input.id)).size, writes().length);
+
+    const history = parseHistory(standIn.getObject(OBJECT_TYPE, '1')?.properties[HISTORY_PROPERTY]);
+    assert.ok(history.length > 0);
+    assert.ok(history.every(entry => entry.source === 'bulk' && entry.user === null));
+
+    const again = await recomputeAllDossiers(client(), { apply: true });
+    assert.equal(again.summary.changed, 0);
+  });
+
+  it('stops when rate limited so the page is retried on resume', async () => {
+    const saved: BulkProgress[] = [];
+    standIn.failNext({ status: 429, headers: { 'Retry-After': '0' } }, 4);
+
+    await assert.rejects(recomputeAllDossiers(client(), {
+      apply: true,
+      onPage: progress => { saved.push(progress); },
+    }));
+    assert.equal(saved.length, 0);
+    assert.equal(writes().length, 0);
+  });
+
+  it('refuses to resume a dry run as an applied run', async () => {
+    const dryRun = await recomputeAllDossiers(client(), { pageSize: 2, maxPages: 1 });
+    await assert.rejects(recomputeAllDossiers(client(), { apply: true, resume: dryRun }), /from a dry run/);
+  });
+});
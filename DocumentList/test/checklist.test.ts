@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { evaluateChecklist, getChangedProperties } from '../src/app/core/checklist';
+import { DOSSIER_STATES, type DocumentConfig } from '../src/app/core/documents';
+
+const sousCategorie = (value: string) => ({ property: 'sous_categorie', operator: 'equals' as const, value });
+
+const CONFIGS: DocumentConfig[] = [
+  {
+    id: 'passeport',
+    name: 'Passeport',
+    requiredProperty: 'passeport_required',
+    providedProperty: 'passeport_provided',
+    tabConfig: { decret: { order: 1, conditions: [sousCategorie('Naturalisation par décret')] } },
+  },
+  {
+    id: 'passeport_conjoint',
+    name: 'Passeport du conjoint',
+    requiredProperty: 'passeport_required',
+    providedProperty: 'passeport_conjoint_provided',
+    tabConfig: { naturalisation_mariage: { order: 1, conditions: [sousCategorie('Naturalisation par mariage')] } },
+  },
+  {
+    id: 'bail',
+    name: 'Bail de location',
+    requiredProperty: 'bail_required',
+    providedProperty: 'bail_provided',
+    tabConfig: {
+      decret: { order: 2, conditions: [sousCategorie('Naturalisation par décret'), { property: 'domicile__', operator: 'in', value: 'Locataire' }] },
+    },
+  },
+];
+
+describe('evaluateChecklist', () => {
+  it('computes the checklist of a dossier', () => {
+    const evaluation = evaluateChecklist(
+      CONFIGS,
+      { sous_categorie: 'Naturalisation par décret', domicile__: 'Locataire', bail_provided: 'true' },
+      { tabs: [{ id: 'decret', title: 'Décret', description: '', sousCategories: ['Naturalisation par décret'] }] }
+    );
+
+    assert.equal(evaluation.tabId, 'decret');
+    assert.deepEqual(evaluation.missing, ['Passeport']);
+    assert.equal(evaluation.missingDoc, '<ul><li>Passeport</li></ul>');
+    assert.equal(evaluation.completed, false);
+    assert.equal(evaluation.dossierState, DOSSIER_STATES.INCOMPLETE);
+    assert.deepEqual(evaluation.properties, {
+      passeport_required: 'true',
+      bail_required: 'true',
+      documents_completed: 'false',
+      etat_du_dossier: DOSSIER_STATES.INCOMPLETE,
+      missing_doc: '<ul><li>Passeport</li></ul>',
+    });
+  });
+
+  it('keeps a state set by a lawyer', () => {
+    const evaluation = evaluateChecklist(CONFIGS, { sous_categorie: 'Naturalisation par mariage', etat_du_dossier: 'Déposé en préfecture' });
+    assert.equal(evaluation.dossierState, 'Déposé en préfecture');
+    assert.equal(evaluation.automaticState, DOSSIER_STATES.TO_BUILD);
+    assert.equal(evaluation.properties.etat_du_dossier, 'Déposé en préfecture');
+  });
+
+  it('sets a shared required property when any of its documents is required', () => {
+    const evaluation = evaluateChecklist(CONFIGS, { sous_categorie: 'Naturalisation par mariage' });
+    assert.equal(evaluation.properties.passeport_required, 'true');
+    assert.equal(evaluation.properties.bail_required, 'false');
+  });
+});
+
+describe('getChangedProperties', () => {
+  it('returns the values that differ from the stored ones', () => {
+    const evaluation = evaluateChecklist(CONFIGS, { sous_categorie: 'Naturalisation par mariage' });
+    const changed = getChangedProperties(evaluation, {
+      sous_categorie: 'Naturalisation par mariage',
+      passeport_required: 'false',
+      bail_required: null,
+      etat_du_dossier: DOSSIER_STATES.TO_BUILD,
+    });
+
+    assert.deepEqual(changed, {
+      passeport_required: 'true',
+      missing_doc: '<ul><li>Passeport du conjoint</li></ul>',
+    });
+  });
+});
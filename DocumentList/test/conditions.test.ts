@@ -0,0 +1,219 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  ConditionError,
+  collectConditionProperties,
+  evaluateCondition,
+  evaluateConditionTree,
+  evaluateConditions,
+  validateConditions,
+  type DocumentCondition,
+} from '../src/app/core/conditions';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+describe('evaluateConditions', () => {
+  it('matches an empty list', () => {
+    assert.equal(evaluateConditions([], {}), true);
+  });
+
+  it('ORs flat conditions on the same property and ANDs different properties', () => {
+    const conditions: DocumentCondition[] = [
+      { property: 'sous_categorie', operator: 'equals', value: 'Naturalisation par décret' },
+      { property: 'sous_categorie', operator: 'equals', value: 'Naturalisation par mariage' },
+      { property: 'domicile__', operator: 'in', value: 'Locataire' },
+    ];
+
+    assert.equal(evaluateConditions(conditions, { sous_categorie: 'Naturalisation par mariage', domicile__: 'Locataire' }), true);
+    assert.equal(evaluateConditions(conditions, { sous_categorie: 'Naturalisation par décret', domicile__: 'Locataire' }), true);
+    assert.equal(evaluateConditions(conditions, { sous_categorie: 'Naturalisation par mariage', domicile__: 'Propriétaire' }), false);
+    assert.equal(evaluateConditions(conditions, { sous_categorie: 'AES', domicile__: 'Locataire' }), false);
+  });
+
+  it('evaluates nested all/any/not groups', () => {
+    // (married AND married abroad) OR PACS
+    const conditions: DocumentCondition[] = [
+      {
+        any: [
+          {
+            all: [
+              { property: 'quelle_est_votre_situation_familliale', operator: 'in', value: 'Marié(e)' },
+              { property: 'votre_mariage_a_t_il_ete_celebre_a_l_etranger__', operator: 'in', value: 'true' },
+            ],
+          },
+          { property: 'quelle_est_votre_situation_familliale', operator: 'in', value: 'Pacsé(e)' },
+        ],
+      },
+    ];
+
+    assert.equal(evaluateConditions(conditions, { quelle_est_votre_situation_familliale: 'Marié(e)', votre_mariage_a_t_il_ete_celebre_a_l_etranger__: 'true' }), true);
+    assert.equal(evaluateConditions(conditions, { quelle_est_votre_situation_familliale: 'Marié(e)', votre_mariage_a_t_il_ete_celebre_a_l_etranger__: 'false' }), false);
+    assert.equal(evaluateConditions(conditions, { quelle_est_votre_situation_familliale: 'Pacsé(e)' }), true);
+    assert.equal(evaluateConditions([{ not: conditions[0] }], { quelle_est_votre_situation_familliale: 'Pacsé(e)' }), false);
+  });
+
+  it('ANDs top-level groups with flat property conditions', () => {
+    const conditions: DocumentCondition[] = [
+      { property: 'sous_categorie', operator: 'equals', value: 'Naturalisation par mariage' },
+      { not: { property: 'avez_vous_un_statut_refugie_ou_apatride__', operator: 'in', value: 'true' } },
+    ];
+
+    assert.equal(evaluateConditions(conditions, { sous_categorie: 'Naturalisation par mariage' }), true);
+    assert.equal(evaluateConditions(conditions, { sous_categorie: 'Naturalisation par mariage', avez_vous_un_statut_refugie_ou_apatride__: 'true' }), false);
+  });
+});
+
+describe('evaluateConditionTree', () => {
+  const married = { property: 'quelle_est_votre_situation_familliale', operator: 'in' as const, value: 'Marié(e)' };
+
+  it('matches an empty all group and never an empty any group', () => {
+    assert.equal(evaluateConditionTree({ all: [] }, {}), true);
+    assert.equal(evaluateConditionTree({ any: [] }, {}), false);
+    assert.equal(evaluateConditionTree({ not: { any: [] } }, {}), true);
+  });
+
+  it('ANDs the children of a group, unlike top-level conditions on the same property', () => {
+    const pacsed = { ...married, value: 'Pacsé(e)' };
+    const properties = { quelle_est_votre_situation_familliale: 'Marié(e)' };
+
+    assert.equal(evaluateConditionTree({ all: [married, pacsed] }, properties), false);
+    assert.equal(evaluateConditions([married, pacsed], properties), true);
+  });
+
+  it('throws on conditions that are neither a property comparison nor a group', () => {
+    assert.throws(() => evaluateConditionTree({ anyOf: [married] } as any, {}), ConditionError);
+    assert.throws(() => evaluateConditions([{ all: [{ value: 'x' } as any] }], {}), ConditionError);
+  });
+});
+
+describe('evaluateCondition', () => {
+  it('matches multi-select values separated by semicolons', () => {
+    const condition = { property: 'percevez_vous_', operator: 'in' as const, value: 'RSA' };
+    assert.equal(evaluateCondition(condition, { percevez_vous_: 'Chômage;RSA' }), true);
+    assert.equal(evaluateCondition(condition, { percevez_vous_: ['RSA'] }), true);
+    assert.equal(evaluateCondition(condition, { percevez_vous_: 'Chômage' }), false);
+    assert.equal(evaluateCondition(condition, {}), false);
+  });
+
+  it('supports not_in with a list of values', () => {
+    const condition = { property: 'domicile__', operator: 'not_in' as const, value: ['Locataire', 'Propriétaire'] };
+    assert.equal(evaluateCondition(condition, { domicile__: 'Hébergé(e) à titre gratuit' }), true);
+    assert.equal(evaluateCondition(condition, { domicile__: 'Locataire' }), false);
+  });
+
+  it('supports is_empty, is_not_empty and is_known', () => {
+    assert.equal(evaluateCondition({ property: 'x', operator: 'is_empty' }, { x: '  ' }), true);
+    assert.equal(evaluateCondition({ property: 'x', operator: 'is_empty' }, { x: 'a' }), false);
+    assert.equal(evaluateCondition({ property: 'x', operator: 'is_not_empty' }, { x: 'a' }), true);
+    assert.equal(evaluateCondition({ property: 'x', operator: 'is_known' }, {}), false);
+  });
+
+  it('compares numbers', () => {
+    assert.equal(evaluateCondition({ property: 'n', operator: 'gt', value: 3 }, { n: '4' }), true);
+    assert.equal(evaluateCondition({ property: 'n', operator: 'lte', value: '3' }, { n: '3' }), true);
+    assert.equal(evaluateCondition({ property: 'n', operator: 'between', value: [1, 3] }, { n: '5' }), false);
+    assert.equal(evaluateCondition({ property: 'n', operator: 'gt', value: 3 }, { n: '' }), false);
+  });
+
+  it('compares dates relative to today', () => {
+    // Marriage date less than 5 years ago
+    const condition = { property: 'date_mariage', operator: 'gt' as const, value: 'today-5y' };
+    assert.equal(evaluateCondition(condition, { date_mariage: '2023-06-01' }, { now: NOW }), true);
+    assert.equal(evaluateCondition(condition, { date_mariage: String(Date.UTC(2020, 0, 1)) }, { now: NOW }), false);
+    assert.equal(
+      evaluateCondition({ property: 'd', operator: 'between', value: ['2026-01-01', 'today'] }, { d: '2026-03-15' }, { now: NOW }),
+      true
+    );
+  });
+
+  it('matches regular expressions', () => {
+    assert.equal(evaluateCondition({ property: 'x', operator: 'matches', value: '^Naturalisation' }, { x: 'Naturalisation par mariage' }), true);
+    assert.equal(evaluateCondition({ property: 'x', operator: 'matches', value: '/mariage$/i' }, { x: 'Naturalisation par MARIAGE' }), true);
+  });
+
+  it('throws on unknown operators instead of matching', () => {
+    assert.throws(
+      () => evaluateCondition({ property: 'x', operator: 'starts_with' as any, value: 'a' }, { x: 'a' }),
+      ConditionError
+    );
+  });
+
+  it('includes both bounds of between and does not match empty values', () => {
+    const between = { property: 'n', operator: 'between' as const, value: [1, 3] };
+
+    assert.equal(evaluateCondition(between, { n: '1' }), true);
+    assert.equal(evaluateCondition(between, { n: '3' }), true);
+    assert.equal(evaluateCondition(between, { n: '2,5' }), true);
+    assert.equal(evaluateCondition(between, { n: '0.9' }), false);
+    assert.equal(evaluateCondition(between, { n: '' }), false);
+    assert.equal(evaluateCondition(between, { n: 'deux' }), false);
+  });
+
+  it('compares between dates by day and relative offsets in days, weeks and months', () => {
+    const lastWeeks = { property: 'd', operator: 'between' as const, value: ['today-2w', 'today+3d'] };
+
+    assert.equal(evaluateCondition(lastWeeks, { d: '2026-10-05T23:59:00Z' }, { now: NOW }), true);
+    assert.equal(evaluateCondition(lastWeeks, { d: '2026-10-04' }, { now: NOW }), false);
+    assert.equal(evaluateCondition(lastWeeks, { d: '2026-10-22' }, { now: NOW }), true);
+    assert.equal(evaluateCondition({ property: 'd', operator: 'gte', value: 'today-1m' }, { d: '2026-09-19' }, { now: NOW }), true);
+  });
+
+  it('throws when between or a comparison gets the wrong kind of value', () => {
+    assert.throws(() => evaluateCondition({ property: 'n', operator: 'between', value: [1] }, { n: '1' }), ConditionError);
+    assert.throws(() => evaluateCondition({ property: 'n', operator: 'between', value: 1 }, { n: '1' }), ConditionError);
+    assert.throws(() => evaluateCondition({ property: 'n', operator: 'gt', value: [1, 2] }, { n: '1' }), ConditionError);
+    assert.throws(() => evaluateCondition({ property: 'n', operator: 'lt' }, { n: '1' }), ConditionError);
+    assert.throws(() => evaluateCondition({ property: 'x', operator: 'equals', value: ['a'] }, { x: 'a' }), ConditionError);
+  });
+
+  it('matches regular expressions against the trimmed value only', () => {
+    assert.equal(evaluateCondition({ property: 'x', operator: 'matches', value: '^AES$' }, { x: '  AES ' }), true);
+    assert.equal(evaluateCondition({ property: 'x', operator: 'matches', value: '^$' }, {}), true);
+    assert.equal(evaluateCondition({ property: 'x', operator: 'matches', value: '.' }, {}), false);
+    assert.throws(() => evaluateCondition({ property: 'x', operator: 'matches', value: '(' }, { x: 'a' }), SyntaxError);
+  });
+
+  it('treats in with a single value like a one-element list', () => {
+    assert.equal(evaluateCondition({ property: 'x', operator: 'in', value: 'b' }, { x: 'a;b' }), true);
+    assert.equal(evaluateCondition({ property: 'x', operator: 'in', value: ['c', 'b'] }, { x: 'a, b' }), true);
+    assert.equal(evaluateCondition({ property: 'x', operator: 'not_in', value: 'c' }, { x: '' }), true);
+  });
+});
+
+describe('validateConditions', () => {
+  it('accepts well-formed conditions', () => {
+    assert.deepEqual(validateConditions([
+      { property: 'x', operator: 'is_empty' },
+      { any: [{ property: 'n', operator: 'between', value: [1, 'today'] }] },
+    ]), []);
+  });
+
+  it('reports unknown operators and malformed values with their path', () => {
+    const issues = validateConditions([
+      { property: 'x', operator: 'starts_with' as any, value: 'a' },
+      { all: [{ property: 'n', operator: 'gt', value: 'soon' }] },
+      { property: 'x', operator: 'matches', value: '(' },
+      { any: [] },
+    ]);
+
+    assert.deepEqual(issues.map(issue => issue.path), [
+      'conditions[0]',
+      'conditions[1].all[0]',
+      'conditions[2]',
+      'conditions[3]',
+    ]);
+  });
+});
+
+describe('collectConditionProperties', () => {
+  it('collects properties from nested groups', () => {
+    assert.deepEqual(
+      collectConditionProperties([
+        { property: 'a', operator: 'equals', value: '1' },
+        { any: [{ property: 'b', operator: 'is_empty' }, { not: { property: 'c', operator: 'in', value: 'x' } }] },
+      ]),
+      ['a', 'b', 'c']
+    );
+  });
+});
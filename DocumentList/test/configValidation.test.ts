@@ -0,0 +1,135 @@
+/**
+ * Offline configuration checks of npm run validate.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import statesConfig from '../src/app/extensions/states.json';
+import { validateConfig, type ConfigInput } from '../tools/configValidation';
+import { TEMPLATE_TARGET_URL } from '../tools/webhooks';
+
+const STATES = statesConfig.states.map(state => state.value);
+
+const TARGET_URL = 'https://cabinet.example.com/hs/serverless/dossier-recompute';
+
+const TABS = [
+  { id: 'decret', title: 'Décret', sousCategories: ['Naturalisation par décret'] },
+  { id: 'autre', title: 'Autre' },
+];
+
+const DOCUMENTS = [
+  {
+    id: 'passeport',
+    name: 'Passeport',
+    requiredProperty: 'passeport_required',
+    providedProperty: 'passeport_provided',
+    tabConfig: {
+      decret: { order: 1, conditions: [{ property: 'sous_categorie', operator: 'equals', value: 'Naturalisation par décret' }] },
+    },
+  },
+];
+
+const validInput = (): ConfigInput => ({
+  documents: DOCUMENTS,
+  tabs: TABS,
+  conditionalProperties: { 'core/properties.generated.ts': ['sous_categorie'] },
+  stateMachine: statesConfig,
+  webhookTargetUrl: TARGET_URL,
+  propertyOptions: {
+    etat_du_dossier: STATES,
+    sous_categorie: ['Naturalisation par décret', 'AES et renouvellement AES'],
+  },
+});
+
+const messages = (input: ConfigInput, severity: 'error' | 'warning' = 'error') => {
+  return validateConfig(input).issues
+    .filter(issue => issue.severity === severity)
+    .map(issue => `${issue.source}: ${issue.message}`);
+};
+
+describe('validateConfig', () => {
+  it('accepts a consistent configuration', () => {
+    assert.deepEqual(validateConfig(validInput()).issues, []);
+  });
+
+  it('reports documents in a tab tabs.json does not declare', () => {
+    const documents = [{ ...DOCUMENTS[0], tabConfig: { ...DOCUMENTS[0].tabConfig, inconnu: { order: 1, conditions: [] } } }];
+
+    assert.deepEqual(messages({ ...validInput(), documents }), [
+      'documents.json#passeport > inconnu: Unknown tab id "inconnu" (not declared in tabs.json)',
+    ]);
+  });
+
+  it('reports condition properties missing from the conditional property list', () => {
+    const conditions = [...DOCUMENTS[0].tabConfig.decret.conditions, { property: 'domicile__', operator: 'equals', value: 'Locataire' }];
+    const documents = [{ ...DOCUMENTS[0], tabConfig: { decret: { order: 1, conditions } } }];
+
+    assert.deepEqual(messages({ ...validInput(), documents }), [
+      'core/properties.generated.ts: Condition property "domicile__" is not listed, it would never be fetched',
+    ]);
+  });
+
+  it('reports unknown operators and values they cannot use', () => {
+    const conditions = [
+      ...DOCUMENTS[0].tabConfig.decret.conditions,
+      { property: 'sous_categorie', operator: 'egal', value: 'Naturalisation par décret' },
+      { property: 'sous_categorie', operator: 'gt', value: 'beaucoup' },
+    ];
+    const documents = [{ ...DOCUMENTS[0], tabConfig: { decret: { order: 1, conditions } } }];
+
+    assert.deepEqual(messages({ ...validInput(), documents }), [
+      'documents.json#passeport > decret: conditions[1]: Unknown operator "egal"',
+      'documents.json#passeport > decret: conditions[2]: Operator "gt" requires a number or a date, got "beaucoup"',
+    ]);
+  });
+
+  it('reports sous_categorie values mapped to another tab or to none', () => {
+    const conditions = [{ property: 'sous_categorie', operator: 'in', value: ['Naturalisation par décret', 'Naturalisation par mariage'] }];
+    const documents = [{ ...DOCUMENTS[0], tabConfig: { decret: { order: 1, conditions } } }];
+    const tabs = [...TABS, { id: 'mariage', title: 'Mariage', sousCategories: [' Naturalisation  par décret'] }];
+
+    assert.deepEqual(messages({ ...validInput(), documents, tabs }), [
+      'tabs.json#mariage: sous_categorie " Naturalisation  par décret" is already mapped to tab "decret"',
+      'documents.json#passeport > decret: sous_categorie "Naturalisation par mariage" is mapped to no tab in tabs.json',
+    ]);
+  });
+
+  it('warns about tabs no document references', () => {
+    const tabs = [...TABS, { id: 'aes', title: 'AES', sousCategories: ['AES et renouvellement AES'] }];
+
+    assert.deepEqual(messages({ ...validInput(), tabs }), []);
+    assert.deepEqual(messages({ ...validInput(), tabs }, 'warning'), ['tabs.json#aes: No document references this tab']);
+  });
+
+  it('rejects a webhook target URL that is unset, the template one or another endpoint', () => {
+    assert.match(messages({ ...validInput(), webhookTargetUrl: '' })[0], /^webhooks\/webhooks\.json: targetUrl is not set/);
+    assert.match(messages({ ...validInput(), webhookTargetUrl: TEMPLATE_TARGET_URL })[0], /^webhooks\/webhooks\.json: .*template placeholder/);
+    assert.match(messages({ ...validInput(), webhookTargetUrl: 'https://cabinet.example.com/webhook' })[0], /^webhooks\/webhooks\.json: .*https URL/);
+  });
+
+  describe('property options', () => {
+    it('reports states that are not options of etat_du_dossier', () => {
+      const input = { ...validInput(), propertyOptions: { etat_du_dossier: STATES.filter(state => state !== 'Entretien'), sous_categorie: ['Naturalisation par décret'] } };
+
+      assert.deepEqual(messages(input), [
+        'states.json: State "Entretien" is not an option of etat_du_dossier, run "npm run properties:provision -- --apply"',
+      ]);
+    });
+
+    it('reports tab sous_categorie values that are not options of sous_categorie', () => {
+      const input = { ...validInput(), propertyOptions: { etat_du_dossier: STATES, sous_categorie: ['Naturalisation  par décret ', 'AES'] } };
+      assert.deepEqual(messages(input), []);
+
+      input.propertyOptions.sous_categorie = ['Naturalisation par mariage'];
+      assert.deepEqual(messages(input), [
+        'tabs.json#decret: sous_categorie "Naturalisation par décret" is not an option of sous_categorie in HubSpot',
+      ]);
+    });
+
+    it('reports a snapshot without the etat_du_dossier options', () => {
+      const input = { ...validInput(), propertyOptions: { sous_categorie: ['Naturalisation par décret'] } };
+      assert.deepEqual(messages(input), ['propertyOptions.json: No options for etat_du_dossier, run "npm run properties:provision"']);
+    });
+  });
+});
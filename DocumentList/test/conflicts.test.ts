@@ -0,0 +1,36 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { getConflicts, sameValue } from '../src/app/core/conflicts';
+
+describe('sameValue', () => {
+  it('compares flags as booleans and other values as strings', () => {
+    assert.equal(sameValue(null, 'false'), true);
+    assert.equal(sameValue(false, ''), true);
+    assert.equal(sameValue(true, 'true'), true);
+    assert.equal(sameValue('Locataire', 'Locataire'), true);
+    assert.equal(sameValue('Locataire', 'Propriétaire'), false);
+  });
+});
+
+describe('getConflicts', () => {
+  it('ignores properties nobody changed or changed the same way', () => {
+    const conflicts = getConflicts(
+      { passeport_provided: 'true', bail_provided: 'true', acte_provided: 'true', send_mail: 'true' },
+      { passeport_provided: false, bail_provided: false, acte_provided: false },
+      { passeport_provided: 'false', bail_provided: 'true', acte_provided: null }
+    );
+
+    assert.deepEqual(conflicts, []);
+  });
+
+  it('keeps the stored value when it moved away from the loaded one', () => {
+    const conflicts = getConflicts(
+      { passeport_provided: 'false' },
+      { passeport_provided: false },
+      { passeport_provided: 'true' }
+    );
+
+    assert.deepEqual(conflicts, [{ property: 'passeport_provided', expected: 'false', current: 'true', requested: 'false' }]);
+  });
+});
@@ -0,0 +1,265 @@
+/**
+ * Document matrix spreadsheet: reading CSV and XLSX, generating
+ * documents.json entries, and the changelog between two versions.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { deflateRawSync } from 'zlib';
+
+import documentsConfig from '../src/app/extensions/documents.json';
+import { type DocumentConfig } from '../src/app/core/documents';
+import { type DocumentEntry } from '../src/app/core/repeat';
+import {
+  diffDocuments,
+  exportDocumentMatrix,
+  formatChangelog,
+  formatConditions,
+  parseConditions,
+  parseDocumentMatrix,
+  toDocumentSlug,
+} from '../tools/documentMatrix';
+import { parseCsv, readXlsx, renderCsv } from '../tools/spreadsheet';
+
+const HEADER = ['id', 'name', 'tab', 'sous_categorie', 'order', 'conditions'];
+
+const DECRET = 'Naturalisation par décret';
+
+/**
+ * Builds a minimal XLSX archive: deflated entries without checksums.
+ */
+const buildXlsx = (files: Record<string, string>): Buffer => {
+  const locals: Buffer[] = [];
+  const directory: Buffer[] = [];
+  let offset = 0;
+  Object.entries(files).forEach(([name, content]) => {
+    const data = deflateRawSync(Buffer.from(content, 'utf8'));
+    const fileName = Buffer.from(name, 'utf8');
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt16LE(fileName.length, 26);
+    const entry = Buffer.alloc(46);
+    entry.writeUInt32LE(0x02014b50, 0);
+    entry.writeUInt16LE(8, 10);
+    entry.writeUInt32LE(data.length, 20);
+    entry.writeUInt16LE(fileName.length, 28);
+    entry.writeUInt32LE(offset, 42);
+    locals.push(local, fileName, data);
+    directory.push(entry, fileName);
+    offset += local.length + fileName.length + data.length;
+  });
+  const size = directory.reduce((total, part) => total + part.length, 0);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(size, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, ...directory, end]);
+};
+
+describe('spreadsheet', () => {
+  it('reads CSV separated by semicolons, with quoted line breaks', () => {
+    const rows = parseCsv('\uFEFFid;name\r\npasseport;"Passeport\nen cours de validité"\r\ntimbre;"Timbre ""fiscal"""\r\n');
+    assert.deepEqual(rows, [['id', 'name'], ['passeport', 'Passeport\nen cours de validité'], ['timbre', 'Timbre "fiscal"']]);
+  });
+
+  it('reads back the CSV it writes', () => {
+    const rows = [['id', 'name'], ['a', 'Un; deux'], ['b', 'Ligne 1\nLigne 2']];
+    assert.deepEqual(parseCsv(renderCsv(rows)), rows);
+  });
+
+  it('reads the first worksheet of an XLSX file', () => {
+    const buffer = buildXlsx({
+      'xl/workbook.xml': '<workbook><sheets><sheet name="Documents" sheetId="1" r:id="rId1"/></sheets></workbook>',
+      'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/documents.xml"/></Relationships>',
+      'xl/sharedStrings.xml': '<sst><si><t>name</t></si><si><r><t>Timbre </t></r><r><t>fiscal &amp; photos</t></r></si></sst>',
+      'xl/worksheets/documents.xml': '<worksheet><sheetData>'
+        + '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="inlineStr"><is><t>order</t></is></c></row>'
+        + '<row r="3"><c r="A3" t="s"><v>1</v></c><c r="B3"/><c r="C3"><v>2</v></c></row>'
+        + '</sheetData></worksheet>',
+    });
+
+    assert.deepEqual(readXlsx(buffer), [['name', '', 'order'], [], ['Timbre fiscal & photos', '', '2']]);
+  });
+});
+
+describe('toDocumentSlug', () => {
+  it('turns a name into an id', () => {
+    assert.equal(toDocumentSlug('Timbre fiscal de 55 €'), 'timbre_fiscal_de_55_euro');
+    assert.equal(toDocumentSlug("Photos d'identité (2 pour le demandeur)"), 'photos_d_identite_2_pour_le_demandeur');
+  });
+
+  it('cuts long names with a hash so ids stay distinct', () => {
+    const base = 'Copie intégrale de l’acte de naissance et sa traduction par un traducteur assermenté auprès de la cour';
+    const first = toDocumentSlug(`${base} du demandeur`);
+    const second = toDocumentSlug(`${base} du conjoint`);
+
+    assert.ok(first.length <= 85);
+    assert.match(first, /_[0-9a-f]{6}$/);
+    assert.notEqual(first, second);
+    assert.equal(toDocumentSlug(`${base} du demandeur`), first);
+    assert.ok(`${first}_provided`.length < 100);
+  });
+});
+
+describe('parseConditions', () => {
+  it('reads one condition per line', () => {
+    const { conditions, errors } = parseConditions('domicile__ in Locataire | Hébergé(e) à titre gratuit\nnombre_enfants gte 2\nconjoint is_known');
+    assert.deepEqual(errors, []);
+    assert.deepEqual(conditions, [
+      { property: 'domicile__', operator: 'in', value: ['Locataire', 'Hébergé(e) à titre gratuit'] },
+      { property: 'nombre_enfants', operator: 'gte', value: 2 },
+      { property: 'conjoint', operator: 'is_known' },
+    ]);
+  });
+
+  it('reads JSON for nested groups', () => {
+    const any = { any: [{ property: 'a', operator: 'equals', value: 'x' }, { property: 'b', operator: 'equals', value: 'y' }] };
+    assert.deepEqual(parseConditions(JSON.stringify([any])).conditions, [any]);
+    assert.equal(formatConditions([any as any]), JSON.stringify([any]));
+  });
+
+  it('reports unknown operators', () => {
+    assert.match(parseConditions('domicile__ egal Locataire').errors[0], /cannot read condition "domicile__ egal Locataire"/);
+  });
+});
+
+describe('parseDocumentMatrix', () => {
+  it('builds one entry per document with the sous_categorie of each tab', () => {
+    const { entries, issues } = parseDocumentMatrix([
+      HEADER,
+      ['', 'Timbre fiscal de 55 €', 'decret', DECRET, '1', ''],
+      ['', '', 'naturalisation_mariage', 'Naturalisation par mariage', '2', ''],
+      ['', 'Attestation\nd’hébergement', 'decret', DECRET, '2', 'domicile__ in Hébergé(e) à titre gratuit'],
+    ]);
+
+    assert.deepEqual(issues, []);
+    assert.deepEqual(entries, [
+      {
+        id: 'timbre_fiscal_de_55_euro',
+        name: 'Timbre fiscal de 55 €',
+        requiredProperty: 'timbre_fiscal_de_55_euro_required',
+        providedProperty: 'timbre_fiscal_de_55_euro_provided',
+        tabConfig: {
+          decret: { order: 1, conditions: [{ property: 'sous_categorie', operator: 'equals', value: DECRET }] },
+          naturalisation_mariage: { order: 2, conditions: [{ property: 'sous_categorie', operator: 'equals', value: 'Naturalisation par mariage' }] },
+        },
+      },
+      {
+        id: 'attestation_d_hebergement',
+        name: 'Attestation d’hébergement',
+        requiredProperty: 'attestation_d_hebergement_required',
+        providedProperty: 'attestation_d_hebergement_provided',
+        tabConfig: {
+          decret: {
+            order: 2,
+            conditions: [
+              { property: 'sous_categorie', operator: 'equals', value: DECRET },
+              { property: 'domicile__', operator: 'in', value: 'Hébergé(e) à titre gratuit' },
+            ],
+          },
+        },
+      },
+    ]);
+  });
+
+  it('keeps explicit ids, property stems and validity', () => {
+    const { entries } = parseDocumentMatrix([
+      ['id', 'name', 'property', 'validity', 'tab', 'sous_categorie', 'order'],
+      ['timbre_fiscal_de_55_euro', 'Timbre fiscal', 'timbre_fiscal_de_55', '3 mois', 'decret', DECRET, '1'],
+    ]);
+    const [entry] = entries as DocumentConfig[];
+
+    assert.equal(entry.id, 'timbre_fiscal_de_55_euro');
+    assert.equal(entry.requiredProperty, 'timbre_fiscal_de_55_required');
+    assert.equal(entry.dateProperty, 'timbre_fiscal_de_55_date');
+    assert.deepEqual(entry.validity, { maxAgeMonths: 3 });
+  });
+
+  it('reports rows the generator cannot use', () => {
+    const { issues } = parseDocumentMatrix([
+      HEADER,
+      ['', 'Passeport', 'decret', DECRET, '1', ''],
+      ['', 'Passeport', 'decret', DECRET, '4', ''],
+      ['', 'Acte de mariage', 'decret', 'Naturalisation par mariage', 'deux', ''],
+      ['passeport', 'Passeport du conjoint', 'fraterie', 'Naturalisation par fratrie', '1', ''],
+    ]);
+
+    assert.deepEqual(issues.map(issue => `${issue.source}: ${issue.message}`), [
+      'row 3: Tab "decret" is listed twice for "Passeport", set distinct ids if these are different documents',
+      'row 4: Tab "decret" is for sous_categorie "Naturalisation par décret" on row 2, not "Naturalisation par mariage"',
+      'row 4: "order" must be a whole number in tab "decret"',
+      'row 5: id "passeport" is already used by row 2, set distinct ids',
+    ]);
+  });
+
+  it('requires the columns of a tab', () => {
+    const { issues } = parseDocumentMatrix([['id', 'name', 'onglet']]);
+    assert.deepEqual(issues.map(issue => issue.message), [
+      'Unknown column "onglet" is ignored',
+      'Missing column "tab"',
+      'Missing column "sous_categorie"',
+      'Missing column "order"',
+    ]);
+  });
+
+  it('reads back documents.json from its export', () => {
+    const { rows, errors } = exportDocumentMatrix(documentsConfig as DocumentEntry[]);
+    assert.deepEqual(errors, []);
+
+    const { entries, issues } = parseDocumentMatrix(parseCsv(renderCsv(rows)));
+    assert.deepEqual(issues, []);
+    assert.equal(JSON.stringify(entries, null, 2), JSON.stringify(documentsConfig, null, 2));
+  });
+});
+
+describe('diffDocuments', () => {
+  const entry = (id: string, name: string, order = 1, stem = id): DocumentConfig => ({
+    id,
+    name,
+    requiredProperty: `${stem}_required`,
+    providedProperty: `${stem}_provided`,
+    tabConfig: { decret: { order, conditions: [] } },
+  });
+
+  it('lists added, removed, renamed and changed documents', () => {
+    const changelog = diffDocuments(
+      [entry('passeport', 'Passeport'), entry('timbre', 'Timbre'), entry('photos', 'Photos'), entry('acte', 'Acte')],
+      [entry('passeport', 'Passeport en cours de validité'), entry('timbre', 'Timbre', 2), entry('photos_identite', 'Photos', 1, 'photos'), entry('visa', 'Visa')]
+    );
+
+    assert.deepEqual(changelog, {
+      added: [{ id: 'visa', name: 'Visa' }],
+      removed: [{ id: 'acte', name: 'Acte' }],
+      renamed: [
+        { from: { id: 'passeport', name: 'Passeport' }, to: { id: 'passeport', name: 'Passeport en cours de validité' }, fields: [] },
+        { from: { id: 'photos', name: 'Photos' }, to: { id: 'photos_identite', name: 'Photos' }, fields: [] },
+      ],
+      changed: [{ id: 'timbre', name: 'Timbre', fields: ['tabConfig'] }],
+    });
+    assert.equal(formatChangelog(changelog, '2025-06-01'), [
+      '## 2025-06-01',
+      '',
+      '### Added (1)',
+      '',
+      '- `visa` Visa',
+      '',
+      '### Removed (1)',
+      '',
+      '- `acte` Acte',
+      '',
+      '### Renamed (2)',
+      '',
+      '- `passeport` "Passeport" → "Passeport en cours de validité"',
+      '- `photos` → `photos_identite` Photos',
+      '',
+      '### Changed (1)',
+      '',
+      '- `timbre` Timbre (tabConfig changed)',
+      '',
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,348 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  DOSSIER_STATES,
+  calculateDossierState,
+  calculateMissingDocuments,
+  calculateProgress,
+  checkCompletion,
+  checkDocumentConditions,
+  createDocuments,
+  getAllConditions,
+  getDocumentDateChanges,
+  getDocumentNoteChanges,
+  getDocumentPropertyChanges,
+  getDocumentReviewChanges,
+  getMissingDocuments,
+  getMissingDocumentsList,
+  getTabForNatureDemande,
+  getVisibleDocuments,
+  groupDocumentsByProperty,
+  resolveDocuments,
+  toBool,
+  type Document,
+  type DocumentConfig,
+} from '../src/app/core/documents';
+import { evaluateConditions } from '../src/app/core/conditions';
+
+const sousCategorie = (value: string) => ({ property: 'sous_categorie', operator: 'equals' as const, value });
+
+const CONFIGS: DocumentConfig[] = [
+  {
+    id: 'passeport',
+    name: 'Passeport',
+    requiredProperty: 'passeport_required',
+    providedProperty: 'passeport_provided',
+    tabConfig: {
+      decret: { order: 2, conditions: [sousCategorie('Naturalisation par décret')] },
+      naturalisation_mariage: { order: 1, conditions: [sousCategorie('Naturalisation par mariage')] },
+    },
+  },
+  {
+    id: 'bail',
+    name: 'Bail de location',
+    requiredProperty: 'bail_required',
+    providedProperty: 'bail_provided',
+    tabConfig: {
+      decret: {
+        order: 1,
+        conditions: [sousCategorie('Naturalisation par décret'), { property: 'domicile__', operator: 'in', value: 'Locataire' }],
+      },
+    },
+  },
+  {
+    id: 'libre',
+    name: 'Document libre',
+    requiredProperty: 'libre_required',
+    providedProperty: 'libre_provided',
+    tabConfig: {},
+  },
+];
+
+const DECRET = { sous_categorie: 'Naturalisation par décret' };
+
+const withFlags = (docs: Document[], flags: Record<string, Partial<Document>>): Document[] => {
+  return docs.map(doc => ({ ...doc, ...flags[doc.id] }));
+};
+
+describe('toBool', () => {
+  it('converts HubSpot checkbox values', () => {
+    assert.equal(toBool('true'), true);
+    assert.equal(toBool('Oui'), true);
+    assert.equal(toBool('false'), false);
+    assert.equal(toBool('--'), false);
+    assert.equal(toBool(null), false);
+    assert.equal(toBool(1), true);
+  });
+});
+
+describe('checkDocumentConditions', () => {
+  it('matches when any tab matches', () => {
+    const [passeport] = createDocuments(CONFIGS);
+    assert.equal(checkDocumentConditions(passeport, { sous_categorie: 'Naturalisation par mariage' }), true);
+    assert.equal(checkDocumentConditions(passeport, { sous_categorie: 'AES' }), false);
+    assert.equal(checkDocumentConditions(passeport, { sous_categorie: 'Naturalisation par mariage' }, 'decret'), false);
+  });
+
+  it('evaluates each tab on its own instead of merging the tabs\' conditions', () => {
+    // Required for every tenant by décret, for every mariage dossier
+    const [bail] = createDocuments([{
+      ...CONFIGS[1],
+      tabConfig: {
+        ...CONFIGS[1].tabConfig,
+        naturalisation_mariage: { order: 1, conditions: [sousCategorie('Naturalisation par mariage')] },
+      },
+    }]);
+    const mariage = { sous_categorie: 'Naturalisation par mariage', domicile__: 'Propriétaire' };
+
+    // Merged, the décret question was ANDed into the mariage tab
+    assert.equal(evaluateConditions(getAllConditions(bail), mariage), false);
+    assert.equal(checkDocumentConditions(bail, mariage), true);
+    assert.equal(checkDocumentConditions(bail, { sous_categorie: 'Naturalisation par décret', domicile__: 'Propriétaire' }), false);
+  });
+});
+
+describe('resolveDocuments', () => {
+  it('requires documents whose conditions are met', () => {
+    const docs = resolveDocuments(createDocuments(CONFIGS), { ...DECRET, domicile__: 'Locataire' });
+    assert.deepEqual(docs.map(doc => doc.required), [true, true, false]);
+  });
+
+  it('keeps the stored required flag only for provided documents whose conditions are not met', () => {
+    const docs = resolveDocuments(createDocuments(CONFIGS), {
+      ...DECRET,
+      bail_required: 'true',
+      bail_provided: 'true',
+      libre_required: 'true',
+    });
+    assert.deepEqual(docs.map(doc => [doc.required, doc.provided]), [[true, false], [true, true], [true, false]]);
+
+    const reset = resolveDocuments(createDocuments(CONFIGS), { ...DECRET, bail_required: 'true' });
+    assert.equal(reset[1].required, false);
+  });
+});
+
+describe('checkCompletion and calculateDossierState', () => {
+  const docs = createDocuments(CONFIGS);
+
+  it('is "À construire" without required documents', () => {
+    assert.equal(checkCompletion(docs), false);
+    assert.equal(calculateDossierState(docs), DOSSIER_STATES.TO_BUILD);
+  });
+
+  it('is "À construire" while nothing is provided', () => {
+    const state = withFlags(docs, { passeport: { required: true } });
+    assert.equal(calculateDossierState(state), DOSSIER_STATES.TO_BUILD);
+  });
+
+  it('is "En construction" once something is provided', () => {
+    const state = withFlags(docs, { passeport: { required: true, provided: true }, bail: { required: true } });
+    assert.equal(checkCompletion(state), false);
+    assert.equal(calculateDossierState(state), DOSSIER_STATES.INCOMPLETE);
+  });
+
+  it('is "Complet" when every required document is provided', () => {
+    const state = withFlags(docs, { passeport: { required: true, provided: true }, libre: { provided: true } });
+    assert.equal(checkCompletion(state), true);
+    assert.equal(calculateDossierState(state), DOSSIER_STATES.COMPLETE);
+  });
+});
+
+describe('expired documents', () => {
+  const NOW = { now: new Date('2025-06-15T00:00:00Z') };
+  const configs: DocumentConfig[] = [
+    ...CONFIGS.slice(0, 1),
+    {
+      id: 'domicile',
+      name: 'Justificatif de domicile',
+      requiredProperty: 'domicile_required',
+      providedProperty: 'domicile_provided',
+      tabConfig: {},
+      validity: { maxAgeMonths: 6 },
+      dateProperty: 'domicile_date',
+    },
+  ];
+  const resolve = (date: string) => resolveDocuments(createDocuments(configs), {
+    ...DECRET,
+    passeport_provided: 'true',
+    domicile_required: 'true',
+    domicile_provided: 'true',
+    domicile_date: date,
+  });
+
+  it('reads the stored date', () => {
+    assert.equal(resolve('2025-01-02').find(doc => doc.id === 'domicile')?.date, '2025-01-02');
+  });
+
+  it('count as missing', () => {
+    const docs = resolve('2024-11-01');
+    assert.equal(checkCompletion(docs, NOW), false);
+    assert.equal(calculateDossierState(docs, NOW), DOSSIER_STATES.INCOMPLETE);
+    assert.deepEqual(getMissingDocumentsList(docs, DECRET, NOW), ['Justificatif de domicile']);
+    assert.deepEqual(calculateProgress(docs, DECRET, NOW), { provided: 1, required: 2, percentage: 50 });
+  });
+
+  it('are complete while valid', () => {
+    const docs = resolve('2025-01-02');
+    assert.equal(checkCompletion(docs, NOW), true);
+    assert.equal(calculateDossierState(docs, NOW), DOSSIER_STATES.COMPLETE);
+  });
+
+  it('saves only the changed dates', () => {
+    const loaded = resolve('2025-01-02');
+    const edited = loaded.map(doc => doc.id === 'domicile' ? { ...doc, date: null } : doc);
+    assert.deepEqual(getDocumentDateChanges(loaded, loaded), {});
+    assert.deepEqual(getDocumentDateChanges(edited, loaded), { domicile_date: '' });
+  });
+});
+
+describe('review statuses', () => {
+  const review = (reviews: Record<string, unknown>) => resolveDocuments(createDocuments(CONFIGS), {
+    ...DECRET,
+    passeport_provided: 'true',
+    documents_review: JSON.stringify(reviews),
+  });
+
+  it('count only validated documents as complete', () => {
+    const received = review({ passeport: { status: 'received' } });
+    assert.equal(checkCompletion(received), false);
+    assert.equal(calculateDossierState(received), DOSSIER_STATES.INCOMPLETE);
+    assert.deepEqual(getMissingDocumentsList(received, DECRET), ['Passeport']);
+
+    const validated = review({ passeport: { status: 'validated' } });
+    assert.equal(calculateDossierState(validated), DOSSIER_STATES.COMPLETE);
+  });
+
+  it('list rejected documents with their reason', () => {
+    const docs = review({ passeport: { status: 'rejected', reason: 'Copie illisible <floue>' } });
+    assert.deepEqual(getMissingDocumentsList(docs, DECRET), ['Passeport (refusé : Copie illisible <floue>)']);
+    assert.equal(calculateMissingDocuments(docs, DECRET), '<ul><li>Passeport (refusé : Copie illisible &lt;floue&gt;)</li></ul>');
+  });
+
+  it('save only the changed statuses', () => {
+    const loaded = review({ passeport: { status: 'received' } });
+    const edited = loaded.map(doc => doc.id === 'passeport' ? { ...doc, status: 'rejected' as const, rejectionReason: 'Expiré' } : doc);
+    assert.deepEqual(getDocumentReviewChanges(loaded, loaded), {});
+    assert.deepEqual(getDocumentReviewChanges(edited, loaded), { passeport: { status: 'rejected', reason: 'Expiré' } });
+  });
+});
+
+describe('calculateMissingDocuments', () => {
+  it('lists required documents not provided as HTML', () => {
+    const docs = withFlags(createDocuments(CONFIGS), { libre: { required: true } });
+    assert.equal(calculateMissingDocuments(docs, DECRET), '<ul><li>Passeport</li><li>Document libre</li></ul>');
+    assert.equal(calculateMissingDocuments(createDocuments(CONFIGS), { sous_categorie: 'AES' }), '');
+  });
+
+  it('adds the instructions under each document', () => {
+    const docs = withFlags(createDocuments(CONFIGS), { passeport: { instructions: 'Toutes les pages <visas compris>' } });
+    assert.deepEqual(getMissingDocuments(docs, DECRET), [
+      { id: 'passeport', label: 'Passeport', instructions: 'Toutes les pages <visas compris>' },
+    ]);
+    assert.equal(
+      calculateMissingDocuments(docs, DECRET),
+      '<ul><li>Passeport<br><em>Toutes les pages &lt;visas compris&gt;</em></li></ul>'
+    );
+  });
+});
+
+describe('notes', () => {
+  it('are read from the dossier and saved when changed', () => {
+    const loaded = resolveDocuments(createDocuments(CONFIGS), {
+      ...DECRET,
+      documents_notes: JSON.stringify({ passeport: 'Passeport renouvelé en mars' }),
+    });
+    assert.equal(loaded.find(doc => doc.id === 'passeport')?.note, 'Passeport renouvelé en mars');
+
+    const edited = withFlags(loaded, { passeport: { note: null }, bail: { note: 'Bail au nom du conjoint' } });
+    assert.deepEqual(getDocumentNoteChanges(loaded, loaded), {});
+    assert.deepEqual(getDocumentNoteChanges(edited, loaded), { passeport: '', bail: 'Bail au nom du conjoint' });
+  });
+});
+
+describe('getTabForNatureDemande', () => {
+  const tabs = [
+    { id: 'decret', sousCategories: ['Naturalisation par décret'] },
+    { id: 'naturalisation_mariage', sousCategories: ['Naturalisation par mariage'] },
+    { id: 'renouvellement', sousCategories: ['Renouvellement de titre de séjour'] },
+    { id: 'autre' },
+  ];
+
+  it('finds the tab mapping the sous_categorie', () => {
+    assert.equal(getTabForNatureDemande(' Naturalisation  par mariage ', tabs), 'naturalisation_mariage');
+    assert.equal(getTabForNatureDemande('Naturalisation par décret', tabs), 'decret');
+    assert.equal(getTabForNatureDemande('Renouvellement de titre de séjour', tabs), 'renouvellement');
+  });
+
+  it('returns null for procedures no tab maps', () => {
+    assert.equal(getTabForNatureDemande('Inconnue', tabs), null);
+    assert.equal(getTabForNatureDemande('', tabs), null);
+  });
+});
+
+describe('getVisibleDocuments', () => {
+  const docs = resolveDocuments(createDocuments(CONFIGS), DECRET);
+
+  it('shows matching documents of the active tab in order', () => {
+    const visible = getVisibleDocuments({ documents: docs, properties: DECRET, selectedTab: 'decret', activeTabId: 'decret' });
+    assert.deepEqual(visible.map(doc => doc.id), ['passeport']);
+
+    const locataire = { ...DECRET, domicile__: 'Locataire' };
+    const all = getVisibleDocuments({ documents: docs, properties: locataire, selectedTab: 'decret', activeTabId: 'decret' });
+    assert.deepEqual(all.map(doc => doc.id), ['bail', 'passeport']);
+  });
+
+  it('shows unmatched and marked documents in "autre"', () => {
+    const marked = withFlags(docs, { libre: { provided: true } });
+    const visible = getVisibleDocuments({ documents: marked, properties: DECRET, selectedTab: 'autre', activeTabId: 'decret' });
+    assert.deepEqual(visible.map(doc => doc.id).sort(), ['bail', 'libre']);
+  });
+
+  it('filters by search term', () => {
+    const visible = getVisibleDocuments({ documents: docs, properties: DECRET, selectedTab: 'autre', activeTabId: 'decret', searchTerm: 'BAIL' });
+    assert.deepEqual(visible.map(doc => doc.id), ['bail']);
+  });
+});
+
+describe('calculateProgress', () => {
+  it('counts provided documents among the required ones', () => {
+    const docs = withFlags(resolveDocuments(createDocuments(CONFIGS), DECRET), { passeport: { provided: true }, libre: { required: true } });
+    assert.deepEqual(calculateProgress(docs, DECRET), { provided: 1, required: 2, percentage: 50 });
+    assert.deepEqual(calculateProgress([], DECRET), { provided: 0, required: 0, percentage: 100 });
+  });
+});
+
+describe('getDocumentPropertyChanges', () => {
+  const configs: DocumentConfig[] = [
+    { id: 'passeport', name: 'Passeport', requiredProperty: 'passeport_required', providedProperty: 'passeport_provided', tabConfig: {} },
+    { id: 'passeport_2', name: 'Passeport', requiredProperty: 'passeport_required', providedProperty: 'passeport_provided', tabConfig: {} },
+    { id: 'bail', name: 'Bail', requiredProperty: 'bail_required', providedProperty: 'bail_provided', tabConfig: {} },
+  ];
+  const groups = groupDocumentsByProperty(configs);
+  const initial = createDocuments(configs);
+  const update = (changes: Record<string, Partial<Document>>) => initial.map(doc => ({ ...doc, ...changes[doc.id] }));
+
+  it('groups the documents sharing a property', () => {
+    assert.deepEqual(groups.passeport_provided, ['passeport', 'passeport_2']);
+    assert.deepEqual(groups.bail_required, ['bail']);
+  });
+
+  it('returns only the properties that differ from the stored values', () => {
+    const changes = getDocumentPropertyChanges(update({ bail: { provided: true } }), initial, { bail_required: 'false' }, groups);
+    assert.deepEqual(changes, { bail_provided: true });
+  });
+
+  it('takes a shared property from the document the user changed', () => {
+    const stored = { passeport_provided: 'true' };
+    const loaded = update({ passeport: { provided: true }, passeport_2: { provided: true } });
+    const edited = loaded.map(doc => doc.id === 'passeport_2' ? { ...doc, provided: false } : doc);
+
+    assert.deepEqual(getDocumentPropertyChanges(edited, loaded, stored, groups), { passeport_provided: false });
+  });
+
+  it('stores required flags resolved from the conditions', () => {
+    const loaded = update({ passeport: { required: true } });
+    assert.deepEqual(getDocumentPropertyChanges(loaded, loaded, {}, groups), { passeport_required: true });
+  });
+});
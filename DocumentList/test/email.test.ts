@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  appendEmailLog,
+  formatMissingDocuments,
+  isEmailAddress,
+  parseEmailLog,
+  renderMissingDocumentsEmail,
+  renderTemplate,
+  validateEmailTemplate,
+  type EmailLogEntry,
+} from '../src/app/core/email';
+
+const TEMPLATE = {
+  subject: '{{missing_count}} documents manquants',
+  body: '{{salutation}},\n\n{{missing_documents}}\n\nBien cordialement',
+};
+
+const DOCUMENTS = [
+  { id: 'passeport', label: 'Passeport' },
+  { id: 'photos', label: "Photos d'identité", instructions: 'Photos de moins de 6 mois' },
+];
+
+const entry = (subject: string): EmailLogEntry => ({
+  to: 'client@example.com',
+  subject,
+  documents: ['passeport'],
+  transport: 'console',
+  messageId: '<1@cabinet.example>',
+  user: null,
+  timestamp: '2025-06-15T10:00:00.000Z',
+  source: 'card',
+});
+
+describe('formatMissingDocuments', () => {
+  it('numbers the documents and indents their instructions', () => {
+    assert.equal(formatMissingDocuments(DOCUMENTS), "1. Passeport\n2. Photos d'identité\n   Photos de moins de 6 mois");
+  });
+});
+
+describe('renderTemplate', () => {
+  it('keeps unknown placeholders', () => {
+    assert.equal(renderTemplate('{{ client_name }} {{dossier}}', { client_name: 'Marie Dupont' }), 'Marie Dupont {{dossier}}');
+  });
+});
+
+describe('renderMissingDocumentsEmail', () => {
+  it('greets the client by name', () => {
+    const email = renderMissingDocumentsEmail(TEMPLATE, { clientName: 'Marie Dupont', documents: DOCUMENTS });
+    assert.equal(email.subject, '2 documents manquants');
+    assert.equal(email.body, "Bonjour Marie Dupont,\n\n1. Passeport\n2. Photos d'identité\n   Photos de moins de 6 mois\n\nBien cordialement");
+  });
+
+  it('falls back to a formal greeting without a name', () => {
+    const email = renderMissingDocumentsEmail(TEMPLATE, { clientName: ' ', documents: DOCUMENTS.slice(0, 1) });
+    assert.match(email.body, /^Madame, Monsieur,/);
+  });
+});
+
+describe('validateEmailTemplate', () => {
+  it('accepts the known placeholders', () => {
+    assert.deepEqual(validateEmailTemplate(TEMPLATE), []);
+  });
+
+  it('rejects unknown placeholders and templates without the document list', () => {
+    assert.deepEqual(validateEmailTemplate({ subject: 'Dossier {{numero}}', body: 'Bonjour' }), [
+      '"subject" uses unknown placeholder {{numero}}',
+      '"body" must list the documents with {{missing_documents}}',
+    ]);
+    assert.deepEqual(validateEmailTemplate({ subject: '' }), [
+      '"subject" must be a non-empty string',
+      '"body" must be a non-empty string',
+    ]);
+  });
+});
+
+describe('isEmailAddress', () => {
+  it('accepts a single address', () => {
+    assert.equal(isEmailAddress(' marie.dupont@example.com '), true);
+    assert.equal(isEmailAddress('marie.dupont'), false);
+    assert.equal(isEmailAddress('a@example.com, b@example.com'), false);
+    assert.equal(isEmailAddress('a@example.com\r\nBcc: b@example.com'), false);
+  });
+});
+
+describe('appendEmailLog', () => {
+  it('appends to the stored log', () => {
+    const log = parseEmailLog(appendEmailLog(appendEmailLog('pas du json', entry('Premier')), entry('Relance')));
+    assert.deepEqual(log.map(sent => sent.subject), ['Premier', 'Relance']);
+  });
+
+  it('drops the oldest entries beyond the maximum length', () => {
+    const stored = appendEmailLog(undefined, entry('Premier'));
+    const log = parseEmailLog(appendEmailLog(stored, entry('Relance'), stored.length + 10));
+    assert.deepEqual(log.map(sent => sent.subject), ['Relance']);
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  ERROR_CODES,
+  ERROR_PRESENTATION,
+  errorCodeForStatus,
+  isConfigurationError,
+} from '../src/app/core/errors';
+
+describe('errorCodeForStatus', () => {
+  it('maps HubSpot statuses to error codes', () => {
+    assert.equal(errorCodeForStatus(401), ERROR_CODES.INVALID_TOKEN);
+    assert.equal(errorCodeForStatus(403), ERROR_CODES.INVALID_TOKEN);
+    assert.equal(errorCodeForStatus(404), ERROR_CODES.OBJECT_NOT_FOUND);
+    assert.equal(errorCodeForStatus(429), ERROR_CODES.RATE_LIMITED);
+    assert.equal(errorCodeForStatus(502), ERROR_CODES.UPSTREAM_ERROR);
+    assert.equal(errorCodeForStatus(undefined), ERROR_CODES.UPSTREAM_ERROR);
+  });
+});
+
+describe('ERROR_PRESENTATION', () => {
+  it('has a message and recovery action for every code', () => {
+    Object.values(ERROR_CODES).forEach(code => {
+      assert.ok(ERROR_PRESENTATION[code].title, code);
+      assert.ok(ERROR_PRESENTATION[code].message, code);
+    });
+  });
+
+  it('asks for configuration only for configuration errors, missing properties and the mail transport', () => {
+    const configure = Object.values(ERROR_CODES).filter(code => ERROR_PRESENTATION[code].action === 'configure');
+    assert.deepEqual(configure, [ERROR_CODES.MISSING_TOKEN, ERROR_CODES.INVALID_TOKEN, ERROR_CODES.PROPERTY_MISSING, ERROR_CODES.MAIL_NOT_CONFIGURED]);
+    assert.deepEqual(configure.filter(isConfigurationError), [ERROR_CODES.MISSING_TOKEN, ERROR_CODES.INVALID_TOKEN]);
+  });
+});
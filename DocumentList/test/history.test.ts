@@ -0,0 +1,94 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { type DocumentConfig } from '../src/app/core/documents';
+import {
+  HISTORY_PROPERTY,
+  appendHistory,
+  getDocumentChanges,
+  groupHistoryByDocument,
+  parseHistory,
+  withHistory,
+  type HistoryEntry,
+} from '../src/app/core/history';
+
+const CONFIGS: DocumentConfig[] = [
+  { id: 'passeport', name: 'Passeport', requiredProperty: 'passeport_required', providedProperty: 'passeport_provided', tabConfig: {} },
+  { id: 'passeport_conjoint', name: 'Passeport du conjoint', requiredProperty: 'passeport_required', providedProperty: 'passeport_conjoint_provided', tabConfig: {} },
+  { id: 'bail', name: 'Bail de location', requiredProperty: 'bail_required', providedProperty: 'bail_provided', tabConfig: {} },
+];
+
+const AUTHOR = { source: 'card' as const, user: 'juriste@example.com', timestamp: '2026-03-02T10:00:00.000Z' };
+
+const entry = (documentId: string, timestamp: string): HistoryEntry => ({
+  documentId,
+  field: 'provided',
+  property: `${documentId}_provided`,
+  oldValue: false,
+  newValue: true,
+  user: null,
+  timestamp,
+  source: 'webhook',
+});
+
+describe('getDocumentChanges', () => {
+  it('records the flags whose value changes', () => {
+    const changes = getDocumentChanges(
+      CONFIGS,
+      { bail_provided: 'true', passeport_provided: null },
+      { bail_provided: 'true', passeport_provided: 'true', send_mail: 'true' },
+      AUTHOR
+    );
+
+    assert.deepEqual(changes, [{
+      documentId: 'passeport',
+      field: 'provided',
+      property: 'passeport_provided',
+      oldValue: false,
+      newValue: true,
+      user: 'juriste@example.com',
+      timestamp: '2026-03-02T10:00:00.000Z',
+      source: 'card',
+    }]);
+  });
+
+  it('records a shared property for each of its documents', () => {
+    const changes = getDocumentChanges(CONFIGS, {}, { passeport_required: 'true' }, AUTHOR);
+    assert.deepEqual(changes.map(change => change.documentId), ['passeport', 'passeport_conjoint']);
+  });
+});
+
+describe('parseHistory', () => {
+  it('ignores unreadable values and malformed entries', () => {
+    assert.deepEqual(parseHistory(null), []);
+    assert.deepEqual(parseHistory('not json'), []);
+    assert.deepEqual(parseHistory('{"documentId":"bail"}'), []);
+    assert.deepEqual(parseHistory(JSON.stringify([entry('bail', '2026-01-01'), { documentId: 3 }])), [entry('bail', '2026-01-01')]);
+  });
+});
+
+describe('appendHistory', () => {
+  it('drops the oldest entries beyond the maximum length', () => {
+    const first = appendHistory('', [entry('bail', '2026-01-01'), entry('passeport', '2026-01-02')]);
+    const appended = appendHistory(first, [entry('bail', '2026-01-03')], first.length);
+
+    assert.deepEqual(parseHistory(appended).map(item => item.timestamp), ['2026-01-02', '2026-01-03']);
+  });
+});
+
+describe('withHistory', () => {
+  it('adds the history only when a document flag changes', () => {
+    assert.deepEqual(withHistory(CONFIGS, { send_mail: 'true' }, {}, AUTHOR), { send_mail: 'true' });
+
+    const properties = withHistory(CONFIGS, { bail_provided: 'true' }, { [HISTORY_PROPERTY]: JSON.stringify([entry('passeport', '2026-01-01')]) }, AUTHOR);
+    assert.deepEqual(parseHistory(properties[HISTORY_PROPERTY]).map(item => item.documentId), ['passeport', 'bail']);
+  });
+});
+
+describe('groupHistoryByDocument', () => {
+  it('groups entries by document, most recent first', () => {
+    const grouped = groupHistoryByDocument([entry('bail', '2026-01-01'), entry('passeport', '2026-01-02'), entry('bail', '2026-01-03')]);
+    assert.deepEqual(grouped.bail.map(item => item.timestamp), ['2026-01-03', '2026-01-01']);
+    assert.equal(grouped.passeport.length, 1);
+  });
+});
@@ -0,0 +1,158 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { type AddressInfo } from 'net';
+import { SMTPServer, type SMTPServerOptions } from 'smtp-server';
+
+import {
+  MailError,
+  createSmtpTransport,
+  formatMessage,
+  resolveMailSettings,
+  type SmtpOptions,
+} from '../src/app/functions/mail';
+
+const MESSAGE = {
+  from: 'Cabinet <contact@cabinet.example>',
+  to: 'marie.dupont@example.com',
+  subject: 'Documents à transmettre',
+  text: 'Bonjour,\n.\nMerci',
+};
+
+/**
+ * Local SMTP server, with its self-signed certificate for STARTTLS, recording
+ * the logins and the messages it receives. Recipients listed in `refuse` get
+ * a 550 reply.
+ */
+const smtpServer = (options: SMTPServerOptions = {}) => {
+  const logins: Array<{ username?: string; password?: string; secure: boolean }> = [];
+  const messages: string[] = [];
+  const refuse: string[] = [];
+
+  const server = new SMTPServer({
+    logger: false,
+    ...options,
+    onAuth(auth, session, callback) {
+      logins.push({ username: auth.username, password: auth.password, secure: session.secure });
+      callback(null, { user: auth.username });
+    },
+    onRcptTo(address, session, callback) {
+      callback(refuse.includes(address.address) ? Object.assign(new Error('Refused'), { responseCode: 550 }) : null);
+    },
+    onData(stream, session, callback) {
+      let data = '';
+      stream.on('data', chunk => { data += chunk.toString('utf8'); });
+      stream.on('end', () => {
+        messages.push(data);
+        callback();
+      });
+    },
+  });
+
+  let port = 0;
+  const reset = () => {
+    logins.length = 0;
+    messages.length = 0;
+    refuse.length = 0;
+  };
+  const listen = () => new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => {
+    port = (server.server.address() as AddressInfo).port;
+    resolve();
+  }));
+  const close = () => new Promise<void>(resolve => server.close(() => resolve()));
+  const transport = (overrides: Partial<SmtpOptions> = {}) => createSmtpTransport({
+    host: '127.0.0.1',
+    port,
+    secure: false,
+    user: 'cabinet',
+    password: 'secret',
+    clientName: 'test',
+    timeoutMs: 2000,
+    rejectUnauthorized: false,
+    ...overrides,
+  });
+
+  return { logins, messages, refuse, reset, listen, close, transport };
+};
+
+describe('formatMessage', () => {
+  it('encodes the subject and keeps the text', async () => {
+    const message = (await formatMessage(MESSAGE, '<1@cabinet.example>')).toString('utf8');
+
+    assert.match(message, /^Message-ID: <1@cabinet\.example>\r$/m);
+    assert.match(message, /^Subject: .*=\?UTF-8\?[BQ]\?/m);
+    assert.match(message, /^Content-Type: text\/plain; charset=utf-8\r$/m);
+    assert.match(message, /\r\n\r\nBonjour,\r?\n\.\r?\nMerci/);
+  });
+
+  it('never lets a value add headers', async () => {
+    const message = (await formatMessage({ ...MESSAGE, to: 'a@example.com\r\nBcc: b@example.com' }, '<1@x>')).toString('utf8');
+    assert.doesNotMatch(message, /^Bcc:/m);
+  });
+});
+
+describe('createSmtpTransport', () => {
+  const smtp = smtpServer();
+
+  before(() => smtp.listen());
+  after(() => smtp.close());
+  beforeEach(() => smtp.reset());
+
+  it('authenticates after STARTTLS and sends the message', async () => {
+    const { messageId } = await smtp.transport().send(MESSAGE);
+
+    assert.match(messageId, /^<[0-9a-f-]+@cabinet\.example>$/);
+    assert.deepEqual(smtp.logins, [{ username: 'cabinet', password: 'secret', secure: true }]);
+    assert.equal(smtp.messages.length, 1);
+    assert.match(smtp.messages[0], new RegExp(`^Message-ID: ${messageId}\r$`, 'm'));
+  });
+
+  it('reports a refused recipient without the credentials', async () => {
+    smtp.refuse.push(MESSAGE.to);
+    await assert.rejects(smtp.transport().send(MESSAGE), (err: MailError) => {
+      assert.equal(err.errorCode, 'MAIL_FAILED');
+      assert.match(err.message, /550/);
+      assert.doesNotMatch(err.message, /secret/);
+      return true;
+    });
+    assert.equal(smtp.messages.length, 0);
+  });
+
+  it('reports an unreachable server', async () => {
+    const unreachable = createSmtpTransport({ host: '127.0.0.1', port: 1, secure: false, timeoutMs: 2000 });
+    await assert.rejects(unreachable.send(MESSAGE), { name: 'MailError', errorCode: 'MAIL_FAILED' });
+  });
+});
+
+describe('createSmtpTransport without STARTTLS', () => {
+  // The server would accept the credentials in clear text
+  const smtp = smtpServer({ disabledCommands: ['STARTTLS'], allowInsecureAuth: true, authOptional: true });
+
+  before(() => smtp.listen());
+  after(() => smtp.close());
+  beforeEach(() => smtp.reset());
+
+  it('refuses to send the credentials', async () => {
+    await assert.rejects(smtp.transport().send(MESSAGE), { name: 'MailError', errorCode: 'MAIL_FAILED' });
+    assert.deepEqual(smtp.logins, []);
+    assert.deepEqual(smtp.messages, []);
+  });
+
+  it('still sends without credentials', async () => {
+    await smtp.transport({ user: undefined, password: undefined }).send(MESSAGE);
+    assert.equal(smtp.messages.length, 1);
+  });
+});
+
+describe('resolveMailSettings', () => {
+  it('uses SMTP by default', () => {
+    const settings = resolveMailSettings({ mail_from: 'contact@cabinet.example', smtp_host: 'smtp.cabinet.example' });
+    assert.equal(settings.transport.name, 'smtp');
+    assert.equal(resolveMailSettings({ mail_from: 'contact@cabinet.example', mail_transport: 'console' }).transport.name, 'console');
+  });
+
+  it('requires a sender and a complete transport', () => {
+    assert.throws(() => resolveMailSettings({ smtp_host: 'smtp.cabinet.example' }), { errorCode: 'MAIL_NOT_CONFIGURED' });
+    assert.throws(() => resolveMailSettings({ mail_from: 'contact@cabinet.example' }), /smtp_host is not set/);
+    assert.throws(() => resolveMailSettings({ mail_from: 'contact@cabinet.example', mail_transport: 'pigeon' }), /Unknown mail_transport/);
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Golden tests against the real documents.json for "Naturalisation par mariage".
+ * The nine base documents are the ones listed in rebuild_summary.txt.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import documentsConfig from '../src/app/extensions/documents.json';
+import tabsConfig from '../src/app/extensions/tabs.json';
+import {
+  DOSSIER_STATES,
+  calculateDossierState,
+  createDocuments,
+  getMissingDocumentsList,
+  getTabForNatureDemande,
+  getVisibleDocuments,
+  resolveDocuments,
+} from '../src/app/core/documents';
+import { expandDocumentConfigs, type DocumentEntry } from '../src/app/core/repeat';
+
+const CONFIGS = expandDocumentConfigs(documentsConfig as DocumentEntry[]);
+const TAB_ID = 'naturalisation_mariage';
+const PROPERTIES = { sous_categorie: 'Naturalisation par mariage' };
+
+const BASE_DOCUMENTS = [
+  'Formulaire de demande Cerfa n°15277*04 (2 exemplaires, signés par les deux époux)',
+  'Timbre fiscal de 55 €',
+  "Photos d'identité (2 pour le demandeur, 2 pour le conjoint)",
+  'Copie recto-verso du titre de séjour en cours de validité.',
+  'Document justifiant de la date et du lieu de naissance de votre père et votre mère et de leur mariage s’ils sont mariés',
+  "Copie intégrale de l'acte de mariage (et sa traduction par traducteur assermenté ou le consulat s'il s'agit d'un acte étranger) de moins de 3 mois",
+  "Original et copie d'un diplôme (>= Brevet) ou test de français niveau B1(TCF ou DELF) ou dispense de moins de 2 ans",
+  "Justificatif d'identité du conjoint attestant la (ou les) nationalité(s) d'origine",
+  "Copie intégrale originale de l'acte de naissance du conjoint (ou Documents état civil des parents du conjoint)",
+];
+
+describe('Naturalisation par mariage', () => {
+  const documents = resolveDocuments(createDocuments(CONFIGS), PROPERTIES);
+
+  it('selects the naturalisation_mariage tab', () => {
+    assert.equal(getTabForNatureDemande(PROPERTIES.sous_categorie, tabsConfig), TAB_ID);
+  });
+
+  it('declares 27 documents in the tab', () => {
+    assert.equal(CONFIGS.filter(config => TAB_ID in config.tabConfig).length, 27);
+  });
+
+  it('shows exactly the nine base documents, in order, when no question is answered', () => {
+    const visible = getVisibleDocuments({ documents, properties: PROPERTIES, selectedTab: TAB_ID, activeTabId: TAB_ID });
+    assert.deepEqual(visible.map(doc => doc.name), BASE_DOCUMENTS);
+  });
+
+  it('requires and lists as missing exactly the nine base documents', () => {
+    const required = documents.filter(doc => doc.required).map(doc => doc.name);
+    assert.deepEqual([...required].sort(), [...BASE_DOCUMENTS].sort());
+    assert.deepEqual([...getMissingDocumentsList(documents, PROPERTIES)].sort(), [...BASE_DOCUMENTS].sort());
+    assert.equal(calculateDossierState(documents), DOSSIER_STATES.TO_BUILD);
+  });
+
+  it('adds documents when questions are answered', () => {
+    const properties = { ...PROPERTIES, domicile__: 'Locataire', avez_vous_un_statut_refugie_ou_apatride__: 'true' };
+    const answered = resolveDocuments(createDocuments(CONFIGS), properties);
+    const visible = getVisibleDocuments({ documents: answered, properties, selectedTab: TAB_ID, activeTabId: TAB_ID });
+
+    assert.ok(visible.length > BASE_DOCUMENTS.length);
+    BASE_DOCUMENTS.forEach(name => assert.ok(visible.some(doc => doc.name === name), name));
+  });
+
+  it('is complete once the nine base documents are provided', () => {
+    const provided = documents.map(doc => ({ ...doc, provided: doc.required }));
+    assert.equal(calculateDossierState(provided), DOSSIER_STATES.COMPLETE);
+  });
+});
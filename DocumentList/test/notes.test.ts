@@ -0,0 +1,35 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { MAX_NOTE_LENGTH, mergeNotes, parseNotes } from '../src/app/core/notes';
+
+describe('parseNotes', () => {
+  it('ignores unreadable values and empty notes', () => {
+    assert.deepEqual(parseNotes('pas du json'), {});
+    assert.deepEqual(parseNotes('["note"]'), {});
+    assert.deepEqual(
+      parseNotes(JSON.stringify({ photos: '2 photos pour le conjoint', bail: ' ', passeport: 3 })),
+      { photos: '2 photos pour le conjoint' }
+    );
+  });
+});
+
+describe('mergeNotes', () => {
+  const stored = JSON.stringify({ photos: '2 photos pour le conjoint' });
+
+  it('replaces only the changed documents', () => {
+    assert.deepEqual(parseNotes(mergeNotes(stored, { bail: ' Bail au nom du conjoint ' })), {
+      photos: '2 photos pour le conjoint',
+      bail: 'Bail au nom du conjoint',
+    });
+  });
+
+  it('removes emptied notes', () => {
+    assert.deepEqual(parseNotes(mergeNotes(stored, { photos: '' })), {});
+  });
+
+  it('caps the length of a note', () => {
+    const merged = parseNotes(mergeNotes(null, { photos: 'x'.repeat(MAX_NOTE_LENGTH + 10) }));
+    assert.equal(merged.photos.length, MAX_NOTE_LENGTH);
+  });
+});
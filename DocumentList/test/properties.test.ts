@@ -0,0 +1,86 @@
+/**
+ * Property lists derived from documents.json and the generated core module.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+
+import documentsConfig from '../src/app/extensions/documents.json';
+import { type DocumentEntry } from '../src/app/core/repeat';
+import { deriveProperties, GENERATED_MODULE_PATH, renderPropertiesModule } from '../tools/properties';
+
+const sousCategorie = (value: string) => ({ property: 'sous_categorie', operator: 'equals' as const, value });
+
+const ENTRIES: DocumentEntry[] = [
+  {
+    id: 'bail',
+    name: 'Bail de location',
+    requiredProperty: 'bail_required',
+    providedProperty: 'bail_provided',
+    tabConfig: {
+      decret: {
+        order: 1,
+        conditions: [
+          sousCategorie('Naturalisation par décret'),
+          { any: [{ property: 'domicile__', operator: 'equals', value: 'Locataire' }, { not: { property: 'percevez_vous_', operator: 'is_known' } }] },
+        ],
+      },
+    },
+  },
+  {
+    id: 'justificatif_de_domicile',
+    name: 'Justificatif de domicile',
+    requiredProperty: 'justificatif_de_domicile_required',
+    providedProperty: 'justificatif_de_domicile_provided',
+    dateProperty: 'justificatif_de_domicile_date',
+    validity: { maxAgeMonths: 6 },
+    tabConfig: {
+      decret: { order: 2, conditions: [sousCategorie('Naturalisation par décret'), { property: 'domicile__', operator: 'is_known' }] },
+    },
+  },
+  {
+    id: 'enfant_{{n}}_acte_de_naissance',
+    name: 'Acte de naissance',
+    repeat: { property: 'nombre_d_enfants', count: 2, label: 'Enfant n°{{n}}' },
+    tabConfig: { decret: { order: 3, conditions: [{ property: 'nombre_d_enfants', operator: 'gte', value: '{{n}}' }] } },
+  },
+];
+
+describe('deriveProperties', () => {
+  const derived = deriveProperties(ENTRIES);
+
+  it('lists the condition properties, nested groups included, once and sous_categorie first', () => {
+    assert.deepEqual(derived.conditionalProperties, ['sous_categorie', 'domicile__', 'percevez_vous_', 'nombre_d_enfants']);
+  });
+
+  it('lists the document and date properties of every repeated instance', () => {
+    assert.deepEqual(derived.documentProperties, [
+      'bail_required',
+      'bail_provided',
+      'justificatif_de_domicile_required',
+      'justificatif_de_domicile_provided',
+      'enfant_1_acte_de_naissance_required',
+      'enfant_1_acte_de_naissance_provided',
+      'enfant_2_acte_de_naissance_required',
+      'enfant_2_acte_de_naissance_provided',
+    ]);
+    assert.deepEqual(derived.dateProperties, ['justificatif_de_domicile_date']);
+  });
+});
+
+describe('renderPropertiesModule', () => {
+  it('renders each list as an exported constant', () => {
+    const module = renderPropertiesModule({ conditionalProperties: ['sous_categorie'], documentProperties: ['bail_required'], dateProperties: [] });
+
+    assert.match(module, /export const CONDITIONAL_PROPERTIES: readonly string\[\] = \[\n {2}"sous_categorie",\n\];/);
+    assert.match(module, /export const DOCUMENT_PROPERTIES: readonly string\[\] = \[\n {2}"bail_required",\n\];/);
+    assert.match(module, /export const DATE_PROPERTIES: readonly string\[\] = \[\n\n\];/);
+  });
+
+  it('matches the generated module for documents.json', () => {
+    const generated = readFileSync(join(__dirname, '..', GENERATED_MODULE_PATH), 'utf8');
+    assert.equal(generated, renderPropertiesModule(deriveProperties(documentsConfig as DocumentEntry[])));
+  });
+});
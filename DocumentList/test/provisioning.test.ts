@@ -0,0 +1,258 @@
+/**
+ * Property provisioning against the CRM stand-in.
+ */
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { type DocumentConfig } from '../src/app/core/documents';
+import { type DossierStateMachine } from '../src/app/core/states';
+import { HISTORY_PROPERTY } from '../src/app/core/history';
+import { LAST_REMINDER_PROPERTY } from '../src/app/core/reminders';
+import { createClient, createProperties, createPropertyGroup } from '../src/app/functions/hubspot';
+import {
+  getExpectedProperties,
+  PROPERTY_GROUP,
+  provisionProperties,
+} from '../src/app/functions/provisioning';
+import { DOCUMENTS_CONFIG } from '../src/app/functions/recompute';
+import { CrmStandIn } from '../tools/crmStandIn';
+
+const OBJECT_TYPE = 'p_dossier_juridique';
+
+const ENV: Record<string, string> = {
+  dossier_j_NAME: OBJECT_TYPE,
+  dossier_j_ID: '2-141688426',
+  HUBSPOT_RETRY_BASE_MS: '1',
+  HUBSPOT_RETRY_MAX_MS: '5',
+};
+
+const CONFIGS: DocumentConfig[] = [
+  {
+    id: 'passeport',
+    name: 'Passeport',
+    requiredProperty: 'passeport_required',
+    providedProperty: 'passeport_provided',
+    tabConfig: { decret: { order: 1, conditions: [] } },
+  },
+  {
+    id: 'justificatif_de_domicile',
+    name: 'Justificatif de domicile',
+    requiredProperty: 'justificatif_de_domicile_required',
+    providedProperty: 'justificatif_de_domicile_provided',
+    dateProperty: 'justificatif_de_domicile_date',
+    validity: { maxAgeMonths: 3 },
+    tabConfig: { decret: { order: 2, conditions: [] } },
+  },
+];
+
+const MACHINE: DossierStateMachine = {
+  states: [
+    { value: 'En construction', type: 'automatic' },
+    { value: 'Complet', type: 'automatic' },
+    { value: 'Déposé en préfecture', type: 'manual' },
+  ],
+  transitions: [],
+};
+
+const option = (value: string, displayOrder: number) => ({ label: value, value, displayOrder, hidden: false });
+
+const standIn = new CrmStandIn();
+const previousEnv: Record<string, string | undefined> = {};
+
+const client = () => createClient('test-token');
+
+const posts = () => standIn.requests.filter(request => request.method === 'POST');
+const patches = () => standIn.requests.filter(request => request.method === 'PATCH');
+
+describe('getExpectedProperties', () => {
+  it('lists the flags and dates of each document, then the app properties', () => {
+    const expected = getExpectedProperties(CONFIGS);
+
+    assert.deepEqual(expected.slice(0, 5).map(property => [property.name, property.label, property.fieldType]), [
+      ['passeport_required', 'Passeport - Requis', 'booleancheckbox'],
+      ['passeport_provided', 'Passeport - Fournis', 'booleancheckbox'],
+      ['justificatif_de_domicile_required', 'Justificatif de domicile - Requis', 'booleancheckbox'],
+      ['justificatif_de_domicile_provided', 'Justificatif de domicile - Fournis', 'booleancheckbox'],
+      ['justificatif_de_domicile_date', 'Justificatif de domicile - Date', 'date'],
+    ]);
+    assert.equal(expected.find(property => property.name === HISTORY_PROPERTY)?.fieldType, 'textarea');
+    assert.equal(expected.find(property => property.name === LAST_REMINDER_PROPERTY)?.fieldType, 'date');
+    assert.deepEqual(expected.find(property => property.name === 'etat_du_dossier')?.options?.map(({ value }) => value), [
+      'À construire',
+      'En construction',
+      'Complet',
+      'Déposé en préfecture',
+      'Récépissé reçu',
+      'Entretien',
+      'Décision',
+    ]);
+    assert.ok(expected.every(property => property.groupName === PROPERTY_GROUP.name));
+  });
+
+  it('covers every property of documents.json once, repeated documents expanded', () => {
+    const names = getExpectedProperties(DOCUMENTS_CONFIG).map(property => property.name);
+
+    assert.equal(new Set(names).size, names.length);
+    DOCUMENTS_CONFIG.forEach(config => {
+      assert.ok(names.includes(config.requiredProperty), config.requiredProperty);
+      assert.ok(names.includes(config.providedProperty), config.providedProperty);
+    });
+  });
+});
+
+describe('provisionProperties', () => {
+  before(async () => {
+    await standIn.start();
+    Object.entries({ ...ENV, HUBSPOT_API_BASE_PATH: standIn.url }).forEach(([name, value]) => {
+      previousEnv[name] = process.env[name];
+      process.env[name] = value;
+    });
+  });
+
+  after(async () => {
+    await standIn.stop();
+    Object.entries(previousEnv).forEach(([name, value]) => {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    });
+  });
+
+  beforeEach(() => {
+    standIn.requests.length = 0;
+    standIn.defineObjectType({
+      name: OBJECT_TYPE,
+      typeId: '2-141688426',
+      properties: ['sous_categorie', 'passeport_required', 'passeport_provided', 'ancien_document_provided', 'documents_notes'],
+      definitions: [
+        { name: 'passeport_required', type: 'bool', fieldType: 'booleancheckbox' },
+        { name: 'passeport_provided', type: 'bool', fieldType: 'booleancheckbox' },
+        { name: 'ancien_document_provided', label: 'Ancien document - Fournis', type: 'bool', fieldType: 'booleancheckbox' },
+      ],
+    });
+  });
+
+  it('lists the missing properties without creating them', async () => {
+    const summary = await provisionProperties(client(), { configs: CONFIGS });
+
+    assert.equal(summary.createGroup, true);
+    assert.equal(summary.existing, 3);
+    assert.deepEqual(summary.create.map(property => property.name), [
+      'justificatif_de_domicile_required',
+      'justificatif_de_domicile_provided',
+      'justificatif_de_domicile_date',
+      'documents_history',
+      'documents_review',
+      'documents_emails',
+      'documents_last_reminder',
+      'etat_du_dossier',
+    ]);
+    assert.deepEqual(summary.created, []);
+    assert.deepEqual(posts(), []);
+    assert.equal(standIn.getPropertyDefinition(OBJECT_TYPE, 'justificatif_de_domicile_date'), undefined);
+  });
+
+  it('reports orphaned properties and field types that differ', async () => {
+    const summary = await provisionProperties(client(), { configs: CONFIGS });
+
+    assert.deepEqual(summary.orphaned.map(property => property.name), ['ancien_document_provided']);
+    assert.deepEqual(summary.mismatched, [{ name: 'documents_notes', expected: 'textarea', actual: 'text' }]);
+  });
+
+  it('creates the group and the missing properties with --apply', async () => {
+    const summary = await provisionProperties(client(), { apply: true, configs: CONFIGS });
+
+    assert.equal(summary.created.length, 8);
+    assert.deepEqual(summary.failed, []);
+    assert.deepEqual(posts().map(request => request.path), [
+      `/crm/v3/properties/${OBJECT_TYPE}/groups`,
+      `/crm/v3/properties/${OBJECT_TYPE}/batch/create`,
+    ]);
+    assert.deepEqual(standIn.getPropertyDefinition(OBJECT_TYPE, 'justificatif_de_domicile_provided'), {
+      name: 'justificatif_de_domicile_provided',
+      label: 'Justificatif de domicile - Fournis',
+      type: 'bool',
+      fieldType: 'booleancheckbox',
+      groupName: PROPERTY_GROUP.name,
+      options: [
+        { label: 'Oui', value: 'true', displayOrder: 0, hidden: false },
+        { label: 'Non', value: 'false', displayOrder: 1, hidden: false },
+      ],
+    });
+    assert.equal(standIn.getPropertyDefinition(OBJECT_TYPE, 'justificatif_de_domicile_date')?.type, 'date');
+    assert.equal(standIn.getPropertyDefinition(OBJECT_TYPE, 'documents_history')?.fieldType, 'textarea');
+    assert.equal(standIn.getPropertyDefinition(OBJECT_TYPE, 'etat_du_dossier')?.fieldType, 'select');
+
+    // Dossiers can be written with the new properties, and a second run has nothing to do
+    standIn.createObject(OBJECT_TYPE, { justificatif_de_domicile_date: '2025-06-01' }, '1');
+    const again = await provisionProperties(client(), { apply: true, configs: CONFIGS });
+    assert.equal(again.createGroup, false);
+    assert.deepEqual(again.create, []);
+  });
+
+  describe('options', () => {
+    beforeEach(() => {
+      standIn.defineObjectType({
+        name: OBJECT_TYPE,
+        typeId: '2-141688426',
+        properties: ['sous_categorie', 'etat_du_dossier'],
+        definitions: [
+          { name: 'sous_categorie', type: 'enumeration', fieldType: 'select', options: [option('Naturalisation par décret', 0)] },
+          { name: 'etat_du_dossier', type: 'enumeration', fieldType: 'select', options: [option('En construction', 0), option('Archivé', 1)] },
+        ],
+      });
+    });
+
+    it('lists the states missing from the options of etat_du_dossier', async () => {
+      const summary = await provisionProperties(client(), { configs: [], machine: MACHINE });
+
+      assert.deepEqual(summary.addOptions.map(({ name, missing }) => ({ name, missing })), [
+        { name: 'etat_du_dossier', missing: ['Complet', 'Déposé en préfecture'] },
+      ]);
+      assert.deepEqual(summary.optionValues, {
+        etat_du_dossier: ['En construction', 'Archivé'],
+        sous_categorie: ['Naturalisation par décret'],
+      });
+      assert.deepEqual(patches(), []);
+    });
+
+    it('adds them after the existing options with --apply, and never touches sous_categorie', async () => {
+      const summary = await provisionProperties(client(), { apply: true, configs: [], machine: MACHINE });
+
+      assert.deepEqual(summary.updated, ['etat_du_dossier']);
+      assert.deepEqual(patches().map(request => request.path), [`/crm/v3/properties/${OBJECT_TYPE}/etat_du_dossier`]);
+      assert.deepEqual(standIn.getPropertyDefinition(OBJECT_TYPE, 'etat_du_dossier')?.options, [
+        option('En construction', 0),
+        option('Archivé', 1),
+        option('Complet', 2),
+        option('Déposé en préfecture', 3),
+      ]);
+      assert.deepEqual(summary.optionValues.etat_du_dossier, ['En construction', 'Archivé', 'Complet', 'Déposé en préfecture']);
+
+      const again = await provisionProperties(client(), { apply: true, configs: [], machine: MACHINE });
+      assert.deepEqual(again.addOptions, []);
+    });
+
+    it('reports the options the API refused', async () => {
+      standIn.failNext({ status: 400, path: /etat_du_dossier$/, body: { status: 'error', message: 'Invalid options' } });
+      const summary = await provisionProperties(client(), { apply: true, configs: [], machine: MACHINE });
+
+      assert.deepEqual(summary.updated, []);
+      assert.deepEqual(summary.failed, [{ names: ['etat_du_dossier'], message: 'Invalid options' }]);
+      assert.deepEqual(summary.optionValues.etat_du_dossier, ['En construction', 'Archivé']);
+    });
+  });
+
+  it('reports the properties the API refused', async () => {
+    const [passeport, justificatif] = getExpectedProperties(CONFIGS).slice(1, 3);
+    await createPropertyGroup(client(), PROPERTY_GROUP);
+    // Created by someone else since the plan was made
+    const result = await createProperties(client(), [passeport, justificatif]);
+
+    assert.deepEqual(result.created, ['justificatif_de_domicile_required']);
+    assert.deepEqual(result.failed, [{ names: ['passeport_provided'], message: 'Property named "passeport_provided" already exists' }]);
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Reminder schedule, and the reminders sent against the CRM stand-in.
+ */
+
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { EMAIL_LOG_PROPERTY, parseEmailLog, type EmailLogEntry } from '../src/app/core/email';
+import { HISTORY_PROPERTY } from '../src/app/core/history';
+import {
+  LAST_REMINDER_PROPERTY,
+  getLastReminderCutoff,
+  getNextReminderDate,
+  getRemindersSince,
+  getValueSince,
+  isReminderDue,
+  validateReminderSchedule,
+  type ReminderState,
+} from '../src/app/core/reminders';
+import { createClient } from '../src/app/functions/hubspot';
+import { type MailMessage, type MailSettings } from '../src/app/functions/mail';
+import { CHECKLIST_PROPERTIES } from '../src/app/functions/recompute';
+import { sendDueReminders } from '../src/app/functions/reminders';
+import { CrmStandIn } from '../tools/crmStandIn';
+import { runAppFunction } from '../tools/functionHarness';
+
+const SCHEDULE = { afterDays: 7, intervalDays: [7, 14], maxReminders: 3, subjectPrefix: 'Relance : ' };
+
+const day = (date: string) => new Date(`${date}T00:00:00.000Z`).getTime();
+
+const reminder = (timestamp: string): EmailLogEntry => ({
+  to: 'client@example.com',
+  subject: 'Relance : documents manquants',
+  documents: ['passeport'],
+  transport: 'console',
+  messageId: '<1@cabinet.example>',
+  user: null,
+  timestamp,
+  source: 'reminder',
+});
+
+const awaiting = (reminders: EmailLogEntry[] = []): ReminderState => ({
+  state: 'En construction',
+  missingDoc: '<ul><li>Passeport</li></ul>',
+  stateSince: new Date('2025-06-01T09:30:00.000Z').getTime(),
+  reminders,
+});
+
+describe('getValueSince', () => {
+  it('returns when the current value was first set in its latest run', () => {
+    const versions = [
+      { value: 'En construction', timestamp: '2025-06-10T00:00:00.000Z' },
+      { value: 'En construction', timestamp: '2025-05-01T00:00:00.000Z' },
+      { value: 'Complet', timestamp: '2025-06-01T00:00:00.000Z' },
+    ];
+    assert.equal(getValueSince(versions, 'En construction'), day('2025-06-10'));
+  });
+
+  it('returns null when the history does not show the value', () => {
+    assert.equal(getValueSince([{ value: 'Complet', timestamp: '2025-06-01' }], 'En construction'), null);
+  });
+});
+
+describe('getRemindersSince', () => {
+  it('keeps the reminders sent since the dossier entered its state', () => {
+    const card = { ...reminder('2025-06-05T00:00:00.000Z'), source: 'card' as const };
+    const log = [reminder('2025-06-20T00:00:00.000Z'), card, reminder('2025-05-20T00:00:00.000Z'), reminder('2025-06-08T00:00:00.000Z')];
+    assert.deepEqual(
+      getRemindersSince(log, day('2025-06-01')).map(entry => entry.timestamp),
+      ['2025-06-08T00:00:00.000Z', '2025-06-20T00:00:00.000Z']
+    );
+  });
+});
+
+describe('getNextReminderDate', () => {
+  it('is due afterDays after the dossier entered "En construction"', () => {
+    assert.equal(getNextReminderDate(SCHEDULE, awaiting()), day('2025-06-08'));
+  });
+
+  it('spaces the reminders by the intervals, repeating the last one', () => {
+    assert.equal(getNextReminderDate(SCHEDULE, awaiting([reminder('2025-06-08T06:00:00.000Z')])), day('2025-06-15'));
+    assert.equal(
+      getNextReminderDate(SCHEDULE, awaiting([reminder('2025-06-08T06:00:00.000Z'), reminder('2025-06-15T06:00:00.000Z')])),
+      day('2025-06-29')
+    );
+  });
+
+  it('stops after maxReminders', () => {
+    const reminders = ['2025-06-08', '2025-06-15', '2025-06-29'].map(date => reminder(`${date}T06:00:00.000Z`));
+    assert.equal(getNextReminderDate(SCHEDULE, awaiting(reminders)), null);
+  });
+
+  it('sends nothing to a complete dossier or one without missing documents', () => {
+    assert.equal(getNextReminderDate(SCHEDULE, { ...awaiting(), state: 'Complet' }), null);
+    assert.equal(getNextReminderDate(SCHEDULE, { ...awaiting(), missingDoc: ' ' }), null);
+  });
+});
+
+describe('isReminderDue', () => {
+  it('compares days in UTC', () => {
+    assert.equal(isReminderDue(SCHEDULE, awaiting(), { now: new Date('2025-06-07T23:59:00.000Z') }), false);
+    assert.equal(isReminderDue(SCHEDULE, awaiting(), { now: new Date('2025-06-08T00:01:00.000Z') }), true);
+  });
+});
+
+describe('getLastReminderCutoff', () => {
+  it('goes back the shortest delay of the schedule from today', () => {
+    const now = new Date('2025-06-15T18:00:00.000Z');
+
+    assert.equal(getLastReminderCutoff(SCHEDULE, { now }), day('2025-06-08'));
+    assert.equal(getLastReminderCutoff({ ...SCHEDULE, afterDays: 3 }, { now }), day('2025-06-12'));
+  });
+});
+
+describe('validateReminderSchedule', () => {
+  it('accepts reminders.json', () => {
+    assert.deepEqual(validateReminderSchedule(SCHEDULE), []);
+  });
+
+  it('reports invalid fields', () => {
+    assert.deepEqual(validateReminderSchedule({ afterDays: 0, intervalDays: [], maxReminders: 1.5, subjectPrefix: 1 }), [
+      '"afterDays" must be a positive integer',
+      '"intervalDays" must be a non-empty array of positive integers',
+      '"maxReminders" must be a non-negative integer',
+      '"subjectPrefix" must be a string',
+    ]);
+  });
+});
+
+describe('sendDueReminders', () => {
+  const OBJECT_TYPE = 'p_dossier_juridique';
+  const ENV: Record<string, string> = {
+    dossier_j_NAME: OBJECT_TYPE,
+    dossier_j_ID: '2-141688426',
+    HUBSPOT_RETRY_BASE_MS: '1',
+    HUBSPOT_RETRY_MAX_MS: '5',
+  };
+  const DAY_MS = 24 * 60 * 60 * 1000;
+
+  const standIn = new CrmStandIn();
+  const previousEnv: Record<string, string | undefined> = {};
+  const sent: MailMessage[] = [];
+  const mail: MailSettings = {
+    from: 'Cabinet <contact@cabinet.example>',
+    transport: { name: 'test', send: async message => { sent.push(message); return { messageId: `<${sent.length}@cabinet.example>` }; } },
+  };
+
+  const client = () => createClient('test-token');
+
+  /** Creates a dossier that entered its state `days` days ago. */
+  const createDossier = (id: string, state: string, days: number) => {
+    standIn.createObject(OBJECT_TYPE, {
+      sous_categorie: 'Naturalisation par mariage',
+      missing_doc: '<ul><li>Passeport</li></ul>',
+    }, id);
+    standIn.setPropertyHistory(OBJECT_TYPE, id, 'etat_du_dossier', [
+      { value: state, timestamp: new Date(Date.now() - days * DAY_MS).toISOString() },
+    ]);
+    standIn.associate(OBJECT_TYPE, id, 'contacts', '501');
+  };
+
+  before(async () => {
+    await standIn.start();
+    Object.entries({ ...ENV, HUBSPOT_API_BASE_PATH: standIn.url }).forEach(([name, value]) => {
+      previousEnv[name] = process.env[name];
+      process.env[name] = value;
+    });
+  });
+
+  after(async () => {
+    await standIn.stop();
+    Object.entries(previousEnv).forEach(([name, value]) => {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    });
+  });
+
+  beforeEach(() => {
+    standIn.requests.length = 0;
+    sent.length = 0;
+    standIn.defineObjectType({
+      name: OBJECT_TYPE,
+      typeId: '2-141688426',
+      properties: [...CHECKLIST_PROPERTIES, HISTORY_PROPERTY, EMAIL_LOG_PROPERTY, LAST_REMINDER_PROPERTY],
+    });
+    standIn.defineObjectType({ name: 'contacts', typeId: '0-1', properties: ['firstname', 'lastname', 'email'] });
+    standIn.createObject('contacts', { firstname: 'Marie', lastname: 'Dupont', email: 'marie.dupont@example.com' }, '501');
+    createDossier('1', 'En construction', 10);
+    createDossier('2', 'En construction', 3);
+    createDossier('3', 'Complet', 30);
+  });
+
+  it('lists the reminders due without sending them', async () => {
+    const summary = await sendDueReminders(client(), { pageSize: 2 });
+
+    // The complete dossier is left out by the search
+    assert.equal(summary.scanned, 2);
+    assert.equal(summary.awaiting, 2);
+    assert.deepEqual(summary.due.map(due => [due.objectId, due.to, due.reminder]), [['1', 'marie.dupont@example.com', 1]]);
+    assert.equal(summary.sent, 0);
+    assert.equal(sent.length, 0);
+  });
+
+  it('sends each reminder once and logs it on the dossier', async () => {
+    const summary = await sendDueReminders(client(), { apply: true, mail });
+
+    assert.equal(summary.sent, 1);
+    assert.equal(sent[0].to, 'marie.dupont@example.com');
+    assert.match(sent[0].subject, /^Relance : /);
+    const stored = standIn.getObject(OBJECT_TYPE, '1')?.properties;
+    assert.equal(parseEmailLog(stored?.[EMAIL_LOG_PROPERTY])[0].source, 'reminder');
+    assert.match(stored?.[LAST_REMINDER_PROPERTY] || '', /^\d{4}-\d{2}-\d{2}$/);
+
+    const again = await sendDueReminders(client(), { apply: true, mail });
+    assert.equal(again.sent, 0);
+    assert.equal(again.scanned, 1);
+
+    // Dossiers leave the search once reminded, without skipping the next ones
+    const later = await sendDueReminders(client(), { apply: true, mail, pageSize: 1, now: new Date(Date.now() + 7 * DAY_MS) });
+    assert.deepEqual(later.due.map(due => [due.objectId, due.reminder]), [['1', 2], ['2', 1]]);
+    assert.equal(sent.length, 3);
+  });
+
+  it('skips a dossier without a contact email', async () => {
+    standIn.createObject('contacts', { firstname: 'Marie', lastname: 'Dupont', email: '' }, '501');
+
+    const summary = await sendDueReminders(client(), { apply: true, mail });
+
+    assert.equal(summary.sent, 0);
+    assert.deepEqual(summary.skipped, [{ objectId: '1', reason: 'No contact with an email address' }]);
+  });
+
+  it('fails a dossier whose email log cannot be read', async () => {
+    standIn.defineObjectType({ name: OBJECT_TYPE, typeId: '2-141688426', properties: [...CHECKLIST_PROPERTIES, HISTORY_PROPERTY] });
+    createDossier('1', 'En construction', 10);
+
+    const summary = await sendDueReminders(client(), { apply: true, mail });
+
+    assert.deepEqual(summary.failed.map(failure => [failure.objectId, failure.code]), [['1', 'PROPERTY_MISSING'], ['2', 'PROPERTY_MISSING']]);
+    assert.equal(sent.length, 0);
+  });
+
+  it('requires the reminders secret on the endpoint', async () => {
+    const call = (headers: Record<string, string>) => runAppFunction('sendReminders', {
+      body: { dryRun: true },
+      headers,
+      env: { hubspot_api_key: 'test-token', reminders_secret: 'secret' },
+    });
+
+    assert.equal((await call({})).statusCode, 401);
+    assert.equal((await call({ 'x-reminders-secret': 'wrong' })).statusCode, 401);
+    const response = await call({ 'x-reminders-secret': 'secret' });
+    assert.equal(response.statusCode, 200);
+    assert.equal(response.body.due.length, 1);
+    assert.equal(sent.length, 0);
+  });
+});
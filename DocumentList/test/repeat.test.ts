@@ -0,0 +1,160 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import documentsConfig from '../src/app/extensions/documents.json';
+import { createDocuments, getMissingDocumentsList, resolveDocuments } from '../src/app/core/documents';
+import {
+  expandDocumentConfigs,
+  groupDocuments,
+  validateDocumentRepeat,
+  type DocumentEntry,
+  type DocumentTemplate,
+} from '../src/app/core/repeat';
+
+const sousCategorie = (value: string) => ({ property: 'sous_categorie', operator: 'equals' as const, value });
+
+const CHILDREN = ['Enfant mineur n°1', 'Enfant mineur n°2', 'Enfant mineur n°3'];
+
+const passport: DocumentTemplate = {
+  id: 'em{{n}}_passeport',
+  name: 'Passeport',
+  repeat: { property: 'enfants', values: CHILDREN, tabs: { fraterie: [2, 3] } },
+  tabConfig: {
+    decret: { order: 5, conditions: [sousCategorie('Naturalisation par décret'), { property: 'enfants', operator: 'in', value: '{{value}}' }] },
+    fraterie: { order: 3, conditions: [sousCategorie('Naturalisation par fratrie'), { property: 'enfants', operator: 'in', value: '{{value}}' }] },
+  },
+};
+
+const birthCertificate: DocumentTemplate = {
+  id: 'em{{n}}_acte_de_naissance',
+  name: 'Acte de naissance',
+  propertyStem: 'em{{n}}_acte_naissance',
+  repeat: { property: 'enfants', values: CHILDREN.slice(0, 2) },
+  tabConfig: {
+    decret: { order: 6, conditions: [{ property: 'enfants', operator: 'in', value: '{{value}}' }] },
+  },
+};
+
+const CONFIGS = expandDocumentConfigs(documentsConfig as DocumentEntry[]);
+
+describe('expandDocumentConfigs', () => {
+  it('names the instances and their properties from the template', () => {
+    const [first, , second] = expandDocumentConfigs([passport, birthCertificate]);
+
+    assert.equal(first.id, 'em1_passeport');
+    assert.equal(first.requiredProperty, 'em1_passeport_required');
+    assert.equal(first.providedProperty, 'em1_passeport_provided');
+    assert.deepEqual(first.group, { id: 'enfants_1', label: 'Enfant mineur n°1' });
+    assert.deepEqual(second.tabConfig.decret.conditions[1], { property: 'enfants', operator: 'in', value: 'Enfant mineur n°2' });
+  });
+
+  it('lists the documents person by person', () => {
+    const ids = expandDocumentConfigs([passport, birthCertificate]).map(config => config.id);
+    assert.deepEqual(ids, [
+      'em1_passeport', 'em1_acte_de_naissance',
+      'em2_passeport', 'em2_acte_de_naissance',
+      'em3_passeport',
+    ]);
+  });
+
+  it('uses the property stem for the properties', () => {
+    const [, birth] = expandDocumentConfigs([passport, birthCertificate]);
+    assert.equal(birth.requiredProperty, 'em1_acte_naissance_required');
+  });
+
+  it('leaves instances out of the tabs that do not list them', () => {
+    const configs = expandDocumentConfigs([passport]);
+    assert.deepEqual(configs.map(config => Object.keys(config.tabConfig)), [['decret'], ['decret', 'fraterie'], ['decret', 'fraterie']]);
+  });
+
+  it('repeats by a count, comparing {{n}} as a number', () => {
+    const configs = expandDocumentConfigs([{
+      id: 'enfant_{{n}}_scolarite',
+      name: 'Certificat de scolarité',
+      repeat: { property: 'nombre_d_enfants', count: 2, label: 'Enfant n°{{n}}' },
+      tabConfig: { aes: { order: 1, conditions: [{ property: 'nombre_d_enfants', operator: 'gte', value: '{{n}}' }] } },
+    }]);
+
+    assert.equal(configs[1].group?.label, 'Enfant n°2');
+    assert.deepEqual(configs[1].tabConfig.aes.conditions, [{ property: 'nombre_d_enfants', operator: 'gte', value: 2 }]);
+  });
+
+  it('cuts long ids without a trailing underscore', () => {
+    const [config] = expandDocumentConfigs([{ ...passport, id: `em{{n}}_${'a'.repeat(81)}_b` }]);
+    assert.equal(config.id, `em1_${'a'.repeat(81)}`);
+  });
+});
+
+describe('repeated documents of documents.json', () => {
+  it('requires the documents of each selected child, labelled with the child', () => {
+    const properties = {
+      sous_categorie: 'Naturalisation par décret',
+      avez_vous_des_enfant_mineur__: 'Enfant mineur n°2',
+    };
+    const documents = resolveDocuments(createDocuments(CONFIGS), properties);
+    const required = documents.filter(doc => doc.required && doc.group);
+
+    assert.deepEqual(required.map(doc => doc.id), [
+      'em2_passeport_ou_piece_d_identite',
+      'em2_copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_etr',
+      'em2_justificatif_de_residence_en_france',
+    ]);
+    assert.ok(getMissingDocumentsList(documents, properties).includes("Enfant mineur n°2 – Passeport ou Pièce d'identité"));
+  });
+
+  it('keeps the properties of the documents they replace', () => {
+    const names = CONFIGS.map(config => config.providedProperty);
+    assert.ok(names.includes('em1_passeport_ou_piece_didentite_provided'));
+    assert.ok(names.includes('em10_copie_integrale_de_l_acte_de_naissance_et_sa_traduction_s_il_s_agit_d_un_acte_et_provided'));
+    assert.ok(names.includes('d3_decision_de_dissolution_de_l_union_acte_de_divorce_et_sa_traduction_s_il_s_agit_d_provided'));
+  });
+});
+
+describe('groupDocuments', () => {
+  it('gathers each group where its first document is', () => {
+    const child = (n: number) => ({ id: `enfants_${n}`, label: `Enfant mineur n°${n}` });
+    const sections = groupDocuments([
+      { id: 'a' },
+      { id: 'b', group: child(1) },
+      { id: 'c', group: child(2) },
+      { id: 'd' },
+      { id: 'e' },
+      { id: 'f', group: child(1) },
+    ]);
+
+    assert.deepEqual(sections.map(section => [section.group?.id ?? null, section.documents.map(doc => doc.id)]), [
+      [null, ['a']],
+      ['enfants_1', ['b', 'f']],
+      ['enfants_2', ['c']],
+      [null, ['d', 'e']],
+    ]);
+  });
+});
+
+describe('validateDocumentRepeat', () => {
+  it('accepts a template', () => {
+    assert.deepEqual(validateDocumentRepeat(passport), []);
+  });
+
+  it('reports invalid rules', () => {
+    assert.deepEqual(validateDocumentRepeat({
+      id: 'passeport_enfant',
+      name: 'Passeport',
+      requiredProperty: 'passeport_enfant_required',
+      repeat: { property: 'enfants', values: ['Enfant mineur n°1'], count: 2, label: 'Enfant n°{{n}}', tabs: { aes: [3] } },
+      tabConfig: { decret: { order: 1, conditions: [] } },
+    }), [
+      '"repeat" must set exactly one of "values" and "count"',
+      '"repeat.tabs" lists tab "aes", which is not in "tabConfig"',
+      '"repeat.tabs.aes" must list instance numbers from 1 to 1',
+      '"requiredProperty" is named from "propertyStem" for a repeated document',
+      '"id" must contain {{n}} or {{value}} so each instance has its own id',
+    ]);
+  });
+
+  it('requires a label with a count', () => {
+    assert.deepEqual(validateDocumentRepeat({ ...passport, repeat: { property: 'nombre_d_enfants', count: 2 } }), [
+      '"repeat.label" is required with "count", e.g. "Enfant n°{{n}}"',
+    ]);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  DOCUMENT_STATUSES,
+  getDocumentStatus,
+  isProvidedStatus,
+  mergeReviews,
+  parseReviews,
+} from '../src/app/core/review';
+
+describe('getDocumentStatus', () => {
+  it('uses the stored status', () => {
+    assert.equal(getDocumentStatus({ provided: true, status: DOCUMENT_STATUSES.RECEIVED }), DOCUMENT_STATUSES.RECEIVED);
+  });
+
+  it('treats provided documents without a status as validated', () => {
+    assert.equal(getDocumentStatus({ provided: true }), DOCUMENT_STATUSES.VALIDATED);
+    assert.equal(getDocumentStatus({ provided: false, status: null }), DOCUMENT_STATUSES.REQUESTED);
+  });
+});
+
+describe('isProvidedStatus', () => {
+  it('is true for received and validated documents', () => {
+    assert.deepEqual(Object.values(DOCUMENT_STATUSES).filter(isProvidedStatus), ['received', 'validated']);
+  });
+});
+
+describe('parseReviews', () => {
+  it('ignores unreadable values and unknown statuses', () => {
+    assert.deepEqual(parseReviews('pas du json'), {});
+    assert.deepEqual(parseReviews('[]'), {});
+    assert.deepEqual(
+      parseReviews(JSON.stringify({ passeport: { status: 'validated' }, bail: { status: 'perdu' } })),
+      { passeport: { status: 'validated' } }
+    );
+  });
+});
+
+describe('mergeReviews', () => {
+  const stored = JSON.stringify({ passeport: { status: 'validated', user: 'a@example.com', timestamp: '2025-01-01T00:00:00.000Z' } });
+
+  it('replaces only the changed documents', () => {
+    const merged = parseReviews(mergeReviews(stored, {
+      bail: { status: 'rejected', reason: ' Illisible ', user: 'b@example.com', timestamp: '2025-02-01T00:00:00.000Z' },
+    }));
+
+    assert.equal(merged.passeport.status, 'validated');
+    assert.deepEqual(merged.bail, { status: 'rejected', reason: 'Illisible', user: 'b@example.com', timestamp: '2025-02-01T00:00:00.000Z' });
+  });
+
+  it('drops the reason once the document is no longer rejected', () => {
+    const merged = parseReviews(mergeReviews(stored, { passeport: { status: 'received', reason: 'Illisible' } }));
+    assert.equal(merged.passeport.reason, undefined);
+    assert.equal(merged.passeport.user, null);
+  });
+});
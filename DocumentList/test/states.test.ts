@@ -0,0 +1,128 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import statesConfig from '../src/app/extensions/states.json';
+import { DOSSIER_STATES } from '../src/app/core/documents';
+import {
+  GUARD_MESSAGES,
+  checkTransition,
+  collectGuardProperties,
+  getAvailableTransitions,
+  getStateStep,
+  resolveDossierState,
+  validateStateMachine,
+  type DossierStateMachine,
+} from '../src/app/core/states';
+
+const DEPOSE = 'Déposé en préfecture';
+const RECEPISSE = 'Récépissé reçu';
+
+const MACHINE: DossierStateMachine = {
+  states: [
+    { value: DOSSIER_STATES.TO_BUILD, type: 'automatic' },
+    { value: DOSSIER_STATES.INCOMPLETE, type: 'automatic' },
+    { value: DOSSIER_STATES.COMPLETE, type: 'automatic' },
+    { value: DEPOSE, type: 'manual' },
+    { value: RECEPISSE, type: 'manual' },
+  ],
+  transitions: [
+    { from: [DOSSIER_STATES.INCOMPLETE, DOSSIER_STATES.COMPLETE], to: DEPOSE, guard: { completed: true } },
+    {
+      from: [DEPOSE],
+      to: RECEPISSE,
+      guard: { conditions: [{ property: 'date_de_depot', operator: 'is_known' }], message: 'Renseignez la date de dépôt.' },
+    },
+    { from: [DEPOSE], to: DOSSIER_STATES.INCOMPLETE, label: 'Pièces complémentaires demandées' },
+  ],
+};
+
+describe('resolveDossierState', () => {
+  it('keeps a state set by a lawyer and follows the documents otherwise', () => {
+    assert.equal(resolveDossierState(DEPOSE, DOSSIER_STATES.INCOMPLETE), DEPOSE);
+    assert.equal(resolveDossierState(DOSSIER_STATES.COMPLETE, DOSSIER_STATES.INCOMPLETE), DOSSIER_STATES.INCOMPLETE);
+    assert.equal(resolveDossierState('', DOSSIER_STATES.TO_BUILD), DOSSIER_STATES.TO_BUILD);
+    assert.equal(resolveDossierState(null, DOSSIER_STATES.TO_BUILD), DOSSIER_STATES.TO_BUILD);
+  });
+});
+
+describe('getAvailableTransitions', () => {
+  it('lists the transitions out of a state with the reason a guard blocks them', () => {
+    assert.deepEqual(getAvailableTransitions(MACHINE, DOSSIER_STATES.INCOMPLETE, { completed: false, properties: {}, automaticState: DOSSIER_STATES.INCOMPLETE }), [
+      { to: DEPOSE, label: DEPOSE, blockedBy: GUARD_MESSAGES.COMPLETED },
+    ]);
+    assert.deepEqual(getAvailableTransitions(MACHINE, DEPOSE, { completed: true, properties: {}, automaticState: DOSSIER_STATES.INCOMPLETE }), [
+      { to: RECEPISSE, label: RECEPISSE, blockedBy: 'Renseignez la date de dépôt.' },
+      { to: DOSSIER_STATES.INCOMPLETE, label: 'Pièces complémentaires demandées', blockedBy: null },
+    ]);
+    assert.deepEqual(getAvailableTransitions(MACHINE, DOSSIER_STATES.TO_BUILD, { completed: false, properties: {}, automaticState: DOSSIER_STATES.INCOMPLETE }), []);
+  });
+});
+
+describe('checkTransition', () => {
+  it('allows configured transitions whose guard holds', () => {
+    assert.equal(checkTransition(MACHINE, DOSSIER_STATES.COMPLETE, DEPOSE, { completed: true, properties: {}, automaticState: DOSSIER_STATES.INCOMPLETE }), null);
+    assert.equal(checkTransition(MACHINE, DEPOSE, RECEPISSE, { completed: false, properties: { date_de_depot: '2025-06-01' }, automaticState: DOSSIER_STATES.INCOMPLETE }), null);
+  });
+
+  it('refuses other transitions and failing guards', () => {
+    assert.equal(
+      checkTransition(MACHINE, DOSSIER_STATES.TO_BUILD, RECEPISSE, { completed: true, properties: {}, automaticState: DOSSIER_STATES.INCOMPLETE }),
+      `Le dossier ne peut pas passer de « ${DOSSIER_STATES.TO_BUILD} » à « ${RECEPISSE} ».`
+    );
+    assert.equal(checkTransition(MACHINE, DOSSIER_STATES.COMPLETE, DEPOSE, { completed: false, properties: {}, automaticState: DOSSIER_STATES.INCOMPLETE }), GUARD_MESSAGES.COMPLETED);
+  });
+
+  it('only hands a dossier back to the automatic state its documents compute', () => {
+    const context = { completed: false, properties: {}, automaticState: DOSSIER_STATES.TO_BUILD };
+
+    assert.equal(
+      checkTransition(MACHINE, DEPOSE, DOSSIER_STATES.INCOMPLETE, context),
+      `D'après ses documents, le dossier est « ${DOSSIER_STATES.TO_BUILD} ».`
+    );
+    assert.equal(checkTransition(MACHINE, DEPOSE, DOSSIER_STATES.INCOMPLETE, { ...context, automaticState: DOSSIER_STATES.INCOMPLETE }), null);
+  });
+});
+
+describe('getStateStep', () => {
+  it('shows the last state as done and unknown states at the start', () => {
+    assert.equal(getStateStep(MACHINE, DOSSIER_STATES.INCOMPLETE), 1);
+    assert.equal(getStateStep(MACHINE, RECEPISSE), 5);
+    assert.equal(getStateStep(MACHINE, 'Archivé'), 0);
+  });
+});
+
+describe('collectGuardProperties', () => {
+  it('lists the properties read by the guards', () => {
+    assert.deepEqual(collectGuardProperties(MACHINE), ['date_de_depot']);
+  });
+});
+
+describe('validateStateMachine', () => {
+  it('accepts states.json', () => {
+    assert.deepEqual(validateStateMachine(statesConfig), []);
+  });
+
+  it('reports unknown states, wrong types and unreachable manual states', () => {
+    assert.deepEqual(validateStateMachine({
+      states: [
+        { value: DOSSIER_STATES.TO_BUILD, type: 'automatic' },
+        { value: DOSSIER_STATES.INCOMPLETE, type: 'manual' },
+        { value: DEPOSE, type: 'automatic' },
+        { value: 'Entretien', type: 'manual' },
+      ],
+      transitions: [
+        { from: ['Complet'], to: 'Décision', guard: { completed: 'oui', conditions: [{ property: 'x', operator: 'egal' }] } },
+      ],
+    }), [
+      `State "${DOSSIER_STATES.INCOMPLETE}": only "À construire", "En construction", "Complet" are computed from the documents`,
+      `State "${DEPOSE}": only "À construire", "En construction", "Complet" are computed from the documents`,
+      'Automatic state "Complet" is missing',
+      'transitions[0]: unknown state "Complet" in "from"',
+      'transitions[0]: unknown state "Décision" in "to"',
+      'transitions[0]: "guard.completed" must be a boolean',
+      'transitions[0].guard.conditions[0]: Unknown operator "egal"',
+      `Manual state "${DOSSIER_STATES.INCOMPLETE}" cannot be reached, no transition leads to it`,
+      'Manual state "Entretien" cannot be reached, no transition leads to it',
+    ]);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import {
+  VALIDITY_STATUSES,
+  getValidityEnd,
+  getValidityStatus,
+  parseDocumentDate,
+  validateValidity,
+} from '../src/app/core/validity';
+
+const NOW = { now: new Date('2025-06-15T10:00:00Z') };
+
+describe('parseDocumentDate', () => {
+  it('normalizes HubSpot date values', () => {
+    assert.equal(parseDocumentDate('2025-03-01'), '2025-03-01');
+    assert.equal(parseDocumentDate(String(Date.UTC(2025, 2, 1))), '2025-03-01');
+    assert.equal(parseDocumentDate(''), null);
+    assert.equal(parseDocumentDate('pas une date'), null);
+  });
+});
+
+describe('getValidityEnd', () => {
+  it('adds the maximum age to the document date', () => {
+    assert.equal(getValidityEnd({ validity: { maxAgeMonths: 3 }, date: '2025-03-01' }), Date.UTC(2025, 5, 1));
+  });
+
+  it('uses the date as the expiry date', () => {
+    assert.equal(getValidityEnd({ validity: { expiryDate: true }, date: '2025-03-01' }), Date.UTC(2025, 2, 1));
+  });
+
+  it('is null without a rule or a date', () => {
+    assert.equal(getValidityEnd({ date: '2025-03-01' }), null);
+    assert.equal(getValidityEnd({ validity: { maxAgeMonths: 3 }, date: null }), null);
+  });
+});
+
+describe('getValidityStatus', () => {
+  it('is null for documents without a rule', () => {
+    assert.equal(getValidityStatus({ date: '2025-03-01' }, NOW), null);
+  });
+
+  it('asks for a date when none is recorded', () => {
+    assert.equal(getValidityStatus({ validity: { maxAgeMonths: 3 } }, NOW), VALIDITY_STATUSES.UNDATED);
+  });
+
+  it('expires the day after the end of validity', () => {
+    const rule = { validity: { maxAgeMonths: 3 } };
+    assert.equal(getValidityStatus({ ...rule, date: '2025-03-15' }, NOW), VALIDITY_STATUSES.EXPIRING);
+    assert.equal(getValidityStatus({ ...rule, date: '2025-03-14' }, NOW), VALIDITY_STATUSES.EXPIRED);
+  });
+
+  it('warns before the end of validity', () => {
+    const rule = { validity: { expiryDate: true, warningDays: 10 } };
+    assert.equal(getValidityStatus({ ...rule, date: '2025-06-25' }, NOW), VALIDITY_STATUSES.EXPIRING);
+    assert.equal(getValidityStatus({ ...rule, date: '2025-06-26' }, NOW), VALIDITY_STATUSES.VALID);
+  });
+});
+
+describe('validateValidity', () => {
+  it('accepts a maximum age or an expiry date', () => {
+    assert.deepEqual(validateValidity({ maxAgeMonths: 6 }), []);
+    assert.deepEqual(validateValidity({ expiryDate: true, warningDays: 60 }), []);
+  });
+
+  it('rejects rules with neither or both', () => {
+    assert.equal(validateValidity({}).length, 1);
+    assert.equal(validateValidity({ maxAgeMonths: 3, expiryDate: true }).length, 1);
+    assert.deepEqual(validateValidity({ maxAgeMonths: 0 }), ['"validity.maxAgeMonths" must be a positive integer']);
+    assert.deepEqual(validateValidity('3 mois'), ['"validity" must be an object']);
+  });
+});
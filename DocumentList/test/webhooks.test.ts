@@ -0,0 +1,53 @@
+/**
+ * webhooks.json rendering and its target URL.
+ */
+
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+import { CONDITIONAL_PROPERTIES } from '../src/app/core/properties.generated';
+import {
+  DEFAULT_WEBHOOK_SETTINGS,
+  DOSSIER_OBJECT_NAME,
+  TEMPLATE_TARGET_URL,
+  checkWebhookTargetUrl,
+  readWebhookSettings,
+  renderWebhooks,
+} from '../tools/webhooks';
+
+const TARGET_URL = 'https://cabinet.example.com/hs/serverless/dossier-recompute';
+
+describe('renderWebhooks', () => {
+  it('subscribes to changes of every conditional property on the dossier object', () => {
+    const config = JSON.parse(renderWebhooks(CONDITIONAL_PROPERTIES, { targetUrl: TARGET_URL, maxConcurrentRequests: 10 }));
+
+    assert.deepEqual(config.settings, { targetUrl: TARGET_URL, maxConcurrentRequests: 10 });
+    assert.deepEqual(config.subscriptions.crmObjects, CONDITIONAL_PROPERTIES.map(propertyName => ({
+      subscriptionType: 'object.propertyChange',
+      objectName: DOSSIER_OBJECT_NAME,
+      propertyName,
+      active: true,
+    })));
+  });
+});
+
+describe('readWebhookSettings', () => {
+  it('keeps the deployed target URL and drops the template placeholder', () => {
+    const render = (targetUrl: string) => renderWebhooks([], { targetUrl, maxConcurrentRequests: 5 });
+
+    assert.deepEqual(readWebhookSettings(render(TARGET_URL)), { targetUrl: TARGET_URL, maxConcurrentRequests: 5 });
+    assert.deepEqual(readWebhookSettings(render(TEMPLATE_TARGET_URL)), { targetUrl: '', maxConcurrentRequests: 5 });
+    assert.deepEqual(readWebhookSettings(''), DEFAULT_WEBHOOK_SETTINGS);
+  });
+});
+
+describe('checkWebhookTargetUrl', () => {
+  it('accepts the https URL of the recompute endpoint only', () => {
+    assert.equal(checkWebhookTargetUrl(TARGET_URL), null);
+    assert.match(checkWebhookTargetUrl('') || '', /not set/);
+    assert.match(checkWebhookTargetUrl(TEMPLATE_TARGET_URL) || '', /template placeholder/);
+    assert.match(checkWebhookTargetUrl('dossier-recompute') || '', /not a URL/);
+    assert.match(checkWebhookTargetUrl('http://cabinet.example.com/hs/serverless/dossier-recompute') || '', /https URL/);
+    assert.match(checkWebhookTargetUrl('https://cabinet.example.com/webhook') || '', /https URL/);
+  });
+});
@@ -0,0 +1,112 @@
+/**
+ * Recomputes the checklist of every dossier, e.g. after documents.json changed.
+ *
+ * Runs as a dry run by default and prints what would change per sous_categorie.
+ * With --apply the changes are written page by page and the progress is saved
+ * after each page, so an interrupted run resumes where it stopped. Point
+ * HUBSPOT_API_BASE_PATH at the CRM stand-in to run offline.
+ *
+ * Usage: npm run recompute:all [-- --apply] [--page-size 100] [--progress file] [--restart]
+ */
+
+import { existsSync, readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+import {
+  recomputeAllDossiers,
+  type BulkProgress,
+  type BulkSummary,
+} from '../src/app/functions/bulkRecompute';
+import { BATCH_SIZE, createClient, resolveToken } from '../src/app/functions/hubspot';
+
+const DEFAULT_PROGRESS_FILE = join(__dirname, '..', '.recompute-progress.json');
+
+const argValue = (name: string): string | undefined => {
+  const index = process.argv.indexOf(name);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+};
+
+const readProgress = (file: string): BulkProgress | undefined => {
+  if (!existsSync(file)) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(readFileSync(file, 'utf8'));
+  } catch (err) {
+    console.error(`❌ Could not read ${file}: ${(err as Error).message}`);
+    process.exit(1);
+  }
+};
+
+const printSummary = (summary: BulkSummary, apply: boolean): void => {
+  const rows = Object.entries(summary.bySousCategorie)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([sousCategorie, category]) => ({
+      sous_categorie: sousCategorie,
+      dossiers: category.dossiers,
+      changed: category.changed,
+      required_changes: category.requiredChanges,
+      state_changes: category.stateChanges,
+    }));
+  if (rows.length > 0) {
+    console.table(rows);
+  }
+
+  console.log(`${summary.scanned} dossiers scanned, ${summary.changed} ${apply ? 'changed' : 'would change'}`);
+  if (apply) {
+    console.log(`${summary.written} dossiers written`);
+  }
+  if (summary.failedProperties.length > 0) {
+    console.warn(`⚠️  Properties do not exist, not written: ${summary.failedProperties.join(', ')}`);
+  }
+  summary.failed.forEach(({ objectId, message }) => console.error(`❌ Dossier ${objectId}: ${message}`));
+};
+
+const run = async (): Promise<void> => {
+  const apply = process.argv.includes('--apply');
+  const pageSize = Number(argValue('--page-size') || BATCH_SIZE);
+  const progressFile = argValue('--progress') || DEFAULT_PROGRESS_FILE;
+
+  const token = resolveToken({});
+  if (!token) {
+    console.error('❌ Set PRIVATE_APP_ACCESS_TOKEN to run the recompute');
+    process.exit(1);
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > BATCH_SIZE) {
+    console.error(`❌ --page-size must be between 1 and ${BATCH_SIZE}`);
+    process.exit(1);
+  }
+
+  // Only applied runs are resumed, a dry run is cheap to start over
+  const resume = apply && !process.argv.includes('--restart') ? readProgress(progressFile) : undefined;
+  if (resume && !resume.done) {
+    console.log(`Resuming from ${progressFile} after ${resume.summary.scanned} dossiers`);
+  }
+
+  console.log(apply ? 'Recomputing all dossiers' : 'Dry run, nothing is written (use --apply to write)');
+  const progress = await recomputeAllDossiers(createClient(token), {
+    apply,
+    pageSize,
+    resume: resume && !resume.done ? resume : undefined,
+    onPage: current => {
+      console.log(`- ${current.summary.scanned} dossiers scanned`);
+      if (apply) {
+        writeFileSync(progressFile, JSON.stringify(current, null, 2));
+      }
+    },
+  });
+
+  printSummary(progress.summary, apply);
+  if (apply && existsSync(progressFile)) {
+    unlinkSync(progressFile);
+  }
+  if (progress.summary.failed.length > 0) {
+    process.exit(1);
+  }
+};
+
+run().catch(err => {
+  console.error(`❌ ${err.message}`);
+  console.error('Run the command again to resume');
+  process.exit(1);
+});
@@ -0,0 +1,432 @@
+/**
+ * Offline checks for the document checklist configuration:
+ * documents.json, tabs.json, email.json, reminders.json, states.json, the
+ * conditional property list, the webhook target URL and the options of the
+ * enumeration properties. Repeated documents are checked as templates,
+ * then as the documents they expand to.
+ *
+ * Pure functions only, file access lives in validateConfig.ts.
+ */
+
+import { DOSSIER_STATE_PROPERTY } from '../src/app/core/checklist';
+import { SOUS_CATEGORIE_PROPERTY } from '../src/app/core/documents';
+import { validateEmailTemplate } from '../src/app/core/email';
+import { validateReminderSchedule } from '../src/app/core/reminders';
+import { validateStateMachine, type DossierStateMachine } from '../src/app/core/states';
+import { expandDocumentConfigs, isDocumentTemplate, validateDocumentRepeat, type DocumentEntry } from '../src/app/core/repeat';
+import { collectConditionProperties, isPropertyCondition, validateConditions, type DocumentCondition } from '../src/app/core/conditions';
+import { validateValidity } from '../src/app/core/validity';
+import { checkWebhookTargetUrl } from './webhooks';
+
+/**
+ * HubSpot rejects property internal names longer than this.
+ */
+export const MAX_PROPERTY_NAME_LENGTH = 100;
+
+/**
+ * Catch-all tab showing documents outside the active procedure.
+ * It has no documents of its own.
+ */
+const CATCH_ALL_TAB = 'autre';
+
+export type Severity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: Severity;
+  source: string;
+  message: string;
+}
+
+export interface ConfigInput {
+  documents: unknown;
+  tabs: unknown;
+  /** Conditional property lists keyed by source label, e.g. "core/properties.generated.ts". */
+  conditionalProperties: Record<string, unknown>;
+  /** Missing documents email template, checked when given. */
+  emailTemplate?: unknown;
+  /** Reminder schedule, checked when given. */
+  reminderSchedule?: unknown;
+  /** Dossier state machine, checked when given. */
+  stateMachine?: unknown;
+  /** targetUrl of webhooks.json, checked when given. */
+  webhookTargetUrl?: string;
+  /** Option values of the enumeration properties by name (propertyOptions.json), checked when given. */
+  propertyOptions?: unknown;
+}
+
+export interface ValidationReport {
+  issues: ValidationIssue[];
+  stats: {
+    /** After expanding the repeated documents. */
+    documents: number;
+    /** Repeated documents in documents.json. */
+    templates: number;
+    tabs: number;
+    documentsPerTab: Record<string, number>;
+    conditionProperties: string[];
+    longestPropertyName: { name: string; length: number } | null;
+  };
+}
+
+const isRecord = (value: unknown): value is Record<string, any> => {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+const isNonEmptyString = (value: unknown): value is string => {
+  return typeof value === 'string' && value.trim() !== '';
+};
+
+// sous_categorie values compare like in getTabForNatureDemande
+const normalizeSousCategorie = (value: string): string => value.trim().replace(/\s+/g, ' ');
+
+/**
+ * Validates the configuration files against each other.
+ * Errors make the configuration unusable, warnings point at likely mistakes.
+ */
+export const validateConfig = (input: ConfigInput): ValidationReport => {
+  const issues: ValidationIssue[] = [];
+  const error = (source: string, message: string) => issues.push({ severity: 'error', source, message });
+  const warning = (source: string, message: string) => issues.push({ severity: 'warning', source, message });
+
+  const documentsPerTab: Record<string, number> = {};
+  const conditionProperties = new Set<string>();
+  let longestPropertyName: { name: string; length: number } | null = null;
+
+  // propertyOptions.json, values compared like sous_categorie values
+  const optionsOf = (name: string): Set<string> | null => {
+    const values = isRecord(input.propertyOptions) ? input.propertyOptions[name] : undefined;
+    if (!Array.isArray(values)) {
+      error('propertyOptions.json', `No options for ${name}, run "npm run properties:provision"`);
+      return null;
+    }
+    return new Set(values.map(value => normalizeSousCategorie(String(value))));
+  };
+
+  // tabs.json
+  const tabIds = new Set<string>();
+  const sousCategorieOptions = input.propertyOptions !== undefined ? optionsOf(SOUS_CATEGORIE_PROPERTY) : null;
+  const tabOfSousCategorie = new Map<string, string>();
+  if (!Array.isArray(input.tabs)) {
+    error('tabs.json', 'Expected an array of tabs');
+  } else {
+    input.tabs.forEach((tab, index) => {
+      const source = `tabs.json[${index}]`;
+      if (!isRecord(tab)) {
+        error(source, 'Expected an object');
+        return;
+      }
+      if (!isNonEmptyString(tab.id)) {
+        error(source, 'Missing "id"');
+        return;
+      }
+      if (!isNonEmptyString(tab.title)) {
+        error(`tabs.json#${tab.id}`, 'Missing "title"');
+      }
+      if (tab.description !== undefined && typeof tab.description !== 'string') {
+        error(`tabs.json#${tab.id}`, '"description" must be a string');
+      }
+      if (tabIds.has(tab.id)) {
+        error(`tabs.json#${tab.id}`, `Duplicate tab id "${tab.id}"`);
+      }
+      tabIds.add(tab.id);
+      documentsPerTab[tab.id] = 0;
+
+      const sousCategories = tab.sousCategories ?? [];
+      if (!Array.isArray(sousCategories) || !sousCategories.every(isNonEmptyString)) {
+        error(`tabs.json#${tab.id}`, '"sousCategories" must be an array of sous_categorie values');
+      } else if (tab.id === CATCH_ALL_TAB) {
+        if (sousCategories.length > 0) {
+          error(`tabs.json#${tab.id}`, 'The catch-all tab cannot have "sousCategories"');
+        }
+      } else if (sousCategories.length === 0) {
+        warning(`tabs.json#${tab.id}`, 'No sous_categorie maps to this tab, it is never selected');
+      } else {
+        sousCategories.forEach(value => {
+          if (sousCategorieOptions && !sousCategorieOptions.has(normalizeSousCategorie(value))) {
+            error(`tabs.json#${tab.id}`, `sous_categorie "${value}" is not an option of ${SOUS_CATEGORIE_PROPERTY} in HubSpot`);
+          }
+          const owner = tabOfSousCategorie.get(normalizeSousCategorie(value));
+          if (owner) {
+            error(`tabs.json#${tab.id}`, `sous_categorie "${value}" is already mapped to tab "${owner}"`);
+          } else {
+            tabOfSousCategorie.set(normalizeSousCategorie(value), tab.id);
+          }
+        });
+      }
+    });
+  }
+
+  // documents.json
+  const entries = Array.isArray(input.documents) ? input.documents : [];
+  if (!Array.isArray(input.documents)) {
+    error('documents.json', 'Expected an array of documents');
+  }
+
+  // Templates with an invalid repeat rule are left out of the expansion
+  const templates = entries.filter(isDocumentTemplate);
+  const expandable = entries.filter((entry, index) => {
+    if (!isDocumentTemplate(entry)) {
+      return true;
+    }
+    const source = isNonEmptyString(entry.id) ? `documents.json#${entry.id}` : `documents.json[${index}]`;
+    const repeatIssues = validateDocumentRepeat(entry);
+    repeatIssues.forEach(message => error(source, message));
+    return repeatIssues.length === 0;
+  });
+  const documents: unknown[] = expandDocumentConfigs(expandable as DocumentEntry[]);
+
+  const seenIds = new Map<string, number>();
+  const propertyOwners = new Map<string, string[]>();
+
+  const checkPropertyName = (source: string, field: string, name: unknown, suffix: string) => {
+    if (!isNonEmptyString(name)) {
+      error(source, `Missing "${field}"`);
+      return;
+    }
+    if (name.length > MAX_PROPERTY_NAME_LENGTH) {
+      error(source, `"${field}" is ${name.length} characters long (HubSpot limit is ${MAX_PROPERTY_NAME_LENGTH}): ${name}`);
+    }
+    if (!/^[a-z0-9_]+$/.test(name)) {
+      error(source, `"${field}" must only contain lowercase letters, digits and underscores: ${name}`);
+    }
+    if (!name.endsWith(suffix)) {
+      warning(source, `"${field}" does not end with "${suffix}": ${name}`);
+    }
+    if (!longestPropertyName || name.length > longestPropertyName.length) {
+      longestPropertyName = { name, length: name.length };
+    }
+    propertyOwners.set(name, [...(propertyOwners.get(name) || []), source]);
+  };
+
+  documents.forEach((doc, index) => {
+    if (!isRecord(doc)) {
+      error(`documents.json[${index}]`, 'Expected an object');
+      return;
+    }
+
+    const source = isNonEmptyString(doc.id) ? `documents.json#${doc.id}` : `documents.json[${index}]`;
+
+    if (!isNonEmptyString(doc.id)) {
+      error(source, 'Missing "id"');
+    } else if (seenIds.has(doc.id)) {
+      error(source, `Duplicate document id (also at index ${seenIds.get(doc.id)})`);
+    } else {
+      seenIds.set(doc.id, index);
+    }
+
+    if (!isNonEmptyString(doc.name)) {
+      error(source, 'Missing "name"');
+    } else if (/[\r\n]/.test(doc.name)) {
+      warning(source, 'Document name contains a line break');
+    }
+
+    checkPropertyName(source, 'requiredProperty', doc.requiredProperty, '_required');
+    checkPropertyName(source, 'providedProperty', doc.providedProperty, '_provided');
+    if (isNonEmptyString(doc.requiredProperty) && doc.requiredProperty === doc.providedProperty) {
+      error(source, 'requiredProperty and providedProperty are the same property');
+    }
+
+    if (doc.instructions !== undefined && !isNonEmptyString(doc.instructions)) {
+      error(source, '"instructions" must be a non-empty string');
+    }
+
+    if (doc.validity !== undefined) {
+      validateValidity(doc.validity).forEach(message => error(source, message));
+      checkPropertyName(source, 'dateProperty', doc.dateProperty, '_date');
+    } else if (doc.dateProperty !== undefined) {
+      warning(source, '"dateProperty" is only used with "validity"');
+    }
+
+    if (!isRecord(doc.tabConfig) || Object.keys(doc.tabConfig).length === 0) {
+      error(source, 'Missing "tabConfig" (document is not shown in any tab)');
+      return;
+    }
+
+    Object.entries(doc.tabConfig).forEach(([tabId, tabConfig]) => {
+      const tabSource = `${source} > ${tabId}`;
+
+      if (tabIds.size > 0 && !tabIds.has(tabId)) {
+        error(tabSource, `Unknown tab id "${tabId}" (not declared in tabs.json)`);
+      } else {
+        documentsPerTab[tabId] = (documentsPerTab[tabId] || 0) + 1;
+      }
+
+      if (!isRecord(tabConfig)) {
+        error(tabSource, 'Tab configuration must be an object');
+        return;
+      }
+      if (typeof tabConfig.order !== 'number' || !Number.isFinite(tabConfig.order)) {
+        error(tabSource, '"order" must be a number');
+      }
+      if (!Array.isArray(tabConfig.conditions)) {
+        error(tabSource, '"conditions" must be an array');
+        return;
+      }
+
+      validateConditions(tabConfig.conditions as DocumentCondition[]).forEach(issue => {
+        error(tabSource, `${issue.path}: ${issue.message}`);
+      });
+
+      collectConditionProperties(tabConfig.conditions as DocumentCondition[]).forEach(name => conditionProperties.add(name));
+
+      // The tab must be the one tabs.json selects for the procedures the document is required in
+      if (tabOfSousCategorie.size === 0) return;
+      (tabConfig.conditions as DocumentCondition[])
+        .filter(condition => isRecord(condition) && isPropertyCondition(condition) && condition.property === SOUS_CATEGORIE_PROPERTY
+          && (condition.operator === 'equals' || condition.operator === 'in'))
+        .flatMap(condition => ([] as unknown[]).concat((condition as { value?: unknown }).value))
+        .forEach(value => {
+          const mapped = tabOfSousCategorie.get(normalizeSousCategorie(String(value ?? '')));
+          if (mapped !== tabId) {
+            error(tabSource, `sous_categorie "${value}" is mapped to ${mapped ? `tab "${mapped}"` : 'no tab'} in tabs.json`);
+          }
+        });
+    });
+  });
+
+  propertyOwners.forEach((owners, name) => {
+    if (owners.length > 1) {
+      warning(name, `Property is shared by ${owners.length} documents: ${owners.map(o => o.replace('documents.json#', '')).join(', ')}`);
+    }
+  });
+
+  tabIds.forEach(tabId => {
+    if (tabId !== CATCH_ALL_TAB && !documentsPerTab[tabId]) {
+      warning(`tabs.json#${tabId}`, 'No document references this tab');
+    }
+  });
+
+  // Conditional property lists
+  const lists = Object.entries(input.conditionalProperties);
+  lists.forEach(([label, list]) => {
+    if (!Array.isArray(list) || !list.every(isNonEmptyString)) {
+      error(label, 'Expected an array of property names');
+      return;
+    }
+    const listed = new Set(list);
+    conditionProperties.forEach(name => {
+      if (!listed.has(name)) {
+        error(label, `Condition property "${name}" is not listed, it would never be fetched`);
+      }
+    });
+    list.forEach(name => {
+      if (name.length > MAX_PROPERTY_NAME_LENGTH) {
+        error(label, `"${name}" is ${name.length} characters long (HubSpot limit is ${MAX_PROPERTY_NAME_LENGTH})`);
+      }
+      if (!conditionProperties.has(name)) {
+        warning(label, `"${name}" is not used by any condition`);
+      }
+    });
+    if (listed.size !== list.length) {
+      warning(label, 'List contains duplicate entries');
+    }
+  });
+
+  for (let i = 1; i < lists.length; i++) {
+    const [baseLabel, baseList] = lists[0];
+    const [label, list] = lists[i];
+    if (!Array.isArray(baseList) || !Array.isArray(list)) continue;
+    const onlyInBase = baseList.filter(name => !list.includes(name));
+    const onlyInOther = list.filter(name => !baseList.includes(name));
+    if (onlyInBase.length > 0 || onlyInOther.length > 0) {
+      error(label, `Differs from ${baseLabel}: missing [${onlyInBase.join(', ')}], extra [${onlyInOther.join(', ')}]`);
+    }
+  }
+
+  // email.json
+  if (input.emailTemplate !== undefined) {
+    validateEmailTemplate(input.emailTemplate).forEach(message => error('email.json', message));
+  }
+
+  // reminders.json
+  if (input.reminderSchedule !== undefined) {
+    validateReminderSchedule(input.reminderSchedule).forEach(message => error('reminders.json', message));
+  }
+
+  // states.json
+  if (input.stateMachine !== undefined) {
+    const stateIssues = validateStateMachine(input.stateMachine);
+    stateIssues.forEach(message => error('states.json', message));
+
+    const stateOptions = input.propertyOptions !== undefined && stateIssues.length === 0 ? optionsOf(DOSSIER_STATE_PROPERTY) : null;
+    if (stateOptions) {
+      (input.stateMachine as DossierStateMachine).states
+        .filter(state => !stateOptions.has(state.value))
+        .forEach(state => {
+          error('states.json', `State "${state.value}" is not an option of ${DOSSIER_STATE_PROPERTY}, run "npm run properties:provision -- --apply"`);
+        });
+    }
+  }
+
+  // webhooks.json
+  if (input.webhookTargetUrl !== undefined) {
+    const invalid = checkWebhookTargetUrl(input.webhookTargetUrl);
+    if (invalid) {
+      error('webhooks/webhooks.json', invalid);
+    }
+  }
+
+  return {
+    issues,
+    stats: {
+      documents: documents.length,
+      templates: templates.length,
+      tabs: tabIds.size,
+      documentsPerTab,
+      conditionProperties: Array.from(conditionProperties).sort(),
+      longestPropertyName,
+    },
+  };
+};
+
+/**
+ * Formats a validation report in the style of rebuild_summary.txt.
+ */
+export const formatReport = (report: ValidationReport): string => {
+  const errors = report.issues.filter(issue => issue.severity === 'error');
+  const warnings = report.issues.filter(issue => issue.severity === 'warning');
+  const rule = '='.repeat(80);
+  const lines: string[] = [rule, 'DOCUMENT CONFIG VALIDATION REPORT', rule, ''];
+
+  lines.push('📊 SUMMARY:');
+  lines.push(`- Total documents: ${report.stats.documents}`);
+  if (report.stats.templates > 0) {
+    lines.push(`- Repeated documents: ${report.stats.templates}`);
+  }
+  lines.push(`- Total tabs: ${report.stats.tabs}`);
+  Object.entries(report.stats.documentsPerTab).forEach(([tabId, count]) => {
+    lines.push(`  [${tabId}] ${count} document${count === 1 ? '' : 's'}`);
+  });
+  lines.push(`- Condition properties: ${report.stats.conditionProperties.length}`);
+  if (report.stats.longestPropertyName) {
+    lines.push(`- Longest property name: ${report.stats.longestPropertyName.length} characters`);
+  }
+  lines.push('');
+
+  if (errors.length > 0) {
+    lines.push(`❌ ERRORS (${errors.length}):`);
+    errors.forEach((issue, index) => lines.push(`  [${index + 1}] ${issue.source}: ${issue.message}`));
+    lines.push('');
+  }
+
+  if (warnings.length > 0) {
+    lines.push(`⚠️  WARNINGS (${warnings.length}):`);
+    warnings.forEach((issue, index) => lines.push(`  [${index + 1}] ${issue.source}: ${issue.message}`));
+    lines.push('');
+  }
+
+  const hasError = (pattern: RegExp) => errors.some(issue => pattern.test(issue.message));
+  const status = (failed: boolean) => (failed ? '❌ FAILED' : '✅ PASSED');
+
+  lines.push('✅ VALIDATION STATUS:');
+  lines.push(`- Property name length limit (${MAX_PROPERTY_NAME_LENGTH} chars): ${status(hasError(/HubSpot limit/))}`);
+  lines.push(`- Tab references: ${status(hasError(/Unknown tab id|Duplicate tab id/))}`);
+  lines.push(`- Conditional properties: ${status(hasError(/not listed|Differs from|Out of date/))}`);
+  lines.push(`- Conditions and operators: ${status(errors.some(issue => /conditions\[/.test(issue.message)))}`);
+  lines.push(`- Document ids: ${status(hasError(/Duplicate document id|Missing "id"/))}`);
+  lines.push('');
+  lines.push(errors.length > 0 ? `❌ ${errors.length} error(s), ${warnings.length} warning(s)` : `✅ Valid (${warnings.length} warning(s))`);
+  lines.push(rule);
+
+  return lines.join('\n');
+};
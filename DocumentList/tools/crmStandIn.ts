@@ -0,0 +1,693 @@
+/**
+ * Local stand-in for the HubSpot CRM objects and properties APIs.
+ *
+ * Implements the endpoints the app functions use, with HubSpot's response and
+ * error shapes, so the functions can be run offline by pointing
+ * HUBSPOT_API_BASE_PATH at it.
+ *
+ * Usage: npm run crm:stand-in [-- --port 3999] [--dossiers 50] [--without-document-properties]
+ */
+
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { type AddressInfo } from 'net';
+
+export interface ObjectTypeDefinition {
+  /** Object name, e.g. "p_dossier_juridique". */
+  name: string;
+  /** Object type id, e.g. "2-141688426". */
+  typeId?: string;
+  /** Property names that exist on the object type. */
+  properties: string[];
+  /** Definitions of some of the properties, the others are single-line text. */
+  definitions?: Array<Partial<PropertyDefinition> & { name: string }>;
+  /** Property groups, defaults to "<name>_information" holding every property. */
+  groups?: string[];
+}
+
+/**
+ * Property definition, as returned by the properties API.
+ */
+export interface PropertyDefinition {
+  name: string;
+  label: string;
+  type: string;
+  fieldType: string;
+  groupName: string;
+  description?: string;
+  options?: Array<{ label: string; value: string; displayOrder?: number; hidden?: boolean }>;
+}
+
+export interface StoredObject {
+  id: string;
+  properties: Record<string, string | null>;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Version of a property, as returned in `propertiesWithHistory`.
+ */
+export interface PropertyVersion {
+  value: string | null;
+  timestamp: string;
+}
+
+export interface RecordedRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body: any;
+}
+
+/**
+ * Response returned instead of the normal handling, for fault injection.
+ */
+export interface InjectedFailure {
+  status: number;
+  body?: any;
+  headers?: Record<string, string>;
+  /** Only fail requests whose path matches. Defaults to every request. */
+  path?: RegExp;
+}
+
+const json = (res: ServerResponse, status: number, body: any, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const correlationId = () => `stand-in-${Math.random().toString(16).slice(2, 10)}`;
+
+const readBody = (req: IncomingMessage): Promise<any> => {
+  return new Promise((resolve, reject) => {
+    let data = '';
+    req.on('data', chunk => { data += chunk; });
+    req.on('end', () => {
+      if (!data) {
+        resolve(undefined);
+        return;
+      }
+      try {
+        resolve(JSON.parse(data));
+      } catch (err) {
+        reject(err);
+      }
+    });
+    req.on('error', reject);
+  });
+};
+
+/**
+ * 404 body returned by HubSpot for an unknown object id.
+ */
+export const objectNotFoundBody = (objectId: string) => ({
+  status: 'error',
+  message: `resource not found: ${objectId}`,
+  correlationId: correlationId(),
+  category: 'OBJECT_NOT_FOUND',
+});
+
+/**
+ * Batch response body. Ids not found are reported as one OBJECT_NOT_FOUND error
+ * in a 207 multi-status response, like HubSpot does.
+ */
+export const batchResponseBody = (objectType: string, results: unknown[], missingIds: string[]) => {
+  const now = new Date().toISOString();
+  return {
+    status: 'COMPLETE',
+    results,
+    ...(missingIds.length > 0 && {
+      numErrors: 1,
+      errors: [{
+        status: 'error',
+        category: 'OBJECT_NOT_FOUND',
+        message: `Could not get some ${objectType} objects, they may be deleted or not exist. Check that ids are valid.`,
+        context: { ids: missingIds },
+      }],
+    }),
+    startedAt: now,
+    completedAt: now,
+  };
+};
+
+/**
+ * 400 body returned by HubSpot when a write references properties that do not exist.
+ * Both the message and the `errors` entries carry the property names.
+ */
+export const propertyDoesNotExistBody = (names: string[]) => {
+  const details = names.map(name => ({
+    isValid: false,
+    message: `Property "${name}" does not exist`,
+    error: 'PROPERTY_DOESNT_EXIST',
+    name,
+    localizedErrorMessage: `Property "${name}" does not exist`,
+  }));
+
+  return {
+    status: 'error',
+    message: `Property values were not valid: ${JSON.stringify(details)}`,
+    correlationId: correlationId(),
+    category: 'VALIDATION_ERROR',
+    errors: names.map(name => ({
+      message: `Property "${name}" does not exist`,
+      code: 'PROPERTY_DOESNT_EXIST',
+      context: { propertyName: [name] },
+    })),
+  };
+};
+
+/**
+ * Filter of a search request. Only the operators the app functions use are supported.
+ */
+export interface SearchFilter {
+  propertyName: string;
+  operator: string;
+  value?: string;
+}
+
+const propertyValue = (object: StoredObject, name: string): string | null => {
+  return name === 'hs_object_id' ? object.id : object.properties[name] ?? null;
+};
+
+// Numbers and dates compare as numbers, e.g. a stored YYYY-MM-DD with a timestamp in ms
+const comparable = (value: string): number | string => {
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  const date = /^\d{4}-\d{2}-\d{2}/.test(value) ? Date.parse(value) : NaN;
+  return Number.isNaN(date) ? value : date;
+};
+
+const matchesFilter = (object: StoredObject, filter: SearchFilter): boolean => {
+  const value = propertyValue(object, filter.propertyName);
+  // Like HubSpot, an empty string is no value
+  const known = value !== null && value !== '';
+  if (filter.operator === 'HAS_PROPERTY') return known;
+  if (filter.operator === 'NOT_HAS_PROPERTY') return !known;
+  if (filter.operator === 'EQ') return value === filter.value;
+  if (filter.operator === 'NEQ') return value !== filter.value;
+  if (!known || filter.value === undefined) return false;
+
+  const [left, right] = [comparable(value), comparable(filter.value)];
+  switch (filter.operator) {
+    case 'LT': return left < right;
+    case 'LTE': return left <= right;
+    case 'GT': return left > right;
+    case 'GTE': return left >= right;
+    default: throw new Error(`Unsupported search operator "${filter.operator}"`);
+  }
+};
+
+const compareObjects = (sort?: { propertyName: string; direction?: string }) => (a: StoredObject, b: StoredObject): number => {
+  const name = sort?.propertyName || 'hs_object_id';
+  const [left, right] = [comparable(propertyValue(a, name) ?? ''), comparable(propertyValue(b, name) ?? '')];
+  const order = left < right ? -1 : left > right ? 1 : 0;
+  return sort?.direction === 'DESCENDING' ? -order : order;
+};
+
+export class CrmStandIn {
+  readonly requests: RecordedRequest[] = [];
+
+  private readonly types = new Map<string, ObjectTypeDefinition>();
+  // Property definitions and group names by object type name
+  private readonly definitions = new Map<string, Map<string, PropertyDefinition>>();
+  private readonly groups = new Map<string, string[]>();
+  private readonly objects = new Map<string, Map<string, StoredObject>>();
+  // Versions of each property of an object, oldest first
+  private readonly histories = new WeakMap<StoredObject, Record<string, PropertyVersion[]>>();
+  // Associated ids by "<type>:<id>", then by associated object type
+  private readonly associations = new Map<string, Map<string, string[]>>();
+  private readonly failures: InjectedFailure[] = [];
+  private server: Server | null = null;
+  private nextId = 1000;
+
+  /**
+   * Base path to give to the HubSpot client once started.
+   */
+  url = '';
+
+  defineObjectType(input: ObjectTypeDefinition): this {
+    // Copied, as created properties are added to it
+    const definition = { ...input, properties: [...input.properties] };
+    this.types.set(definition.name, definition);
+    if (definition.typeId) {
+      this.types.set(definition.typeId, definition);
+    }
+    if (!this.objects.has(definition.name)) {
+      this.objects.set(definition.name, new Map());
+    }
+    const groupName = `${definition.name}_information`;
+    const overrides = new Map((definition.definitions || []).map(property => [property.name, property]));
+    this.definitions.set(definition.name, new Map(definition.properties.map(name => [name, {
+      name,
+      label: name,
+      type: 'string',
+      fieldType: 'text',
+      groupName,
+      ...overrides.get(name),
+    }])));
+    this.groups.set(definition.name, definition.groups || [groupName]);
+    return this;
+  }
+
+  /**
+   * Definition of a property, e.g. to check what the properties API created.
+   */
+  getPropertyDefinition(objectType: string, name: string): PropertyDefinition | undefined {
+    return this.definitions.get(this.requireType(objectType).name)?.get(name);
+  }
+
+  /**
+   * Adds an object. Properties must exist on the object type.
+   */
+  createObject(objectType: string, properties: Record<string, string | null> = {}, id?: string): StoredObject {
+    const type = this.requireType(objectType);
+    const unknown = Object.keys(properties).filter(name => !type.properties.includes(name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown properties on ${type.name}: ${unknown.join(', ')}`);
+    }
+
+    const now = new Date().toISOString();
+    const object: StoredObject = {
+      id: id || String(this.nextId++),
+      properties: {},
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.histories.set(object, {});
+    this.applyProperties(object, properties, now);
+    this.objects.get(type.name)!.set(object.id, object);
+    return object;
+  }
+
+  /**
+   * Versions of a property of an object, oldest first.
+   */
+  getPropertyHistory(objectType: string, id: string, name: string): PropertyVersion[] {
+    const object = this.getObject(objectType, id);
+    return object ? [...(this.histories.get(object)?.[name] || [])] : [];
+  }
+
+  /**
+   * Replaces the versions of a property, e.g. to date a value in the past.
+   * The last version becomes the value of the property.
+   */
+  setPropertyHistory(objectType: string, id: string, name: string, versions: PropertyVersion[]): this {
+    const object = this.getObject(objectType, id);
+    if (!object) {
+      throw new Error(`Unknown object ${objectType} ${id}`);
+    }
+    const histories = this.histories.get(object) || {};
+    histories[name] = [...versions];
+    this.histories.set(object, histories);
+    object.properties[name] = versions.length > 0 ? versions[versions.length - 1].value : null;
+    return this;
+  }
+
+  getObject(objectType: string, id: string): StoredObject | undefined {
+    return this.objects.get(this.requireType(objectType).name)?.get(id);
+  }
+
+  /**
+   * Associates two objects, in both directions.
+   */
+  associate(objectType: string, id: string, toObjectType: string, toId: string): this {
+    const from = this.requireType(objectType).name;
+    const to = this.requireType(toObjectType).name;
+    [[from, id, to, toId], [to, toId, from, id]].forEach(([type, objectId, otherType, otherId]) => {
+      const key = `${type}:${objectId}`;
+      const byType = this.associations.get(key) || new Map<string, string[]>();
+      const ids = byType.get(otherType) || [];
+      if (!ids.includes(otherId)) {
+        byType.set(otherType, [...ids, otherId]);
+      }
+      this.associations.set(key, byType);
+    });
+    return this;
+  }
+
+  /**
+   * Makes the next matching requests fail, once per queued failure.
+   */
+  failNext(failure: InjectedFailure, times: number = 1): this {
+    for (let i = 0; i < times; i++) {
+      this.failures.push(failure);
+    }
+    return this;
+  }
+
+  async start(port: number = 0): Promise<string> {
+    this.server = createServer((req, res) => {
+      this.handle(req, res).catch(err => {
+        json(res, 500, { status: 'error', message: err.message, correlationId: correlationId(), category: 'INTERNAL_ERROR' });
+      });
+    });
+    await new Promise<void>(resolve => this.server!.listen(port, '127.0.0.1', resolve));
+    const address = this.server.address() as AddressInfo;
+    this.url = `http://127.0.0.1:${address.port}`;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    if (!this.server) return;
+    await new Promise<void>((resolve, reject) => this.server!.close(err => (err ? reject(err) : resolve())));
+    this.server = null;
+  }
+
+  private requireType(objectType: string): ObjectTypeDefinition {
+    const type = this.types.get(objectType);
+    if (!type) {
+      throw new Error(`Unknown object type "${objectType}"`);
+    }
+    return type;
+  }
+
+  private toPublicObject(type: ObjectTypeDefinition, object: StoredObject, requested: string[], withHistory: string[] = []) {
+    const properties: Record<string, string | null> = {
+      hs_object_id: object.id,
+      hs_createdate: object.createdAt,
+      hs_lastmodifieddate: object.updatedAt,
+    };
+    // HubSpot silently ignores requested properties that do not exist
+    requested.filter(name => type.properties.includes(name)).forEach(name => {
+      properties[name] = object.properties[name] ?? null;
+    });
+    const histories = this.histories.get(object) || {};
+    const propertiesWithHistory: Record<string, Array<PropertyVersion & { sourceType: string }>> = {};
+    withHistory.filter(name => type.properties.includes(name)).forEach(name => {
+      propertiesWithHistory[name] = (histories[name] || []).map(version => ({ ...version, sourceType: 'API' })).reverse();
+    });
+    return {
+      id: object.id,
+      properties,
+      ...(withHistory.length > 0 ? { propertiesWithHistory } : {}),
+      createdAt: object.createdAt,
+      updatedAt: object.updatedAt,
+      archived: false,
+    };
+  }
+
+  /**
+   * `associations` of an object for the requested types, as HubSpot returns them.
+   */
+  private associationsOf(type: ObjectTypeDefinition, object: StoredObject, requested: string | undefined) {
+    const byType = this.associations.get(`${type.name}:${object.id}`);
+    const associations: Record<string, { results: Array<{ id: string; type: string }> }> = {};
+    (requested ? requested.split(',').filter(Boolean) : []).forEach(name => {
+      const other = this.types.get(name);
+      const ids = other ? byType?.get(other.name) || [] : [];
+      if (ids.length > 0) {
+        associations[name] = { results: ids.map(id => ({ id, type: `${type.name}_to_${other!.name}` })) };
+      }
+    });
+    return Object.keys(associations).length > 0 ? { associations } : {};
+  }
+
+  private applyProperties(object: StoredObject, input: Record<string, any>, now: string = new Date().toISOString()) {
+    const histories = this.histories.get(object) || {};
+    Object.entries(input).forEach(([name, value]) => {
+      const stored = value === null || value === undefined ? null : String(value);
+      // Like HubSpot, only changes add a version
+      if (stored !== (object.properties[name] ?? null)) {
+        histories[name] = [...(histories[name] || []), { value: stored, timestamp: now }];
+      }
+      object.properties[name] = stored;
+    });
+    this.histories.set(object, histories);
+    object.updatedAt = now;
+  }
+
+  /**
+   * Properties API: list, batch create and update properties, list and create
+   * groups. Booleans created as enumeration/booleancheckbox are read back as `bool`.
+   */
+  private handleProperties(res: ServerResponse, method: string, objectType: string, route: string | undefined, body: any) {
+    const type = this.types.get(objectType);
+    if (!type) {
+      json(res, 400, { status: 'error', message: `Unable to infer object type from: ${objectType}`, correlationId: correlationId(), category: 'VALIDATION_ERROR' });
+      return;
+    }
+    const definitions = this.definitions.get(type.name)!;
+    const groups = this.groups.get(type.name)!;
+    const toPublicProperty = (property: PropertyDefinition) => ({ options: [], ...property, archived: false, hidden: false });
+
+    if (route === undefined && method === 'GET') {
+      json(res, 200, { results: Array.from(definitions.values()).map(toPublicProperty) });
+      return;
+    }
+
+    if (route === '/groups' && method === 'GET') {
+      json(res, 200, { results: groups.map((name, displayOrder) => ({ name, label: name, displayOrder, archived: false })) });
+      return;
+    }
+
+    if (route === '/groups' && method === 'POST') {
+      if (groups.includes(body?.name)) {
+        json(res, 409, { status: 'error', message: `Property group "${body.name}" already exists`, correlationId: correlationId(), category: 'OBJECT_ALREADY_EXISTS' });
+        return;
+      }
+      groups.push(body.name);
+      json(res, 201, { name: body.name, label: body.label, displayOrder: body.displayOrder ?? -1, archived: false });
+      return;
+    }
+
+    if (route === '/batch/create' && method === 'POST') {
+      const inputs: PropertyDefinition[] = body?.inputs || [];
+      const results: unknown[] = [];
+      const errors: unknown[] = [];
+      inputs.forEach(input => {
+        const problem = definitions.has(input.name)
+          ? { category: 'OBJECT_ALREADY_EXISTS', message: `Property named "${input.name}" already exists` }
+          : !groups.includes(input.groupName)
+            ? { category: 'VALIDATION_ERROR', message: `Property group "${input.groupName}" does not exist` }
+            : null;
+        if (problem) {
+          errors.push({ status: 'error', ...problem, context: { name: [input.name] } });
+          return;
+        }
+        const created = { ...input, type: input.fieldType === 'booleancheckbox' ? 'bool' : input.type };
+        definitions.set(input.name, created);
+        type.properties.push(input.name);
+        results.push(toPublicProperty(created));
+      });
+      const now = new Date().toISOString();
+      json(res, errors.length > 0 ? 207 : 201, {
+        status: 'COMPLETE',
+        results,
+        ...(errors.length > 0 && { numErrors: errors.length, errors }),
+        startedAt: now,
+        completedAt: now,
+      });
+      return;
+    }
+
+    const propertyName = route?.startsWith('/') ? route.slice(1) : '';
+    if (propertyName && method === 'PATCH') {
+      const property = definitions.get(propertyName);
+      if (!property) {
+        json(res, 404, { status: 'error', message: `Property ${propertyName} does not exist`, correlationId: correlationId(), category: 'OBJECT_NOT_FOUND' });
+        return;
+      }
+      const updated = { ...property, ...body };
+      definitions.set(propertyName, updated);
+      json(res, 200, toPublicProperty(updated));
+      return;
+    }
+
+    json(res, 404, { status: 'error', message: `No route for ${method} properties of ${objectType}`, correlationId: correlationId() });
+  }
+
+  private async handle(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url || '/', 'http://stand-in');
+    const query = Object.fromEntries(url.searchParams.entries());
+    const body = await readBody(req);
+    const method = req.method || 'GET';
+    this.requests.push({ method, path: url.pathname, query, body });
+
+    const failureIndex = this.failures.findIndex(failure => !failure.path || failure.path.test(url.pathname));
+    if (failureIndex !== -1) {
+      const [failure] = this.failures.splice(failureIndex, 1);
+      json(res, failure.status, failure.body ?? { status: 'error', message: 'Injected failure', correlationId: correlationId() }, failure.headers);
+      return;
+    }
+
+    const propertiesRoute = url.pathname.match(/^\/crm\/v3\/properties\/([^/]+)(\/batch\/create|\/groups|\/[^/]+)?$/);
+    if (propertiesRoute) {
+      const route = propertiesRoute[2] && decodeURIComponent(propertiesRoute[2]);
+      this.handleProperties(res, method, decodeURIComponent(propertiesRoute[1]), route, body);
+      return;
+    }
+
+    const batchRoute = url.pathname.match(/^\/crm\/v3\/objects\/([^/]+)\/batch\/(read|update)$/);
+    if (batchRoute && method === 'POST') {
+      const [, objectType, operation] = batchRoute.map(decodeURIComponent);
+      const type = this.types.get(objectType);
+      if (!type) {
+        json(res, 400, { status: 'error', message: `Unable to infer object type from: ${objectType}`, correlationId: correlationId(), category: 'VALIDATION_ERROR' });
+        return;
+      }
+      const stored = this.objects.get(type.name)!;
+      const inputs: Array<{ id: string; properties?: Record<string, any> }> = body?.inputs || [];
+
+      if (operation === 'read') {
+        const requested: string[] = body?.properties || [];
+        const withHistory: string[] = body?.propertiesWithHistory || [];
+        const found = inputs.filter(input => stored.has(String(input.id)));
+        const missingIds = inputs.filter(input => !stored.has(String(input.id))).map(input => String(input.id));
+        const results = found.map(input => this.toPublicObject(type, stored.get(String(input.id))!, requested, withHistory));
+        json(res, missingIds.length > 0 ? 207 : 200, batchResponseBody(type.name, results, missingIds));
+        return;
+      }
+
+      // HubSpot validates every input before writing any
+      const unknown = Array.from(new Set(inputs.flatMap(input => Object.keys(input.properties || {})))).filter(name => !type.properties.includes(name));
+      if (unknown.length > 0) {
+        json(res, 400, propertyDoesNotExistBody(unknown));
+        return;
+      }
+      const missingIds = inputs.filter(input => !stored.has(String(input.id))).map(input => String(input.id));
+      const results = inputs.filter(input => stored.has(String(input.id))).map(input => {
+        const object = stored.get(String(input.id))!;
+        this.applyProperties(object, input.properties || {});
+        return this.toPublicObject(type, object, Object.keys(input.properties || {}));
+      });
+      json(res, missingIds.length > 0 ? 207 : 200, batchResponseBody(type.name, results, missingIds));
+      return;
+    }
+
+    const searchRoute = url.pathname.match(/^\/crm\/v3\/objects\/([^/]+)\/search$/);
+    if (searchRoute && method === 'POST') {
+      const type = this.types.get(decodeURIComponent(searchRoute[1]));
+      if (!type) {
+        json(res, 400, { status: 'error', message: `Unable to infer object type from: ${searchRoute[1]}`, correlationId: correlationId(), category: 'VALIDATION_ERROR' });
+        return;
+      }
+      const filterGroups: Array<{ filters?: SearchFilter[] }> = body?.filterGroups || [];
+      const matching = Array.from(this.objects.get(type.name)!.values())
+        .filter(object => filterGroups.length === 0 || filterGroups.some(group => (group.filters || []).every(filter => matchesFilter(object, filter))))
+        .sort(compareObjects(body?.sorts?.[0]));
+      const limit = Math.min(Number(body?.limit) || 10, 200);
+      const offset = Number(body?.after) || 0;
+      const results = matching.slice(offset, offset + limit).map(object => this.toPublicObject(type, object, body?.properties || []));
+      const next = offset + limit < matching.length ? { paging: { next: { after: String(offset + limit) } } } : {};
+      json(res, 200, { total: matching.length, results, ...next });
+      return;
+    }
+
+    // Pages are ordered by id; the `after` cursor is the offset of the next page
+    const listRoute = url.pathname.match(/^\/crm\/v3\/objects\/([^/]+)$/);
+    if (listRoute && method === 'GET') {
+      const type = this.types.get(decodeURIComponent(listRoute[1]));
+      if (!type) {
+        json(res, 400, { status: 'error', message: `Unable to infer object type from: ${listRoute[1]}`, correlationId: correlationId(), category: 'VALIDATION_ERROR' });
+        return;
+      }
+      const all = Array.from(this.objects.get(type.name)!.values()).sort((a, b) => Number(a.id) - Number(b.id) || a.id.localeCompare(b.id));
+      const limit = Math.min(Number(query.limit) || 10, 100);
+      const offset = Number(query.after) || 0;
+      const requested = query.properties ? query.properties.split(',').filter(Boolean) : [];
+      const results = all.slice(offset, offset + limit).map(object => this.toPublicObject(type, object, requested));
+      const next = offset + limit < all.length ? { paging: { next: { after: String(offset + limit) } } } : {};
+      json(res, 200, { results, ...next });
+      return;
+    }
+
+    const objectRoute = url.pathname.match(/^\/crm\/v3\/objects\/([^/]+)\/([^/]+)$/);
+    if (objectRoute) {
+      const [, objectType, objectId] = objectRoute.map(decodeURIComponent);
+      const type = this.types.get(objectType);
+      if (!type) {
+        json(res, 400, { status: 'error', message: `Unable to infer object type from: ${objectType}`, correlationId: correlationId(), category: 'VALIDATION_ERROR' });
+        return;
+      }
+      const object = this.objects.get(type.name)!.get(objectId);
+      if (!object) {
+        json(res, 404, objectNotFoundBody(objectId));
+        return;
+      }
+
+      if (method === 'GET') {
+        const requested = query.properties ? query.properties.split(',').filter(Boolean) : [];
+        json(res, 200, { ...this.toPublicObject(type, object, requested), ...this.associationsOf(type, object, query.associations) });
+        return;
+      }
+
+      if (method === 'PATCH') {
+        const input: Record<string, any> = body?.properties || {};
+        const unknown = Object.keys(input).filter(name => !type.properties.includes(name));
+        if (unknown.length > 0) {
+          json(res, 400, propertyDoesNotExistBody(unknown));
+          return;
+        }
+        this.applyProperties(object, input);
+        json(res, 200, { id: object.id, properties: { ...object.properties }, createdAt: object.createdAt, updatedAt: object.updatedAt, archived: false });
+        return;
+      }
+    }
+
+    json(res, 404, { status: 'error', message: `No route for ${method} ${url.pathname}`, correlationId: correlationId() });
+  }
+}
+
+if (require.main === module) {
+  const portArg = process.argv.indexOf('--port');
+  const port = portArg !== -1 ? Number(process.argv[portArg + 1]) : 3999;
+
+  // Seeded with the dossier object and its document properties, unless
+  // --without-document-properties is set to try the property provisioning
+  const { CONDITIONAL_PROPERTIES } = require('../src/app/core/properties.generated');
+  const { PROPERTY_GROUP, getExpectedProperties } = require('../src/app/functions/provisioning');
+  const { DOCUMENTS_CONFIG } = require('../src/app/functions/recompute');
+  const documentProperties: PropertyDefinition[] = process.argv.includes('--without-document-properties')
+    ? []
+    : getExpectedProperties(DOCUMENTS_CONFIG).map((property: PropertyDefinition) => ({
+      ...property,
+      type: property.fieldType === 'booleancheckbox' ? 'bool' : property.type,
+    }));
+  const standIn = new CrmStandIn().defineObjectType({
+    name: 'p_dossier_juridique',
+    typeId: '2-141688426',
+    properties: [...CONDITIONAL_PROPERTIES, 'documents_completed', 'etat_du_dossier', 'missing_doc', 'send_mail', ...documentProperties.map(property => property.name)],
+    definitions: documentProperties,
+    groups: ['p_dossier_juridique_information', ...(documentProperties.length > 0 ? [PROPERTY_GROUP.name] : [])],
+  }).defineObjectType({
+    name: 'contacts',
+    typeId: '0-1',
+    properties: ['firstname', 'lastname', 'email'],
+  });
+  standIn.createObject('p_dossier_juridique', { sous_categorie: 'Naturalisation par mariage' }, '1');
+  standIn.createObject('contacts', { firstname: 'Marie', lastname: 'Dupont', email: 'marie.dupont@example.com' }, '101');
+  standIn.associate('p_dossier_juridique', '1', 'contacts', '101');
+  // In construction for 10 days, so a reminder is due
+  standIn.setPropertyHistory('p_dossier_juridique', '1', 'missing_doc', [
+    { value: '<ul><li>Passeport</li></ul>', timestamp: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString() },
+  ]);
+  standIn.setPropertyHistory('p_dossier_juridique', '1', 'etat_du_dossier', [
+    { value: 'En construction', timestamp: new Date(Date.now() - 10 * 24 * 60 * 60 * 1000).toISOString() },
+  ]);
+
+  // --dossiers N adds N dossiers spread over the procedures, e.g. to try the bulk recompute
+  const dossiersArg = process.argv.indexOf('--dossiers');
+  const extraDossiers = dossiersArg !== -1 ? Number(process.argv[dossiersArg + 1]) : 0;
+  const SAMPLE_SOUS_CATEGORIES = [
+    'Naturalisation par mariage',
+    'Naturalisation par décret',
+    'Naturalisation par fratrie',
+    'Naturalisation par ascendant',
+    'AES et renouvellement AES',
+  ];
+  for (let i = 0; i < extraDossiers; i++) {
+    standIn.createObject('p_dossier_juridique', { sous_categorie: SAMPLE_SOUS_CATEGORIES[i % SAMPLE_SOUS_CATEGORIES.length] }, String(i + 2));
+  }
+
+  standIn.start(port).then(url => {
+    console.log(`✅ CRM stand-in listening on ${url}`);
+    console.log(`- Dossier 1: sous_categorie = "Naturalisation par mariage", contact marie.dupont@example.com, "En construction" for 10 days`);
+    if (extraDossiers > 0) {
+      console.log(`- Dossiers 2-${extraDossiers + 1}: one of ${SAMPLE_SOUS_CATEGORIES.length} procedures`);
+    }
+    if (documentProperties.length === 0) {
+      console.log('- No document properties, run npm run properties:provision -- --apply to create them');
+    }
+    console.log(`- Run app functions with HUBSPOT_API_BASE_PATH=${url}`);
+  });
+}
@@ -0,0 +1,608 @@
+/**
+ * Converts the document matrix spreadsheet to documents.json entries and back,
+ * and lists the changes between two versions of documents.json.
+ *
+ * The matrix has one row per document and tab, under a header row:
+ *
+ * - `id`: stable id of the document. When empty it is derived from the name,
+ *   so copy it into the column before renaming a document.
+ * - `name`, `instructions`
+ * - `property`: stem of the `_required`/`_provided`/`_date` properties,
+ *   defaults to the id. `required_property`, `provided_property` and
+ *   `date_property` keep legacy names that do not share a stem.
+ * - `validity`: a number of months ("3 mois") or "expiration", and
+ *   `warning_days`.
+ * - `repeat_property`, `repeat_values` (one per line), `repeat_count`,
+ *   `repeat_label`: repeat rule of a document asked once per person.
+ * - `tab`, `sous_categorie`, `order`: a tab of the document, the sous_categorie
+ *   it applies to and the position of the document in it.
+ * - `instances`: for a repeated document, the instances shown in the tab,
+ *   e.g. "2-10".
+ * - `conditions`: one `property operator value` per line, list values separated
+ *   by " | ", or a JSON array of conditions for nested groups.
+ *
+ * Document columns are read from the first row of a document that fills them.
+ * A row without id and name continues the previous document, as with merged
+ * cells.
+ *
+ * Pure functions only, file access lives in importDocuments.ts and exportDocuments.ts.
+ */
+
+import { createHash } from 'crypto';
+
+import {
+  CONDITION_OPERATORS,
+  isPropertyCondition,
+  type ConditionOperator,
+  type DocumentCondition,
+  type PropertyCondition,
+} from '../src/app/core/conditions';
+import { SOUS_CATEGORIE_PROPERTY, type DocumentConfig, type TabConfig } from '../src/app/core/documents';
+import { isDocumentTemplate, MAX_SLUG_LENGTH, type DocumentEntry, type DocumentRepeat, type DocumentTemplate } from '../src/app/core/repeat';
+import { type DocumentValidity } from '../src/app/core/validity';
+import { type ValidationIssue } from './configValidation';
+import { type Rows } from './spreadsheet';
+
+export const MATRIX_COLUMNS = [
+  'id',
+  'name',
+  'property',
+  'required_property',
+  'provided_property',
+  'date_property',
+  'validity',
+  'warning_days',
+  'instructions',
+  'repeat_property',
+  'repeat_values',
+  'repeat_count',
+  'repeat_label',
+  'tab',
+  'sous_categorie',
+  'order',
+  'instances',
+  'conditions',
+] as const;
+
+export type MatrixColumn = typeof MATRIX_COLUMNS[number];
+
+const REQUIRED_COLUMNS: MatrixColumn[] = ['name', 'tab', 'sous_categorie', 'order'];
+
+/**
+ * Columns describing a tab of the document, the others describe the document.
+ */
+const TAB_COLUMNS: MatrixColumn[] = ['tab', 'sous_categorie', 'order', 'instances', 'conditions'];
+
+const VALUE_SEPARATOR = ' | ';
+
+const OPERATORS_WITHOUT_VALUE: ConditionOperator[] = ['is_empty', 'is_not_empty', 'is_known'];
+const LIST_OPERATORS: ConditionOperator[] = ['in', 'not_in', 'between'];
+const NUMERIC_OPERATORS: ConditionOperator[] = ['gt', 'gte', 'lt', 'lte', 'between'];
+
+const NUMBER_PATTERN = /^-?\d+(?:\.\d+)?$/;
+
+type MatrixRow = Partial<Record<MatrixColumn, string>> & { line: number };
+
+export interface MatrixResult {
+  entries: DocumentEntry[];
+  issues: ValidationIssue[];
+}
+
+/**
+ * Id of a document from its name: accents removed, lower case, words joined
+ * by underscores. Names longer than MAX_SLUG_LENGTH are cut and end with a
+ * hash of the full slug, so two long names sharing a beginning keep distinct
+ * ids and the id does not depend on the other documents.
+ */
+export const toDocumentSlug = (name: string): string => {
+  const slug = name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/œ/g, 'oe')
+    .replace(/æ/g, 'ae')
+    .replace(/€/g, ' euro ')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  if (slug.length <= MAX_SLUG_LENGTH) {
+    return slug;
+  }
+  const hash = createHash('sha1').update(slug).digest('hex').slice(0, 6);
+  return `${slug.slice(0, MAX_SLUG_LENGTH - hash.length - 1).replace(/_+$/, '')}_${hash}`;
+};
+
+/**
+ * Document name on one line: spreadsheet cells often hold line breaks.
+ */
+export const normalizeName = (name: string): string => {
+  return name.replace(/\s+/g, ' ').trim();
+};
+
+const lines = (cell: string | undefined): string[] => {
+  return (cell || '').split(/\r?\n/).map(line => line.trim()).filter(line => line !== '');
+};
+
+const parseConditionValue = (operator: ConditionOperator, text: string): PropertyCondition['value'] => {
+  const parts = LIST_OPERATORS.includes(operator) ? text.split(VALUE_SEPARATOR).map(part => part.trim()) : [text];
+  const values = parts.map(part => NUMERIC_OPERATORS.includes(operator) && NUMBER_PATTERN.test(part) ? Number(part) : part);
+  return values.length === 1 ? values[0] : values;
+};
+
+/**
+ * Parses a `conditions` cell. Messages describe the lines that cannot be read.
+ */
+export const parseConditions = (cell: string): { conditions: DocumentCondition[]; errors: string[] } => {
+  const text = cell.trim();
+  if (text.startsWith('[') || text.startsWith('{')) {
+    try {
+      const parsed = JSON.parse(text);
+      return { conditions: Array.isArray(parsed) ? parsed : [parsed], errors: [] };
+    } catch (err) {
+      return { conditions: [], errors: [`conditions are not valid JSON: ${(err as Error).message}`] };
+    }
+  }
+
+  const conditions: DocumentCondition[] = [];
+  const errors: string[] = [];
+  lines(text).forEach(line => {
+    const match = line.match(/^(\S+)\s+(\S+)(?:\s+(.*))?$/);
+    const operator = match?.[2] as ConditionOperator | undefined;
+    if (!match || !operator || !CONDITION_OPERATORS.includes(operator)) {
+      errors.push(`cannot read condition "${line}", expected "property operator value" with one of ${CONDITION_OPERATORS.join(', ')}`);
+      return;
+    }
+    if (OPERATORS_WITHOUT_VALUE.includes(operator)) {
+      conditions.push({ property: match[1], operator });
+    } else {
+      conditions.push({ property: match[1], operator, value: parseConditionValue(operator, match[3] || '') });
+    }
+  });
+  return { conditions, errors };
+};
+
+const isPlainText = (value: unknown): value is string => {
+  return typeof value === 'string' && value !== '' && value === value.trim() && !/[\r\n]/.test(value) && !value.includes(VALUE_SEPARATOR.trim());
+};
+
+/**
+ * Line of a condition, or null when it only reads back as JSON.
+ */
+const formatConditionLine = (condition: DocumentCondition): string | null => {
+  if (!isPropertyCondition(condition) || /\s/.test(condition.property) || !CONDITION_OPERATORS.includes(condition.operator)) {
+    return null;
+  }
+  const { property, operator, value } = condition;
+  if (OPERATORS_WITHOUT_VALUE.includes(operator)) {
+    return value === undefined ? `${property} ${operator}` : null;
+  }
+  const values = Array.isArray(value) ? value : [value];
+  if (values.length === 0 || (values.length > 1 && !LIST_OPERATORS.includes(operator))) {
+    return null;
+  }
+  const text = values.map(item => String(item)).join(VALUE_SEPARATOR);
+  const line = `${property} ${operator} ${text}`;
+  // Only written as a line when it parses back to the same condition
+  const parsed = parseConditions(line).conditions[0];
+  return JSON.stringify(parsed) === JSON.stringify(condition) && values.every(item => typeof item === 'number' || isPlainText(item)) ? line : null;
+};
+
+/**
+ * Renders conditions as a `conditions` cell, in JSON when a line cannot
+ * express one of them.
+ */
+export const formatConditions = (conditions: DocumentCondition[]): string => {
+  const formatted = conditions.map(formatConditionLine);
+  return formatted.every(line => line !== null) ? formatted.join('\n') : JSON.stringify(conditions);
+};
+
+const parseInstances = (cell: string): number[] | null => {
+  const numbers: number[] = [];
+  for (const token of cell.split(/[\s,;]+/).filter(Boolean)) {
+    const range = token.match(/^(\d+)(?:-(\d+))?$/);
+    if (!range) return null;
+    const from = Number(range[1]);
+    const to = range[2] ? Number(range[2]) : from;
+    for (let n = from; n <= to; n++) numbers.push(n);
+  }
+  return numbers;
+};
+
+const formatInstances = (numbers: number[]): string => {
+  const ranges: string[] = [];
+  numbers.forEach((n, index) => {
+    if (index > 0 && n === numbers[index - 1] + 1) {
+      ranges[ranges.length - 1] = `${ranges[ranges.length - 1].split('-')[0]}-${n}`;
+    } else {
+      ranges.push(String(n));
+    }
+  });
+  return ranges.join(', ');
+};
+
+const parseValidity = (cell: string, warningDays: string): DocumentValidity | string => {
+  const months = cell.match(/^(\d+)\s*(?:mois|months?)?$/i);
+  let validity: DocumentValidity;
+  if (months) {
+    validity = { maxAgeMonths: Number(months[1]) };
+  } else if (/^(expiration|expiry)$/i.test(cell)) {
+    validity = { expiryDate: true };
+  } else {
+    return `validity "${cell}" must be a number of months ("3 mois") or "expiration"`;
+  }
+  if (warningDays !== '') {
+    if (!NUMBER_PATTERN.test(warningDays)) {
+      return `warning_days "${warningDays}" must be a number of days`;
+    }
+    validity.warningDays = Number(warningDays);
+  }
+  return validity;
+};
+
+/**
+ * Reads the header row. Columns are matched without case, unknown ones are
+ * reported and ignored.
+ */
+const readHeader = (header: string[], issues: ValidationIssue[]): Map<number, MatrixColumn> => {
+  const columns = new Map<number, MatrixColumn>();
+  header.forEach((cell, index) => {
+    const name = cell.trim().toLowerCase().replace(/\s+/g, '_');
+    if (name === '') return;
+    if ((MATRIX_COLUMNS as readonly string[]).includes(name)) {
+      columns.set(index, name as MatrixColumn);
+    } else {
+      issues.push({ severity: 'warning', source: 'header', message: `Unknown column "${cell}" is ignored` });
+    }
+  });
+  REQUIRED_COLUMNS.filter(column => !Array.from(columns.values()).includes(column)).forEach(column => {
+    issues.push({ severity: 'error', source: 'header', message: `Missing column "${column}"` });
+  });
+  return columns;
+};
+
+interface DocumentRows {
+  rows: MatrixRow[];
+}
+
+/**
+ * Builds documents.json entries from the matrix rows, in the order documents
+ * first appear. Entries are only complete when no error is reported.
+ */
+export const parseDocumentMatrix = (rows: Rows): MatrixResult => {
+  const issues: ValidationIssue[] = [];
+  const [header = [], ...body] = rows;
+  const columns = readHeader(header, issues);
+  if (issues.some(issue => issue.severity === 'error')) {
+    return { entries: [], issues };
+  }
+
+  // Rows of each document, keyed by id, or by name for documents without one
+  const documents = new Map<string, DocumentRows>();
+  let previous: DocumentRows | null = null;
+  body.forEach((cells, index) => {
+    const row: MatrixRow = { line: index + 2 };
+    columns.forEach((column, position) => {
+      const value = (cells[position] || '').trim();
+      if (value !== '') row[column] = value;
+    });
+    if (Object.keys(row).length === 1) {
+      return;
+    }
+    const key = row.id ? `id:${row.id}` : row.name ? `name:${normalizeName(row.name)}` : null;
+    const document = key ? documents.get(key) : previous;
+    if (!document) {
+      if (!key) {
+        issues.push({ severity: 'error', source: `row ${row.line}`, message: 'Row without id or name' });
+        return;
+      }
+      previous = { rows: [row] };
+      documents.set(key, previous);
+      return;
+    }
+    document.rows.push(row);
+    previous = document;
+  });
+
+  const entries: DocumentEntry[] = [];
+  const tabSousCategories = new Map<string, { value: string; line: number }>();
+  const idLines = new Map<string, number>();
+
+  documents.forEach(({ rows: documentRows }) => {
+    const first = documentRows[0];
+    const source = `row ${first.line}`;
+    const error = (message: string, line = first.line) => issues.push({ severity: 'error', source: `row ${line}`, message });
+
+    // Document columns: the first value wins, a different one is an error
+    const fields: Partial<Record<MatrixColumn, string>> = {};
+    documentRows.forEach(row => {
+      MATRIX_COLUMNS.filter(column => !TAB_COLUMNS.includes(column) && row[column] !== undefined).forEach(column => {
+        const value = column === 'name' ? normalizeName(row[column]!) : row[column]!;
+        if (fields[column] === undefined) {
+          fields[column] = value;
+        } else if (fields[column] !== value) {
+          error(`"${column}" differs from row ${first.line} ("${value}" vs "${fields[column]}")`, row.line);
+        }
+      });
+    });
+
+    if (!fields.name) {
+      error('Missing "name"');
+      return;
+    }
+    const repeated = fields.repeat_property !== undefined;
+    if (!fields.id && repeated) {
+      error(`Repeated document "${fields.name}" needs an id with {{n}} or {{value}}`);
+      return;
+    }
+    const id = fields.id || toDocumentSlug(fields.name);
+    if (id === '') {
+      error(`Cannot derive an id from "${fields.name}", set one`);
+      return;
+    }
+    if (!repeated && !/^[a-z0-9_]+$/.test(id)) {
+      error(`id "${id}" may only hold lower case letters, digits and underscores`);
+    }
+    if (idLines.has(id)) {
+      error(`id "${id}" is already used by row ${idLines.get(id)}, set distinct ids`);
+      return;
+    }
+    idLines.set(id, first.line);
+
+    const stem = fields.property || id;
+    let validity: DocumentValidity | undefined;
+    if (fields.validity !== undefined) {
+      const parsed = parseValidity(fields.validity, fields.warning_days || '');
+      if (typeof parsed === 'string') {
+        error(parsed);
+      } else {
+        validity = parsed;
+      }
+    } else if (fields.warning_days !== undefined) {
+      error('"warning_days" needs a "validity"');
+    }
+
+    const tabConfig: Record<string, TabConfig> = {};
+    const instances: Record<string, number[]> = {};
+    documentRows.forEach(row => {
+      if (!row.tab) {
+        if (row.sous_categorie || row.order || row.conditions || row.instances) {
+          error('Missing "tab"', row.line);
+        }
+        return;
+      }
+      if (tabConfig[row.tab]) {
+        error(`Tab "${row.tab}" is listed twice for "${fields.name}", set distinct ids if these are different documents`, row.line);
+        return;
+      }
+      if (!row.sous_categorie) {
+        error(`Missing "sous_categorie" for tab "${row.tab}"`, row.line);
+        return;
+      }
+      const known = tabSousCategories.get(row.tab);
+      if (known && known.value !== row.sous_categorie) {
+        error(`Tab "${row.tab}" is for sous_categorie "${known.value}" on row ${known.line}, not "${row.sous_categorie}"`, row.line);
+      } else if (!known) {
+        tabSousCategories.set(row.tab, { value: row.sous_categorie, line: row.line });
+      }
+      if (!row.order || !/^\d+$/.test(row.order)) {
+        error(`"order" must be a whole number in tab "${row.tab}"`, row.line);
+      }
+      const parsed = parseConditions(row.conditions || '');
+      parsed.errors.forEach(message => error(message, row.line));
+      tabConfig[row.tab] = {
+        order: Number(row.order),
+        conditions: [
+          { property: SOUS_CATEGORIE_PROPERTY, operator: 'equals', value: row.sous_categorie },
+          ...parsed.conditions,
+        ],
+      };
+      if (row.instances !== undefined) {
+        const numbers = parseInstances(row.instances);
+        if (!repeated || !numbers) {
+          error(repeated ? `"instances" must list numbers or ranges, e.g. "2-10"` : '"instances" is only for repeated documents', row.line);
+        } else {
+          instances[row.tab] = numbers;
+        }
+      }
+    });
+
+    if (repeated) {
+      const repeat: DocumentRepeat = { property: fields.repeat_property! };
+      if (fields.repeat_values !== undefined) repeat.values = lines(fields.repeat_values);
+      if (fields.repeat_count !== undefined) repeat.count = Number(fields.repeat_count);
+      if (fields.repeat_label !== undefined) repeat.label = fields.repeat_label;
+      if (Object.keys(instances).length > 0) repeat.tabs = instances;
+      ['required_property', 'provided_property', 'date_property'].filter(column => fields[column as MatrixColumn]).forEach(column => {
+        error(`"${column}" is named from "property" for a repeated document`);
+      });
+      const template: DocumentTemplate = {
+        id,
+        name: fields.name,
+        ...(fields.instructions ? { instructions: fields.instructions } : {}),
+        ...(fields.property ? { propertyStem: fields.property } : {}),
+        repeat,
+        ...(validity ? { validity } : {}),
+        tabConfig,
+      };
+      entries.push(template);
+      return;
+    }
+
+    const config: DocumentConfig = {
+      id,
+      name: fields.name,
+      ...(fields.instructions ? { instructions: fields.instructions } : {}),
+      requiredProperty: fields.required_property || `${stem}_required`,
+      providedProperty: fields.provided_property || `${stem}_provided`,
+      ...(validity ? { validity, dateProperty: fields.date_property || `${stem}_date` } : {}),
+      tabConfig,
+    };
+    if (!validity && fields.date_property) {
+      issues.push({ severity: 'warning', source, message: '"date_property" is ignored without a "validity"' });
+    }
+    entries.push(config);
+  });
+
+  return { entries, issues };
+};
+
+/**
+ * Property stem of an entry, when its properties share one.
+ */
+const getStem = (entry: DocumentConfig): string | null => {
+  const stem = entry.requiredProperty.replace(/_required$/, '');
+  const shared = entry.providedProperty === `${stem}_provided` && (!entry.dateProperty || entry.dateProperty === `${stem}_date`);
+  return entry.requiredProperty.endsWith('_required') && shared ? stem : null;
+};
+
+/**
+ * Renders documents.json entries as matrix rows, so the spreadsheet can start
+ * from the current configuration. Tab conditions must start with the
+ * sous_categorie condition of the tab.
+ */
+export const exportDocumentMatrix = (entries: DocumentEntry[]): { rows: Rows; errors: string[] } => {
+  const rows: Rows = [Array.from(MATRIX_COLUMNS)];
+  const errors: string[] = [];
+
+  entries.forEach(entry => {
+    const fields: Partial<Record<MatrixColumn, string>> = { id: entry.id, name: entry.name };
+    if (entry.instructions) fields.instructions = entry.instructions;
+    if (entry.validity) {
+      fields.validity = entry.validity.expiryDate ? 'expiration' : `${entry.validity.maxAgeMonths} mois`;
+      if (entry.validity.warningDays !== undefined) fields.warning_days = String(entry.validity.warningDays);
+    }
+    if (isDocumentTemplate(entry)) {
+      if (entry.propertyStem) fields.property = entry.propertyStem;
+      fields.repeat_property = entry.repeat.property;
+      if (entry.repeat.values) fields.repeat_values = entry.repeat.values.join('\n');
+      if (entry.repeat.count !== undefined) fields.repeat_count = String(entry.repeat.count);
+      if (entry.repeat.label !== undefined) fields.repeat_label = entry.repeat.label;
+    } else {
+      const stem = getStem(entry);
+      if (stem === null) {
+        fields.required_property = entry.requiredProperty;
+        fields.provided_property = entry.providedProperty;
+        if (entry.dateProperty) fields.date_property = entry.dateProperty;
+      } else if (stem !== entry.id) {
+        fields.property = stem;
+      }
+    }
+
+    Object.entries(entry.tabConfig || {}).forEach(([tabId, tab], index) => {
+      const [first, ...conditions] = tab.conditions || [];
+      if (!first || !isPropertyCondition(first) || first.property !== SOUS_CATEGORIE_PROPERTY || first.operator !== 'equals' || typeof first.value !== 'string') {
+        errors.push(`${entry.id}: the conditions of tab "${tabId}" do not start with a sous_categorie equals condition`);
+        return;
+      }
+      const cells: Partial<Record<MatrixColumn, string>> = {
+        ...(index === 0 ? fields : { id: entry.id }),
+        tab: tabId,
+        sous_categorie: first.value,
+        order: String(tab.order),
+        conditions: formatConditions(conditions),
+      };
+      const only = isDocumentTemplate(entry) ? entry.repeat.tabs?.[tabId] : undefined;
+      if (only) cells.instances = formatInstances(only);
+      rows.push(MATRIX_COLUMNS.map(column => cells[column] || ''));
+    });
+  });
+
+  return { rows, errors };
+};
+
+export interface ChangedDocument {
+  id: string;
+  name: string;
+  /** Top-level fields of the entry that changed, e.g. "tabConfig". */
+  fields: string[];
+}
+
+export interface RenamedDocument {
+  from: { id: string; name: string };
+  to: { id: string; name: string };
+  fields: string[];
+}
+
+export interface DocumentChangelog {
+  added: Array<{ id: string; name: string }>;
+  removed: Array<{ id: string; name: string }>;
+  renamed: RenamedDocument[];
+  changed: ChangedDocument[];
+}
+
+/**
+ * Key of the stored data of an entry: documents keeping their properties are
+ * the same document under another id.
+ */
+const getPropertyKey = (entry: DocumentEntry): string => {
+  return isDocumentTemplate(entry) ? `stem:${entry.propertyStem || entry.id}` : `provided:${entry.providedProperty}`;
+};
+
+const changedFields = (before: DocumentEntry, after: DocumentEntry): string[] => {
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  return keys.filter(key => !['id', 'name'].includes(key)
+    && JSON.stringify((before as any)[key]) !== JSON.stringify((after as any)[key]));
+};
+
+/**
+ * Changes from one documents.json to the next. A document is renamed when it
+ * keeps its id under another name, or its properties under another id.
+ */
+export const diffDocuments = (before: DocumentEntry[], after: DocumentEntry[]): DocumentChangelog => {
+  const changelog: DocumentChangelog = { added: [], removed: [], renamed: [], changed: [] };
+  const previous = new Map(before.map(entry => [entry.id, entry]));
+  const next = new Map(after.map(entry => [entry.id, entry]));
+
+  const removed = before.filter(entry => !next.has(entry.id));
+  const removedByProperties = new Map(removed.map(entry => [getPropertyKey(entry), entry]));
+  const renamedFrom = new Set<string>();
+
+  after.forEach(entry => {
+    const old = previous.get(entry.id) || removedByProperties.get(getPropertyKey(entry));
+    if (!old || (old.id !== entry.id && renamedFrom.has(old.id))) {
+      changelog.added.push({ id: entry.id, name: entry.name });
+      return;
+    }
+    const fields = changedFields(old, entry);
+    if (old.id !== entry.id || old.name !== entry.name) {
+      renamedFrom.add(old.id);
+      changelog.renamed.push({ from: { id: old.id, name: old.name }, to: { id: entry.id, name: entry.name }, fields });
+    } else if (fields.length > 0) {
+      changelog.changed.push({ id: entry.id, name: entry.name, fields });
+    }
+  });
+
+  removed.filter(entry => !renamedFrom.has(entry.id)).forEach(entry => {
+    changelog.removed.push({ id: entry.id, name: entry.name });
+  });
+
+  return changelog;
+};
+
+export const isChangelogEmpty = (changelog: DocumentChangelog): boolean => {
+  return Object.values(changelog).every(list => list.length === 0);
+};
+
+/**
+ * Renders the changelog as a Markdown section.
+ */
+export const formatChangelog = (changelog: DocumentChangelog, date: string): string => {
+  const lines = [`## ${date}`, ''];
+  if (isChangelogEmpty(changelog)) {
+    return [...lines, 'No changes.', ''].join('\n');
+  }
+  const section = <T>(title: string, items: T[], render: (item: T) => string) => {
+    if (items.length === 0) return;
+    lines.push(`### ${title} (${items.length})`, '', ...items.map(item => `- ${render(item)}`), '');
+  };
+  const fieldList = (fields: string[]) => fields.length > 0 ? ` (${fields.join(', ')} changed)` : '';
+
+  section('Added', changelog.added, item => `\`${item.id}\` ${item.name}`);
+  section('Removed', changelog.removed, item => `\`${item.id}\` ${item.name}`);
+  section('Renamed', changelog.renamed, item => {
+    const id = item.from.id === item.to.id ? `\`${item.to.id}\`` : `\`${item.from.id}\` → \`${item.to.id}\``;
+    const name = item.from.name === item.to.name ? item.to.name : `"${item.from.name}" → "${item.to.name}"`;
+    return `${id} ${name}${fieldList(item.fields)}`;
+  });
+  section('Changed', changelog.changed, item => `\`${item.id}\` ${item.name}${fieldList(item.fields)}`);
+  return lines.join('\n');
+};
@@ -0,0 +1,30 @@
+/**
+ * Writes documents.json as a document matrix CSV, to start the spreadsheet
+ * from the current configuration. Ids and properties are written out so
+ * importing the file keeps them.
+ *
+ * Usage: npm run documents:export -- matrix.csv
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+import { exportDocumentMatrix } from './documentMatrix';
+import { renderCsv } from './spreadsheet';
+
+const DOCUMENTS_FILE = join(__dirname, '..', 'src', 'app', 'extensions', 'documents.json');
+
+const file = process.argv[2];
+if (!file) {
+  console.error('❌ Usage: npm run documents:export -- <matrix.csv>');
+  process.exit(1);
+}
+
+const { rows, errors } = exportDocumentMatrix(JSON.parse(readFileSync(DOCUMENTS_FILE, 'utf8')));
+if (errors.length > 0) {
+  errors.forEach(message => console.error(`❌ ${message}`));
+  process.exit(1);
+}
+
+writeFileSync(file, renderCsv(rows));
+console.log(`✅ Wrote ${file} (${rows.length - 1} rows)`);
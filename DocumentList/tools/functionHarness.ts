@@ -0,0 +1,107 @@
+/**
+ * Runs an app function's `exports.main` locally with a fake serverless context.
+ *
+ * The functions read their token and object type from process.env, so the
+ * harness sets the given environment for the duration of the call and restores
+ * it afterwards. Point HUBSPOT_API_BASE_PATH at the CRM stand-in to run offline.
+ *
+ * Usage: npm run function -- <name> '<parameters JSON>'
+ */
+
+import * as path from 'path';
+
+import { type AppFunctionName, type AppFunctions, type FunctionContext } from '../src/app/core/functions';
+
+export const APP_FUNCTIONS_DIR = path.resolve(__dirname, '../src/app/app.functions');
+
+export interface RunOptions {
+  /** Passed as context.parameters. */
+  parameters?: Record<string, any>;
+  /** Passed as context.propertiesToSend. */
+  propertiesToSend?: Record<string, any>;
+  /** Request body, for functions exposed as an endpoint. */
+  body?: unknown;
+  /** Request headers, lower-cased, for functions exposed as an endpoint. */
+  headers?: Record<string, string>;
+  /** Environment variables set while the function runs; undefined unsets a variable. */
+  env?: Record<string, string | undefined>;
+}
+
+/**
+ * Builds the context HubSpot passes to an app function called from a card,
+ * or to an endpoint function with the request body.
+ */
+export const createContext = (
+  { parameters = {}, propertiesToSend = {}, body, headers }: RunOptions = {}
+): FunctionContext<Record<string, any>> & { body?: unknown; headers?: Record<string, string> } => ({
+  parameters,
+  propertiesToSend,
+  secrets: {},
+  ...(body !== undefined ? { body } : {}),
+  ...(headers !== undefined ? { headers } : {}),
+});
+
+const withEnv = async <T>(env: Record<string, string | undefined>, fn: () => Promise<T>): Promise<T> => {
+  const previous: Record<string, string | undefined> = {};
+  Object.entries(env).forEach(([name, value]) => {
+    previous[name] = process.env[name];
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  });
+
+  try {
+    return await fn();
+  } finally {
+    Object.entries(previous).forEach(([name, value]) => {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    });
+  }
+};
+
+/**
+ * Compiled file of an app function, as declared in serverless.json.
+ */
+export const resolveAppFunction = (name: string): string => {
+  const { appFunctions } = require(path.join(APP_FUNCTIONS_DIR, 'serverless.json'));
+  const entry = appFunctions?.[name];
+  if (!entry) {
+    throw new Error(`Unknown app function "${name}"`);
+  }
+  return path.join(APP_FUNCTIONS_DIR, entry.file);
+};
+
+/**
+ * Calls `exports.main` of an app function and returns its result.
+ * Functions are compiled from src/app/functions by `npm run build`.
+ */
+export async function runAppFunction<N extends AppFunctionName>(name: N, options?: RunOptions): Promise<AppFunctions[N]['result']>;
+export async function runAppFunction(name: string, options?: RunOptions): Promise<any>;
+export async function runAppFunction(name: string, options: RunOptions = {}): Promise<any> {
+  const { main } = require(resolveAppFunction(name));
+  if (typeof main !== 'function') {
+    throw new Error(`${name} does not export main`);
+  }
+  return withEnv(options.env || {}, () => main(createContext(options)));
+}
+
+if (require.main === module) {
+  const [name, parametersJson] = process.argv.slice(2);
+  if (!name) {
+    console.error('Usage: npm run function -- <name> \'<parameters JSON>\'');
+    process.exit(1);
+  }
+
+  runAppFunction(name, { parameters: parametersJson ? JSON.parse(parametersJson) : {} })
+    .then(result => console.log(JSON.stringify(result, null, 2)))
+    .catch(err => {
+      console.error(`❌ ${err.message}`);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,68 @@
+/**
+ * Regenerates src/app/core/properties.generated.ts and src/app/webhooks/webhooks.json
+ * from documents.json.
+ *
+ * Usage: npm run generate
+ *        npm run generate -- --check   (exit 1 if a file is out of date)
+ *        WEBHOOK_TARGET_URL=https://... npm run generate   (sets the webhook target URL)
+ */
+
+import { readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+import { deriveProperties, GENERATED_MODULE_PATH, renderPropertiesModule } from './properties';
+import { checkWebhookTargetUrl, readWebhookSettings, renderWebhooks, WEBHOOKS_PATH } from './webhooks';
+
+const ROOT_DIR = join(__dirname, '..');
+const DOCUMENTS_FILE = join(ROOT_DIR, 'src', 'app', 'extensions', 'documents.json');
+
+const checkOnly = process.argv.includes('--check');
+
+const readCurrent = (path: string): string => {
+  try {
+    return readFileSync(join(ROOT_DIR, path), 'utf8');
+  } catch (err) {
+    // First generation
+    return '';
+  }
+};
+
+const documents = JSON.parse(readFileSync(DOCUMENTS_FILE, 'utf8'));
+const derived = deriveProperties(documents);
+
+const currentWebhooks = readCurrent(WEBHOOKS_PATH);
+const webhookSettings = readWebhookSettings(currentWebhooks);
+if (process.env['WEBHOOK_TARGET_URL']) {
+  webhookSettings.targetUrl = process.env['WEBHOOK_TARGET_URL'];
+  const invalid = checkWebhookTargetUrl(webhookSettings.targetUrl);
+  if (invalid) {
+    console.error(`❌ WEBHOOK_TARGET_URL: ${invalid}`);
+    process.exit(1);
+  }
+}
+
+const outputs = [
+  { path: GENERATED_MODULE_PATH, current: readCurrent(GENERATED_MODULE_PATH), content: renderPropertiesModule(derived) },
+  { path: WEBHOOKS_PATH, current: currentWebhooks, content: renderWebhooks(derived.conditionalProperties, webhookSettings) },
+];
+
+if (checkOnly) {
+  const stale = outputs.filter(output => output.current !== output.content);
+  stale.forEach(output => console.error(`❌ ${output.path} is out of date, run "npm run generate"`));
+  if (stale.length > 0) {
+    process.exit(1);
+  }
+  outputs.forEach(output => console.log(`✅ ${output.path} is up to date`));
+} else {
+  outputs.forEach(output => {
+    writeFileSync(join(ROOT_DIR, output.path), output.content);
+    console.log(`✅ Wrote ${output.path}`);
+  });
+  console.log(`- Conditional properties: ${derived.conditionalProperties.length}`);
+  console.log(`- Document properties: ${derived.documentProperties.length}`);
+  console.log(`- Date properties: ${derived.dateProperties.length}`);
+  const invalid = checkWebhookTargetUrl(webhookSettings.targetUrl);
+  if (invalid) {
+    console.warn(`⚠️  ${WEBHOOKS_PATH}: ${invalid}`);
+  }
+}
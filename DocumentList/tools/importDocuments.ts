@@ -0,0 +1,92 @@
+/**
+ * Generates documents.json from the document matrix spreadsheet (CSV or XLSX)
+ * and prints the documents added, removed, renamed and changed.
+ *
+ * The generated documents are validated against tabs.json before anything is
+ * written. Run "npm run generate" afterwards to update the property lists.
+ * With --changelog the changes are prepended to a Markdown file, so the most
+ * recent import comes first.
+ *
+ * Usage: npm run documents:import -- matrix.xlsx
+ *        npm run documents:import -- matrix.csv --check   (exit 1 if documents.json differs)
+ *        npm run documents:import -- matrix.csv --changelog documents-changelog.md
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+import { formatReport, validateConfig } from './configValidation';
+import { diffDocuments, formatChangelog, isChangelogEmpty, parseDocumentMatrix } from './documentMatrix';
+import { readSpreadsheet } from './spreadsheet';
+
+const ROOT_DIR = join(__dirname, '..');
+const DOCUMENTS_FILE = join(ROOT_DIR, 'src', 'app', 'extensions', 'documents.json');
+const TABS_FILE = join(ROOT_DIR, 'src', 'app', 'extensions', 'tabs.json');
+
+const argValue = (name: string): string | undefined => {
+  const index = process.argv.indexOf(name);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+};
+
+const run = (): void => {
+  const checkOnly = process.argv.includes('--check');
+  const changelogFile = argValue('--changelog');
+  const file = process.argv.slice(2).find(arg => !arg.startsWith('--') && arg !== changelogFile);
+  if (!file) {
+    console.error('❌ Usage: npm run documents:import -- <matrix.csv|matrix.xlsx> [--check] [--changelog <file.md>]');
+    process.exit(1);
+  }
+
+  const { entries, issues } = parseDocumentMatrix(readSpreadsheet(file, readFileSync(file)));
+  issues.forEach(issue => {
+    const log = issue.severity === 'error' ? console.error : console.warn;
+    log(`${issue.severity === 'error' ? '❌' : '⚠️ '} ${issue.source}: ${issue.message}`);
+  });
+  if (issues.some(issue => issue.severity === 'error')) {
+    process.exit(1);
+  }
+
+  const report = validateConfig({
+    documents: entries,
+    tabs: JSON.parse(readFileSync(TABS_FILE, 'utf8')),
+    conditionalProperties: {},
+  });
+  if (report.issues.some(issue => issue.severity === 'error')) {
+    console.log(formatReport(report));
+    console.error('❌ The generated documents are invalid, documents.json was not written');
+    process.exit(1);
+  }
+
+  const current = readFileSync(DOCUMENTS_FILE, 'utf8');
+  const content = JSON.stringify(entries, null, 2);
+  const changelog = diffDocuments(JSON.parse(current), entries);
+  const section = formatChangelog(changelog, new Date().toISOString().slice(0, 10));
+  console.log(section);
+
+  if (checkOnly) {
+    if (content !== current) {
+      console.error('❌ documents.json differs from the matrix, run "npm run documents:import"');
+      process.exit(1);
+    }
+    console.log('✅ documents.json is up to date');
+    return;
+  }
+
+  writeFileSync(DOCUMENTS_FILE, content);
+  console.log(`✅ Wrote documents.json (${entries.length} entries)`);
+  if (changelogFile && !isChangelogEmpty(changelog)) {
+    const previous = existsSync(changelogFile) ? readFileSync(changelogFile, 'utf8') : '';
+    writeFileSync(changelogFile, `${section}\n${previous}`);
+    console.log(`✅ Added the changes at the top of ${changelogFile}`);
+  }
+  if (content !== current) {
+    console.log('Run "npm run generate" to update the property lists and webhooks');
+  }
+};
+
+try {
+  run();
+} catch (err) {
+  console.error(`❌ ${(err as Error).message}`);
+  process.exit(1);
+}
@@ -0,0 +1,95 @@
+/**
+ * Derives the HubSpot property lists used by the card and the app functions
+ * from documents.json, and renders them as the generated core module.
+ * Repeated documents are expanded first, so every instance property is listed.
+ */
+
+import { collectConditionProperties } from '../src/app/core/conditions';
+import { expandDocumentConfigs, type DocumentEntry } from '../src/app/core/repeat';
+
+/**
+ * Always fetched first: it selects the active tab.
+ */
+const TAB_SELECTION_PROPERTY = 'sous_categorie';
+
+export const GENERATED_MODULE_PATH = 'src/app/core/properties.generated.ts';
+
+export interface DerivedProperties {
+  conditionalProperties: string[];
+  documentProperties: string[];
+  dateProperties: string[];
+}
+
+/**
+ * Collects every property referenced by a condition, every document
+ * required/provided property and every document date property, in first-seen order.
+ */
+export const deriveProperties = (entries: DocumentEntry[]): DerivedProperties => {
+  const documents = expandDocumentConfigs(entries);
+  const conditional = new Set<string>([TAB_SELECTION_PROPERTY]);
+  const documentProperties = new Set<string>();
+  const dateProperties = new Set<string>();
+
+  documents.forEach(doc => {
+    Object.values(doc.tabConfig || {}).forEach(tabConfig => {
+      collectConditionProperties(tabConfig.conditions || []).forEach(name => conditional.add(name));
+    });
+    if (doc.requiredProperty) documentProperties.add(doc.requiredProperty);
+    if (doc.providedProperty) documentProperties.add(doc.providedProperty);
+    if (doc.dateProperty) dateProperties.add(doc.dateProperty);
+  });
+
+  return {
+    conditionalProperties: Array.from(conditional),
+    documentProperties: Array.from(documentProperties),
+    dateProperties: Array.from(dateProperties),
+  };
+};
+
+const renderList = (names: string[]): string => {
+  return names.map(name => `  ${JSON.stringify(name)},`).join('\n');
+};
+
+/**
+ * Renders the generated module. Output is deterministic for a given documents.json.
+ */
+export const renderPropertiesModule = (derived: DerivedProperties): string => {
+  return `/**
+ * GENERATED FILE - do not edit.
+ * Derived from extensions/documents.json by tools/generateProperties.ts (npm run generate).
+ */
+
+/**
+ * Record properties referenced by document conditions.
+ * Every one of them must be fetched, otherwise its conditions evaluate against an empty value.
+ */
+export const CONDITIONAL_PROPERTIES: readonly string[] = [
+${renderList(derived.conditionalProperties)}
+];
+
+/**
+ * Document required/provided properties.
+ */
+export const DOCUMENT_PROPERTIES: readonly string[] = [
+${renderList(derived.documentProperties)}
+];
+
+/**
+ * Date properties of the documents with a validity rule.
+ */
+export const DATE_PROPERTIES: readonly string[] = [
+${renderList(derived.dateProperties)}
+];
+`;
+};
+
+/**
+ * Options of the HubSpot enumeration properties the configuration refers to,
+ * as last read by npm run properties:provision, so npm run validate can check
+ * states.json and tabs.json offline.
+ */
+export const PROPERTY_OPTIONS_PATH = 'src/app/extensions/propertyOptions.json';
+
+export const renderPropertyOptions = (optionValues: Record<string, string[]>): string => {
+  return `${JSON.stringify(optionValues, null, 2)}\n`;
+};
@@ -0,0 +1,73 @@
+/**
+ * Creates the dossier properties documents.json and the app need, e.g. before
+ * deploying new documents.
+ *
+ * Runs as a dry run by default and lists the properties to create, the
+ * options missing from etat_du_dossier, the existing properties with another
+ * field type and the orphaned ones. With --apply the missing properties are
+ * created in the checklist property group and the missing options added.
+ * Orphaned properties are never deleted. Either way the options of
+ * etat_du_dossier and sous_categorie are saved to propertyOptions.json for
+ * npm run validate. Point HUBSPOT_API_BASE_PATH at the CRM stand-in to run
+ * offline.
+ *
+ * Usage: npm run properties:provision [-- --apply]
+ */
+
+import { writeFileSync } from 'fs';
+import { join } from 'path';
+
+import { createClient, resolveToken } from '../src/app/functions/hubspot';
+import { PROPERTY_GROUP, provisionProperties, type ProvisioningSummary } from '../src/app/functions/provisioning';
+import { PROPERTY_OPTIONS_PATH, renderPropertyOptions } from './properties';
+
+const ROOT_DIR = join(__dirname, '..');
+
+const printSummary = (summary: ProvisioningSummary, apply: boolean): void => {
+  if (summary.create.length > 0) {
+    console.table(summary.create.map(property => ({
+      name: property.name,
+      label: property.label,
+      fieldType: property.fieldType,
+    })));
+  }
+
+  if (summary.createGroup) {
+    console.log(`Property group "${PROPERTY_GROUP.name}" ${apply ? 'created' : 'will be created'}`);
+  }
+  console.log(`${summary.existing} properties exist, ${summary.create.length} missing`);
+  summary.addOptions.forEach(({ name, missing }) => {
+    console.log(`${name}: ${apply ? 'added' : 'will add'} the options ${missing.map(value => `"${value}"`).join(', ')}`);
+  });
+  if (apply) {
+    console.log(`${summary.created.length} properties created, ${summary.updated.length} updated`);
+  }
+  summary.mismatched.forEach(({ name, expected, actual }) => console.warn(`⚠️  ${name} is a ${actual} field, expected ${expected}`));
+  summary.orphaned.forEach(({ name, label }) => console.warn(`⚠️  ${name} (${label}) is not used by documents.json`));
+  summary.failed.forEach(({ names, message }) => console.error(`❌ ${names.join(', ') || 'Properties'}: ${message}`));
+};
+
+const run = async (): Promise<void> => {
+  const apply = process.argv.includes('--apply');
+
+  const token = resolveToken({});
+  if (!token) {
+    console.error('❌ Set PRIVATE_APP_ACCESS_TOKEN to provision the properties');
+    process.exit(1);
+  }
+
+  console.log(apply ? 'Creating the missing properties and options' : 'Dry run, nothing is created (use --apply to create)');
+  const summary = await provisionProperties(createClient(token), { apply });
+
+  printSummary(summary, apply);
+  writeFileSync(join(ROOT_DIR, PROPERTY_OPTIONS_PATH), renderPropertyOptions(summary.optionValues));
+  console.log(`✅ Wrote ${PROPERTY_OPTIONS_PATH}`);
+  if (summary.failed.length > 0) {
+    process.exit(1);
+  }
+};
+
+run().catch(err => {
+  console.error(`❌ ${err.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,79 @@
+/**
+ * Sends the reminders due for dossiers missing documents, like the
+ * sendReminders endpoint, e.g. from a local cron.
+ *
+ * Runs as a dry run by default and lists the reminders due. With --apply the
+ * reminders are sent through the transport of the mail_* and smtp_*
+ * environment variables (mail_transport=console or file to try it out).
+ * --date runs the schedule as of another day. Point HUBSPOT_API_BASE_PATH at
+ * the CRM stand-in to run offline.
+ *
+ * Usage: npm run reminders [-- --apply] [--date 2025-06-15] [--max 20]
+ */
+
+import { BATCH_SIZE, createClient, resolveToken } from '../src/app/functions/hubspot';
+import { resolveMailSettings } from '../src/app/functions/mail';
+import { REMINDER_SCHEDULE, sendDueReminders, type ReminderSummary } from '../src/app/functions/reminders';
+
+const argValue = (name: string): string | undefined => {
+  const index = process.argv.indexOf(name);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+};
+
+const printSummary = (summary: ReminderSummary, apply: boolean): void => {
+  if (summary.due.length > 0) {
+    console.table(summary.due.map(due => ({
+      dossier: due.objectId,
+      to: due.to,
+      reminder: `${due.reminder}/${REMINDER_SCHEDULE.maxReminders}`,
+      missing_documents: due.missing,
+    })));
+  }
+
+  console.log(`${summary.scanned} dossiers scanned, ${summary.awaiting} waiting for documents, ${summary.due.length} reminders due`);
+  if (apply) {
+    console.log(`${summary.sent} reminders sent`);
+  }
+  summary.skipped.forEach(({ objectId, reason }) => console.warn(`⚠️  Dossier ${objectId}: ${reason}`));
+  summary.failed.forEach(({ objectId, code, message }) => console.error(`❌ Dossier ${objectId}: ${code} - ${message}`));
+};
+
+const run = async (): Promise<void> => {
+  const apply = process.argv.includes('--apply');
+  const date = argValue('--date');
+  const max = argValue('--max');
+  const now = date ? new Date(date) : new Date();
+
+  const token = resolveToken({});
+  if (!token) {
+    console.error('❌ Set PRIVATE_APP_ACCESS_TOKEN to run the reminders');
+    process.exit(1);
+  }
+  if (isNaN(now.getTime())) {
+    console.error('❌ --date must be a date, e.g. 2025-06-15');
+    process.exit(1);
+  }
+  if (max !== undefined && (!Number.isInteger(Number(max)) || Number(max) < 1)) {
+    console.error('❌ --max must be a positive integer');
+    process.exit(1);
+  }
+
+  console.log(apply ? 'Sending the reminders due' : 'Dry run, nothing is sent (use --apply to send)');
+  const summary = await sendDueReminders(createClient(token), {
+    apply,
+    mail: apply ? resolveMailSettings() : undefined,
+    now,
+    pageSize: BATCH_SIZE,
+    maxReminders: max !== undefined ? Number(max) : undefined,
+  });
+
+  printSummary(summary, apply);
+  if (summary.failed.length > 0) {
+    process.exit(1);
+  }
+};
+
+run().catch(err => {
+  console.error(`❌ ${err.message}`);
+  process.exit(1);
+});
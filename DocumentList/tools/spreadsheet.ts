@@ -0,0 +1,236 @@
+/**
+ * Reads the rows of a CSV or XLSX file as text cells, and writes CSV.
+ *
+ * XLSX files are read with the zlib module only: the first worksheet, shared
+ * and inline strings, numbers as their stored text. Formulas give their last
+ * computed value. CSV files may be separated by commas or semicolons (French
+ * Excel) and start with a byte order mark.
+ */
+
+import { inflateRawSync } from 'zlib';
+
+export type Rows = string[][];
+
+/**
+ * Thrown when a file cannot be read as a spreadsheet.
+ */
+export class SpreadsheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SpreadsheetError';
+  }
+}
+
+const BOM = '\uFEFF';
+
+/**
+ * Picks the separator of the first line: semicolons when there are more of
+ * them than commas outside quotes.
+ */
+const detectSeparator = (text: string): string => {
+  let commas = 0;
+  let semicolons = 0;
+  let quoted = false;
+  for (const char of text) {
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && (char === '\n' || char === '\r')) break;
+    else if (!quoted && char === ',') commas++;
+    else if (!quoted && char === ';') semicolons++;
+  }
+  return semicolons > commas ? ';' : ',';
+};
+
+/**
+ * Parses CSV text (RFC 4180 quoting, cells may span lines).
+ */
+export const parseCsv = (content: string): Rows => {
+  const text = content.startsWith(BOM) ? content.slice(1) : content;
+  const separator = detectSeparator(text);
+  const rows: Rows = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[index + 1] === '\n') index++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (quoted) {
+    throw new SpreadsheetError('Unterminated quoted cell');
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+/**
+ * Renders rows as CSV separated by semicolons, with a byte order mark so
+ * Excel opens accented text as UTF-8.
+ */
+export const renderCsv = (rows: Rows): string => {
+  const quote = (cell: string) => /[";\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+  return BOM + rows.map(row => row.map(quote).join(';')).join('\r\n') + '\r\n';
+};
+
+/**
+ * Files of a ZIP archive, by name. Only stored and deflated entries are read.
+ */
+const readZip = (buffer: Buffer): Map<string, Buffer> => {
+  const END_OF_DIRECTORY = 0x06054b50;
+  let end = -1;
+  for (let offset = buffer.length - 22; offset >= Math.max(0, buffer.length - 22 - 0xffff); offset--) {
+    if (buffer.readUInt32LE(offset) === END_OF_DIRECTORY) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new SpreadsheetError('Not an XLSX file (no ZIP directory found)');
+  }
+
+  const files = new Map<string, Buffer>();
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+  for (let index = 0; index < count; index++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new SpreadsheetError('Corrupt ZIP directory');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const size = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localHeader = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    const dataStart = localHeader + 30 + buffer.readUInt16LE(localHeader + 26) + buffer.readUInt16LE(localHeader + 28);
+    const data = buffer.subarray(dataStart, dataStart + size);
+    if (method === 0) {
+      files.set(name, data);
+    } else if (method === 8) {
+      files.set(name, inflateRawSync(data));
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return files;
+};
+
+const decodeXml = (text: string): string => {
+  return text
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+    // Characters Excel escapes in strings, e.g. _x000D_ for a carriage return
+    .replace(/_x([0-9a-f]{4})_/gi, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+};
+
+/**
+ * Text of an element holding `<t>` runs (shared and inline strings).
+ */
+const readText = (xml: string): string => {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g)).map(([, text]) => decodeXml(text)).join('');
+};
+
+const readAttribute = (attributes: string, name: string): string | undefined => {
+  return attributes.match(new RegExp(`\\b${name}="([^"]*)"`))?.[1];
+};
+
+/**
+ * Zero-based column of a cell reference, e.g. "AB12" -> 27.
+ */
+const columnIndex = (reference: string): number => {
+  const letters = reference.match(/^[A-Z]+/)?.[0] || 'A';
+  return Array.from(letters).reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+};
+
+/**
+ * Path of the first worksheet, from the workbook and its relationships.
+ */
+const firstSheetPath = (files: Map<string, Buffer>): string => {
+  const workbook = files.get('xl/workbook.xml')?.toString('utf8') || '';
+  const relations = files.get('xl/_rels/workbook.xml.rels')?.toString('utf8') || '';
+  const sheet = workbook.match(/<sheet\b([^>]*)\/?>/);
+  const relationId = sheet ? readAttribute(sheet[1], 'r:id') : undefined;
+  const relation = Array.from(relations.matchAll(/<Relationship\b([^>]*)\/?>/g))
+    .map(([, attributes]) => attributes)
+    .find(attributes => readAttribute(attributes, 'Id') === relationId);
+  const target = relation ? readAttribute(relation, 'Target') : undefined;
+  if (!target) {
+    return 'xl/worksheets/sheet1.xml';
+  }
+  return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+};
+
+/**
+ * Reads the first worksheet of an XLSX file.
+ */
+export const readXlsx = (buffer: Buffer): Rows => {
+  const files = readZip(buffer);
+  const path = firstSheetPath(files);
+  const sheet = files.get(path)?.toString('utf8');
+  if (sheet === undefined) {
+    throw new SpreadsheetError(`Worksheet ${path} not found in the XLSX file`);
+  }
+  const sharedStrings = Array.from((files.get('xl/sharedStrings.xml')?.toString('utf8') || '').matchAll(/<si>([\s\S]*?)<\/si>/g))
+    .map(([, item]) => readText(item));
+
+  const rows: Rows = [];
+  Array.from(sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)).forEach(([, rowAttributes, content], position) => {
+    const rowNumber = Number(readAttribute(rowAttributes, 'r')) || position + 1;
+    const row: string[] = [];
+    Array.from((content || '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)).forEach(([, attributes, cell], column) => {
+      const reference = readAttribute(attributes, 'r');
+      const index = reference ? columnIndex(reference) : column;
+      const type = readAttribute(attributes, 't');
+      const value = (cell || '').match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      let text = '';
+      if (type === 's') {
+        text = sharedStrings[Number(value)] ?? '';
+      } else if (type === 'inlineStr') {
+        text = readText(cell || '');
+      } else if (value !== undefined) {
+        text = decodeXml(value);
+      }
+      while (row.length < index) row.push('');
+      row[index] = text;
+    });
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = row;
+  });
+  return rows;
+};
+
+/**
+ * Reads a spreadsheet, as XLSX when the name ends with .xlsx and CSV otherwise.
+ */
+export const readSpreadsheet = (fileName: string, content: Buffer): Rows => {
+  return /\.xlsx$/i.test(fileName) ? readXlsx(content) : parseCsv(content.toString('utf8'));
+};
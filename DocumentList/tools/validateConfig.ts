@@ -0,0 +1,90 @@
+/**
+ * Validates the document checklist configuration and prints a report.
+ * Exits with a non-zero code when errors are found.
+ *
+ * Usage: npm run validate
+ */
+
+import { readFileSync } from 'fs';
+import { join, relative } from 'path';
+
+import { formatReport, validateConfig } from './configValidation';
+import { deriveProperties, GENERATED_MODULE_PATH, PROPERTY_OPTIONS_PATH, renderPropertiesModule } from './properties';
+import { readWebhookSettings, renderWebhooks, WEBHOOKS_PATH } from './webhooks';
+
+const ROOT_DIR = join(__dirname, '..');
+const APP_DIR = join(ROOT_DIR, 'src', 'app');
+
+const CONFIG_FILES = {
+  documents: join(APP_DIR, 'extensions', 'documents.json'),
+  tabs: join(APP_DIR, 'extensions', 'tabs.json'),
+  emailTemplate: join(APP_DIR, 'extensions', 'email.json'),
+  reminderSchedule: join(APP_DIR, 'extensions', 'reminders.json'),
+  stateMachine: join(APP_DIR, 'extensions', 'states.json'),
+  propertyOptions: join(ROOT_DIR, PROPERTY_OPTIONS_PATH),
+  generatedProperties: join(ROOT_DIR, GENERATED_MODULE_PATH),
+  webhooks: join(ROOT_DIR, WEBHOOKS_PATH),
+};
+
+const readJson = (file: string): unknown => {
+  try {
+    return JSON.parse(readFileSync(file, 'utf8'));
+  } catch (err) {
+    console.error(`❌ Could not read ${relative(APP_DIR, file)}: ${(err as Error).message}`);
+    process.exit(1);
+  }
+};
+
+const documents = readJson(CONFIG_FILES.documents);
+
+let webhooksContent = '';
+try {
+  webhooksContent = readFileSync(CONFIG_FILES.webhooks, 'utf8');
+} catch (err) {
+  // Reported below
+}
+const webhooksLabel = relative(APP_DIR, CONFIG_FILES.webhooks);
+const webhookSettings = readWebhookSettings(webhooksContent);
+
+// The generated module is compared as text so a stale file is reported without loading it
+const generatedLabel = relative(APP_DIR, CONFIG_FILES.generatedProperties);
+const derived = Array.isArray(documents) ? deriveProperties(documents) : null;
+
+const report = validateConfig({
+  documents,
+  tabs: readJson(CONFIG_FILES.tabs),
+  emailTemplate: readJson(CONFIG_FILES.emailTemplate),
+  reminderSchedule: readJson(CONFIG_FILES.reminderSchedule),
+  stateMachine: readJson(CONFIG_FILES.stateMachine),
+  webhookTargetUrl: webhookSettings.targetUrl,
+  propertyOptions: readJson(CONFIG_FILES.propertyOptions),
+  conditionalProperties: derived ? { [generatedLabel]: derived.conditionalProperties } : {},
+});
+
+let generatedContent = '';
+try {
+  generatedContent = readFileSync(CONFIG_FILES.generatedProperties, 'utf8');
+} catch (err) {
+  // Reported below
+}
+if (derived && generatedContent !== renderPropertiesModule(derived)) {
+  report.issues.push({
+    severity: 'error',
+    source: generatedLabel,
+    message: 'Out of date with documents.json, run "npm run generate"',
+  });
+}
+
+if (derived && webhooksContent !== renderWebhooks(derived.conditionalProperties, webhookSettings)) {
+  report.issues.push({
+    severity: 'error',
+    source: webhooksLabel,
+    message: 'Subscriptions out of date with documents.json, run "npm run generate"',
+  });
+}
+
+console.log(formatReport(report));
+
+if (report.issues.some(issue => issue.severity === 'error')) {
+  process.exit(1);
+}
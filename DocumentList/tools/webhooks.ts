@@ -0,0 +1,98 @@
+/**
+ * Renders webhooks.json: one propertyChange subscription on the dossier object
+ * per conditional property, so a changed answer recomputes the checklist.
+ */
+
+export const WEBHOOKS_PATH = 'src/app/webhooks/webhooks.json';
+
+/**
+ * Object the subscriptions watch.
+ */
+export const DOSSIER_OBJECT_NAME = 'p_dossier_juridique';
+
+/**
+ * Endpoint path of recomputeOnWebhook in serverless.json.
+ */
+export const RECOMPUTE_ENDPOINT_PATH = 'dossier-recompute';
+
+/**
+ * URL of the HubSpot project template. The events carry the questionnaire
+ * answers, so it is never kept: the target URL is left empty until
+ * WEBHOOK_TARGET_URL gives the public URL of the recomputeOnWebhook endpoint
+ * (/hs/serverless/dossier-recompute on the account's domain).
+ */
+export const TEMPLATE_TARGET_URL = 'https://example.com/webhook';
+
+export interface WebhookSettings {
+  targetUrl: string;
+  maxConcurrentRequests: number;
+}
+
+export const DEFAULT_WEBHOOK_SETTINGS: WebhookSettings = {
+  targetUrl: '',
+  maxConcurrentRequests: 10,
+};
+
+/**
+ * Why a target URL cannot receive the subscriptions, null when it is the
+ * https URL of the recomputeOnWebhook endpoint.
+ */
+export const checkWebhookTargetUrl = (targetUrl: string): string | null => {
+  if (targetUrl === '') {
+    return 'targetUrl is not set, regenerate with WEBHOOK_TARGET_URL set to the recomputeOnWebhook endpoint';
+  }
+  if (targetUrl === TEMPLATE_TARGET_URL) {
+    return 'targetUrl is the template placeholder, regenerate with WEBHOOK_TARGET_URL set to the recomputeOnWebhook endpoint';
+  }
+  let url: URL;
+  try {
+    url = new URL(targetUrl);
+  } catch (err) {
+    return `targetUrl is not a URL: ${targetUrl}`;
+  }
+  if (url.protocol !== 'https:' || !url.pathname.endsWith(`/${RECOMPUTE_ENDPOINT_PATH}`)) {
+    return `targetUrl must be the https URL of the ${RECOMPUTE_ENDPOINT_PATH} endpoint: ${targetUrl}`;
+  }
+  return null;
+};
+
+/**
+ * Renders webhooks.json. Output is deterministic for a given property list and settings.
+ */
+export const renderWebhooks = (conditionalProperties: readonly string[], settings: WebhookSettings): string => {
+  const config = {
+    settings: {
+      targetUrl: settings.targetUrl,
+      maxConcurrentRequests: settings.maxConcurrentRequests,
+    },
+    subscriptions: {
+      crmObjects: conditionalProperties.map(propertyName => ({
+        subscriptionType: 'object.propertyChange',
+        objectName: DOSSIER_OBJECT_NAME,
+        propertyName,
+        active: true,
+      })),
+    },
+  };
+  return `${JSON.stringify(config, null, 2)}\n`;
+};
+
+/**
+ * Settings of an existing webhooks.json, so regenerating keeps the deployed
+ * target URL. The template placeholder is dropped.
+ */
+export const readWebhookSettings = (content: string): WebhookSettings => {
+  try {
+    const settings = JSON.parse(content)?.settings || {};
+    return {
+      targetUrl: typeof settings.targetUrl === 'string' && settings.targetUrl !== TEMPLATE_TARGET_URL
+        ? settings.targetUrl
+        : DEFAULT_WEBHOOK_SETTINGS.targetUrl,
+      maxConcurrentRequests: typeof settings.maxConcurrentRequests === 'number'
+        ? settings.maxConcurrentRequests
+        : DEFAULT_WEBHOOK_SETTINGS.maxConcurrentRequests,
+    };
+  } catch (err) {
+    return { ...DEFAULT_WEBHOOK_SETTINGS };
+  }
+};